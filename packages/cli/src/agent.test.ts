@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { StreamProvider } from './providers/types.js';
+
+let finishRun: () => void = () => { };
+
+vi.mock('./providers/registry.js', async (importOriginal) => {
+    const original = await importOriginal<typeof import('./providers/registry.js')>();
+    const provider: StreamProvider = {
+        streamResponse: () => new Promise((resolve) => {
+            finishRun = () => resolve([{ role: 'assistant', content: 'Made the title bold.' }]);
+        }),
+        complete: async () => '',
+    };
+    return { ...original, resolveProvider: (_modelId: string, modelProvider: string) => ({ provider, modelProvider }) };
+});
+
+import { createAgentRoute } from './agent.js';
+import { initThreads, getCurrentThread } from './threads.js';
+import { getSessionState } from './session.js';
+import { addToHistory, flushHistory } from './sse.js';
+import { initUndoHistory, startUndoSession, endUndoSession } from './undo.js';
+
+describe('chat route', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-agent-'));
+        initThreads(projectCwd);
+    });
+
+    afterEach(() => {
+        flushHistory();
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    async function chat(app: ReturnType<typeof createAgentRoute>) {
+        const res = await app.request('/api/chat', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ prompt: 'Make the title bold', model: 'test-model', modelProvider: 'anthropic' }),
+        });
+        expect(res.status).toBe(200);
+        // Let the fire-and-forget run start
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    async function finish() {
+        finishRun();
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    it('keeps the finished run in the session of its thread', async () => {
+        const app = createAgentRoute(projectCwd, 3000);
+        await chat(app);
+        await finish();
+
+        expect(getSessionState()?.messages.map(m => m.role)).toEqual(['user', 'assistant']);
+    });
+
+    it('drops a run that finishes after its thread was left', async () => {
+        const app = createAgentRoute(projectCwd, 3000);
+        const first = getCurrentThread()!;
+        await chat(app);
+        await finish();
+
+        await app.request('/api/threads', { method: 'POST' });
+        await chat(app);
+        const res = await app.request(`/api/threads/${first.id}/switch`, { method: 'POST' });
+        expect(res.status).toBe(200);
+        await finish();
+
+        expect(getSessionState()?.messages.map(m => m.role)).toEqual(['user', 'assistant']);
+    });
+
+    it('asks before a fork reverts files changed since by hand', async () => {
+        const app = createAgentRoute(projectCwd, 3000);
+        const page = join(projectCwd, 'page.tsx');
+        writeFileSync(page, 'before');
+        initUndoHistory(projectCwd);
+        const sessionId = startUndoSession(projectCwd, 'Make it bold');
+        writeFileSync(page, 'after');
+        endUndoSession();
+        addToHistory('user', JSON.stringify({ type: 'user', text: 'Make it bold' }), 'u1');
+        addToHistory('result', JSON.stringify({ type: 'result', subtype: 'success', undo_session_id: sessionId }));
+        writeFileSync(page, 'edited by hand');
+        const thread = getCurrentThread()!;
+
+        const fork = (force: boolean) => app.request('/api/threads/fork', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ messageId: 'u1', revertChanges: true, force }),
+        });
+
+        const refused = await fork(false);
+        expect(refused.status).toBe(409);
+        expect(await refused.json()).toMatchObject({ success: false, conflicts: [{ file: 'page.tsx', sessionIds: [] }] });
+        expect(getCurrentThread()!.id).toBe(thread.id);
+        expect(readFileSync(page, 'utf-8')).toBe('edited by hand');
+
+        const forced = await fork(true);
+        expect(await forced.json()).toMatchObject({ success: true, reverted: ['page.tsx'] });
+        expect(getCurrentThread()!.id).not.toBe(thread.id);
+        expect(readFileSync(page, 'utf-8')).toBe('before');
+    });
+});
@@ -2,13 +2,21 @@ import { Hono } from 'hono';
 import { streamSSE } from 'hono/streaming';
 import { EventEmitter } from 'node:events';
 import { z } from 'zod';
-import { addToHistory, getHistory, clearHistory } from './sse.js';
+import { addToHistory, getHistory, clearHistory, writeSSEEvent, type ChatMessage } from './sse.js';
 import { getProviderCatalog } from './providers/registry.js';
-import { getOrCreateSession, getSessionMessages, appendUserMessage, appendResponseMessages, resetSession } from './session.js';
+import { MAX_STEPS_LIMIT } from './providers/limits.js';
+import { getSettings } from './settings.js';
+import { getOrCreateSession, getSessionMessages, appendUserMessage, appendResponseMessages, resetSession, compactSession, getSessionTokenEstimate, getSessionState } from './session.js';
+import { listThreads, getCurrentThread, createThread, forkThread, switchThread, renameThread, deleteThread, touchCurrentThread, DEFAULT_THREAD_NAME } from './threads.js';
+import { findForkPoint } from './fork.js';
+import { detectRevertSessionsConflicts, revertSessions } from './undo.js';
+import { parseCompactCommand, getAutoCompactThreshold, type CompactTrigger } from './compaction.js';
 import { getActivePlan, approvePlan } from './plan-store.js';
-import { resolveConfirmation, setAutoApprove, resetAutoApprove, approveAllPending } from './confirm-store.js';
+import { resolveConfirmation, setAutoApprove, resetAutoApprove, approveAllPending, getPendingPermissionRequest } from './confirm-store.js';
+import { addPermissionRule, buildAllowRule } from './permissions.js';
 import type { AutoApproveCategory } from './confirm-store.js';
 import { restartDevServer, getDevServerStatus } from './subprocess.js';
+import { getDevServerLogs, devServerLogBus, type DevServerLogEntry, type DevServerLogLevel } from './dev-server-logs.js';
 import { readMemories, deleteMemory } from './memory.js';
 import type { Context } from 'hono';
 import type { SSEStreamingApi } from 'hono/streaming';
@@ -37,6 +45,8 @@ const ConsoleEntrySchema = z.object({
     })).optional(),
     stack: z.string().optional(),
     count: z.number(),
+    /** Entries from the dev server's Server tab; browser console otherwise */
+    origin: z.enum(['browser', 'server']).optional(),
 });
 
 const PageContextSchema = z.object({
@@ -53,6 +63,7 @@ const ChatRequestSchema = z.object({
     images: z.array(z.string()).optional(),
     pageContext: PageContextSchema.optional(),
     language: z.string().optional(),
+    maxSteps: z.number().int().min(1).max(MAX_STEPS_LIMIT).optional(),
 });
 
 type ConsoleEntryInput = z.infer<typeof ConsoleEntrySchema>;
@@ -61,9 +72,18 @@ type PageContextInput = z.infer<typeof PageContextSchema>;
 /**
  * Formats console entries into a context block for the LLM prompt.
  */
-function formatConsoleContext(entries: ConsoleEntryInput[]): string | null {
+export function formatConsoleContext(entries: ConsoleEntryInput[]): string | null {
     if (entries.length === 0) return null;
 
+    const browser = entries.filter(e => e.origin !== 'server');
+    const server = entries.filter(e => e.origin === 'server');
+    let context = '';
+    if (browser.length > 0) context += '[Browser Console Errors]\n\n' + formatEntries(browser) + '\n\n';
+    if (server.length > 0) context += '[Dev Server Errors]\n\n' + formatEntries(server) + '\n\n';
+    return context;
+}
+
+function formatEntries(entries: ConsoleEntryInput[]): string {
     const parts = entries.map(entry => {
         const lines = [`[${entry.level}] ${entry.message}`];
         if (entry.sourceTrace && entry.sourceTrace.length > 0) {
@@ -86,13 +106,13 @@ function formatConsoleContext(entries: ConsoleEntryInput[]): string | null {
         return lines.join('\n');
     });
 
-    return '[Browser Console Errors]\n\n' + parts.join('\n\n') + '\n\n';
+    return parts.join('\n\n');
 }
 
 /**
  * Formats page context into a context block for the LLM prompt.
  */
-function formatPageContext(ctx: PageContextInput): string {
+export function formatPageContext(ctx: PageContextInput): string {
     const lines = ['[Page Context]'];
     lines.push(`URL: ${ctx.url}`);
     if (ctx.title) lines.push(`Title: ${ctx.title}`);
@@ -100,9 +120,51 @@ function formatPageContext(ctx: PageContextInput): string {
     return lines.join('\n') + '\n\n';
 }
 
+/**
+ * Compacts the session and reports it as a compact_boundary message.
+ * Returns false when there was nothing to compact.
+ */
+async function runCompaction(
+    stream: SSEStreamingApi,
+    projectCwd: string,
+    trigger: CompactTrigger,
+    instructions?: string,
+): Promise<boolean> {
+    await writeSSEEvent(stream, 'status', { type: 'status', message: 'Compacting conversation...' });
+    const result = await compactSession(projectCwd, { trigger, instructions });
+    if (!result) return false;
+
+    const data = JSON.stringify({
+        type: 'system',
+        subtype: 'compact_boundary',
+        compact_metadata: { trigger, pre_tokens: result.preTokens, post_tokens: result.postTokens },
+    });
+    addToHistory('message', data);
+    await stream.writeSSE({ event: 'message', data });
+    return true;
+}
+
 /**
  * Sets standard SSE headers on the response
  */
+/**
+ * Undo sessions of the runs in a stretch of chat history, from the
+ * `undo_session_id` of their result events.
+ */
+function getUndoSessionIds(history: ChatMessage[]): string[] {
+    const ids: string[] = [];
+    for (const message of history) {
+        if (message.eventType !== 'result') continue;
+        try {
+            const id = JSON.parse(message.data).undo_session_id;
+            if (typeof id === 'string') ids.push(id);
+        } catch {
+            // Malformed entry — no session to revert
+        }
+    }
+    return ids;
+}
+
 function setSSEHeaders(c: Context) {
     c.header('Content-Type', 'text/event-stream');
     c.header('Cache-Control', 'no-cache');
@@ -120,7 +182,7 @@ export function createAgentRoute(projectCwd: string, targetPort: number, isFresh
     // ─── Model Catalog ───────────────────────────────────────
 
     agent.get('/api/models', (c) => {
-        return c.json({ providers: getProviderCatalog() });
+        return c.json({ providers: getProviderCatalog(projectCwd) });
     });
 
     // ─── Chat (trigger LLM) ─────────────────────────────────
@@ -139,8 +201,9 @@ export function createAgentRoute(projectCwd: string, targetPort: number, isFresh
             return c.json({ success: false, error: message }, 400);
         }
 
-        const { prompt, model, modelProvider, consoleEntries, images, pageContext, language } = parsed.data;
-        const modelId = model ?? DEFAULT_MODEL;
+        const { prompt, model, modelProvider, consoleEntries, images, pageContext, language, maxSteps } = parsed.data;
+        const modelId = model ?? getSettings(projectCwd).model?.id ?? DEFAULT_MODEL;
+        const compactCommand = parseCompactCommand(prompt);
 
         // Prepend context blocks to the prompt
         let augmentedPrompt = prompt;
@@ -178,19 +241,69 @@ export function createAgentRoute(projectCwd: string, targetPort: number, isFresh
             },
         } as unknown as SSEStreamingApi;
 
+        const finish = () => {
+            if (activeStreamAbort === abortController) {
+                activeStreamAbort = null;
+            }
+            if (!signal.aborted) {
+                streamBus.emit('end');
+            }
+        };
+
         try {
             const { provider } = getOrCreateSession(modelId, modelProvider);
-            const messages = getSessionMessages(userContent);
+
+            // `/compact` summarizes the conversation instead of prompting the agent
+            if (compactCommand) {
+                runCompaction(adapter, projectCwd, 'manual', compactCommand.instructions)
+                    .then(async (compacted) => {
+                        if (!compacted) {
+                            await writeSSEEvent(adapter, 'error', { type: 'error', message: 'Nothing to compact yet.' });
+                        }
+                    })
+                    .catch(async (err) => {
+                        const msg = err instanceof Error ? err.message : String(err);
+                        await writeSSEEvent(adapter, 'error', { type: 'error', message: `Compaction failed: ${msg}` });
+                    })
+                    .finally(async () => {
+                        await writeSSEEvent(adapter, 'done', { type: 'done', message: 'Compaction completed' });
+                        finish();
+                    });
+                return c.json({ success: true });
+            }
+
+            // Changing threads aborts the run; whatever it still returns
+            // belongs to the thread it started in, not the new current one
+            const threadId = getCurrentThread()?.id;
+
+            const run = async () => {
+                // Summarize older turns before the history outgrows the context window
+                const threshold = getAutoCompactThreshold();
+                if (threshold > 0 && getSessionTokenEstimate() > threshold) {
+                    try {
+                        await runCompaction(adapter, projectCwd, 'auto');
+                    } catch (err) {
+                        // Continue with the full history rather than failing the request
+                        const msg = err instanceof Error ? err.message : String(err);
+                        console.error(`[awel] auto-compaction failed: ${msg}`);
+                    }
+                }
+                if (signal.aborted) return [];
+                const messages = getSessionMessages(userContent);
+                return provider.streamResponse(adapter, messages, { projectCwd, targetPort, signal, creationMode: isFresh?.(), language, maxSteps });
+            };
 
             // Fire and forget — events flow through the bus to connected SSE clients.
             // NOTE: appendUserMessage is deferred until we have response messages.
             // Appending eagerly would leave orphan user messages in the session when
             // the stream is aborted or paused for user input, causing consecutive
             // user messages that trigger API 400 errors (especially with Anthropic).
-            provider.streamResponse(adapter, messages, { projectCwd, targetPort, signal, creationMode: isFresh?.(), language })
+            run()
                 .then((responseMessages) => {
+                    if (getCurrentThread()?.id !== threadId) return;
                     if (responseMessages.length > 0) {
-                        appendUserMessage(userContent);
+                        const history = getHistory();
+                        appendUserMessage(userContent, history[history.length - 1]?.id);
                         appendResponseMessages(responseMessages);
                     }
                 })
@@ -201,14 +314,7 @@ export function createAgentRoute(projectCwd: string, targetPort: number, isFresh
                     const msg = err instanceof Error ? err.message : String(err);
                     console.error(`[awel] streamResponse rejected: ${msg}`);
                 })
-                .finally(() => {
-                    if (activeStreamAbort === abortController) {
-                        activeStreamAbort = null;
-                    }
-                    if (!signal.aborted) {
-                        streamBus.emit('end');
-                    }
-                });
+                .finally(finish);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             return c.json({ success: false, error: errorMessage }, 500);
@@ -279,7 +385,11 @@ export function createAgentRoute(projectCwd: string, targetPort: number, isFresh
         try {
             const body = await c.req.json();
             if (body.eventType && body.data) {
-                addToHistory(body.eventType, body.data);
+                const id = typeof body.id === 'string' && body.id.length <= 64 ? body.id : undefined;
+                addToHistory(body.eventType, body.data, id);
+                if (body.eventType === 'user') {
+                    touchCurrentThread(JSON.parse(body.data).text);
+                }
                 return c.json({ success: true });
             }
             return c.json({ success: false, error: 'Missing eventType or data' }, 400);
@@ -288,14 +398,121 @@ export function createAgentRoute(projectCwd: string, targetPort: number, isFresh
         }
     });
 
-    // Clear chat history
+    // Clear chat history of the current thread
     agent.delete('/api/chat/history', (c) => {
         clearHistory();
         resetSession();
         resetAutoApprove();
+        const thread = getCurrentThread();
+        if (thread) renameThread(thread.id, DEFAULT_THREAD_NAME);
         return c.json({ success: true });
     });
 
+    // ─── Threads API ─────────────────────────────────────────
+    // /api/chat/history and the session always refer to the current thread.
+    // Changing threads cancels any in-flight stream, which belongs to the old one.
+
+    const leaveCurrentThread = () => {
+        activeStreamAbort?.abort();
+        activeStreamAbort = null;
+        resetAutoApprove();
+    };
+
+    agent.get('/api/threads', (c) => {
+        return c.json(listThreads());
+    });
+
+    agent.post('/api/threads', async (c) => {
+        let name: string | undefined;
+        try {
+            const body = await c.req.json();
+            if (typeof body?.name === 'string') name = body.name;
+        } catch {
+            // No body — use the default name
+        }
+        leaveCurrentThread();
+        const thread = createThread(name);
+        if (!thread) return c.json({ success: false, error: 'Threads are not initialized' }, 500);
+        return c.json({ success: true, thread });
+    });
+
+    // Branch the current thread just before one of its user messages. The
+    // dashboard then resends the (edited) message in the new thread.
+    // `revertChanges` also undoes the file changes of this thread's runs
+    // after that message; when other changes were made to those files since,
+    // the conflicts are returned and nothing happens until `force` is set.
+    agent.post('/api/threads/fork', async (c) => {
+        let body: { messageId?: unknown; revertChanges?: unknown; force?: unknown };
+        try {
+            body = await c.req.json();
+        } catch {
+            return c.json({ success: false, error: 'Invalid JSON' }, 400);
+        }
+        if (typeof body?.messageId !== 'string') {
+            return c.json({ success: false, error: 'Missing messageId' }, 400);
+        }
+        if (!getCurrentThread()) {
+            return c.json({ success: false, error: 'Threads are not initialized' }, 500);
+        }
+
+        const history = getHistory();
+        const session = getSessionState();
+        const point = findForkPoint(history, session?.messages ?? [], body.messageId);
+        if (!point.success) {
+            return c.json(point, point.error === 'Message not found' ? 404 : 409);
+        }
+
+        const sessionIds = body.revertChanges === true ? getUndoSessionIds(history.slice(point.historyLength)) : [];
+        if (sessionIds.length > 0 && body.force !== true) {
+            const conflicts = detectRevertSessionsConflicts(projectCwd, sessionIds);
+            if (conflicts.length > 0) {
+                return c.json({ success: false, error: 'These files were changed by other runs or by hand', conflicts }, 409);
+            }
+        }
+
+        leaveCurrentThread();
+        const reverted = revertSessions(projectCwd, sessionIds);
+        const thread = forkThread(
+            history.slice(0, point.historyLength),
+            session && { ...session, messages: session.messages.slice(0, point.sessionLength) },
+        );
+        if (!thread) return c.json({ success: false, error: 'Threads are not initialized' }, 500);
+        return c.json({ success: true, thread, text: point.text, reverted });
+    });
+
+    agent.patch('/api/threads/:id', async (c) => {
+        let name: unknown;
+        try {
+            name = (await c.req.json())?.name;
+        } catch {
+            return c.json({ success: false, error: 'Invalid JSON' }, 400);
+        }
+        if (typeof name !== 'string') {
+            return c.json({ success: false, error: 'Missing name' }, 400);
+        }
+        const thread = renameThread(c.req.param('id'), name);
+        if (!thread) return c.json({ success: false, error: 'Thread not found' }, 404);
+        return c.json({ success: true, thread });
+    });
+
+    agent.post('/api/threads/:id/switch', (c) => {
+        const id = c.req.param('id');
+        if (getCurrentThread()?.id !== id) leaveCurrentThread();
+        if (!switchThread(id)) {
+            return c.json({ success: false, error: 'Thread not found' }, 404);
+        }
+        return c.json({ success: true, currentThreadId: id });
+    });
+
+    agent.delete('/api/threads/:id', (c) => {
+        const id = c.req.param('id');
+        if (getCurrentThread()?.id === id) leaveCurrentThread();
+        if (!deleteThread(id)) {
+            return c.json({ success: false, error: 'Thread not found' }, 404);
+        }
+        return c.json({ success: true, ...listThreads() });
+    });
+
     // ─── Plan API ────────────────────────────────────────────
 
     agent.get('/api/plan/active', (c) => {
@@ -339,14 +556,22 @@ export function createAgentRoute(projectCwd: string, targetPort: number, isFresh
         } catch {
             return c.json({ success: false, error: 'Invalid JSON' }, 400);
         }
-        const { confirmId, approved, allowAll, category } = body as {
+        const { confirmId, approved, allowAll, alwaysAllow, category } = body as {
             confirmId?: string; approved?: boolean; allowAll?: boolean;
-            category?: AutoApproveCategory;
+            alwaysAllow?: boolean; category?: AutoApproveCategory;
         };
         if (!confirmId || typeof approved !== 'boolean') {
             return c.json({ success: false, error: 'Missing confirmId or approved' }, 400);
         }
 
+        // "Always allow" saves a rule to .awel/permissions.json before approving
+        let rule = null;
+        const permission = approved && alwaysAllow ? getPendingPermissionRequest(confirmId) : undefined;
+        if (permission) {
+            rule = buildAllowRule(projectCwd, permission);
+            addPermissionRule(projectCwd, rule);
+        }
+
         // Resolve the clicked confirmation first
         const resolved = resolveConfirmation(confirmId, approved);
 
@@ -357,7 +582,7 @@ export function createAgentRoute(projectCwd: string, targetPort: number, isFresh
             alsoApproved = approveAllPending();
         }
 
-        return c.json({ success: resolved, alsoApproved });
+        return c.json({ success: resolved, alsoApproved, rule });
     });
 
     // ─── Dev Server Management ──────────────────────────────
@@ -371,6 +596,35 @@ export function createAgentRoute(projectCwd: string, targetPort: number, isFresh
         return c.json(getDevServerStatus());
     });
 
+    // Recent dev server output, then each new or updated entry as it arrives
+    agent.get('/api/dev-server/logs', (c) => {
+        setSSEHeaders(c);
+        const levelParam = c.req.query('level');
+        const level: DevServerLogLevel = levelParam === 'error' || levelParam === 'warning' ? levelParam : 'info';
+        const levels: DevServerLogLevel[] = level === 'error' ? ['error'] : level === 'warning' ? ['error', 'warning'] : ['error', 'warning', 'info'];
+
+        return streamSSE(c, async (stream) => {
+            await stream.writeSSE({ event: 'snapshot', data: JSON.stringify({ entries: getDevServerLogs({ level }) }) });
+
+            await new Promise<void>((resolve) => {
+                const onEntry = async (entry: DevServerLogEntry) => {
+                    if (!levels.includes(entry.level)) return;
+                    try {
+                        await stream.writeSSE({ event: 'entry', data: JSON.stringify(entry) });
+                    } catch {
+                        cleanup();
+                    }
+                };
+                const cleanup = () => {
+                    devServerLogBus.off('entry', onEntry);
+                    resolve();
+                };
+                stream.onAbort(() => cleanup());
+                devServerLogBus.on('entry', onEntry);
+            });
+        });
+    });
+
     // ─── Project Info ───────────────────────────────────────
 
     agent.get('/api/project-info', (c) => {
@@ -1,5 +1,75 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import type { ModelPricing } from './providers/pricing.js';
+
+/** An MCP server launched as a subprocess and spoken to over stdio. */
+export interface McpStdioServerConfig {
+    command: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+}
+
+/** An MCP server reached over streamable HTTP. */
+export interface McpHttpServerConfig {
+    url: string;
+    headers?: Record<string, string>;
+}
+
+export type McpServerConfig = (McpStdioServerConfig | McpHttpServerConfig) & {
+    disabled?: boolean;
+    /** Ask before each tool call (default: true) */
+    confirm?: boolean;
+};
+
+/** Where the file tools may read and write besides the project root. */
+export interface FileAccessConfig {
+    /** Extra directories file tools may access (absolute, ~/ or relative to the project) */
+    allowedRoots?: string[];
+    /** Secret files (.env*, keys) the agent may read, by name or project path; `*` matches any text */
+    allowSecretFiles?: string[];
+}
+
+/**
+ * An OpenAI-compatible endpoint (Ollama, vLLM, LM Studio, ...) listed in
+ * the model selector as `custom:<key>`.
+ */
+export interface CustomProviderConfig {
+    /** Display name (defaults to the key) */
+    name?: string;
+    /** Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+    baseURL: string;
+    /** Environment variable holding the API key; local servers usually need none */
+    apiKeyEnv?: string;
+    /** Extra HTTP headers sent with every request */
+    headers?: Record<string, string>;
+    models: (string | { id: string; label?: string })[];
+    /** Defaults: vision false, toolCalling true */
+    capabilities?: { vision?: boolean; toolCalling?: boolean };
+}
+
+/** Spending caps in USD; a run stops once one of them is reached. */
+export interface UsageBudgetConfig {
+    /** Per chat thread */
+    sessionUsd?: number;
+    /** Per calendar day, across threads */
+    dailyUsd?: number;
+}
+
+/** How failed model calls are retried before falling back to another model. */
+export interface RetryConfig {
+    /** Retries of the same model on rate limits, overload and server errors (default: 2) */
+    maxRetries?: number;
+    /** Delay before the first retry, doubled for each further one (default: 2000) */
+    initialDelayMs?: number;
+}
+
+/** A model tried when the selected one keeps failing. */
+export interface FallbackModelConfig {
+    /** Provider id as in the model selector, e.g. openrouter or custom:ollama */
+    provider: string;
+    model: string;
+}
 
 export interface AwelConfig {
     babelPlugin?: boolean;
@@ -7,6 +77,18 @@ export interface AwelConfig {
     fresh?: boolean;
     createdAt?: string;
     skillsInstalled?: boolean;
+    mcpServers?: Record<string, McpServerConfig>;
+    fileAccess?: FileAccessConfig;
+    budget?: UsageBudgetConfig;
+    /** User-defined providers, by key */
+    providers?: Record<string, CustomProviderConfig>;
+    /** USD per million tokens, by model id; overrides the built-in prices */
+    pricing?: Record<string, ModelPricing>;
+    /** Steps the agent may take per request (default: 25, at most 100) */
+    maxSteps?: number;
+    retry?: RetryConfig;
+    /** Tried in order once the selected model's retries are used up */
+    fallbackModels?: FallbackModelConfig[];
 }
 
 export function readAwelConfig(projectCwd: string): AwelConfig {
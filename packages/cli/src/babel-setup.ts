@@ -130,31 +130,22 @@ function createBabelConfig(projectCwd: string): void {
     writeFileSync(join(projectCwd, 'babel.config.js'), configContent, 'utf-8');
 }
 
-export async function ensureBabelPlugin(projectCwd: string): Promise<void> {
-    const pluginPath = getPluginPath();
-    const existing = findExistingBabelConfig(projectCwd);
-
-    if (existing) {
-        // Config exists — check if the awel plugin is already referenced
-        const configPath = existing === 'package.json'
-            ? join(projectCwd, 'package.json')
-            : join(projectCwd, existing);
-        const content = readFileSync(configPath, 'utf-8');
-        if (content.includes('awel-source')) return;
-
-        console.log(`[Awel] Babel config found (${existing}) but Awel source plugin is not configured.`);
-        console.log(`       Add this to your plugins array:`);
-        console.log(`       require.resolve(${JSON.stringify(pluginPath)})`);
-        console.log(`       Inspector source mapping will use runtime fiber fallback.`);
-        return;
-    }
-
-    // No babel config exists — check stored preference
+/**
+ * Applies the source plugin setup if the user opted in — asking once and
+ * remembering the answer in .awel/config.json.
+ */
+async function ensureOptIn(
+    projectCwd: string,
+    description: string,
+    enableLabel: string,
+    apply: () => void,
+    appliedMessage: string,
+): Promise<void> {
     const config = readAwelConfig(projectCwd);
 
     if (config.babelPlugin === true) {
-        createBabelConfig(projectCwd);
-        console.log('[Awel] Created babel.config.js with source-mapping plugin (previously opted in).');
+        apply();
+        console.log(`[Awel] ${appliedMessage} (previously opted in).`);
         return;
     }
 
@@ -169,22 +160,100 @@ export async function ensureBabelPlugin(projectCwd: string): Promise<void> {
 
     const accepted = await promptSelect(
         'Inspector source mapping',
-        'The Babel plugin gives click-to-source with exact line numbers,\n' +
-        '  but replaces Next.js SWC with Babel (slower builds).\n' +
-        '  Without it, the inspector still works via React fiber detection.',
+        description,
         [
             { label: '⚡ Skip — use runtime fiber detection (no build impact)', value: false },
-            { label: '🌸 Enable — create babel.config.js (best experience, slower builds)', value: true },
+            { label: enableLabel, value: true },
         ],
     );
 
     writeAwelConfig(projectCwd, { ...config, babelPlugin: accepted });
 
     if (accepted) {
-        createBabelConfig(projectCwd);
-        console.log(`${green('✔')} Created ${cyan('babel.config.js')} with source-mapping plugin.`);
+        apply();
+        console.log(`${green('✔')} ${appliedMessage}.`);
     } else {
         console.log(`${dim('→')} Skipped Babel plugin. Inspector will use runtime fiber fallback.`);
         console.log(`  ${dim('Run with a fresh .awel/ to be asked again.')}`);
     }
 }
+
+export async function ensureBabelPlugin(projectCwd: string): Promise<void> {
+    const pluginPath = getPluginPath();
+    const existing = findExistingBabelConfig(projectCwd);
+
+    if (existing) {
+        // Config exists — check if the awel plugin is already referenced
+        const configPath = existing === 'package.json'
+            ? join(projectCwd, 'package.json')
+            : join(projectCwd, existing);
+        const content = readFileSync(configPath, 'utf-8');
+        if (content.includes('awel-source')) return;
+
+        console.log(`[Awel] Babel config found (${existing}) but Awel source plugin is not configured.`);
+        console.log(`       Add this to your plugins array:`);
+        console.log(`       require.resolve(${JSON.stringify(pluginPath)})`);
+        console.log(`       Inspector source mapping will use runtime fiber fallback.`);
+        return;
+    }
+
+    // No babel config exists — check stored preference
+    await ensureOptIn(
+        projectCwd,
+        'The Babel plugin gives click-to-source with exact line numbers,\n' +
+        '  but replaces Next.js SWC with Babel (slower builds).\n' +
+        '  Without it, the inspector still works via React fiber detection.',
+        '🌸 Enable — create babel.config.js (best experience, slower builds)',
+        () => createBabelConfig(projectCwd),
+        `Created ${cyan('babel.config.js')} with source-mapping plugin`,
+    );
+}
+
+// ─── Vite-based frameworks ───────────────────────────────────
+// Vite, Remix, React Router and Astro run JSX through @vitejs/plugin-react
+// (or @astrojs/react), which takes Babel plugins through its `babel` option.
+// Only a bare `react()` call is rewritten; anything more involved gets
+// instructions instead.
+
+const BARE_REACT_CALL = /\breact\(\s*\)/g;
+
+/**
+ * Adds the source plugin to the config's `react()` call. Returns null when
+ * the config can't be changed safely.
+ */
+export function addSourcePluginToReactCall(content: string, pluginPath: string): string | null {
+    if (content.includes('plugin-react-swc')) return null;
+    const calls = content.match(BARE_REACT_CALL);
+    if (calls?.length !== 1) return null;
+    return content.replace(BARE_REACT_CALL, `react({ babel: { plugins: [${JSON.stringify(pluginPath)}] } })`);
+}
+
+export async function ensureReactPluginSource(projectCwd: string, configFiles: string[]): Promise<void> {
+    const configFile = configFiles.find(file => existsSync(join(projectCwd, file)));
+    if (!configFile) return;
+
+    const configPath = join(projectCwd, configFile);
+    const content = readFileSync(configPath, 'utf-8');
+    if (content.includes('awel-source')) return;
+
+    const pluginPath = getPluginPath();
+    const patched = addSourcePluginToReactCall(content, pluginPath);
+    if (!patched) {
+        if (readAwelConfig(projectCwd).babelPlugin === false) return;
+        console.log(`[Awel] Awel source plugin is not configured in ${configFile}.`);
+        console.log(`       Pass it to the React plugin (the Babel one, not SWC):`);
+        console.log(`       react({ babel: { plugins: [${JSON.stringify(pluginPath)}] } })`);
+        console.log(`       Inspector source mapping will use runtime fiber fallback.`);
+        return;
+    }
+
+    await ensureOptIn(
+        projectCwd,
+        'The Babel plugin gives click-to-source with exact line numbers.\n' +
+        `  It is added to the React plugin in ${configFile} (slightly slower builds).\n` +
+        '  Without it, the inspector still works via React fiber detection.',
+        `🌸 Enable — add it to ${configFile} (best experience)`,
+        () => writeFileSync(configPath, patched, 'utf-8'),
+        `Added the source-mapping plugin to ${cyan(configFile)}`,
+    );
+}
@@ -0,0 +1,80 @@
+import { Hono } from 'hono';
+import type { BrowserConsoleEntry, BrowserPageContext, BrowserScreenshot } from './types.js';
+
+// ─── Browser Context ─────────────────────────────────────────
+// The host script mirrors what it shows the dashboard — captured console
+// errors, the current page and the latest screenshot — to the server, so
+// consumers outside the browser (the MCP server) can read them.
+
+const MAX_CONSOLE_ENTRIES = 50;
+const MAX_SCREENSHOT_BYTES = 10 * 1024 * 1024;
+
+let consoleEntries: BrowserConsoleEntry[] = [];
+let pageContext: BrowserPageContext | null = null;
+let screenshot: BrowserScreenshot | null = null;
+
+export function getConsoleEntries(): BrowserConsoleEntry[] {
+    return consoleEntries;
+}
+
+export function getPageContext(): BrowserPageContext | null {
+    return pageContext;
+}
+
+export function getLatestScreenshot(): BrowserScreenshot | null {
+    return screenshot;
+}
+
+/**
+ * Creates Hono routes the host script reports browser state to.
+ */
+export function createBrowserContextRoute() {
+    const browser = new Hono();
+
+    browser.post('/api/browser/console', async (c) => {
+        let body: { entries?: BrowserConsoleEntry[] };
+        try {
+            body = await c.req.json();
+        } catch {
+            return c.json({ success: false, error: 'Invalid JSON' }, 400);
+        }
+        if (!Array.isArray(body.entries)) {
+            return c.json({ success: false, error: 'Missing entries' }, 400);
+        }
+        consoleEntries = body.entries.slice(-MAX_CONSOLE_ENTRIES);
+        return c.json({ success: true });
+    });
+
+    browser.post('/api/browser/page-context', async (c) => {
+        let body: Partial<BrowserPageContext>;
+        try {
+            body = await c.req.json();
+        } catch {
+            return c.json({ success: false, error: 'Invalid JSON' }, 400);
+        }
+        if (typeof body.url !== 'string') {
+            return c.json({ success: false, error: 'Missing url' }, 400);
+        }
+        pageContext = { url: body.url, title: body.title ?? '', routeComponent: body.routeComponent };
+        return c.json({ success: true });
+    });
+
+    browser.post('/api/browser/screenshot', async (c) => {
+        let body: { dataUrl?: string };
+        try {
+            body = await c.req.json();
+        } catch {
+            return c.json({ success: false, error: 'Invalid JSON' }, 400);
+        }
+        if (typeof body.dataUrl !== 'string' || !body.dataUrl.startsWith('data:image/png;base64,')) {
+            return c.json({ success: false, error: 'Expected a PNG data URL' }, 400);
+        }
+        if (body.dataUrl.length > MAX_SCREENSHOT_BYTES) {
+            return c.json({ success: false, error: 'Screenshot too large' }, 413);
+        }
+        screenshot = { dataUrl: body.dataUrl, capturedAt: Date.now() };
+        return c.json({ success: true });
+    });
+
+    return browser;
+}
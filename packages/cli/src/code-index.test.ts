@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, symlinkSync, utimesSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { tmpdir } from 'os';
+import { createRequire } from 'module';
+import type * as TS from 'typescript';
+import { chunkSource, tokenize, searchCode, getRetrievalQuery, getRelatedCodeContext, startCodeIndex, resetCodeIndex } from './code-index.js';
+
+const require = createRequire(import.meta.url);
+const typescriptDir = dirname(require.resolve('typescript/package.json'));
+const ts = require('typescript') as typeof TS;
+
+const CART = [
+    'import { useState } from \'react\';',
+    '',
+    '/** Sum of the cart\'s line items */',
+    'export function useCartTotal(items: { price: number }[]) {',
+    '    return items.reduce((sum, item) => sum + item.price, 0);',
+    '}',
+    '',
+    'export const CartSummary = memo(({ total }: { total: number }) => {',
+    '    return <p>Total: {total}</p>;',
+    '});',
+    '',
+    'export type CartItem = { id: string; price: number };',
+    'const TAX_RATE = 0.2;',
+    '',
+].join('\n');
+
+describe('chunkSource', () => {
+    it('splits a file into its top-level declarations', () => {
+        const chunks = chunkSource(ts, 'src/Cart.tsx', CART);
+        expect(chunks.map(c => [c.name, c.kind, c.startLine, c.endLine])).toEqual([
+            ['useCartTotal', 'hook', 3, 6],
+            ['CartSummary', 'component', 8, 10],
+            ['CartItem', 'type', 12, 12],
+            ['TAX_RATE', 'variable', 13, 13],
+        ]);
+        expect(chunks[0].text).toMatch(/^\/\*\* Sum of the cart's line items \*\/\n/);
+    });
+
+    it('falls back to line windows without TypeScript', () => {
+        const chunks = chunkSource(null, 'src/Cart.tsx', CART);
+        expect(chunks).toEqual([expect.objectContaining({ name: 'Cart.tsx', kind: 'lines', startLine: 1, endLine: 14 })]);
+    });
+});
+
+describe('tokenize', () => {
+    it('splits identifiers into their words', () => {
+        expect(tokenize('useCartTotal parseHTMLString user_name items')).toEqual([
+            'usecarttotal', 'use', 'cart', 'total', 'parsehtmlstring', 'parse', 'html', 'string', 'user', 'name', 'item',
+        ]);
+    });
+});
+
+describe('searchCode', () => {
+    let projectCwd: string;
+
+    function write(file: string, content: string, mtime?: number) {
+        const path = join(projectCwd, file);
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, content, 'utf-8');
+        if (mtime) utimesSync(path, mtime, mtime);
+    }
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-code-index-'));
+        mkdirSync(join(projectCwd, 'node_modules'));
+        symlinkSync(typescriptDir, join(projectCwd, 'node_modules', 'typescript'), 'dir');
+        write('src/Cart.tsx', CART, 1_000);
+        write('src/auth/LoginForm.tsx', [
+            'export function LoginForm() {',
+            '    const [password, setPassword] = useState(\'\');',
+            '    return <form onSubmit={validatePassword}>{password}</form>;',
+            '}',
+            '',
+        ].join('\n'), 1_000);
+        write('dist/bundle.js', 'export function CartSummary() {}\n');
+    });
+
+    afterEach(async () => {
+        await resetCodeIndex();
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    it('ranks the matching declarations and stores the index in .awel/index', async () => {
+        const search = await searchCode(projectCwd, 'login form password');
+        expect(typeof search !== 'string' && search.results.map(r => `${r.chunk.file} ${r.chunk.name}`)).toEqual([
+            'src/auth/LoginForm.tsx LoginForm',
+        ]);
+        expect(typeof search !== 'string' && search.model).toBeNull();
+        expect(existsSync(join(projectCwd, '.awel', 'index', 'chunks.json'))).toBe(true);
+
+        const scoped = await searchCode(projectCwd, 'cart password', { path: join(projectCwd, 'src', 'auth') });
+        expect(typeof scoped !== 'string' && scoped.results.map(r => r.chunk.name)).toEqual(['LoginForm']);
+    });
+
+    it('picks up changed files on the next search', async () => {
+        await searchCode(projectCwd, 'cart');
+        write('src/auth/LoginForm.tsx', 'export function SignupForm() {\n    return null;\n}\n', 2_000);
+
+        const search = await searchCode(projectCwd, 'signup');
+        expect(typeof search !== 'string' && search.results.map(r => r.chunk.name)).toEqual(['SignupForm']);
+        const stale = await searchCode(projectCwd, 'password');
+        expect(typeof stale !== 'string' && stale.results).toEqual([]);
+    });
+
+    it('watches new directories but not ignored ones', async () => {
+        startCodeIndex(projectCwd);
+        await searchCode(projectCwd, 'cart');
+        write('src/checkout/Payment.tsx', 'export function PaymentForm() {\n    return null;\n}\n');
+        write('node_modules/pay/index.js', 'export function PaymentWidget() {}\n');
+        await new Promise(resolve => setTimeout(resolve, 1_000));
+
+        const search = await searchCode(projectCwd, 'payment');
+        expect(typeof search !== 'string' && search.results.map(r => r.chunk.name)).toEqual(['PaymentForm']);
+    });
+
+    it('adds related code only to prompts with inspector or page context', async () => {
+        expect(getRetrievalQuery('Make the cart total bold')).toBeNull();
+        expect(await getRelatedCodeContext(projectCwd, 'Make the cart total bold')).toBeNull();
+
+        const prompt = [
+            '[Inspector Context]',
+            '',
+            '## Selected Tag',
+            'Rendered HTML: <p>',
+            'IMPORTANT: The user selected this specific <p> tag.',
+            '',
+            '## Parent Component Context',
+            'Component: CartSummary',
+            'Source code around line 9:',
+            '```tsx',
+            'return <form>',
+            '```',
+            '',
+            'Make this bold',
+        ].join('\n');
+        expect(getRetrievalQuery(prompt)).toBe('Rendered HTML: <p>\n\nComponent: CartSummary\n\n\nMake this bold');
+
+        const context = await getRelatedCodeContext(projectCwd, prompt);
+        expect(context).toMatch(/^\[Related Code\]\n/);
+        expect(context).toContain('// src/Cart.tsx:8-10 (component CartSummary)\n```\nexport const CartSummary');
+        expect(context).not.toContain('LoginForm');
+    });
+});
@@ -0,0 +1,706 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, writeFileSync, watch, type FSWatcher } from 'fs';
+import { readFile, stat } from 'fs/promises';
+import { join, relative, resolve, basename, sep } from 'path';
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import fg from 'fast-glob';
+import type * as TS from 'typescript';
+import { awel } from './logger.js';
+import { getIgnoredDirs, getSettings } from './settings.js';
+import { loadTypeScript } from './language-service.js';
+
+// ─── Code Index ──────────────────────────────────────────────
+// A local search index over the project's source, stored in .awel/index/.
+// Files are split into one chunk per top-level component, function, class
+// or type with the project's TypeScript parser (fixed line windows when it
+// isn't installed), and ranked with BM25. When @huggingface/transformers
+// is installed and the embedding model is already on disk, chunks are
+// ranked by embedding similarity instead; nothing is ever downloaded.
+// Only files whose modification time changed are chunked again, and
+// `awel dev` keeps the index fresh with a file watcher.
+
+export interface CodeChunk {
+    /** Path relative to the project root */
+    file: string;
+    name: string;
+    kind: string;
+    startLine: number;
+    endLine: number;
+    text: string;
+    /** Hash of the text; embeddings are stored by it, so moved code keeps its vector */
+    hash: string;
+}
+
+export interface CodeSearchResult {
+    chunk: CodeChunk;
+    score: number;
+}
+
+export interface CodeSearch {
+    results: CodeSearchResult[];
+    /** The embedding model used, or null for BM25 */
+    model: string | null;
+    chunkCount: number;
+}
+
+interface IndexedFile {
+    mtimeMs: number;
+    size: number;
+    chunks: CodeChunk[];
+}
+
+interface StoredIndex {
+    version: number;
+    files: Record<string, IndexedFile>;
+}
+
+interface StoredEmbeddings {
+    model: string;
+    vectors: Record<string, number[]>;
+}
+
+interface Bm25 {
+    docs: { chunk: CodeChunk; tf: Map<string, number>; length: number }[];
+    df: Map<string, number>;
+    avgLength: number;
+}
+
+interface Embedder {
+    model: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+interface CodeIndex {
+    files: Map<string, IndexedFile>;
+    /** Rebuilt on the next search after files change */
+    bm25: Bm25 | null;
+    vectors: Map<string, number[]>;
+    /** Loaded on the first search; null when no local model is available */
+    embedder: Promise<Embedder | null> | null;
+    /** Refreshes run one after another; searches wait for the last one */
+    queue: Promise<void>;
+}
+
+/** The parts of @huggingface/transformers used here */
+interface Transformers {
+    env: { allowRemoteModels: boolean };
+    pipeline(task: 'feature-extraction', model: string): Promise<
+        (texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ tolist(): number[][] }>
+    >;
+}
+
+const INDEX_VERSION = 1;
+const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const SOURCE_EXT_RE = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/;
+const SKIPPED_FILE_RE = /\.d\.[mc]?ts$|\.min\.js$/;
+/** Larger files are usually generated or bundled */
+const MAX_FILE_BYTES = 256 * 1024;
+/** Longer declarations are split into parts of this many lines */
+const MAX_CHUNK_LINES = 80;
+/** Window size when a file can't be parsed into declarations */
+const WINDOW_LINES = 60;
+const EMBED_BATCH_SIZE = 16;
+/** Chunks missing a vector that a search embeds itself; more and it uses BM25 until the background pass is done */
+const MAX_INLINE_EMBEDS = 32;
+const MAX_EMBED_TEXT_LENGTH = 1500;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'for', 'from', 'if', 'in', 'is', 'it', 'of', 'on', 'or',
+    'the', 'this', 'that', 'to', 'with', 'const', 'let', 'var', 'return', 'import', 'export',
+]);
+
+const indexes = new Map<string, CodeIndex>();
+const watchers = new Map<string, { watcher: ProjectWatcher; timer: ReturnType<typeof setTimeout> | null }>();
+
+function indexDir(projectCwd: string): string {
+    return join(projectCwd, '.awel', 'index');
+}
+
+export function isCodeIndexEnabled(projectCwd: string): boolean {
+    return getSettings(projectCwd).codeIndex?.enabled !== false;
+}
+
+// ─── Chunking ────────────────────────────────────────────────
+
+function makeChunk(file: string, name: string, kind: string, startLine: number, lines: string[]): CodeChunk {
+    const text = lines.join('\n');
+    const hash = createHash('sha1').update(text).digest('hex').slice(0, 16);
+    return { file, name, kind, startLine, endLine: startLine + lines.length - 1, text, hash };
+}
+
+/** Splits a declaration longer than MAX_CHUNK_LINES into numbered parts */
+function addChunks(chunks: CodeChunk[], file: string, name: string, kind: string, startLine: number, lines: string[]): void {
+    if (lines.length <= MAX_CHUNK_LINES) {
+        chunks.push(makeChunk(file, name, kind, startLine, lines));
+        return;
+    }
+    for (let i = 0; i < lines.length; i += MAX_CHUNK_LINES) {
+        const part = `${name} (part ${i / MAX_CHUNK_LINES + 1})`;
+        chunks.push(makeChunk(file, part, kind, startLine + i, lines.slice(i, i + MAX_CHUNK_LINES)));
+    }
+}
+
+function windowChunks(file: string, content: string): CodeChunk[] {
+    const lines = content.split('\n');
+    const chunks: CodeChunk[] = [];
+    for (let i = 0; i < lines.length; i += WINDOW_LINES) {
+        const window = lines.slice(i, i + WINDOW_LINES);
+        if (window.some(line => line.trim())) chunks.push(makeChunk(file, basename(file), 'lines', i + 1, window));
+    }
+    return chunks;
+}
+
+/** Arrow functions and function expressions, also when wrapped as in `memo(() => ...)` */
+function isFunctionLike(ts: typeof TS, node: TS.Expression): boolean {
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) return true;
+    if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) return isFunctionLike(ts, node.expression);
+    return ts.isCallExpression(node) && node.arguments.some(arg => isFunctionLike(ts, arg));
+}
+
+/** Components and hooks are named by React's conventions */
+function functionKind(name: string): string {
+    if (/^use[A-Z0-9]/.test(name)) return 'hook';
+    if (/^[A-Z]/.test(name)) return 'component';
+    return 'function';
+}
+
+function describeStatement(ts: typeof TS, sf: TS.SourceFile, stmt: TS.Statement): { name: string; kind: string } | null {
+    if (ts.isFunctionDeclaration(stmt)) {
+        const name = stmt.name?.text ?? 'default';
+        return { name, kind: functionKind(name) };
+    }
+    if (ts.isClassDeclaration(stmt)) return { name: stmt.name?.text ?? 'default', kind: 'class' };
+    if (ts.isInterfaceDeclaration(stmt)) return { name: stmt.name.text, kind: 'interface' };
+    if (ts.isTypeAliasDeclaration(stmt)) return { name: stmt.name.text, kind: 'type' };
+    if (ts.isEnumDeclaration(stmt)) return { name: stmt.name.text, kind: 'enum' };
+    if (ts.isExportAssignment(stmt)) return { name: 'default', kind: 'export' };
+    if (ts.isVariableStatement(stmt)) {
+        const declarations = stmt.declarationList.declarations;
+        const name = declarations.map(d => d.name.getText(sf)).join(', ');
+        const fn = declarations.find(d => d.initializer && isFunctionLike(ts, d.initializer));
+        return { name, kind: fn ? functionKind(fn.name.getText(sf)) : 'variable' };
+    }
+    // Calls spanning several lines, such as route handlers or tests
+    if (ts.isExpressionStatement(stmt) && ts.isCallExpression(stmt.expression)) {
+        const { line: start } = sf.getLineAndCharacterOfPosition(stmt.getStart(sf));
+        const { line: end } = sf.getLineAndCharacterOfPosition(stmt.getEnd());
+        if (end > start) return { name: stmt.expression.expression.getText(sf).slice(0, 60), kind: 'call' };
+    }
+    return null;
+}
+
+/**
+ * Splits a source file into one chunk per top-level declaration, with its
+ * doc comment. Falls back to line windows without TypeScript, or when the
+ * file has no declarations.
+ */
+export function chunkSource(ts: typeof TS | null, file: string, content: string): CodeChunk[] {
+    if (!ts) return windowChunks(file, content);
+
+    const sf = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+    const lines = content.split('\n');
+    const chunks: CodeChunk[] = [];
+    for (const stmt of sf.statements) {
+        const described = describeStatement(ts, sf, stmt);
+        if (!described) continue;
+        const start = sf.getLineAndCharacterOfPosition(stmt.getStart(sf, true)).line;
+        const end = sf.getLineAndCharacterOfPosition(stmt.getEnd()).line;
+        addChunks(chunks, file, described.name, described.kind, start + 1, lines.slice(start, end + 1));
+    }
+    return chunks.length > 0 ? chunks : windowChunks(file, content);
+}
+
+// ─── Storage ─────────────────────────────────────────────────
+
+function loadStoredIndex(projectCwd: string): Map<string, IndexedFile> {
+    try {
+        const stored = JSON.parse(readFileSync(join(indexDir(projectCwd), 'chunks.json'), 'utf-8')) as StoredIndex;
+        if (stored.version === INDEX_VERSION) return new Map(Object.entries(stored.files));
+    } catch {
+        // Missing or unreadable — rebuilt from scratch
+    }
+    return new Map();
+}
+
+function loadStoredVectors(projectCwd: string, model: string): Map<string, number[]> {
+    try {
+        const stored = JSON.parse(readFileSync(join(indexDir(projectCwd), 'embeddings.json'), 'utf-8')) as StoredEmbeddings;
+        if (stored.model === model) return new Map(Object.entries(stored.vectors));
+    } catch {
+        // No embeddings yet
+    }
+    return new Map();
+}
+
+function saveIndex(projectCwd: string, index: CodeIndex): void {
+    const dir = indexDir(projectCwd);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    const stored: StoredIndex = { version: INDEX_VERSION, files: Object.fromEntries(index.files) };
+    writeFileSync(join(dir, 'chunks.json'), JSON.stringify(stored), 'utf-8');
+}
+
+function saveVectors(projectCwd: string, index: CodeIndex, model: string): void {
+    // Vectors of chunks that no longer exist are dropped on save
+    const hashes = new Set([...index.files.values()].flatMap(f => f.chunks.map(c => c.hash)));
+    const vectors: Record<string, number[]> = {};
+    for (const [hash, vector] of index.vectors) {
+        if (hashes.has(hash)) vectors[hash] = vector.map(v => Math.round(v * 1e4) / 1e4);
+    }
+    const dir = indexDir(projectCwd);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'embeddings.json'), JSON.stringify({ model, vectors } satisfies StoredEmbeddings), 'utf-8');
+}
+
+// ─── Indexing ────────────────────────────────────────────────
+
+function isIndexable(rel: string, ignoredDirs: string[]): boolean {
+    if (!SOURCE_EXT_RE.test(rel) || SKIPPED_FILE_RE.test(rel)) return false;
+    const dirs = rel.split(/[/\\]/).slice(0, -1);
+    return !dirs.some(dir => dir === '.awel' || ignoredDirs.includes(dir));
+}
+
+/** Re-chunks a file if it changed; returns whether the index changed */
+async function indexFile(projectCwd: string, index: CodeIndex, ts: typeof TS | null, rel: string): Promise<boolean> {
+    let info: { mtimeMs: number; size: number };
+    try {
+        info = await stat(join(projectCwd, rel));
+    } catch {
+        return index.files.delete(rel);
+    }
+    if (info.size > MAX_FILE_BYTES) return index.files.delete(rel);
+
+    const existing = index.files.get(rel);
+    if (existing && existing.mtimeMs === info.mtimeMs && existing.size === info.size) return false;
+
+    const content = await readFile(join(projectCwd, rel), 'utf-8');
+    index.files.set(rel, { mtimeMs: info.mtimeMs, size: info.size, chunks: chunkSource(ts, rel, content) });
+    return true;
+}
+
+/** Brings the index up to date with the given files, or with the whole project */
+async function refreshIndex(projectCwd: string, index: CodeIndex, changed?: string[]): Promise<void> {
+    const ignoredDirs = getIgnoredDirs(projectCwd);
+    const ts = loadTypeScript(projectCwd);
+    let dirty = false;
+
+    let files = changed;
+    if (!files) {
+        files = await fg('**/*.{ts,tsx,js,jsx,mts,cts,mjs,cjs}', {
+            cwd: projectCwd,
+            dot: false,
+            ignore: ignoredDirs.map(d => `**/${d}/**`),
+        });
+        const present = new Set(files);
+        for (const rel of [...index.files.keys()]) {
+            if (!present.has(rel)) dirty = index.files.delete(rel) || dirty;
+        }
+    }
+
+    for (const rel of files) {
+        if (!isIndexable(rel, ignoredDirs)) {
+            dirty = index.files.delete(rel) || dirty;
+            continue;
+        }
+        try {
+            dirty = await indexFile(projectCwd, index, ts, rel) || dirty;
+        } catch {
+            // Unreadable files are left out
+        }
+    }
+
+    if (dirty || !existsSync(join(indexDir(projectCwd), 'chunks.json'))) {
+        index.bm25 = null;
+        saveIndex(projectCwd, index);
+    }
+}
+
+function enqueue(index: CodeIndex, task: () => Promise<void>): Promise<void> {
+    index.queue = index.queue.then(task).catch(err => {
+        awel.error(`Code index update failed: ${err instanceof Error ? err.message : String(err)}`);
+    });
+    return index.queue;
+}
+
+/** The project's index, loaded from disk and refreshed on first use */
+function getIndex(projectCwd: string): CodeIndex {
+    let index = indexes.get(projectCwd);
+    if (!index) {
+        index = { files: loadStoredIndex(projectCwd), bm25: null, vectors: new Map(), embedder: null, queue: Promise.resolve() };
+        indexes.set(projectCwd, index);
+        const created = index;
+        void enqueue(created, () => refreshIndex(projectCwd, created));
+    }
+    return index;
+}
+
+function allChunks(index: CodeIndex): CodeChunk[] {
+    return [...index.files.values()].flatMap(f => f.chunks);
+}
+
+// ─── File Watching ───────────────────────────────────────────
+
+interface ProjectWatcher {
+    close(): void;
+}
+
+function isWatchedDir(name: string, ignoredDirs: string[]): boolean {
+    return !name.startsWith('.') && !ignoredDirs.includes(name);
+}
+
+/**
+ * Watches each of the project's directories on its own instead of the whole
+ * tree recursively, so ignored directories (node_modules, .git, …) get no
+ * watches at all. Directories created later are watched as they appear and
+ * the files already in them reported.
+ * @param onChange - Called with the path of a changed file or directory,
+ *   relative to the project root
+ */
+function watchProjectDirs(projectCwd: string, ignoredDirs: string[], onChange: (rel: string) => void): ProjectWatcher {
+    const dirWatchers = new Map<string, FSWatcher>();
+    let warned = false;
+
+    const warn = (dir: string, err: unknown) => {
+        // Directories removed while being set up or watched are expected
+        if ((err as NodeJS.ErrnoException)?.code === 'ENOENT' || warned) return;
+        warned = true;
+        awel.log(`⚠️  Code index stopped watching ${dir || '.'}: ${err instanceof Error ? err.message : String(err)}`);
+    };
+
+    const unwatch = (rel: string) => {
+        for (const [dir, watcher] of dirWatchers) {
+            if (!rel || dir === rel || dir.startsWith(`${rel}/`)) {
+                watcher.close();
+                dirWatchers.delete(dir);
+            }
+        }
+    };
+
+    const add = (rel: string, report: boolean) => {
+        if (dirWatchers.has(rel)) return;
+        const abs = join(projectCwd, rel);
+        try {
+            const watcher = watch(abs, (_event, filename) => {
+                if (!filename) return;
+                const child = rel ? `${rel}/${filename}` : filename;
+                if (isWatchedDir(filename, ignoredDirs)) {
+                    let isDir = false;
+                    try {
+                        isDir = statSync(join(projectCwd, child)).isDirectory();
+                    } catch {
+                        unwatch(child);
+                    }
+                    if (isDir) add(child, true);
+                }
+                onChange(child);
+            });
+            watcher.on('error', (err) => {
+                unwatch(rel);
+                warn(rel, err);
+            });
+            dirWatchers.set(rel, watcher);
+
+            for (const entry of readdirSync(abs, { withFileTypes: true })) {
+                const child = rel ? `${rel}/${entry.name}` : entry.name;
+                if (entry.isDirectory()) {
+                    if (isWatchedDir(entry.name, ignoredDirs)) add(child, report);
+                } else if (report) {
+                    onChange(child);
+                }
+            }
+        } catch (err) {
+            warn(rel, err);
+        }
+    };
+
+    add('', false);
+    return {
+        close: () => unwatch(''),
+    };
+}
+
+/**
+ * Loads the index and watches the project so it stays fresh while
+ * `awel dev` runs. Embeddings, when a local model is available, are
+ * computed in the background.
+ */
+export function startCodeIndex(projectCwd: string): void {
+    if (!isCodeIndexEnabled(projectCwd) || watchers.has(projectCwd)) return;
+
+    const index = getIndex(projectCwd);
+    void index.queue.then(() => embedMissing(projectCwd, index));
+
+    const ignoredDirs = getIgnoredDirs(projectCwd);
+    const pending = new Set<string>();
+    const watcher = watchProjectDirs(projectCwd, ignoredDirs, (rel) => {
+        // A removed directory is reported by its own name only
+        const files = isIndexable(rel, ignoredDirs)
+            ? [rel]
+            : [...index.files.keys()].filter(file => file.startsWith(`${rel}/`));
+        if (files.length === 0) return;
+        for (const file of files) pending.add(file);
+
+        // Debounce — agents often write multiple files in quick succession
+        const entry = watchers.get(projectCwd);
+        if (!entry) return;
+        if (entry.timer) clearTimeout(entry.timer);
+        entry.timer = setTimeout(() => {
+            entry.timer = null;
+            const changed = [...pending];
+            pending.clear();
+            void enqueue(index, () => refreshIndex(projectCwd, index, changed))
+                .then(() => embedMissing(projectCwd, index));
+        }, 500);
+    });
+    watchers.set(projectCwd, { watcher, timer: null });
+}
+
+/** Stops the file watchers and drops the loaded indexes (for tests). */
+export async function resetCodeIndex(): Promise<void> {
+    for (const { watcher, timer } of watchers.values()) {
+        if (timer) clearTimeout(timer);
+        watcher.close();
+    }
+    watchers.clear();
+    await Promise.all([...indexes.values()].map(index => index.queue));
+    indexes.clear();
+}
+
+// ─── Embeddings ──────────────────────────────────────────────
+
+/**
+ * The local embedding model, from the project's or Awel's own
+ * @huggingface/transformers. Remote models are turned off, so only a model
+ * already on disk loads; anything else means BM25.
+ */
+async function loadEmbedder(projectCwd: string): Promise<Embedder | null> {
+    const model = getSettings(projectCwd).codeIndex?.embeddingModel ?? DEFAULT_EMBEDDING_MODEL;
+    let transformers: Transformers | null = null;
+    for (const base of [join(projectCwd, 'package.json'), import.meta.url]) {
+        try {
+            const entry = createRequire(base).resolve('@huggingface/transformers');
+            transformers = await import(pathToFileURL(entry).href) as Transformers;
+            break;
+        } catch {
+            // Not installed here
+        }
+    }
+    if (!transformers) return null;
+
+    try {
+        transformers.env.allowRemoteModels = false;
+        const extract = await transformers.pipeline('feature-extraction', model);
+        return {
+            model,
+            embed: async texts => (await extract(texts, { pooling: 'mean', normalize: true })).tolist(),
+        };
+    } catch {
+        return null;
+    }
+}
+
+function getEmbedder(projectCwd: string, index: CodeIndex): Promise<Embedder | null> {
+    if (!index.embedder) {
+        index.embedder = loadEmbedder(projectCwd).then(embedder => {
+            if (embedder) index.vectors = loadStoredVectors(projectCwd, embedder.model);
+            return embedder;
+        });
+    }
+    return index.embedder;
+}
+
+function embedText(chunk: CodeChunk): string {
+    return `${chunk.kind} ${chunk.name} in ${chunk.file}\n${chunk.text}`.slice(0, MAX_EMBED_TEXT_LENGTH);
+}
+
+async function embedChunks(embedder: Embedder, index: CodeIndex, chunks: CodeChunk[]): Promise<void> {
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+        const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+        const vectors = await embedder.embed(batch.map(embedText));
+        batch.forEach((chunk, j) => index.vectors.set(chunk.hash, vectors[j]));
+    }
+}
+
+function missingVectors(index: CodeIndex): CodeChunk[] {
+    const seen = new Set<string>();
+    return allChunks(index).filter(c => {
+        if (index.vectors.has(c.hash) || seen.has(c.hash)) return false;
+        seen.add(c.hash);
+        return true;
+    });
+}
+
+async function embedMissing(projectCwd: string, index: CodeIndex): Promise<void> {
+    try {
+        const embedder = await getEmbedder(projectCwd, index);
+        if (!embedder) return;
+        const missing = missingVectors(index);
+        if (missing.length === 0) return;
+        await embedChunks(embedder, index, missing);
+        saveVectors(projectCwd, index, embedder.model);
+    } catch (err) {
+        awel.log(`⚠️  Code index embeddings failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+}
+
+function cosine(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// ─── BM25 ────────────────────────────────────────────────────
+
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Lowercased words, with identifiers also split into their parts
+ * (`useCartTotal` → usecarttotal, use, cart, total) and plurals trimmed.
+ */
+export function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const add = (word: string) => {
+        let token = word.toLowerCase();
+        if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) token = token.slice(0, -1);
+        if (token.length >= 2 && !STOP_WORDS.has(token)) tokens.push(token);
+    };
+    for (const word of text.match(/[A-Za-z][A-Za-z0-9]*/g) ?? []) {
+        add(word);
+        const parts = word.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/);
+        if (parts.length > 1) parts.forEach(add);
+    }
+    return tokens;
+}
+
+function buildBm25(chunks: CodeChunk[]): Bm25 {
+    const df = new Map<string, number>();
+    const docs = chunks.map(chunk => {
+        // The name counts twice, so declarations rank above their uses
+        const tokens = tokenize(`${chunk.name} ${chunk.name} ${chunk.file} ${chunk.text}`);
+        const tf = new Map<string, number>();
+        for (const token of tokens) tf.set(token, (tf.get(token) ?? 0) + 1);
+        for (const token of tf.keys()) df.set(token, (df.get(token) ?? 0) + 1);
+        return { chunk, tf, length: tokens.length };
+    });
+    const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / (docs.length || 1);
+    return { docs, df, avgLength };
+}
+
+function scoreBm25(bm25: Bm25, query: string): CodeSearchResult[] {
+    const terms = [...new Set(tokenize(query))];
+    const n = bm25.docs.length;
+    const results: CodeSearchResult[] = [];
+    for (const doc of bm25.docs) {
+        let score = 0;
+        for (const term of terms) {
+            const tf = doc.tf.get(term);
+            if (!tf) continue;
+            const df = bm25.df.get(term) ?? 0;
+            const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+            score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / bm25.avgLength));
+        }
+        if (score > 0) results.push({ chunk: doc.chunk, score });
+    }
+    return results;
+}
+
+// ─── Search ──────────────────────────────────────────────────
+
+/**
+ * Searches the project's code by meaning, or by keywords without a local
+ * embedding model. `path` keeps results to files under a directory.
+ * Returns why it can't search as a string.
+ */
+export async function searchCode(
+    projectCwd: string,
+    query: string,
+    options: { limit?: number; path?: string } = {},
+): Promise<CodeSearch | string> {
+    if (!isCodeIndexEnabled(projectCwd)) return 'The code index is turned off (the codeIndex.enabled setting in awel.config.json)';
+    if (tokenize(query).length === 0) return 'The query has no searchable words';
+
+    const index = getIndex(projectCwd);
+    // Without a watcher (`awel run`), check for changed files first
+    if (!watchers.has(projectCwd)) await enqueue(index, () => refreshIndex(projectCwd, index));
+    await index.queue;
+    const limit = options.limit ?? 8;
+    const prefix = options.path ? relative(projectCwd, resolve(projectCwd, options.path)).split(sep).join('/') : '';
+    const inScope = (chunk: CodeChunk) => !prefix || chunk.file === prefix || chunk.file.startsWith(`${prefix}/`);
+    const chunkCount = allChunks(index).length;
+
+    const embedder = await getEmbedder(projectCwd, index);
+    const missing = embedder ? missingVectors(index) : [];
+    if (embedder && missing.length <= MAX_INLINE_EMBEDS) {
+        try {
+            await embedChunks(embedder, index, missing);
+            const [queryVector] = await embedder.embed([query]);
+            const results = allChunks(index)
+                .filter(inScope)
+                .map(chunk => ({ chunk, score: cosine(queryVector, index.vectors.get(chunk.hash)!) }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit);
+            return { results, model: embedder.model, chunkCount };
+        } catch {
+            // Fall back to BM25
+        }
+    }
+
+    index.bm25 ??= buildBm25(allChunks(index));
+    const results = scoreBm25(index.bm25, query)
+        .filter(r => inScope(r.chunk))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    return { results, model: null, chunkCount };
+}
+
+// ─── Prompt Retrieval ────────────────────────────────────────
+
+const RETRIEVAL_MARKERS = ['[Inspector Context]', '[Page Context]'];
+const MAX_RETRIEVED_CHUNKS = 4;
+const MAX_RETRIEVED_CHUNK_LINES = 40;
+const MAX_RETRIEVAL_CONTEXT_LENGTH = 6000;
+
+/**
+ * The search query for a prompt carrying inspector or page context: the
+ * user's words plus component names, source paths and visible text, without
+ * the code snippets and instructions the context also contains.
+ */
+export function getRetrievalQuery(prompt: string): string | null {
+    if (!RETRIEVAL_MARKERS.some(marker => prompt.includes(marker))) return null;
+    return prompt
+        .replace(/```[\s\S]*?```/g, '')
+        .split('\n')
+        .filter(line => !/^(IMPORTANT:|URL:|##|\[|Source code around|Props type definition)/.test(line.trim()))
+        .join('\n')
+        .trim() || null;
+}
+
+/**
+ * Code related to an element picked with the inspector or to the current
+ * page, to add to the system prompt. Returns null for other prompts, or
+ * when nothing in the index matches.
+ */
+export async function getRelatedCodeContext(projectCwd: string, prompt: string): Promise<string | null> {
+    const query = getRetrievalQuery(prompt);
+    if (!query || !isCodeIndexEnabled(projectCwd)) return null;
+
+    const search = await searchCode(projectCwd, query, { limit: MAX_RETRIEVED_CHUNKS });
+    if (typeof search === 'string' || search.results.length === 0) return null;
+
+    let block = '[Related Code]\nCode from the project index that may relate to this request. It can be out of date — read a file before editing it.';
+    for (const { chunk } of search.results) {
+        const lines = chunk.text.split('\n');
+        const text = lines.length > MAX_RETRIEVED_CHUNK_LINES
+            ? `${lines.slice(0, MAX_RETRIEVED_CHUNK_LINES).join('\n')}\n...`
+            : chunk.text;
+        const entry = `\n\n// ${chunk.file}:${chunk.startLine}-${chunk.endLine} (${chunk.kind} ${chunk.name})\n\`\`\`\n${text}\n\`\`\``;
+        if (block.length + entry.length > MAX_RETRIEVAL_CONTEXT_LENGTH) break;
+        block += entry;
+    }
+    return block.includes('\n\n// ') ? block : null;
+}
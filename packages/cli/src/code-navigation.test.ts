@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, symlinkSync } from 'fs';
+import { join, dirname } from 'path';
+import { tmpdir } from 'os';
+import { createRequire } from 'module';
+import { findDefinition, findReferences, listSymbols, findPropsTypeDefinition } from './code-navigation.js';
+import { resetLanguageServices } from './language-service.js';
+
+const typescriptDir = dirname(createRequire(import.meta.url).resolve('typescript/package.json'));
+
+const FILES: Record<string, string> = {
+    'tsconfig.json': JSON.stringify({
+        compilerOptions: { strict: true, target: 'es2020', module: 'esnext', moduleResolution: 'bundler', lib: ['es2020'], types: [] },
+        include: ['src'],
+    }),
+    'src/types.ts': 'export interface ButtonProps {\n    label: string;\n    onClick?: () => void;\n}\n',
+    'src/Button.ts': [
+        'import type { ButtonProps } from \'./types\';',
+        'function memo<T>(component: T): T { return component; }',
+        'export function Button({ label }: ButtonProps) {',
+        '    return label;',
+        '}',
+        'export const Card = memo((props: { title: string }) => props.title);',
+        '',
+    ].join('\n'),
+    'src/App.ts': 'import { Button } from \'./Button\';\nexport const app = Button({ label: \'Hi\' });\n',
+};
+
+describe('code navigation', () => {
+    let projectCwd: string;
+    const path = (file: string) => join(projectCwd, file);
+
+    beforeAll(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-navigation-'));
+        mkdirSync(join(projectCwd, 'node_modules'));
+        symlinkSync(typescriptDir, join(projectCwd, 'node_modules', 'typescript'), 'dir');
+        mkdirSync(join(projectCwd, 'src'));
+        for (const [file, content] of Object.entries(FILES)) writeFileSync(path(file), content, 'utf-8');
+    });
+
+    afterAll(() => {
+        resetLanguageServices();
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    it('finds a definition through an import or by name alone', () => {
+        const expected = { file: join('src', 'Button.ts'), line: 3, kind: 'function', name: 'Button' };
+        expect(findDefinition(projectCwd, 'Button', path('src/App.ts'), 2)).toEqual([expect.objectContaining(expected)]);
+        expect(findDefinition(projectCwd, 'Button')).toEqual([expect.objectContaining(expected)]);
+        expect(findDefinition(projectCwd, 'Missing')).toBe('No declaration named "Missing" found in the project');
+    });
+
+    it('finds references across files', () => {
+        const refs = findReferences(projectCwd, 'Button');
+        expect(Array.isArray(refs) && refs.map(r => `${r.file}:${r.line}`)).toEqual([
+            `${join('src', 'App.ts')}:1`,
+            `${join('src', 'App.ts')}:2`,
+            `${join('src', 'Button.ts')}:3`,
+        ]);
+        expect(Array.isArray(refs) && refs.find(r => r.isDefinition)?.text).toBe('export function Button({ label }: ButtonProps) {');
+    });
+
+    it('outlines a file and searches the project', () => {
+        const outline = listSymbols(projectCwd, { file: path('src/types.ts') });
+        expect(Array.isArray(outline) && outline.map(s => s.name)).toEqual(['ButtonProps', 'ButtonProps.label', 'ButtonProps.onClick']);
+
+        const found = listSymbols(projectCwd, { query: 'Button' });
+        expect(Array.isArray(found) && found.map(s => s.name).sort()).toEqual(['Button', 'ButtonProps']);
+    });
+
+    it('resolves a component\'s props type through its symbol', () => {
+        expect(findPropsTypeDefinition(projectCwd, path('src/Button.ts'), 'Button')).toBe(
+            `// ${join('src', 'types.ts')}\nexport interface ButtonProps {\n    label: string;\n    onClick?: () => void;\n}`,
+        );
+        expect(findPropsTypeDefinition(projectCwd, path('src/Button.ts'), 'Card')).toBe('{ title: string }');
+        expect(findPropsTypeDefinition(projectCwd, path('src/App.ts'), 'Button')).toContain('interface ButtonProps');
+        expect(findPropsTypeDefinition(projectCwd, path('src/App.ts'), 'app')).toBeNull();
+    });
+});
@@ -0,0 +1,291 @@
+import { relative } from 'path';
+import type * as TS from 'typescript';
+import { getIgnoredDirs } from './settings.js';
+import { getTsProjects, getProjectForFile, isProjectSource, type TsProject, type TsProjects } from './language-service.js';
+
+// ─── Code Navigation ─────────────────────────────────────────
+// Definitions, references and symbols from the TypeScript language service
+// (see language-service.ts), for the navigation tools and the inspector.
+// Symbols are looked up by name: in a given file, nearest to a line when
+// one is given, or else among the project's declarations.
+
+export interface CodeLocation {
+    /** Relative to the project root */
+    file: string;
+    line: number;
+    column: number;
+    /** The source line, trimmed */
+    text: string;
+    /** e.g. function, interface, const */
+    kind?: string;
+    /** Qualified name, for symbols */
+    name?: string;
+    isDefinition?: boolean;
+}
+
+/** A position to ask the language service about */
+interface SymbolPosition {
+    project: TsProject;
+    fileName: string;
+    position: number;
+}
+
+const MAX_NAVIGATE_RESULTS = 200;
+const MAX_PROPS_DEFINITION_LINES = 30;
+/** Navigation tree entries that are noise in a symbol list */
+const SKIPPED_SYMBOL_KINDS = new Set(['alias', 'module', 'script']);
+
+function getSourceFile(project: TsProject, fileName: string): TS.SourceFile | undefined {
+    return project.service.getProgram()?.getSourceFile(fileName);
+}
+
+function toLocation(projectCwd: string, sourceFile: TS.SourceFile, position: number, extra: Partial<CodeLocation> = {}): CodeLocation {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+    const lineText = sourceFile.text.split('\n')[line] ?? '';
+    return {
+        file: relative(projectCwd, sourceFile.fileName),
+        line: line + 1,
+        column: character + 1,
+        text: lineText.trim(),
+        ...extra,
+    };
+}
+
+/**
+ * The identifier with the given name in a file: the one nearest to `line`
+ * (1-based) when given, else the first one that names a declaration, else
+ * the first one. `range` limits the search to part of the file.
+ */
+function findIdentifier(ts: typeof TS, sourceFile: TS.SourceFile, name: string, line?: number, range?: TS.TextSpan): TS.Identifier | undefined {
+    const matches: TS.Identifier[] = [];
+    const visit = (node: TS.Node) => {
+        if (range && (node.end < range.start || node.getStart(sourceFile) > range.start + range.length)) return;
+        if (ts.isIdentifier(node) && node.text === name) matches.push(node);
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    if (matches.length === 0) return undefined;
+
+    if (line !== undefined) {
+        const distance = (id: TS.Identifier) =>
+            Math.abs(sourceFile.getLineAndCharacterOfPosition(id.getStart(sourceFile)).line + 1 - line);
+        return matches.reduce((best, id) => distance(id) < distance(best) ? id : best);
+    }
+    return matches.find(id => (id.parent as { name?: TS.Node }).name === id) ?? matches[0];
+}
+
+/** Declarations with exactly this name in the project's own files */
+function findDeclarations(projectCwd: string, { ts, projects }: TsProjects, name: string): SymbolPosition[] {
+    const ignoredDirs = getIgnoredDirs(projectCwd);
+    const seen = new Set<string>();
+    const found: SymbolPosition[] = [];
+    for (const project of projects) {
+        for (const item of project.service.getNavigateToItems(name, MAX_NAVIGATE_RESULTS, undefined, true)) {
+            if (item.name !== name || !isProjectSource(projectCwd, item.fileName, ignoredDirs)) continue;
+            const sourceFile = getSourceFile(project, item.fileName);
+            // The item spans the whole declaration; ask about its name
+            const id = sourceFile && findIdentifier(ts, sourceFile, name, undefined, item.textSpan);
+            if (!id) continue;
+            const key = `${item.fileName}:${id.getStart(sourceFile)}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            found.push({ project, fileName: item.fileName, position: id.getStart(sourceFile) });
+        }
+    }
+    return found;
+}
+
+/**
+ * Where to ask about a symbol: its occurrence in `file` (absolute), or its
+ * declarations in the project. Returns an error message when there are none.
+ */
+function locateSymbol(projectCwd: string, symbol: string, file?: string, line?: number): { tsProjects: TsProjects; positions: SymbolPosition[] } | string {
+    const tsProjects = getTsProjects(projectCwd);
+    if (typeof tsProjects === 'string') return tsProjects;
+    // `Foo.bar` is looked up as `bar`
+    const name = symbol.split('.').pop()!.trim();
+
+    if (!file) {
+        const positions = findDeclarations(projectCwd, tsProjects, name);
+        return positions.length > 0 ? { tsProjects, positions } : `No declaration named "${name}" found in the project`;
+    }
+
+    const project = getProjectForFile(tsProjects.projects, file);
+    const sourceFile = getSourceFile(project, file);
+    if (!sourceFile) return `${relative(projectCwd, file)} is not part of the TypeScript project`;
+    const id = findIdentifier(tsProjects.ts, sourceFile, name, line);
+    if (!id) return `"${name}" does not appear in ${relative(projectCwd, file)}`;
+    return { tsProjects, positions: [{ project, fileName: file, position: id.getStart(sourceFile) }] };
+}
+
+export function findDefinition(projectCwd: string, symbol: string, file?: string, line?: number): CodeLocation[] | string {
+    const located = locateSymbol(projectCwd, symbol, file, line);
+    if (typeof located === 'string') return located;
+
+    const results: CodeLocation[] = [];
+    const seen = new Set<string>();
+    for (const { project, fileName, position } of located.positions) {
+        for (const def of project.service.getDefinitionAtPosition(fileName, position) ?? []) {
+            const key = `${def.fileName}:${def.textSpan.start}`;
+            const sourceFile = getSourceFile(project, def.fileName);
+            if (seen.has(key) || !sourceFile) continue;
+            seen.add(key);
+            results.push(toLocation(projectCwd, sourceFile, def.textSpan.start, { kind: def.kind, name: def.name, isDefinition: true }));
+        }
+    }
+    return results.length > 0 ? results : `No definition found for "${symbol}"`;
+}
+
+export function findReferences(projectCwd: string, symbol: string, file?: string, line?: number): CodeLocation[] | string {
+    const located = locateSymbol(projectCwd, symbol, file, line);
+    if (typeof located === 'string') return located;
+
+    const results: CodeLocation[] = [];
+    const seen = new Set<string>();
+    for (const { project, fileName, position } of located.positions) {
+        for (const referenced of project.service.findReferences(fileName, position) ?? []) {
+            for (const ref of referenced.references) {
+                const key = `${ref.fileName}:${ref.textSpan.start}`;
+                const sourceFile = getSourceFile(project, ref.fileName);
+                if (seen.has(key) || !sourceFile) continue;
+                seen.add(key);
+                results.push(toLocation(projectCwd, sourceFile, ref.textSpan.start, { isDefinition: ref.isDefinition ?? false }));
+            }
+        }
+    }
+    results.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+    return results.length > 0 ? results : `No references found for "${symbol}"`;
+}
+
+/**
+ * The symbols declared in a file (nested ones named `Parent.child`), or the
+ * project's symbols matching a query.
+ */
+export function listSymbols(projectCwd: string, options: { file?: string; query?: string }): CodeLocation[] | string {
+    const tsProjects = getTsProjects(projectCwd);
+    if (typeof tsProjects === 'string') return tsProjects;
+
+    if (options.file) {
+        const file = options.file;
+        const project = getProjectForFile(tsProjects.projects, file);
+        const sourceFile = getSourceFile(project, file);
+        if (!sourceFile) return `${relative(projectCwd, file)} is not part of the TypeScript project`;
+
+        const results: CodeLocation[] = [];
+        const visit = (item: TS.NavigationTree, parent: string | null) => {
+            const listed = !SKIPPED_SYMBOL_KINDS.has(item.kind) && !item.text.startsWith('<');
+            const name = parent ? `${parent}.${item.text}` : item.text;
+            if (listed && item.spans.length > 0) {
+                results.push(toLocation(projectCwd, sourceFile, item.nameSpan?.start ?? item.spans[0].start, { kind: item.kind, name }));
+            }
+            for (const child of item.childItems ?? []) visit(child, listed ? name : parent);
+        };
+        visit(project.service.getNavigationTree(file), null);
+        return results.filter(r => !options.query || r.name!.toLowerCase().includes(options.query.toLowerCase()));
+    }
+
+    if (!options.query) return 'Pass a file or a query';
+    const ignoredDirs = getIgnoredDirs(projectCwd);
+    const results: CodeLocation[] = [];
+    const seen = new Set<string>();
+    for (const project of tsProjects.projects) {
+        for (const item of project.service.getNavigateToItems(options.query, MAX_NAVIGATE_RESULTS, undefined, true)) {
+            const key = `${item.fileName}:${item.textSpan.start}`;
+            const sourceFile = getSourceFile(project, item.fileName);
+            if (seen.has(key) || !sourceFile || !isProjectSource(projectCwd, item.fileName, ignoredDirs)) continue;
+            seen.add(key);
+            const name = item.containerName ? `${item.containerName}.${item.name}` : item.name;
+            results.push(toLocation(projectCwd, sourceFile, item.textSpan.start, { kind: item.kind, name }));
+        }
+    }
+    return results;
+}
+
+// ─── Component Props ─────────────────────────────────────────
+
+/** The function that renders a component declared as a function, an arrow, or wrapped in memo/forwardRef */
+function unwrapComponent(ts: typeof TS, node: TS.Expression): TS.SignatureDeclaration | undefined {
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) return node;
+    if (ts.isParenthesizedExpression(node)) return unwrapComponent(ts, node.expression);
+    if (ts.isCallExpression(node)) {
+        for (const arg of node.arguments) {
+            const fn = unwrapComponent(ts, arg);
+            if (fn) return fn;
+        }
+    }
+    return undefined;
+}
+
+/** The props type node of the named component in a file */
+function findPropsTypeNode(ts: typeof TS, sourceFile: TS.SourceFile, componentName: string): TS.TypeNode | undefined {
+    for (const statement of sourceFile.statements) {
+        if (ts.isFunctionDeclaration(statement) && statement.name?.text === componentName) {
+            return statement.parameters[0]?.type;
+        }
+        if (ts.isClassDeclaration(statement) && statement.name?.text === componentName) {
+            // class Foo extends Component<FooProps>
+            const extendsClause = statement.heritageClauses?.find(h => h.token === ts.SyntaxKind.ExtendsKeyword);
+            return extendsClause?.types[0]?.typeArguments?.[0];
+        }
+        if (!ts.isVariableStatement(statement)) continue;
+        for (const decl of statement.declarationList.declarations) {
+            if (!ts.isIdentifier(decl.name) || decl.name.text !== componentName) continue;
+            // const Foo: React.FC<FooProps> = ...
+            if (decl.type && ts.isTypeReferenceNode(decl.type) && decl.type.typeArguments?.length) {
+                return decl.type.typeArguments[0];
+            }
+            if (!decl.initializer) return undefined;
+            // forwardRef<Ref, FooProps>(...)
+            if (ts.isCallExpression(decl.initializer) && decl.initializer.typeArguments?.length === 2) {
+                return decl.initializer.typeArguments[1];
+            }
+            return unwrapComponent(ts, decl.initializer)?.parameters[0]?.type;
+        }
+    }
+    return undefined;
+}
+
+function truncateLines(text: string, max: number): string {
+    const lines = text.split('\n');
+    return lines.length > max ? [...lines.slice(0, max), '  // ...'].join('\n') : text;
+}
+
+/**
+ * The props type of a component, resolved through its symbol: the
+ * interface or type alias its props parameter refers to (wherever it is
+ * declared), or the inline type. Looks in `file` first, then in the rest
+ * of the project. Null when it can't be resolved.
+ */
+export function findPropsTypeDefinition(projectCwd: string, file: string, componentName: string): string | null {
+    const tsProjects = getTsProjects(projectCwd);
+    if (typeof tsProjects === 'string') return null;
+    const { ts, projects } = tsProjects;
+
+    const candidates: { project: TsProject; fileName: string }[] = [{ project: getProjectForFile(projects, file), fileName: file }];
+    for (const { project, fileName } of findDeclarations(projectCwd, tsProjects, componentName)) {
+        if (fileName !== file) candidates.push({ project, fileName });
+    }
+
+    for (const { project, fileName } of candidates) {
+        const program = project.service.getProgram();
+        const sourceFile = program?.getSourceFile(fileName);
+        const typeNode = sourceFile && findPropsTypeNode(ts, sourceFile, componentName);
+        if (!program || !typeNode) continue;
+
+        if (!ts.isTypeReferenceNode(typeNode)) {
+            return truncateLines(typeNode.getText(sourceFile), MAX_PROPS_DEFINITION_LINES);
+        }
+        const checker = program.getTypeChecker();
+        let symbol = checker.getSymbolAtLocation(typeNode.typeName);
+        if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol);
+        const declaration = symbol?.declarations?.find(d => ts.isInterfaceDeclaration(d) || ts.isTypeAliasDeclaration(d));
+        if (!declaration) return typeNode.getText(sourceFile);
+
+        const declarationFile = declaration.getSourceFile();
+        const text = truncateLines(declaration.getText(declarationFile), MAX_PROPS_DEFINITION_LINES);
+        return declarationFile.fileName === sourceFile.fileName
+            ? text
+            : `// ${relative(projectCwd, declarationFile.fileName)}\n${text}`;
+    }
+    return null;
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { ModelMessage } from 'ai';
+import {
+    parseCompactCommand,
+    estimateTokens,
+    renderTranscript,
+    findCompactionSplit,
+    compactMessages,
+    getAutoCompactThreshold,
+    SUMMARY_PREFIX,
+} from './compaction.js';
+
+const history: ModelMessage[] = [
+    { role: 'user', content: 'Add a dark mode toggle' },
+    {
+        role: 'assistant',
+        content: [
+            { type: 'text', text: 'Reading the header first.' },
+            { type: 'tool-call', toolCallId: 'c1', toolName: 'Read', input: { file_path: 'src/Header.tsx' } },
+        ],
+    },
+    {
+        role: 'tool',
+        content: [
+            { type: 'tool-result', toolCallId: 'c1', toolName: 'Read', output: { type: 'text', value: 'export function Header() {}' } },
+        ],
+    },
+    { role: 'assistant', content: 'Done.' },
+    { role: 'user', content: 'Make it persist' },
+    { role: 'assistant', content: 'Saved to localStorage.' },
+    { role: 'user', content: 'Thanks, now the footer' },
+    { role: 'assistant', content: 'Updated the footer.' },
+];
+
+describe('parseCompactCommand', () => {
+    it('recognizes /compact with optional instructions', () => {
+        expect(parseCompactCommand('/compact')).toEqual({});
+        expect(parseCompactCommand('  /compact focus on the API  ')).toEqual({ instructions: 'focus on the API' });
+    });
+
+    it('ignores other prompts', () => {
+        expect(parseCompactCommand('please /compact')).toBeNull();
+        expect(parseCompactCommand('/compaction')).toBeNull();
+    });
+});
+
+describe('estimateTokens', () => {
+    it('counts text at about four characters per token and images at a flat rate', () => {
+        expect(estimateTokens([{ role: 'user', content: 'x'.repeat(400) }])).toBe(100);
+        const withImage = estimateTokens([{ role: 'user', content: [{ type: 'image', image: 'data:image/png;base64,AAAA' }] }]);
+        expect(withImage).toBe(1500);
+    });
+});
+
+describe('renderTranscript', () => {
+    it('includes text, tool calls and tool results', () => {
+        const transcript = renderTranscript(history.slice(0, 4));
+        expect(transcript).toContain('User: Add a dark mode toggle');
+        expect(transcript).toContain('Assistant called Read({"file_path":"src/Header.tsx"})');
+        expect(transcript).toContain('Read returned: export function Header() {}');
+        expect(transcript).toContain('Assistant: Done.');
+    });
+});
+
+describe('findCompactionSplit', () => {
+    it('keeps the most recent user turns', () => {
+        expect(findCompactionSplit(history, 2)).toBe(4);
+        expect(findCompactionSplit(history, 1)).toBe(6);
+        expect(findCompactionSplit(history, 0)).toBe(history.length);
+    });
+
+    it('returns 0 when there are not enough turns', () => {
+        expect(findCompactionSplit(history.slice(0, 4), 2)).toBe(0);
+    });
+});
+
+describe('compactMessages', () => {
+    it('replaces older turns with a summary exchange', async () => {
+        const summarize = vi.fn(async () => 'Added a dark mode toggle to Header.tsx.');
+        const result = await compactMessages(history, summarize, { instructions: 'mention file names' });
+
+        expect(summarize).toHaveBeenCalledOnce();
+        expect(summarize.mock.calls[0][0]).toContain('mention file names');
+        expect(result!.summarizedCount).toBe(4);
+        expect(result!.messages).toHaveLength(6);
+        expect(result!.messages[0]).toEqual({ role: 'user', content: `${SUMMARY_PREFIX}\n\nAdded a dark mode toggle to Header.tsx.` });
+        expect(result!.messages[1].role).toBe('assistant');
+        expect(result!.messages.slice(2)).toEqual(history.slice(4));
+        expect(result!.postTokens).toBeLessThan(result!.preTokens);
+    });
+
+    it('returns null when there is nothing to summarize', async () => {
+        const summarize = vi.fn(async () => 'summary');
+        expect(await compactMessages(history.slice(0, 2), summarize)).toBeNull();
+        expect(summarize).not.toHaveBeenCalled();
+    });
+
+    it('rejects empty summaries', async () => {
+        await expect(compactMessages(history, async () => '  ')).rejects.toThrow('empty summary');
+    });
+});
+
+describe('getAutoCompactThreshold', () => {
+    afterEach(() => {
+        delete process.env.AWEL_AUTO_COMPACT_TOKENS;
+    });
+
+    it('reads AWEL_AUTO_COMPACT_TOKENS', () => {
+        expect(getAutoCompactThreshold()).toBe(100_000);
+        process.env.AWEL_AUTO_COMPACT_TOKENS = '0';
+        expect(getAutoCompactThreshold()).toBe(0);
+        process.env.AWEL_AUTO_COMPACT_TOKENS = 'abc';
+        expect(getAutoCompactThreshold()).toBe(100_000);
+    });
+});
@@ -0,0 +1,197 @@
+import type { ModelMessage } from 'ai';
+import { getSettings } from './settings.js';
+
+// ─── Conversation Compaction ─────────────────────────────────
+// Long sessions are shrunk by summarizing older turns into a single
+// summary exchange while the most recent turns are kept verbatim.
+// Compaction runs automatically once the estimated history size passes
+// a threshold, or on demand when the user sends `/compact`.
+
+export type CompactTrigger = 'manual' | 'auto';
+
+export interface CompactResult {
+    messages: ModelMessage[];
+    /** Estimated tokens of the history before compaction */
+    preTokens: number;
+    /** Estimated tokens after compaction */
+    postTokens: number;
+    /** Number of messages folded into the summary */
+    summarizedCount: number;
+}
+
+/** Compact automatically once the history is estimated above this many tokens. */
+const DEFAULT_AUTO_COMPACT_TOKENS = 100_000;
+
+/** Most recent user turns (with their responses) that are never summarized. */
+const KEEP_RECENT_TURNS = 2;
+
+/** Rough cost of an image attachment. */
+const IMAGE_TOKENS = 1500;
+
+/** Longest tool output quoted in the transcript given to the summarizer. */
+const MAX_TOOL_OUTPUT_CHARS = 2000;
+
+export const SUMMARY_PREFIX = '[Conversation summary]';
+
+const SUMMARY_ACK = 'Understood. I have the context from the summary above and will continue from there.';
+
+/**
+ * Token budget for automatic compaction. AWEL_AUTO_COMPACT_TOKENS
+ * overrides the default; 0 disables automatic compaction.
+ */
+export function getAutoCompactThreshold(): number {
+    const raw = process.env.AWEL_AUTO_COMPACT_TOKENS;
+    if (raw === undefined || raw === '') return getSettings().autoCompactTokens ?? DEFAULT_AUTO_COMPACT_TOKENS;
+    const parsed = parseInt(raw, 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_AUTO_COMPACT_TOKENS;
+}
+
+/**
+ * Parses a `/compact` command. Returns null for other prompts, otherwise
+ * the optional instructions for the summary (e.g. "/compact keep the API design").
+ */
+export function parseCompactCommand(prompt: string): { instructions?: string } | null {
+    const match = /^\/compact(?:\s+([\s\S]*))?$/.exec(prompt.trim());
+    if (!match) return null;
+    const instructions = match[1]?.trim();
+    return instructions ? { instructions } : {};
+}
+
+/**
+ * Estimates the token count of a message list at ~4 characters per token.
+ */
+export function estimateTokens(messages: ModelMessage[]): number {
+    let chars = 0;
+    let images = 0;
+    for (const message of messages) {
+        if (typeof message.content === 'string') {
+            chars += message.content.length;
+            continue;
+        }
+        for (const part of message.content) {
+            if (part.type === 'image' || part.type === 'file') {
+                images++;
+            } else {
+                chars += JSON.stringify(part).length;
+            }
+        }
+    }
+    return Math.ceil(chars / 4) + images * IMAGE_TOKENS;
+}
+
+function clip(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max)}… [${text.length - max} more characters]` : text;
+}
+
+/**
+ * Renders messages as a plain-text transcript for the summarizer.
+ * Tool outputs are clipped and images are replaced with a placeholder.
+ */
+export function renderTranscript(messages: ModelMessage[]): string {
+    const lines: string[] = [];
+    for (const message of messages) {
+        const speaker = message.role === 'user' ? 'User'
+            : message.role === 'assistant' ? 'Assistant'
+            : message.role === 'tool' ? 'Tool'
+            : 'System';
+
+        if (typeof message.content === 'string') {
+            lines.push(`${speaker}: ${message.content}`);
+            continue;
+        }
+
+        for (const part of message.content) {
+            switch (part.type) {
+                case 'text':
+                    lines.push(`${speaker}: ${part.text}`);
+                    break;
+                case 'image':
+                case 'file':
+                    lines.push(`${speaker}: [attachment]`);
+                    break;
+                case 'tool-call':
+                    lines.push(`Assistant called ${part.toolName}(${clip(JSON.stringify(part.input), 500)})`);
+                    break;
+                case 'tool-result': {
+                    const result = part.output;
+                    const output = result.type === 'text' || result.type === 'error-text'
+                        ? result.value
+                        : 'value' in result ? JSON.stringify(result.value) : result.type;
+                    lines.push(`${part.toolName} returned: ${clip(output, MAX_TOOL_OUTPUT_CHARS)}`);
+                    break;
+                }
+                default:
+                    // Reasoning and other parts carry nothing worth summarizing
+                    break;
+            }
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Index of the first message that is kept verbatim: the start of the
+ * `keepRecentTurns`-th last user turn, or the end when no turns are kept.
+ * Returns 0 when there is nothing older to summarize.
+ */
+export function findCompactionSplit(messages: ModelMessage[], keepRecentTurns = KEEP_RECENT_TURNS): number {
+    if (keepRecentTurns <= 0) return messages.length;
+    let turns = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role === 'user') {
+            turns++;
+            if (turns === keepRecentTurns) return i;
+        }
+    }
+    return 0;
+}
+
+export function buildSummaryPrompt(transcript: string, instructions?: string): string {
+    return [
+        'You are compacting the history of a coding session between a user and an AI coding agent so the agent can continue without the full transcript.',
+        'Write a concise summary that preserves:',
+        '- what the user asked for and any preferences or constraints they stated',
+        '- the files that were read, created or changed, and what changed in them',
+        '- decisions made, problems found and how they were resolved',
+        '- work that is still pending or was left unfinished',
+        'Include exact file paths, identifiers and error messages where they matter. Reply with the summary only.',
+        instructions ? `\nAdditional instructions from the user: ${instructions}` : '',
+        '',
+        '<transcript>',
+        transcript,
+        '</transcript>',
+    ].filter(line => line !== '').join('\n');
+}
+
+/**
+ * Replaces all but the most recent turns with a summary exchange.
+ * Returns null when the history is too short to compact.
+ * @param summarize - One-shot completion used to write the summary
+ */
+export async function compactMessages(
+    messages: ModelMessage[],
+    summarize: (prompt: string) => Promise<string>,
+    options: { instructions?: string; keepRecentTurns?: number } = {},
+): Promise<CompactResult | null> {
+    const split = findCompactionSplit(messages, options.keepRecentTurns);
+    if (split === 0) return null;
+
+    const older = messages.slice(0, split);
+    const recent = messages.slice(split);
+    const summary = (await summarize(buildSummaryPrompt(renderTranscript(older), options.instructions))).trim();
+    if (!summary) throw new Error('The model returned an empty summary');
+
+    // A user/assistant pair keeps roles alternating before the next user turn
+    const compacted: ModelMessage[] = [
+        { role: 'user', content: `${SUMMARY_PREFIX}\n\n${summary}` },
+        { role: 'assistant', content: SUMMARY_ACK },
+        ...recent,
+    ];
+
+    return {
+        messages: compacted,
+        preTokens: estimateTokens(messages),
+        postTokens: estimateTokens(compacted),
+        summarizedCount: older.length,
+    };
+}
@@ -3,48 +3,74 @@
 // Tools emit a 'confirm' SSE event and await a promise that resolves
 // when the user approves or rejects via the dashboard.
 
+import type { PermissionRequest } from './permissions.js';
+
 interface PendingConfirmation {
     resolve: (approved: boolean) => void;
     timer: ReturnType<typeof setTimeout>;
+    /** What is being confirmed, for "always allow" */
+    permission?: PermissionRequest;
 }
 
 const pending = new Map<string, PendingConfirmation>();
 
-// Separate auto-approve flags for bash commands vs file writes (Write/Edit/MultiEdit).
+// Separate auto-approve flags for bash commands, file writes (Write/Edit/MultiEdit)
+// and tools from external MCP servers.
 let autoApproveBash = false;
 let autoApproveFileWrites = false;
+let autoApproveMcp = false;
+
+export type AutoApproveCategory = 'bash' | 'fileWrites' | 'mcp';
 
-export type AutoApproveCategory = 'bash' | 'fileWrites';
+// What resetAutoApprove returns to — the `autoApprove` project setting
+let defaults: Partial<Record<AutoApproveCategory, boolean>> = {};
+
+export function setAutoApproveDefaults(value: Partial<Record<AutoApproveCategory, boolean>>): void {
+    defaults = value;
+    resetAutoApprove();
+}
 
 export function setAutoApprove(category: AutoApproveCategory, value: boolean): void {
     if (category === 'bash') autoApproveBash = value;
+    else if (category === 'mcp') autoApproveMcp = value;
     else autoApproveFileWrites = value;
 }
 
 export function isAutoApproved(category: AutoApproveCategory): boolean {
-    return category === 'bash' ? autoApproveBash : autoApproveFileWrites;
+    if (category === 'bash') return autoApproveBash;
+    if (category === 'mcp') return autoApproveMcp;
+    return autoApproveFileWrites;
 }
 
 export function resetAutoApprove(): void {
-    autoApproveBash = false;
-    autoApproveFileWrites = false;
+    autoApproveBash = defaults.bash ?? false;
+    autoApproveFileWrites = defaults.fileWrites ?? false;
+    autoApproveMcp = defaults.mcp ?? false;
 }
 
 /**
  * Request user confirmation for a tool call.
  * Returns a promise that resolves to `true` (approved) or `false` (rejected/timed out).
+ * @param permission - The call being confirmed, so "always allow" can turn it into a rule
  */
-export function requestConfirmation(confirmId: string, timeoutMs = 120_000): Promise<boolean> {
+export function requestConfirmation(confirmId: string, permission?: PermissionRequest, timeoutMs = 120_000): Promise<boolean> {
     return new Promise<boolean>((resolve) => {
         const timer = setTimeout(() => {
             pending.delete(confirmId);
             resolve(false);
         }, timeoutMs);
 
-        pending.set(confirmId, { resolve, timer });
+        pending.set(confirmId, { resolve, timer, permission });
     });
 }
 
+/**
+ * The tool call a pending confirmation is for, if the tool provided it.
+ */
+export function getPendingPermissionRequest(confirmId: string): PermissionRequest | undefined {
+    return pending.get(confirmId)?.permission;
+}
+
 /**
  * Resolve a pending confirmation.
  * Returns `true` if the confirmId existed and was resolved, `false` if not found.
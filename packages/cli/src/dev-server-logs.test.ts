@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    classifyLine,
+    recordDevServerOutput,
+    getDevServerLogs,
+    clearDevServerLogs,
+    formatDevServerLogs,
+} from './dev-server-logs.js';
+
+describe('classifyLine', () => {
+    it('recognises requests, compile errors and warnings', () => {
+        expect(classifyLine(' GET /about 200 in 41ms')).toEqual({ level: 'info', kind: 'request' });
+        expect(classifyLine(' POST /api/save 500 in 12ms')).toEqual({ level: 'error', kind: 'request' });
+        expect(classifyLine(' ⨯ ./app/page.tsx:4:1 Module not found')).toEqual({ level: 'error', kind: 'compile' });
+        expect(classifyLine('TypeError: Cannot read properties of undefined')).toEqual({ level: 'error', kind: 'runtime' });
+        expect(classifyLine(' ⚠ Fast Refresh had to perform a full reload')).toEqual({ level: 'warning', kind: 'output' });
+        expect(classifyLine(' ✓ Ready in 1.2s')).toBeNull();
+    });
+});
+
+describe('recordDevServerOutput', () => {
+    beforeEach(() => {
+        clearDevServerLogs();
+    });
+
+    it('folds code frames into the preceding error', () => {
+        recordDevServerOutput('\x1b[31mError: Failed to compile\x1b[39m', 'stderr', 1000);
+        recordDevServerOutput('  1 | export default function Page() {', 'stderr', 1010);
+        recordDevServerOutput('> 2 |   return <div>', 'stderr', 1020);
+        // Too late to belong to the error
+        recordDevServerOutput('  ready', 'stdout', 2000);
+
+        const logs = getDevServerLogs();
+        expect(logs).toHaveLength(2);
+        expect(logs[0].message).toBe('Error: Failed to compile\n  1 | export default function Page() {\n> 2 |   return <div>');
+        expect(logs[1].level).toBe('info');
+    });
+
+    it('counts repeated lines instead of adding them', () => {
+        recordDevServerOutput(' ⚠ Unsupported metadata themeColor', 'stdout', 1000);
+        recordDevServerOutput(' ⚠ Unsupported metadata themeColor', 'stdout', 5000);
+
+        const logs = getDevServerLogs();
+        expect(logs).toHaveLength(1);
+        expect(logs[0].count).toBe(2);
+        expect(formatDevServerLogs(logs)).toContain('warning output (×2): ⚠ Unsupported metadata themeColor');
+    });
+
+    it('filters by minimum level and kind', () => {
+        recordDevServerOutput(' GET / 200 in 10ms', 'stdout', 1000);
+        recordDevServerOutput(' ⚠ deprecated option', 'stdout', 2000);
+        recordDevServerOutput('Error: Module not found', 'stderr', 3000);
+
+        expect(getDevServerLogs({ level: 'warning' }).map(e => e.level)).toEqual(['warning', 'error']);
+        expect(getDevServerLogs({ level: 'error' })).toHaveLength(1);
+        expect(getDevServerLogs({ kind: 'request' })).toHaveLength(1);
+        expect(getDevServerLogs({ limit: 1 })[0].level).toBe('error');
+    });
+});
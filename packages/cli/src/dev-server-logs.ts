@@ -0,0 +1,130 @@
+import { EventEmitter } from 'events';
+
+// ─── Dev Server Logs ─────────────────────────────────────────
+// The dev server's output, split into entries the agent and the dashboard
+// can use: compile errors, runtime errors, warnings, request logs and
+// everything else. Lines that continue an error or warning (code frames,
+// stack traces) are folded into it. Only the most recent entries are kept.
+
+export type DevServerLogLevel = 'error' | 'warning' | 'info';
+export type DevServerLogKind = 'compile' | 'runtime' | 'request' | 'output';
+
+export interface DevServerLogEntry {
+    id: number;
+    level: DevServerLogLevel;
+    kind: DevServerLogKind;
+    message: string;
+    stream: 'stdout' | 'stderr';
+    timestamp: number;
+    /** Times the same message repeated in a row */
+    count: number;
+}
+
+const MAX_ENTRIES = 500;
+const MAX_ENTRY_LINES = 40;
+/** Unmarked lines this soon after an error or warning belong to it */
+const CONTINUATION_WINDOW_MS = 250;
+
+const ANSI_RE = /\x1b\[[0-9;?]*[A-Za-z]/g;
+const REQUEST_RE = /^\s*(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+\S+\s+(\d{3})\b/;
+const ERROR_RE = /(⨯|✖|✗|\berror\b|\w+Error:|failed to compile|module not found|unhandled(?: promise)? rejection|\bexception\b)/i;
+const WARNING_RE = /(⚠|\bwarn(?:ing)?\b|deprecat)/i;
+const COMPILE_RE = /(compil|module not found|syntax|transform|failed to (?:compile|parse)|\[vite\]|\[plugin:|can't resolve|cannot find module|type error)/i;
+/** Code frames, stack frames and indented detail */
+const CONTINUATION_RE = /^(\s+|\s*at\s|\s*\d+\s*\||\s*>\s*\d+\s*\||\s*\|)/;
+
+let entries: DevServerLogEntry[] = [];
+let nextId = 1;
+
+/** Emits 'entry' with every new or updated entry */
+export const devServerLogBus = new EventEmitter();
+
+export function stripAnsi(text: string): string {
+    return text.replace(ANSI_RE, '');
+}
+
+/**
+ * Level and kind of a single line of output, or null for a line without
+ * a recognisable marker.
+ */
+export function classifyLine(line: string): { level: DevServerLogLevel; kind: DevServerLogKind } | null {
+    const request = REQUEST_RE.exec(line);
+    if (request) {
+        return { level: Number(request[2]) >= 500 ? 'error' : 'info', kind: 'request' };
+    }
+    if (ERROR_RE.test(line)) {
+        return { level: 'error', kind: COMPILE_RE.test(line) ? 'compile' : 'runtime' };
+    }
+    if (WARNING_RE.test(line)) {
+        return { level: 'warning', kind: COMPILE_RE.test(line) ? 'compile' : 'output' };
+    }
+    return null;
+}
+
+/**
+ * Adds a line of dev server output to the log.
+ */
+export function recordDevServerOutput(rawLine: string, stream: 'stdout' | 'stderr', now = Date.now()): void {
+    const line = stripAnsi(rawLine).replace(/\s+$/, '');
+    if (!line.trim()) return;
+
+    const last = entries[entries.length - 1];
+    const classified = classifyLine(line);
+
+    // Fold detail lines into the error or warning they belong to
+    if (last && last.level !== 'info' && now - last.timestamp <= CONTINUATION_WINDOW_MS
+        && (!classified || CONTINUATION_RE.test(line))) {
+        if (last.message.split('\n').length < MAX_ENTRY_LINES) {
+            last.message += '\n' + line;
+            last.timestamp = now;
+            devServerLogBus.emit('entry', last);
+        }
+        return;
+    }
+
+    const { level, kind } = classified ?? { level: 'info' as const, kind: 'output' as const };
+    const message = line.trimStart();
+
+    if (last && last.message === message && last.level === level) {
+        last.count++;
+        last.timestamp = now;
+        devServerLogBus.emit('entry', last);
+        return;
+    }
+
+    const entry: DevServerLogEntry = { id: nextId++, level, kind, message, stream, timestamp: now, count: 1 };
+    entries.push(entry);
+    if (entries.length > MAX_ENTRIES) entries = entries.slice(-MAX_ENTRIES);
+    devServerLogBus.emit('entry', entry);
+}
+
+/**
+ * Recent entries, oldest first. `level` keeps that level and the more
+ * severe ones; `kind` keeps one kind.
+ */
+export function getDevServerLogs(opts: { level?: DevServerLogLevel; kind?: DevServerLogKind; limit?: number } = {}): DevServerLogEntry[] {
+    const minSeverity = severity(opts.level ?? 'info');
+    const matching = entries.filter(e =>
+        severity(e.level) >= minSeverity && (!opts.kind || e.kind === opts.kind),
+    );
+    return opts.limit ? matching.slice(-opts.limit) : matching;
+}
+
+function severity(level: DevServerLogLevel): number {
+    return level === 'error' ? 2 : level === 'warning' ? 1 : 0;
+}
+
+export function clearDevServerLogs(): void {
+    entries = [];
+}
+
+/**
+ * Formats entries for the agent, one block per entry.
+ */
+export function formatDevServerLogs(logs: DevServerLogEntry[]): string {
+    return logs.map(e => {
+        const time = new Date(e.timestamp).toISOString().slice(11, 19);
+        const repeat = e.count > 1 ? ` (×${e.count})` : '';
+        return `[${time}] ${e.level} ${e.kind}${repeat}: ${e.message}`;
+    }).join('\n');
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, symlinkSync, utimesSync } from 'fs';
+import { join, dirname } from 'path';
+import { tmpdir } from 'os';
+import { createRequire } from 'module';
+import { getDiagnostics, formatDiagnostics, resetDiagnosticsCache } from './diagnostics.js';
+
+const typescriptDir = dirname(createRequire(import.meta.url).resolve('typescript/package.json'));
+
+const COMPILER_OPTIONS = { strict: true, target: 'es2020', lib: ['es2020'], types: [], skipLibCheck: true };
+
+describe('getDiagnostics', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-diagnostics-'));
+        mkdirSync(join(projectCwd, 'node_modules'));
+        symlinkSync(typescriptDir, join(projectCwd, 'node_modules', 'typescript'), 'dir');
+        mkdirSync(join(projectCwd, 'src'));
+    });
+
+    afterEach(() => {
+        resetDiagnosticsCache();
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    function write(file: string, content: string, mtime?: number) {
+        const path = join(projectCwd, file);
+        writeFileSync(path, content, 'utf-8');
+        if (mtime) utimesSync(path, mtime, mtime);
+        return path;
+    }
+
+    it('reports type errors and picks up edits on the next call', async () => {
+        write('tsconfig.json', JSON.stringify({ compilerOptions: COMPILER_OPTIONS, include: ['src'] }));
+        const file = write('src/count.ts', 'export const count: number = "one";\n', 1_000);
+
+        const first = await getDiagnostics(projectCwd, [file], ['typescript']);
+        expect(first.diagnostics).toEqual([{
+            file: join('src', 'count.ts'),
+            line: 1,
+            column: 14,
+            severity: 'error',
+            source: 'typescript',
+            code: 'TS2322',
+            message: 'Type \'string\' is not assignable to type \'number\'.',
+        }]);
+        expect(formatDiagnostics(first.diagnostics)).toBe(
+            `${join('src', 'count.ts')}:1:14 error TS2322: Type 'string' is not assignable to type 'number'.`,
+        );
+
+        write('src/count.ts', 'export const count: number = 1;\n', 2_000);
+        const second = await getDiagnostics(projectCwd, [file], ['typescript']);
+        expect(second.diagnostics).toEqual([]);
+        expect(second.fileCount).toBe(1);
+    });
+
+    it('checks the configs a solution-style tsconfig references', async () => {
+        write('tsconfig.json', JSON.stringify({ files: [], references: [{ path: './tsconfig.app.json' }] }));
+        write('tsconfig.app.json', JSON.stringify({ compilerOptions: { ...COMPILER_OPTIONS, composite: true }, include: ['src'] }));
+        write('src/ok.ts', 'export const ok = true;\n');
+        write('src/broken.ts', 'export const broken: string = 1;\n');
+
+        const { diagnostics, fileCount } = await getDiagnostics(projectCwd, null, ['typescript']);
+        expect(fileCount).toBe(2);
+        expect(diagnostics.map(d => d.file)).toEqual([join('src', 'broken.ts')]);
+    });
+
+    it('explains why a checker did not run', async () => {
+        const { diagnostics, skipped } = await getDiagnostics(projectCwd, null);
+        expect(diagnostics).toEqual([]);
+        expect(skipped).toEqual({ typescript: 'No tsconfig.json found', eslint: 'ESLint is not configured' });
+    });
+});
@@ -0,0 +1,243 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import { createRequire } from 'module';
+import type * as TS from 'typescript';
+import { getIgnoredDirs } from './settings.js';
+import { getTsProjects, getProjectForFile, isProjectSource, resetLanguageServices, type TsProject } from './language-service.js';
+
+// ─── Diagnostics ─────────────────────────────────────────────
+// Type errors from the TypeScript language service and lint problems from
+// ESLint, as file/line/message records. Both come from the project's own
+// installs and are kept between calls (see language-service.ts), so
+// checking again after an edit only re-checks what changed.
+
+export type DiagnosticSource = 'typescript' | 'eslint';
+
+export interface Diagnostic {
+    /** Relative to the project root */
+    file: string;
+    line: number;
+    column: number;
+    severity: 'error' | 'warning';
+    source: DiagnosticSource;
+    /** e.g. TS2322 or the ESLint rule */
+    code?: string;
+    message: string;
+}
+
+export interface DiagnosticsResult {
+    diagnostics: Diagnostic[];
+    /** Files that were checked */
+    fileCount: number;
+    /** Why a source did not run, e.g. ESLint isn't configured */
+    skipped: Partial<Record<DiagnosticSource, string>>;
+}
+
+const ESLINT_CONFIG_FILES = [
+    'eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', 'eslint.config.ts', 'eslint.config.mts', 'eslint.config.cts',
+    '.eslintrc', '.eslintrc.js', '.eslintrc.cjs', '.eslintrc.json', '.eslintrc.yml', '.eslintrc.yaml',
+];
+const SOURCE_EXTENSIONS = /\.(?:[cm]?[jt]sx?)$/;
+
+function requireFromProject<T>(projectCwd: string, name: string): T | null {
+    try {
+        return createRequire(join(projectCwd, 'package.json'))(name) as T;
+    } catch {
+        return null;
+    }
+}
+
+function mtimeOf(path: string): number {
+    try {
+        return statSync(path).mtimeMs;
+    } catch {
+        return 0;
+    }
+}
+
+// ─── TypeScript ──────────────────────────────────────────────
+
+function toDiagnostic(ts: typeof TS, projectCwd: string, d: TS.Diagnostic): Diagnostic | null {
+    if (!d.file || d.start === undefined) return null;
+    if (d.category !== ts.DiagnosticCategory.Error && d.category !== ts.DiagnosticCategory.Warning) return null;
+    const { line, character } = d.file.getLineAndCharacterOfPosition(d.start);
+    return {
+        file: relative(projectCwd, d.file.fileName),
+        line: line + 1,
+        column: character + 1,
+        severity: d.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+        source: 'typescript',
+        code: `TS${d.code}`,
+        message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+    };
+}
+
+function runTypeScript(projectCwd: string, files: string[] | null): { diagnostics: Diagnostic[]; checked: Set<string> } | string {
+    const tsProjects = getTsProjects(projectCwd);
+    if (typeof tsProjects === 'string') return tsProjects;
+    const { ts, projects } = tsProjects;
+
+    // Each requested file goes to the project that includes it, else the first
+    const targets = new Map<TsProject, string[]>();
+    if (files) {
+        for (const file of files) {
+            if (!SOURCE_EXTENSIONS.test(file)) continue;
+            const project = getProjectForFile(projects, file);
+            targets.set(project, [...(targets.get(project) ?? []), file]);
+        }
+    } else {
+        const ignoredDirs = getIgnoredDirs(projectCwd);
+        for (const project of projects) {
+            const program = project.service.getProgram();
+            if (!program) continue;
+            targets.set(project, program.getSourceFiles()
+                .map(sf => sf.fileName)
+                .filter(f => isProjectSource(projectCwd, f, ignoredDirs)));
+        }
+    }
+
+    const diagnostics: Diagnostic[] = [];
+    const checked = new Set<string>();
+    for (const [project, projectFiles] of targets) {
+        if (!files) {
+            for (const d of project.service.getCompilerOptionsDiagnostics()) {
+                const converted = toDiagnostic(ts, projectCwd, d);
+                if (converted) diagnostics.push(converted);
+            }
+        }
+        for (const file of projectFiles) {
+            if (checked.has(file)) continue;
+            checked.add(file);
+            for (const d of [...project.service.getSyntacticDiagnostics(file), ...project.service.getSemanticDiagnostics(file)]) {
+                const converted = toDiagnostic(ts, projectCwd, d);
+                if (converted) diagnostics.push(converted);
+            }
+        }
+    }
+    return { diagnostics, checked };
+}
+
+// ─── ESLint ──────────────────────────────────────────────────
+
+interface ESLintMessage {
+    line?: number;
+    column?: number;
+    severity: 0 | 1 | 2;
+    message: string;
+    ruleId: string | null;
+}
+
+interface ESLintInstance {
+    lintFiles(patterns: string[]): Promise<{ filePath: string; messages: ESLintMessage[] }[]>;
+}
+
+type ESLintClass = new (options: { cwd: string }) => ESLintInstance;
+
+interface ESLintModule {
+    ESLint: ESLintClass;
+    /** ESLint 9+: picks flat or legacy config for the project */
+    loadESLint?: (options: { cwd: string }) => Promise<ESLintClass>;
+}
+
+const eslintCache = new Map<string, { stamp: string; eslint: ESLintInstance }>();
+
+function findESLintConfigs(projectCwd: string): string[] {
+    const configs = ESLINT_CONFIG_FILES.map(f => join(projectCwd, f)).filter(existsSync);
+    if (configs.length > 0) return configs;
+    try {
+        const pkg = JSON.parse(readFileSync(join(projectCwd, 'package.json'), 'utf-8'));
+        if (pkg.eslintConfig) return [join(projectCwd, 'package.json')];
+    } catch {
+        // No package.json
+    }
+    return [];
+}
+
+async function runESLint(projectCwd: string, files: string[] | null): Promise<{ diagnostics: Diagnostic[]; checked: Set<string> } | string> {
+    const configs = findESLintConfigs(projectCwd);
+    if (configs.length === 0) return 'ESLint is not configured';
+    const mod = requireFromProject<ESLintModule>(projectCwd, 'eslint');
+    if (!mod) return 'ESLint is not installed in the project';
+
+    const stamp = configs.map(c => `${c}:${mtimeOf(c)}`).join('|');
+    let cached = eslintCache.get(projectCwd);
+    if (!cached || cached.stamp !== stamp) {
+        const ESLint = mod.loadESLint ? await mod.loadESLint({ cwd: projectCwd }) : mod.ESLint;
+        cached = { stamp, eslint: new ESLint({ cwd: projectCwd }) };
+        eslintCache.set(projectCwd, cached);
+    }
+
+    const targets = files ? files.filter(f => SOURCE_EXTENSIONS.test(f)) : ['.'];
+    if (targets.length === 0) return { diagnostics: [], checked: new Set() };
+
+    const diagnostics: Diagnostic[] = [];
+    const checked = new Set<string>();
+    for (const result of await cached.eslint.lintFiles(targets)) {
+        checked.add(result.filePath);
+        for (const m of result.messages) {
+            // Files passed explicitly but ignored by the config are reported as warnings
+            if (!m.ruleId && m.severity === 1 && m.message.startsWith('File ignored')) continue;
+            if (m.severity === 0) continue;
+            diagnostics.push({
+                file: relative(projectCwd, result.filePath),
+                line: m.line ?? 1,
+                column: m.column ?? 1,
+                severity: m.severity === 2 ? 'error' : 'warning',
+                source: 'eslint',
+                ...(m.ruleId && { code: m.ruleId }),
+                message: m.message,
+            });
+        }
+    }
+    return { diagnostics, checked };
+}
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Diagnostics for the given absolute file paths, or for the whole project
+ * when `files` is null. Sorted by file and position.
+ */
+export async function getDiagnostics(
+    projectCwd: string,
+    files: string[] | null,
+    sources: DiagnosticSource[] = ['typescript', 'eslint'],
+): Promise<DiagnosticsResult> {
+    const diagnostics: Diagnostic[] = [];
+    const checked = new Set<string>();
+    const skipped: DiagnosticsResult['skipped'] = {};
+
+    for (const source of sources) {
+        let result: { diagnostics: Diagnostic[]; checked: Set<string> } | string;
+        try {
+            result = source === 'typescript' ? runTypeScript(projectCwd, files) : await runESLint(projectCwd, files);
+        } catch (err) {
+            result = `${source === 'typescript' ? 'TypeScript' : 'ESLint'} failed: ${err instanceof Error ? err.message : String(err)}`;
+        }
+        if (typeof result === 'string') {
+            skipped[source] = result;
+            continue;
+        }
+        diagnostics.push(...result.diagnostics);
+        for (const file of result.checked) checked.add(resolve(file));
+    }
+
+    diagnostics.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+    return { diagnostics, fileCount: checked.size, skipped };
+}
+
+/**
+ * One line per diagnostic: `file:line:column severity CODE: message`.
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+    return diagnostics.map(d => {
+        const code = d.source === 'eslint' ? `eslint${d.code ? `(${d.code})` : ''}` : d.code;
+        return `${d.file}:${d.line}:${d.column} ${d.severity} ${code}: ${d.message}`;
+    }).join('\n');
+}
+
+/** Drops the cached language services and ESLint instances (for tests). */
+export function resetDiagnosticsCache(): void {
+    resetLanguageServices();
+    eslintCache.clear();
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import type { ModelMessage } from 'ai';
+import { findForkPoint, withTurnAnchor, getTurnAnchor, getLastTurnAnchor } from './fork.js';
+import { SUMMARY_PREFIX } from './compaction.js';
+import { VERIFICATION_PREFIX } from './verification.js';
+import type { ChatMessage } from './sse.js';
+
+function entry(id: string, eventType: string, text?: string): ChatMessage {
+    return { id, eventType, data: JSON.stringify({ type: eventType, text }), timestamp: Number(id.slice(1)) };
+}
+
+// Two turns: "Add a navbar" (h1–h2) and "Make it sticky" (h3–h4)
+const history: ChatMessage[] = [
+    entry('h1', 'user', 'Add a navbar'),
+    entry('h2', 'result'),
+    entry('h3', 'user', 'Make it sticky'),
+    entry('h4', 'result'),
+];
+
+const messages: ModelMessage[] = [
+    withTurnAnchor({ role: 'user', content: 'Add a navbar' }, 'h2'),
+    { role: 'assistant', content: 'Added.' },
+    withTurnAnchor({ role: 'user', content: 'Make it sticky' }, 'h4'),
+    { role: 'assistant', content: 'Done.' },
+];
+
+describe('turn anchors', () => {
+    it('round-trips through providerOptions without touching the content', () => {
+        const tagged = withTurnAnchor({ role: 'user', content: 'hi' }, 'h1');
+        expect(tagged.content).toBe('hi');
+        expect(getTurnAnchor(tagged)).toBe('h1');
+        expect(getTurnAnchor({ role: 'user', content: 'hi' })).toBeUndefined();
+        expect(withTurnAnchor({ role: 'user', content: 'hi' }, undefined)).toEqual({ role: 'user', content: 'hi' });
+    });
+
+    it('finds the latest anchored user turn', () => {
+        expect(getLastTurnAnchor(messages)).toBe('h4');
+        expect(getLastTurnAnchor(messages.slice(0, 2))).toBe('h2');
+        expect(getLastTurnAnchor([])).toBeUndefined();
+    });
+});
+
+describe('findForkPoint', () => {
+    it('cuts the history at the message and the session at its turn', () => {
+        expect(findForkPoint(history, messages, 'h3')).toEqual({
+            success: true, historyLength: 2, sessionLength: 2, timestamp: 3, text: 'Make it sticky',
+        });
+        expect(findForkPoint(history, messages, 'h1')).toMatchObject({ historyLength: 0, sessionLength: 0 });
+    });
+
+    it('keeps the whole session when the turn never reached it', () => {
+        const aborted = [...history, entry('h5', 'user', 'Now the footer'), entry('h6', 'aborted')];
+        expect(findForkPoint(aborted, messages, 'h5')).toMatchObject({ historyLength: 4, sessionLength: 4 });
+    });
+
+    it('treats feedback from failed checks as part of the turn before it', () => {
+        const withFeedback: ModelMessage[] = [
+            ...messages.slice(0, 2),
+            { role: 'user', content: `${VERIFICATION_PREFIX}\nThese checks failed after your changes: typecheck.` },
+            { role: 'assistant', content: 'Fixed.' },
+            ...messages.slice(2),
+        ];
+        expect(findForkPoint(history, withFeedback, 'h3')).toMatchObject({ success: true, sessionLength: 4 });
+    });
+
+    it('only accepts user messages', () => {
+        expect(findForkPoint(history, messages, 'h2')).toEqual({ success: false, error: 'Message not found' });
+        expect(findForkPoint(history, messages, 'missing')).toMatchObject({ success: false });
+    });
+
+    it('refuses to fork from a turn folded into a compaction summary', () => {
+        const compacted: ModelMessage[] = [
+            withTurnAnchor({ role: 'user', content: `${SUMMARY_PREFIX}\n\nAdded a sticky navbar.` }, 'h4'),
+            { role: 'assistant', content: 'Understood.' },
+        ];
+        expect(findForkPoint(history, compacted, 'h3')).toMatchObject({ success: false });
+
+        // Messages after the summarized turns can still be forked
+        const later = [...history, entry('h5', 'user', 'Now the footer'), entry('h6', 'result')];
+        const withTurn = [...compacted, withTurnAnchor({ role: 'user', content: 'Now the footer' }, 'h6')];
+        expect(findForkPoint(later, withTurn, 'h5')).toMatchObject({ success: true, sessionLength: 2 });
+    });
+
+    it('refuses sessions recorded without anchors', () => {
+        const legacy: ModelMessage[] = [{ role: 'user', content: 'Add a navbar' }];
+        expect(findForkPoint(history, legacy, 'h3')).toMatchObject({ success: false });
+    });
+});
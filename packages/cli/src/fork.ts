@@ -0,0 +1,102 @@
+import type { ModelMessage } from 'ai';
+import { SUMMARY_PREFIX } from './compaction.js';
+import { isVerificationFeedback } from './verification.js';
+import type { ChatMessage } from './sse.js';
+
+// ─── Conversation Forks ──────────────────────────────────────
+// A fork rewinds a conversation to just before one of the user's earlier
+// messages so it can be edited and sent again in a new thread. The chat
+// history is cut at the message itself; the session is cut at the first
+// turn recorded after it.
+//
+// Session user messages do not map 1:1 to history `user` events (plan
+// approvals and question answers start turns without one, aborted turns
+// never reach the session), so every recorded turn is tagged with the id
+// of the last history entry at the time it was recorded — its anchor.
+// The summary message written by compaction carries the anchor of the
+// last turn it folded in. Feedback from failed checks is part of the turn
+// it follows and has no anchor of its own.
+
+/** providerOptions namespace for Awel metadata; no provider reads it. */
+const ANCHOR_NAMESPACE = 'awel';
+
+export type ForkPoint =
+    | { success: true; historyLength: number; sessionLength: number; timestamp: number; text: string }
+    | { success: false; error: string };
+
+/**
+ * Returns a copy of the message tagged with the given history anchor.
+ */
+export function withTurnAnchor<T extends ModelMessage>(message: T, anchor: string | undefined): T {
+    if (!anchor) return message;
+    return {
+        ...message,
+        providerOptions: { ...message.providerOptions, [ANCHOR_NAMESPACE]: { historyAnchor: anchor } },
+    };
+}
+
+export function getTurnAnchor(message: ModelMessage): string | undefined {
+    const anchor = message.providerOptions?.[ANCHOR_NAMESPACE]?.historyAnchor;
+    return typeof anchor === 'string' ? anchor : undefined;
+}
+
+/**
+ * Anchor of the most recent tagged user turn (or compaction summary) in
+ * the messages, used to tag a summary that folds them in.
+ */
+export function getLastTurnAnchor(messages: ModelMessage[]): string | undefined {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role !== 'user') continue;
+        const anchor = getTurnAnchor(messages[i]);
+        if (anchor) return anchor;
+    }
+    return undefined;
+}
+
+function isSummary(message: ModelMessage): boolean {
+    return typeof message.content === 'string' && message.content.startsWith(SUMMARY_PREFIX);
+}
+
+/**
+ * Works out where to cut the history and the session to fork from the
+ * given user message. Fails when the message is unknown or when a later
+ * turn was already folded into a compaction summary, whose text can no
+ * longer be split.
+ */
+export function findForkPoint(history: ChatMessage[], messages: ModelMessage[], messageId: string): ForkPoint {
+    const historyLength = history.findIndex(m => m.id === messageId);
+    const entry = history[historyLength];
+    if (!entry || entry.eventType !== 'user') {
+        return { success: false, error: 'Message not found' };
+    }
+
+    let text = '';
+    try {
+        text = JSON.parse(entry.data).text ?? '';
+    } catch {
+        // Fork without prefilled text
+    }
+
+    const historyIndex = new Map(history.map((m, i) => [m.id, i]));
+    let sessionLength = messages.length;
+    for (let i = 0; i < messages.length; i++) {
+        const message = messages[i];
+        if (message.role !== 'user' || isVerificationFeedback(message)) continue;
+
+        const anchor = getTurnAnchor(message);
+        if (!anchor) {
+            if (isSummary(message)) continue;
+            return { success: false, error: 'This conversation was recorded before forking was supported' };
+        }
+        // Anchors trimmed from the history belong to older turns
+        if ((historyIndex.get(anchor) ?? -1) < historyLength) continue;
+
+        if (isSummary(message)) {
+            return { success: false, error: 'This message was summarized by compaction and can no longer be forked' };
+        }
+        sessionLength = i;
+        break;
+    }
+
+    return { success: true, historyLength, sessionLength, timestamp: entry.timestamp, text };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { detectFramework } from './frameworks.js';
+import { addSourcePluginToReactCall } from './babel-setup.js';
+
+describe('detectFramework', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-frameworks-'));
+    });
+
+    afterEach(() => {
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    function writePackage(dependencies: Record<string, string>) {
+        writeFileSync(join(projectCwd, 'package.json'), JSON.stringify({ dependencies }));
+    }
+
+    it('recognises each framework from its dependencies', () => {
+        const cases: [Record<string, string>, string | undefined][] = [
+            [{ next: '15.0.0', react: '19.0.0' }, 'nextjs'],
+            [{ vite: '6.0.0', react: '19.0.0' }, 'vite'],
+            [{ '@react-router/dev': '7.0.0', react: '19.0.0' }, 'react-router'],
+            [{ '@remix-run/dev': '2.0.0', react: '18.0.0' }, 'remix'],
+            [{ 'react-scripts': '5.0.0', react: '18.0.0' }, 'cra'],
+            [{ astro: '5.0.0', '@astrojs/react': '4.0.0' }, 'astro'],
+            [{ react: '19.0.0' }, 'react'],
+            [{ astro: '5.0.0' }, undefined],
+            [{ vue: '3.0.0' }, undefined],
+        ];
+        for (const [deps, expected] of cases) {
+            writePackage(deps);
+            expect(detectFramework(projectCwd)?.id).toBe(expected);
+        }
+    });
+
+    it('passes the port the way each dev server expects it', () => {
+        writePackage({ vite: '6.0.0', react: '19.0.0' });
+        expect(detectFramework(projectCwd)!.devCommand(4000).args).toEqual(['run', 'dev', '--', '--port', '4000', '--strictPort']);
+
+        writePackage({ 'react-scripts': '5.0.0', react: '18.0.0' });
+        const cra = detectFramework(projectCwd)!.devCommand(4000);
+        expect(cra.args).toEqual(['run', 'dev']);
+        expect(cra.env).toEqual({ PORT: '4000', BROWSER: 'none' });
+
+        // Remix switches to Vite flags once it has a Vite config
+        writePackage({ '@remix-run/dev': '2.0.0', react: '18.0.0' });
+        expect(detectFramework(projectCwd)!.devCommand(4000).args).toEqual(['run', 'dev']);
+        writeFileSync(join(projectCwd, 'vite.config.ts'), 'export default {}');
+        expect(detectFramework(projectCwd)!.devCommand(4000).args).toContain('--strictPort');
+    });
+});
+
+describe('addSourcePluginToReactCall', () => {
+    it('adds the plugin to a bare react() call', () => {
+        const config = `import react from '@vitejs/plugin-react';\nexport default defineConfig({ plugins: [react()] });\n`;
+        expect(addSourcePluginToReactCall(config, '/awel/babel-plugin-awel-source.cjs')).toContain(
+            'plugins: [react({ babel: { plugins: ["/awel/babel-plugin-awel-source.cjs"] } })]',
+        );
+    });
+
+    it('leaves configs it cannot change safely alone', () => {
+        expect(addSourcePluginToReactCall(`import react from '@vitejs/plugin-react-swc';\nreact()`, '/p')).toBeNull();
+        expect(addSourcePluginToReactCall(`react({ jsxImportSource: '@emotion/react' })`, '/p')).toBeNull();
+    });
+});
@@ -0,0 +1,139 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { ensureBabelPlugin, ensureReactPluginSource } from './babel-setup.js';
+
+// ─── Framework Adapters ──────────────────────────────────────
+// What Awel needs to know about the app's framework: how to start its dev
+// server on a given port, how to install the source-location plugin, and
+// which DOM element React renders into (for finding the route component).
+
+export type FrameworkId = 'nextjs' | 'vite' | 'react-router' | 'remix' | 'cra' | 'astro' | 'react';
+
+export interface DevCommand {
+    command: string;
+    args: string[];
+    env: Record<string, string>;
+}
+
+export interface FrameworkAdapter {
+    id: FrameworkId;
+    /** Shown in the CLI, e.g. "Starting your Vite app..." */
+    label: string;
+    devCommand(port: number): DevCommand;
+    /** Sets up the source plugin (or explains how to), asking the user first */
+    ensureSourcePlugin(projectCwd: string): Promise<void>;
+    /** Elements React renders into, most likely first */
+    rootSelectors: string[];
+}
+
+const NEXT_CONFIG_FILES = ['next.config.js', 'next.config.mjs', 'next.config.ts'];
+const VITE_CONFIG_FILES = ['vite.config.ts', 'vite.config.js', 'vite.config.mts', 'vite.config.mjs'];
+const ASTRO_CONFIG_FILES = ['astro.config.mjs', 'astro.config.ts', 'astro.config.js', 'astro.config.mts'];
+
+/** `npm run dev`, with the port passed both ways */
+function npmDev(port: number, flags: string[] = [], env: Record<string, string> = {}): DevCommand {
+    return {
+        command: 'npm',
+        args: ['run', 'dev', ...(flags.length > 0 ? ['--', ...flags] : [])],
+        env: { PORT: String(port), ...env },
+    };
+}
+
+/** Vite ignores PORT, and would move to the next free port without --strictPort */
+const vitePortFlags = (port: number) => ['--port', String(port), '--strictPort'];
+
+function createAdapters(projectCwd: string): Record<FrameworkId, FrameworkAdapter> {
+    const hasViteConfig = VITE_CONFIG_FILES.some(f => existsSync(join(projectCwd, f)));
+    return {
+        nextjs: {
+            id: 'nextjs',
+            label: 'Next.js',
+            devCommand: port => npmDev(port),
+            ensureSourcePlugin: ensureBabelPlugin,
+            rootSelectors: ['#__next', 'body'],
+        },
+        vite: {
+            id: 'vite',
+            label: 'Vite',
+            devCommand: port => npmDev(port, vitePortFlags(port)),
+            ensureSourcePlugin: cwd => ensureReactPluginSource(cwd, VITE_CONFIG_FILES),
+            rootSelectors: ['#root', '#app'],
+        },
+        'react-router': {
+            id: 'react-router',
+            label: 'React Router',
+            devCommand: port => npmDev(port, vitePortFlags(port)),
+            ensureSourcePlugin: cwd => ensureReactPluginSource(cwd, VITE_CONFIG_FILES),
+            // Framework mode hydrates the whole document
+            rootSelectors: ['body', '#root'],
+        },
+        remix: {
+            id: 'remix',
+            label: 'Remix',
+            // The classic compiler serves the app on PORT; Remix on Vite takes flags
+            devCommand: port => hasViteConfig ? npmDev(port, vitePortFlags(port)) : npmDev(port),
+            ensureSourcePlugin: cwd => ensureReactPluginSource(cwd, VITE_CONFIG_FILES),
+            rootSelectors: ['body'],
+        },
+        cra: {
+            id: 'cra',
+            label: 'Create React App',
+            // react-scripts can't take Babel plugins without ejecting; its dev
+            // build already records _debugSource for the fiber fallback
+            devCommand: port => npmDev(port, [], { BROWSER: 'none' }),
+            ensureSourcePlugin: async () => { },
+            rootSelectors: ['#root'],
+        },
+        astro: {
+            id: 'astro',
+            label: 'Astro',
+            devCommand: port => npmDev(port, ['--port', String(port)]),
+            ensureSourcePlugin: cwd => ensureReactPluginSource(cwd, ASTRO_CONFIG_FILES),
+            // Each React island is its own root
+            rootSelectors: ['astro-island'],
+        },
+        react: {
+            id: 'react',
+            label: 'React',
+            devCommand: port => npmDev(port),
+            ensureSourcePlugin: async () => { },
+            rootSelectors: ['#root', '#app'],
+        },
+    };
+}
+
+function readDependencies(projectCwd: string): Record<string, string> | null {
+    const pkgPath = join(projectCwd, 'package.json');
+    if (!existsSync(pkgPath)) return null;
+    try {
+        const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
+        return { ...pkg.dependencies, ...pkg.devDependencies };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The adapter for the project's framework, or null if it isn't a React
+ * project.
+ */
+export function detectFramework(projectCwd: string): FrameworkAdapter | null {
+    const adapters = createAdapters(projectCwd);
+
+    // Next.js: config file or `next` in dependencies
+    if (NEXT_CONFIG_FILES.some(f => existsSync(join(projectCwd, f)))) return adapters.nextjs;
+
+    const deps = readDependencies(projectCwd);
+    if (!deps) return null;
+
+    if (deps.next) return adapters.nextjs;
+    // Astro only counts with React islands
+    if (deps.astro) return deps['@astrojs/react'] ? adapters.astro : null;
+    if (deps['@react-router/dev']) return adapters['react-router'];
+    if (deps['@remix-run/dev']) return adapters.remix;
+    if (deps['react-scripts']) return adapters.cra;
+    if (!deps.react) return null;
+    if (deps.vite || VITE_CONFIG_FILES.some(f => existsSync(join(projectCwd, f)))) return adapters.vite;
+
+    return adapters.react;
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, unlinkSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { buildCommitMessage, commitSession } from './git.js';
+import { initUndoHistory, startUndoSession, endUndoSession } from './undo.js';
+
+describe('buildCommitMessage', () => {
+    it('uses the prompt as subject and the summary as body', () => {
+        const message = buildCommitMessage({
+            label: 'Make the header sticky',
+            summary: 'Added `sticky top-0` to the header.',
+            files: ['app/layout.tsx'],
+        });
+        expect(message).toBe('Make the header sticky\n\nAdded `sticky top-0` to the header.');
+    });
+
+    it('truncates long subjects and only uses the first line', () => {
+        const message = buildCommitMessage({
+            label: `\n${'a'.repeat(100)}\nsecond line`,
+            files: ['a.ts'],
+        });
+        expect(message).toHaveLength(72);
+        expect(message.endsWith('...')).toBe(true);
+    });
+
+    it('falls back to the changed files when there is no prompt', () => {
+        expect(buildCommitMessage({ label: '', files: ['a.ts'] })).toBe('Update a.ts');
+        expect(buildCommitMessage({ label: '', files: ['a.ts', 'b.ts'] })).toBe('Update 2 files');
+    });
+});
+
+describe('commitSession', () => {
+    let projectCwd: string;
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: projectCwd, stdio: 'pipe' }).toString().trim();
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-git-'));
+        git('init', '-q', '-b', 'main');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        writeFileSync(join(projectCwd, 'page.tsx'), 'before');
+        git('add', '.');
+        git('commit', '-q', '-m', 'init');
+        initUndoHistory(projectCwd);
+    });
+
+    afterEach(() => {
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    function runSession(): string {
+        const sessionId = startUndoSession(projectCwd, 'Add a card');
+        writeFileSync(join(projectCwd, 'page.tsx'), 'after');
+        writeFileSync(join(projectCwd, 'Card.tsx'), 'card');
+        endUndoSession();
+        return sessionId;
+    }
+
+    it('leaves out files the session created that are gone since', () => {
+        const sessionId = runSession();
+        unlinkSync(join(projectCwd, 'Card.tsx'));
+
+        expect(commitSession(projectCwd, { sessionId })).toMatchObject({ success: true, branch: 'main', files: ['page.tsx'] });
+        expect(git('show', '--name-only', '--format=', 'HEAD')).toBe('page.tsx');
+    });
+
+    it('switches back and deletes the new branch when the commit fails', () => {
+        const sessionId = runSession();
+        // Signing with a failing program makes the commit itself fail
+        git('config', 'commit.gpgsign', 'true');
+        git('config', 'gpg.program', 'false');
+
+        expect(commitSession(projectCwd, { sessionId, branch: 'awel/card' })).toMatchObject({ success: false });
+        expect(git('symbolic-ref', '--short', 'HEAD')).toBe('main');
+        expect(git('branch', '--list', 'awel/card')).toBe('');
+        expect(git('log', '--format=%s')).toBe('init');
+    });
+
+    it('refuses a branch that already exists', () => {
+        const sessionId = runSession();
+        git('branch', 'awel/card');
+
+        expect(commitSession(projectCwd, { sessionId, branch: 'awel/card' })).toEqual({ success: false, error: 'Branch awel/card already exists' });
+        expect(git('symbolic-ref', '--short', 'HEAD')).toBe('main');
+    });
+});
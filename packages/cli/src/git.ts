@@ -0,0 +1,234 @@
+import { Hono } from 'hono';
+import { execFileSync } from 'child_process';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { getUndoEntry, markSessionCommitted, type UndoTimelineEntry } from './undo.js';
+import { getSessionProvider } from './session.js';
+
+// ─── Git Integration ─────────────────────────────────────────
+// Turns an agent session from the undo timeline into a git commit.
+// Only the files the session changed are staged and committed, so
+// unrelated work in progress stays untouched.
+
+const MAX_SUBJECT_LENGTH = 72;
+
+export type CommitResult =
+    | { success: true; commit: string; branch: string; message: string; files: string[] }
+    | { success: false; error: string };
+
+export interface CommitOptions {
+    sessionId?: string;
+    message?: string;
+    /** Create and switch to this branch before committing */
+    branch?: string;
+}
+
+function git(projectCwd: string, args: string[]): string {
+    return execFileSync('git', args, { cwd: projectCwd, encoding: 'utf-8', stdio: 'pipe' }).trim();
+}
+
+function isGitRepo(projectCwd: string): boolean {
+    try {
+        git(projectCwd, ['rev-parse', '--git-dir']);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function gitSucceeds(projectCwd: string, args: string[]): boolean {
+    try {
+        git(projectCwd, args);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Where HEAD points: a branch (possibly without commits yet) or a detached commit. */
+type Head = { branch: string } | { commit: string };
+
+function readHead(projectCwd: string): Head {
+    try {
+        return { branch: git(projectCwd, ['symbolic-ref', '--quiet', 'HEAD']) };
+    } catch {
+        return { commit: git(projectCwd, ['rev-parse', 'HEAD']) };
+    }
+}
+
+/**
+ * Moves HEAD back after a commit on a new branch failed and deletes that
+ * branch. Nothing was committed, so the index and working tree already
+ * match the original HEAD and only the ref needs to move.
+ */
+function restoreHead(projectCwd: string, head: Head, createdBranch: string): void {
+    try {
+        if ('branch' in head) {
+            git(projectCwd, ['symbolic-ref', 'HEAD', head.branch]);
+        } else {
+            git(projectCwd, ['update-ref', '--no-deref', 'HEAD', head.commit]);
+        }
+        // Absent when the repository has no commits yet
+        gitSucceeds(projectCwd, ['branch', '-D', createdBranch]);
+    } catch {
+        // Left on the new branch — the error of the commit is reported either way
+    }
+}
+
+function gitErrorMessage(err: unknown): string {
+    const stderr = (err as { stderr?: string | Buffer })?.stderr?.toString().trim();
+    if (stderr) return stderr;
+    return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Builds a commit message from the session's prompt (subject) and the
+ * agent's closing summary (body).
+ */
+export function buildCommitMessage(entry: Pick<UndoTimelineEntry, 'label' | 'summary' | 'files'>): string {
+    const firstLine = entry.label.split('\n').find(l => l.trim())?.trim() ?? '';
+    let subject = firstLine || `Update ${entry.files.length === 1 ? entry.files[0] : `${entry.files.length} files`}`;
+    if (subject.length > MAX_SUBJECT_LENGTH) {
+        subject = subject.slice(0, MAX_SUBJECT_LENGTH - 3).trimEnd() + '...';
+    }
+
+    const body = entry.summary?.trim();
+    return body ? `${subject}\n\n${body}` : subject;
+}
+
+/**
+ * Asks the current chat model for a commit message. Falls back to
+ * buildCommitMessage() when no model is available or the call fails.
+ */
+export async function generateCommitMessage(projectCwd: string, entry: UndoTimelineEntry): Promise<string> {
+    const provider = getSessionProvider();
+    if (!provider?.complete) return buildCommitMessage(entry);
+
+    const prompt = [
+        'Write a git commit message for the change below.',
+        'Use a concise imperative subject line (max 72 characters), then a blank line and a short body if useful.',
+        'Reply with the commit message only — no quotes, no code fences.',
+        '',
+        `User request: ${entry.label}`,
+        entry.summary ? `Agent summary: ${entry.summary}` : '',
+        `Changed files:\n${entry.files.map(f => `- ${f}`).join('\n')}`,
+    ].filter(Boolean).join('\n');
+
+    try {
+        const text = (await provider.complete(prompt, projectCwd)).trim();
+        return text || buildCommitMessage(entry);
+    } catch {
+        return buildCommitMessage(entry);
+    }
+}
+
+/**
+ * Stages exactly the files a session changed and commits them, optionally
+ * on a new branch. Other staged or unstaged changes are left as they are.
+ */
+export function commitSession(projectCwd: string, options: CommitOptions): CommitResult {
+    if (!isGitRepo(projectCwd)) {
+        return { success: false, error: 'Not a git repository' };
+    }
+
+    const entry = getUndoEntry(options.sessionId);
+    if (!entry || entry.status !== 'applied' || entry.files.length === 0) {
+        return { success: false, error: 'Session not found or already reverted' };
+    }
+    if (entry.commit) {
+        return { success: false, error: 'Session already committed' };
+    }
+
+    const message = options.message?.trim() || buildCommitMessage(entry);
+    const branch = options.branch?.trim();
+
+    try {
+        if (branch) {
+            try {
+                git(projectCwd, ['check-ref-format', '--branch', branch]);
+            } catch {
+                return { success: false, error: `Invalid branch name: ${branch}` };
+            }
+            if (gitSucceeds(projectCwd, ['show-ref', '--verify', '--quiet', `refs/heads/${branch}`])) {
+                return { success: false, error: `Branch ${branch} already exists` };
+            }
+        }
+
+        // A file the session created and that was deleted since is neither on
+        // disk nor known to git, and naming it would fail the whole add
+        const tracked = new Set(git(projectCwd, ['ls-files', '-z', '--', ...entry.files]).split('\0'));
+        const files = entry.files.filter(f => tracked.has(f) || existsSync(join(projectCwd, f)));
+        if (files.length === 0) {
+            return { success: false, error: 'None of the session\'s files are left to commit' };
+        }
+        git(projectCwd, ['add', '--all', '--', ...files]);
+
+        // Switching keeps working-tree changes, so the session's files come along
+        const head = branch ? readHead(projectCwd) : null;
+        if (branch) git(projectCwd, ['switch', '-c', branch]);
+        try {
+            // Passing paths commits only these files, whatever else is staged
+            git(projectCwd, ['commit', '-m', message, '--', ...files]);
+        } catch (err) {
+            if (branch && head) restoreHead(projectCwd, head, branch);
+            throw err;
+        }
+
+        const commit = git(projectCwd, ['rev-parse', 'HEAD']);
+        markSessionCommitted(entry.id, commit);
+        return {
+            success: true,
+            commit,
+            branch: git(projectCwd, ['rev-parse', '--abbrev-ref', 'HEAD']),
+            message,
+            files,
+        };
+    } catch (err) {
+        return { success: false, error: gitErrorMessage(err) };
+    }
+}
+
+/**
+ * Creates Hono routes for the git API.
+ */
+export function createGitRoute(projectCwd: string) {
+    const gitRoute = new Hono();
+
+    gitRoute.post('/api/git/commit-message', async (c) => {
+        let body: { sessionId?: string; useModel?: boolean } = {};
+        try {
+            body = await c.req.json();
+        } catch {
+            // No body — template message for the latest session
+        }
+
+        const entry = getUndoEntry(body.sessionId);
+        if (!entry) {
+            return c.json({ success: false, error: 'Session not found' }, 404);
+        }
+        const message = body.useModel
+            ? await generateCommitMessage(projectCwd, entry)
+            : buildCommitMessage(entry);
+        return c.json({ success: true, message });
+    });
+
+    gitRoute.post('/api/git/commit', async (c) => {
+        let body: CommitOptions & { generateMessage?: boolean };
+        try {
+            body = await c.req.json();
+        } catch {
+            return c.json({ success: false, error: 'Invalid JSON' }, 400);
+        }
+
+        let message = body.message;
+        if (!message?.trim() && body.generateMessage) {
+            const entry = getUndoEntry(body.sessionId);
+            if (entry) message = await generateCommitMessage(projectCwd, entry);
+        }
+
+        const result = commitSession(projectCwd, { ...body, message });
+        return c.json(result, result.success ? 200 : 400);
+    });
+
+    return gitRoute;
+}
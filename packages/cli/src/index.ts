@@ -1,67 +1,76 @@
-import { program } from 'commander';
+import { program, InvalidArgumentError } from 'commander';
 import { existsSync, readFileSync, appendFileSync } from 'node:fs';
 import { resolve, join } from 'node:path';
 import open from 'open';
 import { startServer } from './server.js';
 import { AWEL_PORT, USER_APP_PORT, findAvailablePort } from './config.js';
 import { setVerbose } from './verbose.js';
-import { ensureBabelPlugin } from './babel-setup.js';
+import { detectFramework } from './frameworks.js';
 import { ensureProvider } from './onboarding.js';
 import { ensureSkills } from './skills.js';
 import { awel } from './logger.js';
 import { spawnDevServer } from './subprocess.js';
+import { startCodeIndex } from './code-index.js';
 import { writeAwelConfig, isProjectFresh } from './awel-config.js';
-import { initHistory } from './sse.js';
-import { initSession } from './session.js';
+import { initThreads } from './threads.js';
+import { initUsage } from './usage.js';
+import { initUndoHistory } from './undo.js';
+import { getProviderCatalog } from './providers/registry.js';
+import { resolveRunModel, runHeadless } from './run.js';
+import { initMcpClients } from './mcp.js';
+import { initSettings, getSettings } from './settings.js';
+import { runMcpStdioBridge } from './mcp-server.js';
+import { MAX_STEPS_LIMIT } from './providers/limits.js';
+
+function parsePort(value: string): number {
+    const port = Number(value);
+    if (!/^\d+$/.test(value) || port < 1 || port > 65535) {
+        throw new InvalidArgumentError('Expected a port number from 1 to 65535.');
+    }
+    return port;
+}
+
+function parseMaxSteps(value: string): number {
+    const steps = Number(value);
+    if (!/^\d+$/.test(value) || steps < 1 || steps > MAX_STEPS_LIMIT) {
+        throw new InvalidArgumentError(`Expected a number of steps from 1 to ${MAX_STEPS_LIMIT}.`);
+    }
+    return steps;
+}
 
 program
     .name('awel')
     .description('AI-powered development overlay for Next.js & React')
     .version('0.1.0');
 
-type ProjectFramework = 'nextjs' | 'react' | null;
-
-function detectFramework(cwd: string): ProjectFramework {
-    // Next.js: config file or `next` in dependencies
-    const nextConfigs = ['next.config.js', 'next.config.mjs', 'next.config.ts'];
-    if (nextConfigs.some(f => existsSync(join(cwd, f)))) return 'nextjs';
-
-    const pkgPath = join(cwd, 'package.json');
-    if (!existsSync(pkgPath)) return null;
-
-    let pkg: any;
-    try {
-        pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
-    } catch {
-        return null;
-    }
-
-    const deps = { ...pkg.dependencies, ...pkg.devDependencies };
-    if (deps.next) return 'nextjs';
-    if (deps.react) return 'react';
-
-    return null;
-}
-
 program
     .command('dev')
     .description('Start the development server with Awel overlay')
-    .option('-p, --port <port>', 'Port for target app', String(USER_APP_PORT))
-    .option('-a, --awel-port <port>', 'Port for Awel server', String(AWEL_PORT))
+    .option('-p, --port <port>', `Port for target app (default: ${USER_APP_PORT})`, parsePort)
+    .option('-a, --awel-port <port>', `Port for Awel server (default: ${AWEL_PORT})`, parsePort)
     .option('-v, --verbose', 'Print all LLM stream events to stderr')
     .option('--no-open', 'Do not open browser automatically')
     .action(async (options) => {
-        const targetPort = parseInt(options.port, 10);
-        const requestedAwelPort = parseInt(options.awelPort, 10);
         if (options.verbose) setVerbose(true);
-        const shouldOpen = options.open !== false;
 
         const cwd = process.cwd();
+        // Flags win over awel.config.{json,ts} and .awel/config.json
+        const settingsError = await initSettings(cwd, {
+            ...(options.port !== undefined && { port: options.port }),
+            ...(options.awelPort !== undefined && { awelPort: options.awelPort }),
+            ...(options.open === false && { openBrowser: false }),
+        });
+        if (settingsError) awel.error(`⚠️  ${settingsError}`);
+        const settings = getSettings(cwd);
+        const targetPort = settings.port ?? USER_APP_PORT;
+        const requestedAwelPort = settings.awelPort ?? AWEL_PORT;
+        const shouldOpen = settings.openBrowser !== false;
+
         const framework = detectFramework(cwd);
 
         if (!framework) {
             awel.error('This directory does not appear to be a React project.');
-            awel.error('Awel requires a React app (Next.js, Vite, CRA, etc.) to run.');
+            awel.error('Awel requires a React app (Next.js, Vite, Remix, React Router, CRA or Astro with React) to run.');
             awel.error('Make sure you are in a directory with `react` in package.json.');
             awel.error('');
             awel.error('To create a new Next.js project, run: npx awel create');
@@ -71,12 +80,16 @@ program
         const fresh = isProjectFresh(cwd);
 
         await ensureProvider(cwd);
-        if (!fresh && framework === 'nextjs') await ensureBabelPlugin(cwd);
+        if (!fresh) await framework.ensureSourcePlugin(cwd);
         await ensureSkills(cwd);
 
-        // Restore chat history and session from previous run
-        initHistory(cwd);
-        initSession(cwd);
+        // Restore the current chat thread and undo timeline from previous run
+        initUsage(cwd);
+        initThreads(cwd);
+        initUndoHistory(cwd);
+
+        // Connect to MCP servers from .awel/config.json so their tools are available
+        await initMcpClients(cwd);
 
         // Find an available port for Awel (bumps if requested is occupied)
         const awelPort = await findAvailablePort(requestedAwelPort);
@@ -86,15 +99,19 @@ program
 
         awel.log('🌟 Starting Awel...');
         if (fresh) awel.log('   Mode: Creation (new project)');
+        awel.log(`   Framework: ${framework.label}`);
         awel.log(`   Target app port: ${targetPort}`);
         awel.log(`   Awel control server: http://localhost:${awelPort}`);
         awel.log('');
 
         // Start the Awel control server (proxy + dashboard)
-        await startServer({ awelPort, targetPort, projectCwd: cwd, fresh });
+        await startServer({ awelPort, targetPort, projectCwd: cwd, fresh, framework });
 
         // Start the user's dev server via subprocess manager (handles auto-restart)
-        await spawnDevServer({ port: targetPort, cwd: cwd });
+        await spawnDevServer({ port: targetPort, cwd: cwd, framework });
+
+        // Build the code search index in the background and keep it fresh
+        startCodeIndex(cwd);
 
         awel.log('');
         const url = `http://localhost:${awelPort}`;
@@ -111,6 +128,60 @@ program
         }
     });
 
+program
+    .command('run')
+    .description('Run the agent once from the terminal, without the dashboard')
+    .argument('<prompt>', 'What the agent should do')
+    .option('-m, --model <model>', 'Model id (defaults to the first available model)')
+    .option('--provider <provider>', 'Provider id, e.g. anthropic, openai, claude-code, custom:<key>')
+    .option('-p, --port <port>', `Port of the running app, for tools that talk to it (default: ${USER_APP_PORT})`, parsePort)
+    .option('-y, --yes', 'Approve all shell commands and file writes without asking')
+    .option('--max-steps <n>', 'Steps the agent may take (defaults to maxSteps in .awel/config.json, else 25)', parseMaxSteps)
+    .option('-v, --verbose', 'Print all LLM stream events to stderr')
+    .action(async (prompt: string, options) => {
+        if (options.verbose) setVerbose(true);
+
+        const cwd = process.cwd();
+        const settingsError = await initSettings(cwd, {
+            ...(options.port !== undefined && { port: options.port }),
+        });
+        if (settingsError) awel.error(`⚠️  ${settingsError}`);
+        const settings = getSettings(cwd);
+
+        // The configured default model applies only when no model or provider is given
+        const useDefault = !options.model && !options.provider && settings.model;
+        const resolved = resolveRunModel(
+            getProviderCatalog(cwd),
+            useDefault ? settings.model!.id : options.model,
+            useDefault ? settings.model!.provider : options.provider,
+        );
+        if ('error' in resolved) {
+            awel.error(resolved.error);
+            process.exit(1);
+        }
+
+        const exitCode = await runHeadless({
+            prompt,
+            modelId: resolved.modelId,
+            modelProvider: resolved.modelProvider,
+            projectCwd: cwd,
+            targetPort: settings.port ?? USER_APP_PORT,
+            yes: options.yes === true,
+            ...(options.maxSteps !== undefined && { maxSteps: options.maxSteps }),
+        });
+        process.exit(exitCode);
+    });
+
+program
+    .command('mcp')
+    .description('Serve the running Awel instance to other agents as an MCP server over stdio')
+    .option('-a, --awel-port <port>', `Port of the running Awel server (default: ${AWEL_PORT})`, parsePort)
+    .action(async (options) => {
+        await initSettings(process.cwd());
+        await runMcpStdioBridge(options.awelPort ?? getSettings().awelPort ?? AWEL_PORT);
+        process.exit(0);
+    });
+
 program
     .command('create')
     .description('Create a new Next.js project with Awel')
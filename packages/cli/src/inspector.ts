@@ -4,19 +4,46 @@ import { EventEmitter } from 'node:events';
 import { readFileSync } from 'fs';
 import { resolve, isAbsolute } from 'path';
 import type { SelectedElement } from './types.js';
+import { findPropsTypeDefinition } from './code-navigation.js';
 
 const inspectorBus = new EventEmitter();
 let bufferedSelection: SelectedElement | null = null;
+// Most recent selection, kept after delivery for the MCP server
+let latestSelection: SelectedElement | null = null;
 let sseClientConnected = false;
 
 // Track active SSE connection so we can close old ones when a new client connects.
 // This prevents connection exhaustion when the browser refreshes the page repeatedly.
 let activeAbortController: AbortController | null = null;
 
+/**
+ * The `${component}Props` interface or type alias in the file, by name:
+ * up to the closing brace or 20 lines.
+ */
+function scanPropsTypeDefinition(lines: string[], componentName: string): string | null {
+    const escapedName = componentName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const propsPattern = new RegExp(`(?:interface|type)\\s+${escapedName}Props[\\s{<]`);
+    for (let i = 0; i < lines.length; i++) {
+        if (!propsPattern.test(lines[i])) continue;
+        let defEnd = i;
+        let braceDepth = 0;
+        for (let j = i; j < Math.min(lines.length, i + 20); j++) {
+            for (const ch of lines[j]) {
+                if (ch === '{') braceDepth++;
+                if (ch === '}') braceDepth--;
+            }
+            defEnd = j;
+            if (braceDepth <= 0 && j > i) break;
+        }
+        return lines.slice(i, defEnd + 1).join('\n');
+    }
+    return null;
+}
+
 /**
  * Enrich a selection with server-side context:
  * - Source code snippet around the target line
- * - Props type definition near the component
+ * - Props type definition of the component
  * - Whether the file has uncommitted changes
  */
 function enrichSelection(selection: SelectedElement, projectCwd: string): SelectedElement {
@@ -41,31 +68,12 @@ function enrichSelection(selection: SelectedElement, projectCwd: string): Select
         }
         selection.sourceSnippet = snippetLines.join('\n');
 
-        // Look for props type definition near the component
+        // Resolve the component's props type through its symbol, falling back
+        // to a `${component}Props` scan (e.g. without TypeScript)
         const componentName = selection.component;
-        if (componentName) {
-            const escapedName = componentName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-            const propsPattern = new RegExp(
-                `(?:interface|type)\\s+${escapedName}Props[\\s{<]`,
-            );
-            for (let i = 0; i < lines.length; i++) {
-                if (propsPattern.test(lines[i])) {
-                    const defStart = i;
-                    let defEnd = i;
-                    // Grab lines until closing brace or 20 lines max
-                    let braceDepth = 0;
-                    for (let j = i; j < Math.min(lines.length, i + 20); j++) {
-                        for (const ch of lines[j]) {
-                            if (ch === '{') braceDepth++;
-                            if (ch === '}') braceDepth--;
-                        }
-                        defEnd = j;
-                        if (braceDepth <= 0 && j > i) break;
-                    }
-                    selection.propsTypeDefinition = lines.slice(defStart, defEnd + 1).join('\n');
-                    break;
-                }
-            }
+        if (componentName && /^[A-Za-z_$][\w$]*$/.test(componentName)) {
+            selection.propsTypeDefinition = findPropsTypeDefinition(projectCwd, filePath, componentName)
+                ?? scanPropsTypeDefinition(lines, componentName);
         }
     } catch {
         // File not readable, skip enrichment
@@ -74,6 +82,14 @@ function enrichSelection(selection: SelectedElement, projectCwd: string): Select
     return selection;
 }
 
+/**
+ * The element most recently picked with the inspector, enriched with
+ * source context — or null if nothing has been selected yet.
+ */
+export function getLatestSelection(): SelectedElement | null {
+    return latestSelection;
+}
+
 export function createInspectorRoute(projectCwd: string) {
     const inspector = new Hono();
 
@@ -81,6 +97,7 @@ export function createInspectorRoute(projectCwd: string) {
     inspector.post('/api/inspector/select', async (c) => {
         let selection: SelectedElement = await c.req.json();
         selection = enrichSelection(selection, projectCwd);
+        latestSelection = selection;
 
         if (sseClientConnected) {
             inspectorBus.emit('selection', selection);
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ModelMessage } from 'ai';
+import { collectInstructions, getInstructionsContext, getTouchedDirs } from './instructions.js';
+
+function toolCall(input: Record<string, unknown>): ModelMessage {
+    return {
+        role: 'assistant',
+        content: [{ type: 'tool-call', toolCallId: 'call-1', toolName: 'Read', input }],
+    };
+}
+
+describe('project instructions', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-instructions-'));
+        mkdirSync(join(projectCwd, 'src', 'api', 'routes'), { recursive: true });
+    });
+
+    afterEach(() => {
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    it('reads the root instruction files in order', () => {
+        writeFileSync(join(projectCwd, 'AGENTS.md'), 'Use pnpm.');
+        writeFileSync(join(projectCwd, 'AWEL.md'), 'Prefer server components.');
+        writeFileSync(join(projectCwd, 'CLAUDE.md'), '   ');
+
+        expect(collectInstructions(projectCwd).map(f => f.path)).toEqual(['AWEL.md', 'AGENTS.md']);
+        expect(getInstructionsContext(projectCwd)).toContain('[Project Instructions: AWEL.md]\nPrefer server components.');
+    });
+
+    it('honours the instructionFiles setting', () => {
+        writeFileSync(join(projectCwd, 'AWEL.md'), 'Awel rules');
+        writeFileSync(join(projectCwd, 'CONVENTIONS.md'), 'Team rules');
+        writeFileSync(join(projectCwd, 'awel.config.json'), JSON.stringify({ instructionFiles: ['CONVENTIONS.md'] }));
+
+        expect(collectInstructions(projectCwd).map(f => f.path)).toEqual(['CONVENTIONS.md']);
+    });
+
+    it('adds nested files once a tool call touches their directory', () => {
+        writeFileSync(join(projectCwd, 'AWEL.md'), 'Root rules');
+        writeFileSync(join(projectCwd, 'src', 'api', 'AWEL.md'), 'API rules');
+        expect(collectInstructions(projectCwd)).toHaveLength(1);
+
+        const messages = [toolCall({ file_path: 'src/api/routes/users.ts' })];
+        expect(getTouchedDirs(projectCwd, messages)).toEqual([
+            'src',
+            join('src', 'api'),
+            join('src', 'api', 'routes'),
+        ]);
+
+        const files = collectInstructions(projectCwd, messages);
+        expect(files.map(f => f.path)).toEqual(['AWEL.md', 'src/api/AWEL.md']);
+        expect(getInstructionsContext(projectCwd, messages)).toContain('(applies to files under src/api/)');
+    });
+
+    it('ignores paths outside the project', () => {
+        expect(getTouchedDirs(projectCwd, [toolCall({ path: '/etc' }), toolCall({ file_path: '../x.ts' })])).toEqual([]);
+    });
+});
@@ -0,0 +1,142 @@
+import { Hono } from 'hono';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join, resolve, relative, dirname, isAbsolute, sep } from 'path';
+import type { ModelMessage } from 'ai';
+import { getSettings } from './settings.js';
+
+// ─── Project Instructions ────────────────────────────────────
+// Markdown files with standing instructions for the agent. The ones at the
+// project root are appended to the system prompt of every request. Files of
+// the same names in subdirectories are added once the agent reads or edits
+// something inside that directory. Self-contained providers (Claude Code,
+// Codex) read their own instruction files and get none of these.
+
+export const DEFAULT_INSTRUCTION_FILES = ['AWEL.md', 'CLAUDE.md', 'AGENTS.md'];
+
+const MAX_FILE_LENGTH = 20_000;
+
+export interface InstructionFile {
+    /** Relative to the project root, with forward slashes */
+    path: string;
+    /** '' for the project root */
+    dir: string;
+    content: string;
+    truncated: boolean;
+}
+
+/** Tool inputs that name the file or directory a tool works on */
+const PATH_INPUT_KEYS = ['file_path', 'path'];
+
+// What the most recent request was given, for the dashboard
+let lastInjected: { files: InstructionFile[]; at: string } | null = null;
+
+export function getInstructionFileNames(projectCwd: string): string[] {
+    return getSettings(projectCwd).instructionFiles ?? DEFAULT_INSTRUCTION_FILES;
+}
+
+function toPosix(path: string): string {
+    return path.split(sep).join('/');
+}
+
+/**
+ * Instruction files directly inside `dir` (relative to the project root),
+ * in the configured order.
+ */
+export function readInstructionFiles(projectCwd: string, dir = ''): InstructionFile[] {
+    const files: InstructionFile[] = [];
+    for (const name of getInstructionFileNames(projectCwd)) {
+        const fullPath = join(projectCwd, dir, name);
+        try {
+            if (!existsSync(fullPath) || !statSync(fullPath).isFile()) continue;
+            const raw = readFileSync(fullPath, 'utf-8').trim();
+            if (!raw) continue;
+            files.push({
+                path: toPosix(join(dir, name)),
+                dir: toPosix(dir),
+                content: raw.slice(0, MAX_FILE_LENGTH),
+                truncated: raw.length > MAX_FILE_LENGTH,
+            });
+        } catch {
+            // Unreadable — skip it
+        }
+    }
+    return files;
+}
+
+/**
+ * Project directories (relative, excluding the root) that the conversation's
+ * tool calls have touched, along with their ancestors.
+ */
+export function getTouchedDirs(projectCwd: string, messages: ModelMessage[]): string[] {
+    const root = resolve(projectCwd);
+    const dirs = new Set<string>();
+    for (const message of messages) {
+        if (message.role !== 'assistant' || typeof message.content === 'string') continue;
+        for (const part of message.content) {
+            if (part.type !== 'tool-call' || !part.input || typeof part.input !== 'object') continue;
+            for (const key of PATH_INPUT_KEYS) {
+                const value = (part.input as Record<string, unknown>)[key];
+                if (typeof value !== 'string' || !value) continue;
+                const target = resolve(root, value);
+                // A path argument may be a directory (Ls) or a file
+                let dir = existsSync(target) && statSync(target).isDirectory() ? target : dirname(target);
+                let rel = relative(root, dir);
+                while (rel && !rel.startsWith('..') && !isAbsolute(rel)) {
+                    dirs.add(rel);
+                    dir = dirname(dir);
+                    rel = relative(root, dir);
+                }
+            }
+        }
+    }
+    // Outer directories first, so more specific instructions come last
+    return [...dirs].sort((a, b) => a.split(sep).length - b.split(sep).length || a.localeCompare(b));
+}
+
+function formatInstructions(files: InstructionFile[]): string {
+    return files.map(file => {
+        const note = file.truncated ? '\n[Truncated]' : '';
+        const scope = file.dir ? ` (applies to files under ${file.dir}/)` : '';
+        return `[Project Instructions: ${file.path}${scope}]\n${file.content}${note}`;
+    }).join('\n\n');
+}
+
+/**
+ * The instruction files that apply to a request: the project root's, then
+ * those of every directory its tool calls have touched. Remembers them for
+ * the dashboard.
+ */
+export function collectInstructions(projectCwd: string, messages: ModelMessage[] = []): InstructionFile[] {
+    const files = readInstructionFiles(projectCwd);
+    for (const dir of getTouchedDirs(projectCwd, messages)) {
+        files.push(...readInstructionFiles(projectCwd, dir));
+    }
+    lastInjected = { files, at: new Date().toISOString() };
+    return files;
+}
+
+/**
+ * The instructions block to append to the system prompt, or null when the
+ * project has no instruction files.
+ */
+export function getInstructionsContext(projectCwd: string, messages: ModelMessage[] = []): string | null {
+    const files = collectInstructions(projectCwd, messages);
+    return files.length > 0 ? formatInstructions(files) : null;
+}
+
+// ─── Instructions API ────────────────────────────────────────
+
+export function createInstructionsRoute(projectCwd: string) {
+    const instructions = new Hono();
+
+    instructions.get('/api/instructions', (c) => {
+        return c.json({
+            fileNames: getInstructionFileNames(projectCwd),
+            // Before the first request, show what it would get
+            files: lastInjected?.files ?? readInstructionFiles(projectCwd),
+            injectedAt: lastInjected?.at ?? null,
+        });
+    });
+
+    return instructions;
+}
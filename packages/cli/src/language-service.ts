@@ -0,0 +1,151 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join, relative, resolve, dirname, isAbsolute } from 'path';
+import { createRequire } from 'module';
+import type * as TS from 'typescript';
+
+// ─── Language Service ────────────────────────────────────────
+// TypeScript language services over the user's project, built with the
+// project's own TypeScript and kept between calls: after an edit, only the
+// files whose modification time changed are parsed and checked again.
+// A solution-style tsconfig (no files, only references — as Vite scaffolds
+// it) gets one service per referenced config. JavaScript projects can use
+// a jsconfig.json instead.
+
+export interface TsProject {
+    files: {
+        roots: Set<string>;
+        /** Files asked about that are outside the config's `include` */
+        extra: Set<string>;
+    };
+    service: TS.LanguageService;
+}
+
+export interface TsProjects {
+    ts: typeof TS;
+    projects: TsProject[];
+}
+
+interface TsCache extends TsProjects {
+    /** Modification times of the configs the projects were built from */
+    configStamp: string;
+}
+
+const CONFIG_FILES = ['tsconfig.json', 'jsconfig.json'];
+
+const tsCaches = new Map<string, TsCache>();
+
+function mtimeOf(path: string): number {
+    try {
+        return statSync(path).mtimeMs;
+    } catch {
+        return 0;
+    }
+}
+
+/** The project's own TypeScript, or null when it isn't installed */
+export function loadTypeScript(projectCwd: string): typeof TS | null {
+    try {
+        return createRequire(join(projectCwd, 'package.json'))('typescript') as typeof TS;
+    } catch {
+        return null;
+    }
+}
+
+function parseConfig(ts: typeof TS, configPath: string): TS.ParsedCommandLine | null {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) return null;
+    return ts.parseJsonConfigFileContent(config, ts.sys, dirname(configPath), undefined, configPath);
+}
+
+/** The configs to use: the root config, or its references when it has no files of its own */
+function collectConfigs(ts: typeof TS, projectCwd: string): { path: string; parsed: TS.ParsedCommandLine }[] {
+    const rootPath = CONFIG_FILES.map(f => join(projectCwd, f)).find(existsSync);
+    if (!rootPath) return [];
+    const root = parseConfig(ts, rootPath);
+    if (!root) return [];
+    if (root.fileNames.length > 0 || !root.projectReferences?.length) return [{ path: rootPath, parsed: root }];
+
+    return root.projectReferences.flatMap(ref => {
+        const path = ts.resolveProjectReferencePath(ref);
+        const parsed = existsSync(path) ? parseConfig(ts, path) : null;
+        return parsed ? [{ path, parsed }] : [];
+    });
+}
+
+function createTsProject(ts: typeof TS, projectCwd: string, parsed: TS.ParsedCommandLine): TsProject {
+    const files: TsProject['files'] = { roots: new Set(parsed.fileNames.map(f => resolve(f))), extra: new Set() };
+    const options: TS.CompilerOptions = { ...parsed.options, noEmit: true };
+    const host: TS.LanguageServiceHost = {
+        getScriptFileNames: () => [...files.roots, ...files.extra],
+        // The modification time tells the service which files changed
+        getScriptVersion: fileName => String(mtimeOf(fileName)),
+        getScriptSnapshot: fileName => existsSync(fileName)
+            ? ts.ScriptSnapshot.fromString(readFileSync(fileName, 'utf-8'))
+            : undefined,
+        getCurrentDirectory: () => projectCwd,
+        getCompilationSettings: () => options,
+        getProjectReferences: () => parsed.projectReferences,
+        getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+        fileExists: ts.sys.fileExists,
+        readFile: ts.sys.readFile,
+        readDirectory: ts.sys.readDirectory,
+        directoryExists: ts.sys.directoryExists,
+        getDirectories: ts.sys.getDirectories,
+        useCaseSensitiveFileNames: () => ts.sys.useCaseSensitiveFileNames,
+    };
+    return { files, service: ts.createLanguageService(host, ts.createDocumentRegistry()) };
+}
+
+/**
+ * The project's language services, rebuilt when a config changes, or why
+ * there are none. File lists are refreshed on every call, since the agent
+ * may have created files since the last one.
+ */
+export function getTsProjects(projectCwd: string): TsProjects | string {
+    const ts = loadTypeScript(projectCwd);
+    if (!ts) return 'TypeScript is not installed in the project';
+
+    const configs = collectConfigs(ts, projectCwd);
+    if (configs.length === 0) return 'No tsconfig.json found';
+    const configStamp = configs.map(c => `${c.path}:${mtimeOf(c.path)}`).join('|');
+
+    let cache = tsCaches.get(projectCwd);
+    if (!cache || cache.ts !== ts || cache.configStamp !== configStamp) {
+        cache?.projects.forEach(p => p.service.dispose());
+        cache = {
+            ts,
+            configStamp,
+            projects: configs.map(c => createTsProject(ts, projectCwd, c.parsed)),
+        };
+        tsCaches.set(projectCwd, cache);
+    } else {
+        for (const [i, c] of configs.entries()) {
+            cache.projects[i].files.roots = new Set(c.parsed.fileNames.map(f => resolve(f)));
+        }
+    }
+    return cache;
+}
+
+/**
+ * The project that includes the file, else the first one — which then
+ * takes the file on as an extra root.
+ */
+export function getProjectForFile(projects: TsProject[], file: string): TsProject {
+    const project = projects.find(p => p.files.roots.has(file));
+    if (project) return project;
+    projects[0].files.extra.add(file);
+    return projects[0];
+}
+
+/** Whether a file is the project's own source, not a declaration file or an ignored directory */
+export function isProjectSource(projectCwd: string, fileName: string, ignoredDirs: string[]): boolean {
+    const rel = relative(projectCwd, fileName);
+    if (rel.startsWith('..') || isAbsolute(rel) || fileName.endsWith('.d.ts')) return false;
+    return !rel.split(/[\\/]/).some(part => ignoredDirs.includes(part));
+}
+
+/** Drops the cached language services (for tests). */
+export function resetLanguageServices(): void {
+    for (const cache of tsCaches.values()) cache.projects.forEach(p => p.service.dispose());
+    tsCaches.clear();
+}
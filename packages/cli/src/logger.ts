@@ -29,13 +29,15 @@ export const awel = {
 
 /**
  * Pipe a child process's stdout/stderr line-by-line, prefixing
- * each line with the magenta [next] tag.
+ * each line with the magenta [next] tag. `onLine` also receives
+ * every line, e.g. to keep a log of it.
  */
-export function pipeChildOutput(child: ResultPromise): void {
+export function pipeChildOutput(child: ResultPromise, onLine?: (line: string, stream: 'stdout' | 'stderr') => void): void {
     if (child.stdout) {
         const rl = createInterface({ input: child.stdout });
         rl.on('line', (line) => {
             process.stdout.write(`${NEXT_PREFIX} ${line}\n`);
+            onLine?.(line, 'stdout');
         });
     }
 
@@ -43,6 +45,7 @@ export function pipeChildOutput(child: ResultPromise): void {
         const rl = createInterface({ input: child.stderr });
         rl.on('line', (line) => {
             process.stderr.write(`${NEXT_PREFIX} ${line}\n`);
+            onLine?.(line, 'stderr');
         });
     }
 }
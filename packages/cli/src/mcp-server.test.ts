@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createMcpServerRoute, formatSelection, MCP_ENDPOINT_PATH } from './mcp-server.js';
+import { createBrowserContextRoute } from './browser-context.js';
+import type { SelectedElement } from './types.js';
+
+function makeSelection(overrides: Partial<SelectedElement> = {}): SelectedElement {
+    return {
+        tag: 'button',
+        component: 'Hero',
+        source: 'src/Hero.tsx',
+        text: 'Get started',
+        className: 'btn',
+        line: 12,
+        column: 5,
+        props: null,
+        componentChain: ['App', 'Hero'],
+        attributes: null,
+        ...overrides,
+    };
+}
+
+describe('formatSelection', () => {
+    it('includes the component, location and chain', () => {
+        const text = formatSelection(makeSelection());
+        expect(text).toContain('Tag: <button>');
+        expect(text).toContain('Component: Hero');
+        expect(text).toContain('Source: src/Hero.tsx:12:5');
+        expect(text).toContain('Component chain: App > Hero');
+    });
+
+    it('appends the source snippet when enriched', () => {
+        const text = formatSelection(makeSelection({ sourceSnippet: ' >   12  <button>' }));
+        expect(text).toMatch(/Source code:\n >   12 {2}<button>$/);
+    });
+});
+
+describe('MCP endpoint', () => {
+    it('serves browser context reported by the host script', async () => {
+        const browser = createBrowserContextRoute();
+        const mcp = createMcpServerRoute();
+        await browser.request('/api/browser/page-context', {
+            method: 'POST',
+            body: JSON.stringify({ url: '/pricing', title: 'Pricing' }),
+            headers: { 'Content-Type': 'application/json' },
+        });
+
+        const client = new Client({ name: 'test', version: '0.0.0' });
+        await client.connect(new StreamableHTTPClientTransport(new URL(`http://awel.test${MCP_ENDPOINT_PATH}`), {
+            fetch: (input, init) => mcp.fetch(new Request(input, init)),
+        }));
+
+        const { tools } = await client.listTools();
+        expect(tools.map(t => t.name)).toContain('get_page_context');
+
+        const result = await client.callTool({ name: 'get_page_context', arguments: {} });
+        expect(result.content).toEqual([{ type: 'text', text: '[Page Context]\nURL: /pricing\nTitle: Pricing' }]);
+        await client.close();
+    });
+});
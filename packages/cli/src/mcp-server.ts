@@ -0,0 +1,237 @@
+import { Hono } from 'hono';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { getLatestSelection } from './inspector.js';
+import { getConsoleEntries, getPageContext, getLatestScreenshot } from './browser-context.js';
+import { getDevServerStatus } from './subprocess.js';
+import { getDevServerLogs, formatDevServerLogs } from './dev-server-logs.js';
+import { formatConsoleContext, formatPageContext } from './agent.js';
+import type { SelectedElement } from './types.js';
+
+// ─── Awel MCP Server ─────────────────────────────────────────
+// Serves what only a running `awel dev` knows — the inspector selection,
+// browser console errors, the current page, dev-server status and the
+// latest screenshot — to other agents over MCP. The server lives at
+// /_awel/mcp; `awel mcp` bridges stdio clients to that endpoint.
+
+export const MCP_ENDPOINT_PATH = '/_awel/mcp';
+
+/**
+ * Formats an inspector selection as plain text for another agent.
+ */
+export function formatSelection(el: SelectedElement): string {
+    const lines = ['[Selected Element]'];
+    lines.push(`Tag: <${el.tag}>`);
+    if (el.component) lines.push(`Component: ${el.component}`);
+    if (el.source) {
+        let loc = el.source;
+        if (el.line) loc += `:${el.line}`;
+        if (el.column) loc += `:${el.column}`;
+        lines.push(`Source: ${loc}`);
+    }
+    if (el.componentChain && el.componentChain.length > 0) {
+        lines.push(`Component chain: ${el.componentChain.join(' > ')}`);
+    }
+    if (el.text) lines.push(`Text content: "${el.text}"`);
+    if (el.className) lines.push(`Class: ${el.className}`);
+    if (el.props && Object.keys(el.props).length > 0) {
+        lines.push(`Props: ${JSON.stringify(el.props)}`);
+    }
+    if (el.comment) lines.push(`User comment: ${el.comment}`);
+    if (el.propsTypeDefinition) {
+        lines.push('', 'Props type definition:', el.propsTypeDefinition);
+    }
+    if (el.sourceSnippet) {
+        lines.push('', 'Source code:', el.sourceSnippet);
+    }
+    return lines.join('\n');
+}
+
+function text(value: string) {
+    return { content: [{ type: 'text' as const, text: value }] };
+}
+
+function readSelection(): string {
+    const selection = getLatestSelection();
+    return selection
+        ? formatSelection(selection)
+        : 'No element selected. Ask the user to pick one with the Awel inspector (crosshair icon).';
+}
+
+function readConsole(): string {
+    return formatConsoleContext(getConsoleEntries())?.trim() ?? 'No console errors or warnings captured.';
+}
+
+function readPageContext(): string {
+    const page = getPageContext();
+    return page ? formatPageContext(page).trim() : 'No page loaded in the browser yet.';
+}
+
+function readDevServerStatus(): string {
+    return JSON.stringify(getDevServerStatus(), null, 2);
+}
+
+function readServerLogs(): string {
+    const logs = getDevServerLogs({ level: 'warning', limit: 50 });
+    return logs.length > 0 ? formatDevServerLogs(logs) : 'No dev server errors or warnings captured.';
+}
+
+/**
+ * Creates an MCP server exposing Awel's browser and dev-server context as
+ * tools (for agents) and resources (for clients that attach context).
+ */
+export function createAwelMcpServer(): McpServer {
+    const server = new McpServer({ name: 'awel', version: '0.1.0' });
+
+    server.registerTool('get_selected_element', {
+        title: 'Selected element',
+        description: 'The element the user last picked with the Awel inspector: tag, React component, source file and line, props, and the surrounding source code.',
+    }, async () => text(readSelection()));
+
+    server.registerTool('get_console_errors', {
+        title: 'Browser console errors',
+        description: 'Errors and warnings captured from the browser console of the app running under Awel, with source locations when known.',
+    }, async () => text(readConsole()));
+
+    server.registerTool('get_page_context', {
+        title: 'Page context',
+        description: 'URL, title and route component of the page currently open in the browser.',
+    }, async () => text(readPageContext()));
+
+    server.registerTool('get_dev_server_status', {
+        title: 'Dev server status',
+        description: 'Status of the dev server Awel manages (running, crashed, restarting), its port, restart count and last error.',
+    }, async () => text(readDevServerStatus()));
+
+    server.registerTool('get_server_logs', {
+        title: 'Dev server errors',
+        description: 'Recent compile errors, server-side exceptions and warnings from the dev server Awel manages.',
+    }, async () => text(readServerLogs()));
+
+    server.registerTool('get_screenshot', {
+        title: 'Latest screenshot',
+        description: 'The most recent screenshot the user captured (and possibly annotated) with Awel\'s screenshot tool.',
+    }, async () => {
+        const shot = getLatestScreenshot();
+        if (!shot) return text('No screenshot captured yet. Ask the user to take one with the Awel camera button.');
+        return {
+            content: [
+                { type: 'image' as const, data: shot.dataUrl.replace(/^data:image\/png;base64,/, ''), mimeType: 'image/png' },
+                { type: 'text' as const, text: `Captured ${new Date(shot.capturedAt).toISOString()}` },
+            ],
+        };
+    });
+
+    server.registerResource('selection', 'awel://selection', {
+        title: 'Selected element',
+        mimeType: 'application/json',
+    }, async (uri) => ({
+        contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(getLatestSelection()) }],
+    }));
+
+    server.registerResource('console', 'awel://console', {
+        title: 'Browser console errors',
+        mimeType: 'application/json',
+    }, async (uri) => ({
+        contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(getConsoleEntries()) }],
+    }));
+
+    server.registerResource('page', 'awel://page', {
+        title: 'Page context',
+        mimeType: 'application/json',
+    }, async (uri) => ({
+        contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(getPageContext()) }],
+    }));
+
+    server.registerResource('dev-server', 'awel://dev-server', {
+        title: 'Dev server status',
+        mimeType: 'application/json',
+    }, async (uri) => ({
+        contents: [{ uri: uri.href, mimeType: 'application/json', text: readDevServerStatus() }],
+    }));
+
+    server.registerResource('screenshot', 'awel://screenshot', {
+        title: 'Latest screenshot',
+        mimeType: 'image/png',
+    }, async (uri) => {
+        const shot = getLatestScreenshot();
+        return {
+            contents: shot
+                ? [{ uri: uri.href, mimeType: 'image/png', blob: shot.dataUrl.replace(/^data:image\/png;base64,/, '') }]
+                : [],
+        };
+    });
+
+    return server;
+}
+
+/**
+ * Creates the Hono route serving the MCP endpoint. It is stateless: every
+ * POST gets a fresh server and transport, so no sessions need tracking.
+ */
+export function createMcpServerRoute() {
+    const route = new Hono();
+
+    route.post(MCP_ENDPOINT_PATH, async (c) => {
+        const server = createAwelMcpServer();
+        const transport = new WebStandardStreamableHTTPServerTransport({
+            sessionIdGenerator: undefined,
+            enableJsonResponse: true,
+        });
+        await server.connect(transport);
+        return transport.handleRequest(c.req.raw);
+    });
+
+    // No standalone SSE stream or sessions to delete in stateless mode
+    route.on(['GET', 'DELETE'], MCP_ENDPOINT_PATH, (c) => {
+        return c.json({
+            jsonrpc: '2.0',
+            error: { code: -32000, message: 'Method not allowed.' },
+            id: null,
+        }, 405);
+    });
+
+    return route;
+}
+
+/**
+ * Bridges an MCP client on stdio to the endpoint of a running `awel dev`,
+ * so desktop apps and editors can launch `awel mcp` as a stdio server.
+ */
+export async function runMcpStdioBridge(awelPort: number): Promise<void> {
+    const url = new URL(`http://localhost:${awelPort}${MCP_ENDPOINT_PATH}`);
+    const stdio = new StdioServerTransport();
+    const http = new StreamableHTTPClientTransport(url);
+
+    const replyWithError = (message: JSONRPCMessage, error: string) => {
+        if (!('method' in message) || !('id' in message)) return;
+        stdio.send({ jsonrpc: '2.0', id: message.id, error: { code: -32000, message: error } }).catch(() => { });
+    };
+
+    stdio.onmessage = (message) => {
+        http.send(message).catch((err) => {
+            const reason = err instanceof Error ? err.message : String(err);
+            replyWithError(message, `Could not reach Awel at ${url.origin} — is \`awel dev\` running? (${reason})`);
+        });
+    };
+    http.onmessage = (message) => {
+        stdio.send(message).catch(() => { });
+    };
+    http.onerror = (err) => {
+        process.stderr.write(`[awel mcp] ${err.message}\n`);
+    };
+
+    await new Promise<void>((resolve) => {
+        stdio.onclose = () => resolve();
+        // The stdio transport doesn't notice the client going away by itself
+        process.stdin.once('end', () => stdio.close());
+        http.start().then(() => stdio.start()).catch((err) => {
+            process.stderr.write(`[awel mcp] ${err instanceof Error ? err.message : String(err)}\n`);
+            resolve();
+        });
+    });
+    await http.close().catch(() => { });
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { mcpToolName, assignMcpToolNames, formatMcpResult } from './mcp.js';
+
+describe('mcpToolName', () => {
+    it('namespaces tools by server', () => {
+        expect(mcpToolName('design-system', 'lookup_token')).toBe('mcp__design-system__lookup_token');
+    });
+
+    it('replaces characters providers reject and caps the length', () => {
+        expect(mcpToolName('db.schema', 'tables/list')).toBe('mcp__db_schema__tables_list');
+        expect(mcpToolName('s', 'x'.repeat(100))).toHaveLength(64);
+    });
+
+    it('keeps long names that share a prefix apart', () => {
+        const a = mcpToolName('s', `${'x'.repeat(70)}_create`);
+        const b = mcpToolName('s', `${'x'.repeat(70)}_delete`);
+        expect(a).toHaveLength(64);
+        expect(a).not.toBe(b);
+    });
+});
+
+describe('assignMcpToolNames', () => {
+    it('adds a hash suffix to names that are already taken', () => {
+        const names = assignMcpToolNames([
+            { server: 'db.schema', name: 'list' },
+            { server: 'db_schema', name: 'list' },
+            { server: 'db_schema', name: 'get' },
+        ]);
+        expect(names[0]).toBe('mcp__db_schema__list');
+        expect(names[1]).toMatch(/^mcp__db_schema__list_[0-9a-f]{8}$/);
+        expect(names[2]).toBe('mcp__db_schema__get');
+    });
+});
+
+describe('formatMcpResult', () => {
+    it('joins text parts', () => {
+        const result = { content: [{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }] };
+        expect(formatMcpResult(result)).toBe('a\nb');
+    });
+
+    it('describes non-text parts and falls back to structured content', () => {
+        expect(formatMcpResult({ content: [{ type: 'image', data: '', mimeType: 'image/png' }] })).toBe('[image content]');
+        expect(formatMcpResult({ content: [], structuredContent: { id: 1 } })).toBe('{\n  "id": 1\n}');
+    });
+
+    it('prefixes errors', () => {
+        expect(formatMcpResult({ content: [{ type: 'text', text: 'boom' }], isError: true })).toBe('Error: boom');
+    });
+});
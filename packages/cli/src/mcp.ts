@@ -0,0 +1,280 @@
+import { Hono } from 'hono';
+import { createHash } from 'crypto';
+import { tool, jsonSchema, type Tool } from 'ai';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { readAwelConfig, type McpServerConfig, type McpHttpServerConfig } from './awel-config.js';
+import { requestConfirmation, isAutoApproved } from './confirm-store.js';
+import { evaluatePermission } from './permissions.js';
+import { awel } from './logger.js';
+import type { ToolContext } from './tools/index.js';
+
+// ─── MCP Clients ─────────────────────────────────────────────
+// Connects to the MCP servers listed under `mcpServers` in
+// .awel/config.json at startup and exposes their tools to the agent as
+// `mcp__<server>__<tool>`. Calls go through the same permission rules and
+// confirm flow as Bash and file writes; a server can opt out of the
+// prompt with `confirm: false`.
+
+export type McpServerStatus = 'connecting' | 'connected' | 'error' | 'disabled';
+
+interface McpToolInfo {
+    name: string;
+    /** Name exposed to the model, unique across servers (see assignMcpToolNames) */
+    exposedName: string;
+    description?: string;
+    inputSchema: Record<string, unknown>;
+}
+
+interface McpServerState {
+    name: string;
+    transport: 'stdio' | 'http';
+    status: McpServerStatus;
+    error?: string;
+    confirm: boolean;
+    tools: McpToolInfo[];
+    client: Client | null;
+}
+
+const CONNECT_TIMEOUT_MS = 15_000;
+const MAX_TOOL_NAME_LENGTH = 64;
+const TOOL_NAME_HASH_LENGTH = 8;
+
+const servers = new Map<string, McpServerState>();
+
+/**
+ * Namespaced tool name as seen by the model. Providers only accept
+ * [a-zA-Z0-9_-] and at most 64 characters; longer names are cut short and
+ * end in a hash of the full name instead, so they stay distinct.
+ */
+export function mcpToolName(server: string, toolName: string): string {
+    const sanitize = (s: string) => s.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const name = `mcp__${sanitize(server)}__${sanitize(toolName)}`;
+    return name.length > MAX_TOOL_NAME_LENGTH ? withHashSuffix(name, server, toolName) : name;
+}
+
+function withHashSuffix(name: string, server: string, toolName: string): string {
+    const hash = createHash('sha1').update(`${server}\0${toolName}`).digest('hex').slice(0, TOOL_NAME_HASH_LENGTH);
+    return `${name.slice(0, MAX_TOOL_NAME_LENGTH - TOOL_NAME_HASH_LENGTH - 1)}_${hash}`;
+}
+
+/**
+ * Names the tools of all servers, in order. A name that is already taken —
+ * e.g. `db.schema` and `db_schema` both become `mcp__db_schema__…` — gets
+ * a hash suffix, so no tool replaces another.
+ */
+export function assignMcpToolNames(tools: { server: string; name: string }[]): string[] {
+    const taken = new Set<string>();
+    return tools.map(({ server, name }) => {
+        let exposed = mcpToolName(server, name);
+        if (taken.has(exposed)) exposed = withHashSuffix(exposed, server, name);
+        taken.add(exposed);
+        return exposed;
+    });
+}
+
+function isHttpConfig(config: McpServerConfig): config is McpServerConfig & McpHttpServerConfig {
+    return 'url' in config && typeof config.url === 'string';
+}
+
+function createTransport(config: McpServerConfig, projectCwd: string) {
+    if (isHttpConfig(config)) {
+        return new StreamableHTTPClientTransport(new URL(config.url), {
+            requestInit: config.headers ? { headers: config.headers } : undefined,
+        });
+    }
+    return new StdioClientTransport({
+        command: config.command,
+        args: config.args ?? [],
+        env: { ...getDefaultEnvironment(), ...config.env },
+        cwd: config.cwd ?? projectCwd,
+        stderr: 'ignore',
+    });
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function connectServer(state: McpServerState, config: McpServerConfig, projectCwd: string): Promise<void> {
+    const client = new Client({ name: 'awel', version: '0.1.0' });
+    try {
+        await withTimeout(
+            client.connect(createTransport(config, projectCwd)),
+            CONNECT_TIMEOUT_MS,
+            `Timed out after ${CONNECT_TIMEOUT_MS / 1000}s`,
+        );
+        const { tools } = await withTimeout(client.listTools(), CONNECT_TIMEOUT_MS, 'Timed out listing tools');
+        state.client = client;
+        state.tools = tools.map(t => ({
+            name: t.name,
+            exposedName: mcpToolName(state.name, t.name),
+            description: t.description,
+            inputSchema: t.inputSchema as Record<string, unknown>,
+        }));
+        state.status = 'connected';
+        state.error = undefined;
+    } catch (err) {
+        state.status = 'error';
+        state.error = err instanceof Error ? err.message : String(err);
+        state.tools = [];
+        client.close().catch(() => { });
+    }
+}
+
+/**
+ * Connects to every enabled MCP server in .awel/config.json and discovers
+ * their tools. Servers that fail to connect are reported in the status
+ * route and skipped — they never block startup for long.
+ * @param options.quiet - Only log failures (stdout is reserved for agent output)
+ */
+export async function initMcpClients(projectCwd: string, options: { quiet?: boolean } = {}): Promise<void> {
+    await closeMcpClients();
+    const configs = readAwelConfig(projectCwd).mcpServers ?? {};
+
+    await Promise.all(Object.entries(configs).map(async ([name, config]) => {
+        const state: McpServerState = {
+            name,
+            transport: isHttpConfig(config) ? 'http' : 'stdio',
+            status: config.disabled ? 'disabled' : 'connecting',
+            confirm: config.confirm !== false,
+            tools: [],
+            client: null,
+        };
+        servers.set(name, state);
+        if (config.disabled) return;
+
+        await connectServer(state, config, projectCwd);
+        if (state.status === 'connected') {
+            if (!options.quiet) awel.log(`🔌 MCP server "${name}" connected (${state.tools.length} tools)`);
+        } else {
+            awel.error(`MCP server "${name}" failed to connect: ${state.error}`);
+        }
+    }));
+
+    const tools = [...servers.values()].flatMap(state => state.tools.map(info => ({ server: state.name, info })));
+    assignMcpToolNames(tools.map(({ server, info }) => ({ server, name: info.name })))
+        .forEach((exposedName, i) => { tools[i].info.exposedName = exposedName; });
+}
+
+/**
+ * Closes all MCP client connections (and stops stdio server processes).
+ */
+export async function closeMcpClients(): Promise<void> {
+    const clients = [...servers.values()].map(s => s.client).filter((c): c is Client => c !== null);
+    servers.clear();
+    await Promise.allSettled(clients.map(c => c.close()));
+}
+
+/**
+ * Flattens an MCP tool result into the plain-text form the other tools return.
+ */
+export function formatMcpResult(result: { content?: unknown; isError?: unknown; structuredContent?: unknown; toolResult?: unknown }): string {
+    const parts = Array.isArray(result.content) ? result.content : [];
+    const text = parts.map((part: { type?: string; text?: string; resource?: { uri?: string; text?: string } }) => {
+        if (part.type === 'text') return part.text ?? '';
+        if (part.type === 'resource') return part.resource?.text ?? `[resource: ${part.resource?.uri ?? 'unknown'}]`;
+        return `[${part.type ?? 'unknown'} content]`;
+    }).join('\n');
+    // Older servers return a bare `toolResult` instead of content parts
+    const structured = result.structuredContent ?? result.toolResult;
+    const output = text || (structured !== undefined ? JSON.stringify(structured, null, 2) : '');
+    return result.isError ? `Error: ${output || 'MCP tool call failed'}` : output;
+}
+
+function createMcpTool(state: McpServerState, info: McpToolInfo, ctx: ToolContext): Tool {
+    const { cwd, emitSSE } = ctx;
+    const displayName = info.exposedName;
+    return tool({
+        description: `[MCP: ${state.name}] ${info.description ?? info.name}`,
+        inputSchema: jsonSchema<Record<string, unknown>>(info.inputSchema),
+        execute: async (args: Record<string, unknown>) => {
+            const permissionRequest = { tool: displayName };
+            const permission = evaluatePermission(cwd, permissionRequest);
+            if (permission === 'deny') {
+                return `Error: ${displayName} is denied by a rule in .awel/permissions.json. Do not retry it — try a different approach or ask the user for guidance.`;
+            }
+            if (permission === 'ask' || (permission !== 'allow' && state.confirm && !isAutoApproved('mcp'))) {
+                const confirmId = crypto.randomUUID();
+                const confirmData = JSON.stringify({
+                    type: 'confirm',
+                    confirmId,
+                    toolName: displayName,
+                    summary: `${state.name} → ${info.name}`,
+                    details: JSON.stringify(args, null, 2),
+                });
+                emitSSE('confirm', confirmData);
+
+                const approved = await requestConfirmation(confirmId, permissionRequest);
+                emitSSE('confirm_resolved', JSON.stringify({
+                    type: 'confirm_resolved',
+                    confirmId,
+                    approved,
+                }));
+                if (!approved) {
+                    return `Error: ${displayName} was rejected by the user. Try a different approach or ask the user for guidance.`;
+                }
+            }
+
+            if (!state.client || state.status !== 'connected') {
+                return `Error: MCP server "${state.name}" is not connected`;
+            }
+            try {
+                const result = await state.client.callTool({ name: info.name, arguments: args });
+                return formatMcpResult(result);
+            } catch (err) {
+                return `Error: ${err instanceof Error ? err.message : String(err)}`;
+            }
+        },
+    });
+}
+
+/**
+ * Returns the tools of all connected MCP servers, keyed by namespaced name.
+ */
+export function getMcpTools(ctx: ToolContext): Record<string, Tool> {
+    const tools: Record<string, Tool> = {};
+    for (const state of servers.values()) {
+        if (state.status !== 'connected') continue;
+        for (const info of state.tools) {
+            tools[info.exposedName] = createMcpTool(state, info, ctx);
+        }
+    }
+    return tools;
+}
+
+/**
+ * Status of every configured MCP server, for the dashboard.
+ */
+export function getMcpStatus() {
+    return [...servers.values()].map(s => ({
+        name: s.name,
+        transport: s.transport,
+        status: s.status,
+        error: s.error,
+        tools: s.tools.map(t => ({ name: t.exposedName, description: t.description ?? '' })),
+    }));
+}
+
+/**
+ * Creates Hono routes for MCP server status.
+ */
+export function createMcpRoute(projectCwd: string) {
+    const mcp = new Hono();
+
+    mcp.get('/api/mcp/servers', (c) => {
+        return c.json({ servers: getMcpStatus() });
+    });
+
+    mcp.post('/api/mcp/reload', async (c) => {
+        await initMcpClients(projectCwd);
+        return c.json({ servers: getMcpStatus() });
+    });
+
+    return mcp;
+}
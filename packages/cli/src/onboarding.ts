@@ -63,7 +63,7 @@ async function promptProviderSetup(): Promise<void> {
 
 export async function ensureProvider(projectCwd: string): Promise<void> {
     const config = readAwelConfig(projectCwd);
-    const providers = getProviderCatalog();
+    const providers = getProviderCatalog(projectCwd);
     const available = providers.filter(p => p.available);
     const isFirstRun = !config.onboarded;
 
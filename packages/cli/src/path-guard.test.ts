@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, symlinkSync, rmSync, realpathSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { guardPath, isBlockedSecretFile } from './path-guard.js';
+
+describe('guardPath', () => {
+    let base: string;
+    let project: string;
+    let outside: string;
+
+    beforeEach(() => {
+        base = realpathSync(mkdtempSync(join(tmpdir(), 'awel-guard-')));
+        project = join(base, 'project');
+        outside = join(base, 'outside');
+        mkdirSync(join(project, 'src'), { recursive: true });
+        mkdirSync(outside);
+        writeFileSync(join(outside, 'notes.txt'), 'private');
+    });
+
+    afterEach(() => {
+        rmSync(base, { recursive: true, force: true });
+    });
+
+    it('resolves paths inside the project, including files that do not exist yet', () => {
+        expect(guardPath(project, 'src/new.ts')).toEqual({ ok: true, path: join(project, 'src/new.ts') });
+        expect(guardPath(project, join(project, 'src'))).toEqual({ ok: true, path: join(project, 'src') });
+    });
+
+    it('rejects paths that escape the project', () => {
+        expect(guardPath(project, '../outside/notes.txt').ok).toBe(false);
+        expect(guardPath(project, join(outside, 'notes.txt')).ok).toBe(false);
+    });
+
+    it('rejects symlinks that lead outside the project', () => {
+        symlinkSync(outside, join(project, 'linked'));
+        const result = guardPath(project, 'linked/notes.txt');
+        expect(result).toEqual({ ok: false, error: expect.stringContaining('links to a location outside') });
+    });
+
+    it('honors extra roots from .awel/config.json', () => {
+        mkdirSync(join(project, '.awel'));
+        writeFileSync(join(project, '.awel', 'config.json'), JSON.stringify({ fileAccess: { allowedRoots: ['../outside'] } }));
+        expect(guardPath(project, join(outside, 'notes.txt')).ok).toBe(true);
+    });
+
+    it('blocks reading secret files unless allowed', () => {
+        expect(guardPath(project, '.env', { read: true }).ok).toBe(false);
+        expect(guardPath(project, '.env')).toEqual({ ok: true, path: join(project, '.env') });
+        expect(guardPath(project, '.env.example', { read: true }).ok).toBe(true);
+
+        mkdirSync(join(project, '.awel'));
+        writeFileSync(join(project, '.awel', 'config.json'), JSON.stringify({ fileAccess: { allowSecretFiles: ['.env.development'] } }));
+        expect(isBlockedSecretFile(project, join(project, '.env.development'))).toBe(false);
+        expect(isBlockedSecretFile(project, join(project, '.env.production'))).toBe(true);
+    });
+
+    it('never lets the agent write Awel\'s own settings', () => {
+        for (const file of ['.awel/config.json', '.awel/permissions.json', 'awel.config.json', 'awel.config.ts']) {
+            expect(guardPath(project, file, { write: true })).toEqual({ ok: false, error: expect.stringContaining('Awel\'s own settings') });
+            expect(guardPath(project, file, { read: true }).ok).toBe(true);
+        }
+        expect(guardPath(project, join(project, '.AWEL', 'Config.json'), { write: true }).ok).toBe(false);
+        expect(guardPath(project, '.awel/notes.md', { write: true }).ok).toBe(true);
+
+        mkdirSync(join(project, '.awel'));
+        symlinkSync(join(project, '.awel'), join(project, 'settings'));
+        expect(guardPath(project, 'settings/permissions.json', { write: true }).ok).toBe(false);
+    });
+});
@@ -0,0 +1,123 @@
+import { realpathSync } from 'fs';
+import { resolve, relative, isAbsolute, dirname, basename, join } from 'path';
+import { homedir } from 'os';
+import { readAwelConfig } from './awel-config.js';
+
+// ─── Path Guard ──────────────────────────────────────────────
+// Every file tool resolves its paths here. A path must stay inside the
+// project root — after following symlinks — or one of the extra roots in
+// `fileAccess.allowedRoots` of .awel/config.json. Reading files that
+// usually hold secrets (.env*, private keys) additionally requires them
+// to be listed in `fileAccess.allowSecretFiles`. The files that hold
+// these limits, the permission rules, auto-approval and verification
+// commands can never be written by the agent.
+
+export type GuardedPath = { ok: true; path: string } | { ok: false; error: string };
+
+/** Basename patterns of files that usually hold credentials; `*` matches any text. */
+const SECRET_FILE_PATTERNS = ['.env', '.env.*', '*.pem', '*.key', 'id_rsa*', 'id_ecdsa*', 'id_ed25519*'];
+
+/** Templates that are meant to be committed and hold no real secrets. */
+const SECRET_TEMPLATE_SUFFIXES = ['.example', '.sample', '.template'];
+
+/** Awel's own settings, relative to the project root; only the user edits them. */
+const PROTECTED_FILES = ['.awel/config.json', '.awel/permissions.json', 'awel.config.json', 'awel.config.ts'];
+
+function wildcardMatch(pattern: string, value: string): boolean {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp('^' + escaped.join('.*') + '$').test(value);
+}
+
+/**
+ * Resolves symlinks in a path that may not exist yet (e.g. a file about to
+ * be written) by resolving its closest existing ancestor.
+ */
+function realpathLoose(p: string): string {
+    try {
+        return realpathSync(p);
+    } catch {
+        const parent = dirname(p);
+        if (parent === p) return p;
+        return join(realpathLoose(parent), basename(p));
+    }
+}
+
+function isWithin(root: string, target: string): boolean {
+    const rel = relative(root, target);
+    return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+function expandHome(p: string): string {
+    return p === '~' || p.startsWith('~/') ? join(homedir(), p.slice(1)) : p;
+}
+
+/**
+ * The directories file tools may access: the project root plus any
+ * configured extra roots, all with symlinks resolved.
+ */
+export function getAllowedRoots(projectCwd: string): string[] {
+    const extra = readAwelConfig(projectCwd).fileAccess?.allowedRoots ?? [];
+    return [projectCwd, ...extra.map(r => resolve(projectCwd, expandHome(r)))].map(realpathLoose);
+}
+
+/**
+ * Whether a file looks like it holds secrets and hasn't been allowed.
+ */
+export function isBlockedSecretFile(projectCwd: string, filePath: string): boolean {
+    const name = basename(filePath);
+    if (!SECRET_FILE_PATTERNS.some(p => wildcardMatch(p, name))) return false;
+    if (SECRET_TEMPLATE_SUFFIXES.some(suffix => name.endsWith(suffix))) return false;
+
+    const allowed = readAwelConfig(projectCwd).fileAccess?.allowSecretFiles ?? [];
+    const rel = relative(projectCwd, filePath).split('\\').join('/');
+    return !allowed.some(p => wildcardMatch(p, name) || wildcardMatch(p, rel));
+}
+
+/**
+ * Whether a path is one of Awel's settings files, which would let the agent
+ * widen its own limits. Compared case-insensitively for case-insensitive
+ * file systems.
+ */
+export function isProtectedFile(projectCwd: string, filePath: string): boolean {
+    return [projectCwd, realpathLoose(projectCwd)].some(root =>
+        PROTECTED_FILES.includes(relative(root, filePath).split('\\').join('/').toLowerCase()));
+}
+
+/**
+ * Resolves a tool's path argument (absolute or relative to the project)
+ * and checks it against the allowed roots.
+ * @param options.read - The tool returns file contents, so secret files are checked too
+ * @param options.write - The tool changes the file, so Awel's settings files are refused
+ */
+export function guardPath(projectCwd: string, inputPath: string, options: { read?: boolean; write?: boolean } = {}): GuardedPath {
+    const absolute = resolve(projectCwd, expandHome(inputPath));
+    const real = realpathLoose(absolute);
+    const roots = getAllowedRoots(projectCwd);
+
+    if (!roots.some(root => isWithin(root, real))) {
+        const viaLink = real !== absolute && roots.some(root => isWithin(root, absolute));
+        return {
+            ok: false,
+            error: `Error: ${inputPath} ${viaLink ? 'links to a location' : 'is'} outside the project root. ` +
+                'Access is limited to the project; the user can add directories to fileAccess.allowedRoots in .awel/config.json.',
+        };
+    }
+
+    if (options.read && (isBlockedSecretFile(projectCwd, absolute) || isBlockedSecretFile(projectCwd, real))) {
+        return {
+            ok: false,
+            error: `Error: Reading ${inputPath} is blocked because it may contain secrets. ` +
+                'The user can allow it via fileAccess.allowSecretFiles in .awel/config.json.',
+        };
+    }
+
+    if (options.write && (isProtectedFile(projectCwd, absolute) || isProtectedFile(projectCwd, real))) {
+        return {
+            ok: false,
+            error: `Error: ${inputPath} holds Awel's own settings and permissions, which the agent cannot change. ` +
+                'Ask the user to edit it, or to change the setting from the dashboard.',
+        };
+    }
+
+    return { ok: true, path: absolute };
+}
@@ -0,0 +1,269 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+
+// ─── Permission Policy ───────────────────────────────────────
+// Rules in .awel/permissions.json decide tool calls before the confirm
+// flow runs: `allow` skips the prompt, `deny` blocks the call and `ask`
+// always prompts — even after "Allow All". Precedence is deny > ask >
+// allow; calls no rule matches fall back to the confirm settings.
+
+export type PermissionAction = 'allow' | 'deny' | 'ask';
+
+const PermissionRuleSchema = z.object({
+    action: z.enum(['allow', 'deny', 'ask']),
+    /** Tool name, e.g. "Bash", "Write" or "mcp__github__*"; `*` matches any text */
+    tool: z.string().min(1),
+    /** Bash command pattern; `*` matches any text */
+    command: z.string().min(1).optional(),
+    /** Path glob relative to the project root; a leading `!` matches paths outside it */
+    path: z.string().min(1).optional(),
+});
+
+const PermissionsFileSchema = z.object({
+    rules: z.array(PermissionRuleSchema),
+});
+
+export type PermissionRule = z.infer<typeof PermissionRuleSchema>;
+
+export interface PermissionRequest {
+    tool: string;
+    command?: string;
+    filePath?: string;
+}
+
+function getPermissionsPath(projectCwd: string): string {
+    return join(projectCwd, '.awel', 'permissions.json');
+}
+
+export function readPermissionRules(projectCwd: string): PermissionRule[] {
+    const filePath = getPermissionsPath(projectCwd);
+    if (!existsSync(filePath)) return [];
+    try {
+        const parsed = PermissionsFileSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf-8')));
+        return parsed.success ? parsed.data.rules : [];
+    } catch {
+        // Corrupt file — behave as if no rules were set
+        return [];
+    }
+}
+
+export function writePermissionRules(projectCwd: string, rules: PermissionRule[]): void {
+    const dir = join(projectCwd, '.awel');
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(getPermissionsPath(projectCwd), JSON.stringify({ rules }, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Appends a rule unless an identical one already exists.
+ */
+export function addPermissionRule(projectCwd: string, rule: PermissionRule): PermissionRule[] {
+    const rules = readPermissionRules(projectCwd);
+    const exists = rules.some(r =>
+        r.action === rule.action && r.tool === rule.tool && r.command === rule.command && r.path === rule.path,
+    );
+    if (!exists) {
+        rules.push(rule);
+        writePermissionRules(projectCwd, rules);
+    }
+    return rules;
+}
+
+// ─── Matching ────────────────────────────────────────────────
+
+function escapeRegExp(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** `*` matches any text, everything else is literal. */
+function wildcardToRegExp(pattern: string): RegExp {
+    return new RegExp('^' + pattern.split('*').map(escapeRegExp).join('.*') + '$');
+}
+
+/** Path glob: `**` crosses directories, `*` and `?` stay within one. */
+function globToRegExp(glob: string): RegExp {
+    let re = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*' && glob[i + 1] === '*') {
+            // `**/` also matches zero directories
+            if (glob[i + 2] === '/') {
+                re += '(?:.*/)?';
+                i += 2;
+            } else {
+                re += '.*';
+                i += 1;
+            }
+        } else if (ch === '*') {
+            re += '[^/]*';
+        } else if (ch === '?') {
+            re += '[^/]';
+        } else {
+            re += escapeRegExp(ch);
+        }
+    }
+    return new RegExp('^' + re + '$');
+}
+
+/**
+ * Splits a shell command into its simple commands at `&&`, `||`, `;`, `|`,
+ * a backgrounding `&` and newlines, ignoring separators inside quotes. The
+ * `&` of a redirection (`2>&1`, `&>`) does not split.
+ */
+export function splitShellCommand(command: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: '"' | '\'' | null = null;
+    for (let i = 0; i < command.length; i++) {
+        const ch = command[i];
+        if (ch === '\\' && quote !== '\'' && i + 1 < command.length) {
+            current += ch + command[++i];
+            continue;
+        }
+        if (quote) {
+            if (ch === quote) quote = null;
+            current += ch;
+            continue;
+        }
+        if (ch === '"' || ch === '\'') {
+            quote = ch;
+            current += ch;
+        } else if (ch === '&' && (command[i - 1] === '>' || command[i - 1] === '<' || command[i + 1] === '>')) {
+            current += ch;
+        } else if (ch === ';' || ch === '\n' || ch === '|' || ch === '&') {
+            if (command[i + 1] === ch) i++;
+            parts.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current);
+    return parts.map(p => p.trim()).filter(Boolean);
+}
+
+function toProjectPath(projectCwd: string, filePath: string): string {
+    return relative(projectCwd, resolve(projectCwd, filePath)).split(sep).join('/');
+}
+
+function matchesPath(pattern: string, projectPath: string): boolean {
+    if (pattern.startsWith('!')) return !globToRegExp(pattern.slice(1)).test(projectPath);
+    return globToRegExp(pattern).test(projectPath);
+}
+
+function matchesCommand(pattern: string, command: string): boolean {
+    return wildcardToRegExp(pattern.trim()).test(command.trim());
+}
+
+/**
+ * Whether a rule applies to a call. For Bash, `matchAll` requires every
+ * simple command in a chain to match (used for allow rules, so `npm test &&
+ * rm -rf /` is not allowed by `npm test`); otherwise any one is enough.
+ */
+function ruleMatches(rule: PermissionRule, request: PermissionRequest, projectCwd: string, matchAll: boolean): boolean {
+    if (!wildcardToRegExp(rule.tool).test(request.tool)) return false;
+
+    if (rule.path) {
+        if (!request.filePath) return false;
+        if (!matchesPath(rule.path, toProjectPath(projectCwd, request.filePath))) return false;
+    }
+
+    if (rule.command) {
+        if (request.command === undefined) return false;
+        const segments = splitShellCommand(request.command);
+        if (matchAll) {
+            // A literal rule (from "always allow") approves exactly that command line
+            if (!rule.command.includes('*') && rule.command.trim() === request.command.trim()) return true;
+            // Command and process substitution could hide another command inside
+            // an allowed one, and a redirection could overwrite any file
+            if (/\$\(|`|[<>]\(/.test(request.command)) return false;
+            if (/>/.test(request.command.replace(/\d*>&\d+/g, ''))) return false;
+            return segments.length > 0 && segments.every(s => matchesCommand(rule.command!, s));
+        }
+        return matchesCommand(rule.command, request.command) || segments.some(s => matchesCommand(rule.command!, s));
+    }
+
+    return true;
+}
+
+/**
+ * Decides a call against a list of rules. Returns null when no rule applies.
+ */
+export function matchPermissionRules(
+    rules: PermissionRule[],
+    request: PermissionRequest,
+    projectCwd: string,
+): PermissionAction | null {
+    if (rules.some(r => r.action === 'deny' && ruleMatches(r, request, projectCwd, false))) return 'deny';
+    if (rules.some(r => r.action === 'ask' && ruleMatches(r, request, projectCwd, false))) return 'ask';
+
+    const allowRules = rules.filter(r => r.action === 'allow');
+    if (allowRules.some(r => ruleMatches(r, request, projectCwd, true))) return 'allow';
+
+    // A chain is also allowed when each of its commands is allowed by some rule
+    if (request.command !== undefined) {
+        const segments = splitShellCommand(request.command);
+        if (segments.length > 1 && segments.every(segment =>
+            allowRules.some(r => ruleMatches(r, { ...request, command: segment }, projectCwd, true)),
+        )) {
+            return 'allow';
+        }
+    }
+    return null;
+}
+
+/**
+ * Decides a tool call against the project's .awel/permissions.json.
+ * Returns null when no rule applies.
+ */
+export function evaluatePermission(projectCwd: string, request: PermissionRequest): PermissionAction | null {
+    const rules = readPermissionRules(projectCwd);
+    if (rules.length === 0) return null;
+    return matchPermissionRules(rules, request, projectCwd);
+}
+
+/**
+ * Rule for "always allow" in the dashboard: the exact command for Bash,
+ * the file for file tools, the tool itself otherwise.
+ */
+export function buildAllowRule(projectCwd: string, request: PermissionRequest): PermissionRule {
+    if (request.command !== undefined) {
+        return { action: 'allow', tool: request.tool, command: request.command.trim() };
+    }
+    if (request.filePath) {
+        return { action: 'allow', tool: request.tool, path: toProjectPath(projectCwd, request.filePath) };
+    }
+    return { action: 'allow', tool: request.tool };
+}
+
+/**
+ * Creates Hono routes for reading and editing the permission policy.
+ */
+export function createPermissionsRoute(projectCwd: string) {
+    const permissions = new Hono();
+
+    permissions.get('/api/permissions', (c) => {
+        return c.json({ rules: readPermissionRules(projectCwd) });
+    });
+
+    permissions.put('/api/permissions', async (c) => {
+        let body: unknown;
+        try {
+            body = await c.req.json();
+        } catch {
+            return c.json({ success: false, error: 'Invalid JSON' }, 400);
+        }
+        const parsed = PermissionsFileSchema.safeParse(body);
+        if (!parsed.success) {
+            const message = parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+            return c.json({ success: false, error: message }, 400);
+        }
+        writePermissionRules(projectCwd, parsed.data.rules);
+        return c.json({ success: true, rules: parsed.data.rules });
+    });
+
+    return permissions;
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ModelMessage } from 'ai';
+import { writeAwelConfig } from '../awel-config.js';
+import { getProviderCatalog } from './registry.js';
+import {
+    isCustomProviderType,
+    getCustomProviderEntries,
+    getModelCapabilities,
+    getCustomProviderLabel,
+    stripImages,
+} from './custom.js';
+
+describe('custom providers', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-providers-'));
+        writeAwelConfig(projectCwd, {
+            providers: {
+                ollama: {
+                    name: 'Ollama',
+                    baseURL: 'http://localhost:11434/v1',
+                    models: ['qwen2.5-coder', { id: 'llava', label: 'LLaVA' }],
+                    capabilities: { vision: true },
+                },
+                hosted: {
+                    baseURL: 'https://llm.example.com/v1',
+                    apiKeyEnv: 'AWEL_TEST_MISSING_KEY',
+                    models: ['chat-model'],
+                    capabilities: { toolCalling: false },
+                },
+                broken: { name: 'No base URL' } as never,
+            },
+        });
+    });
+
+    afterEach(() => {
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    it('lists valid providers with their models and availability', () => {
+        const entries = getCustomProviderEntries(projectCwd);
+        expect(entries.map(e => e.id)).toEqual(['custom:ollama', 'custom:hosted']);
+        expect(entries[0]).toMatchObject({
+            label: 'Ollama',
+            available: true,
+            envVar: null,
+            models: [{ id: 'qwen2.5-coder', label: 'qwen2.5-coder' }, { id: 'llava', label: 'LLaVA' }],
+        });
+        expect(entries[1]).toMatchObject({
+            label: 'hosted',
+            available: false,
+            unavailableReason: 'AWEL_TEST_MISSING_KEY not set',
+        });
+    });
+
+    it('appends custom providers to the catalog of a project', () => {
+        const ids = getProviderCatalog(projectCwd).map(p => p.id);
+        expect(ids).toContain('custom:ollama');
+        expect(getProviderCatalog().map(p => p.id)).not.toContain('custom:ollama');
+    });
+
+    it('merges declared capabilities over the defaults', () => {
+        expect(getModelCapabilities('custom:ollama', projectCwd)).toEqual({ vision: true, toolCalling: true });
+        expect(getModelCapabilities('custom:hosted', projectCwd)).toEqual({ vision: false, toolCalling: false });
+        expect(getModelCapabilities('anthropic', projectCwd)).toEqual({ vision: true, toolCalling: true });
+        expect(isCustomProviderType('custom:ollama')).toBe(true);
+        expect(getCustomProviderLabel('custom:hosted', projectCwd)).toBe('hosted');
+    });
+});
+
+describe('stripImages', () => {
+    it('replaces image parts of user messages with a note', () => {
+        const messages: ModelMessage[] = [
+            { role: 'user', content: [{ type: 'text', text: 'What is this?' }, { type: 'image', image: 'data:image/png;base64,AAAA' }] },
+            { role: 'user', content: 'plain' },
+        ];
+        const stripped = stripImages(messages);
+        expect(stripped[0].content).toEqual([
+            { type: 'text', text: 'What is this?' },
+            { type: 'text', text: expect.stringContaining('cannot view images') },
+        ]);
+        expect(stripped[1]).toBe(messages[1]);
+    });
+});
@@ -0,0 +1,118 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { readAwelConfig, type CustomProviderConfig } from '../awel-config.js';
+import type { LanguageModel, ModelMessage } from 'ai';
+import type { CustomProviderType, ModelCapabilities, ProviderEntry, ProviderType } from './types.js';
+
+// ─── Custom Providers ─────────────────────────────────────────
+// OpenAI-compatible endpoints (Ollama, vLLM, LM Studio, ...) declared under
+// `providers` in .awel/config.json. They join the catalog as `custom:<key>`
+// and are spoken to through the chat completions API of @ai-sdk/openai.
+// Capabilities declared in the config decide whether the agent gets its
+// tools and whether image attachments are passed on.
+
+const CUSTOM_PROVIDER_PREFIX = 'custom:';
+
+const CUSTOM_PROVIDER_COLOR = 'text-slate-600 dark:text-slate-400';
+
+/** Capabilities of every built-in provider. */
+export const FULL_CAPABILITIES: ModelCapabilities = { vision: true, toolCalling: true };
+
+/** Local models rarely accept images, but most serve tool calls. */
+const DEFAULT_CUSTOM_CAPABILITIES: ModelCapabilities = { vision: false, toolCalling: true };
+
+/** Sent when no API key is configured; local servers ignore it. */
+const PLACEHOLDER_API_KEY = 'not-needed';
+
+export function isCustomProviderType(providerType: string): providerType is CustomProviderType {
+    return providerType.startsWith(CUSTOM_PROVIDER_PREFIX);
+}
+
+function isValidConfig(config: unknown): config is CustomProviderConfig {
+    if (!config || typeof config !== 'object') return false;
+    const { baseURL, models } = config as Partial<CustomProviderConfig>;
+    return typeof baseURL === 'string' && Array.isArray(models);
+}
+
+/**
+ * Valid custom providers from .awel/config.json, keyed by provider type.
+ * Entries without a baseURL or model list are ignored.
+ */
+export function readCustomProviders(projectCwd: string): Map<CustomProviderType, CustomProviderConfig> {
+    const providers = new Map<CustomProviderType, CustomProviderConfig>();
+    for (const [key, config] of Object.entries(readAwelConfig(projectCwd).providers ?? {})) {
+        if (isValidConfig(config)) providers.set(`${CUSTOM_PROVIDER_PREFIX}${key}`, config);
+    }
+    return providers;
+}
+
+export function getCustomProviderConfig(projectCwd: string, providerType: CustomProviderType): CustomProviderConfig | null {
+    return readCustomProviders(projectCwd).get(providerType) ?? null;
+}
+
+function getCapabilities(config: CustomProviderConfig): ModelCapabilities {
+    return { ...DEFAULT_CUSTOM_CAPABILITIES, ...config.capabilities };
+}
+
+/**
+ * What the provider's models can do: built-in providers support
+ * everything, custom providers what their config declares.
+ */
+export function getModelCapabilities(providerType: ProviderType, projectCwd: string): ModelCapabilities {
+    if (!isCustomProviderType(providerType)) return FULL_CAPABILITIES;
+    const config = getCustomProviderConfig(projectCwd, providerType);
+    return config ? getCapabilities(config) : DEFAULT_CUSTOM_CAPABILITIES;
+}
+
+export function getCustomProviderLabel(providerType: CustomProviderType, projectCwd: string): string {
+    return getCustomProviderConfig(projectCwd, providerType)?.name
+        ?? providerType.slice(CUSTOM_PROVIDER_PREFIX.length);
+}
+
+/**
+ * Catalog entries for the custom providers. A provider that names an API
+ * key variable is unavailable until that variable is set.
+ */
+export function getCustomProviderEntries(projectCwd: string): ProviderEntry[] {
+    return [...readCustomProviders(projectCwd)].map(([id, config]) => {
+        const hasKey = !config.apiKeyEnv || !!process.env[config.apiKeyEnv];
+        return {
+            id,
+            label: config.name ?? id.slice(CUSTOM_PROVIDER_PREFIX.length),
+            color: CUSTOM_PROVIDER_COLOR,
+            envVar: config.apiKeyEnv ?? null,
+            models: config.models.map(m => typeof m === 'string'
+                ? { id: m, label: m }
+                : { id: m.id, label: m.label ?? m.id }),
+            capabilities: getCapabilities(config),
+            available: hasKey,
+            ...(!hasKey && { unavailableReason: `${config.apiKeyEnv} not set` }),
+        };
+    });
+}
+
+export function createCustomModel(config: CustomProviderConfig, modelId: string): LanguageModel {
+    const client = createOpenAI({
+        name: 'custom',
+        baseURL: config.baseURL,
+        apiKey: (config.apiKeyEnv && process.env[config.apiKeyEnv]) || PLACEHOLDER_API_KEY,
+        headers: config.headers,
+    });
+    // Compatible servers implement chat completions, not the Responses API
+    return client.chat(modelId);
+}
+
+/**
+ * Replaces image attachments with a note, for models without vision.
+ */
+export function stripImages(messages: ModelMessage[]): ModelMessage[] {
+    return messages.map(message => {
+        if (message.role !== 'user' || typeof message.content === 'string') return message;
+        if (!message.content.some(part => part.type === 'image')) return message;
+        return {
+            ...message,
+            content: message.content.map(part => part.type === 'image'
+                ? { type: 'text' as const, text: '[An image was attached, but the current model cannot view images.]' }
+                : part),
+        };
+    });
+}
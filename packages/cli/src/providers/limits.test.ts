@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { writeAwelConfig } from '../awel-config.js';
+import { getMaxSteps, DEFAULT_MAX_STEPS, MAX_STEPS_LIMIT } from './limits.js';
+
+describe('getMaxSteps', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-limits-'));
+    });
+
+    afterEach(() => {
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    it('prefers the request, then the project config, then the default', () => {
+        expect(getMaxSteps(projectCwd)).toBe(DEFAULT_MAX_STEPS);
+        writeAwelConfig(projectCwd, { maxSteps: 60 });
+        expect(getMaxSteps(projectCwd)).toBe(60);
+        expect(getMaxSteps(projectCwd, 10)).toBe(10);
+    });
+
+    it('clamps the limit to a sane range', () => {
+        expect(getMaxSteps(projectCwd, 0)).toBe(1);
+        expect(getMaxSteps(projectCwd, 500)).toBe(MAX_STEPS_LIMIT);
+        expect(getMaxSteps(projectCwd, NaN)).toBe(DEFAULT_MAX_STEPS);
+    });
+});
@@ -0,0 +1,22 @@
+import { getSettings } from '../settings.js';
+
+// ─── Step Limit ───────────────────────────────────────────────
+// How many steps (model calls, each possibly running tools) the agent may
+// take for one request. Claude Code gets the same number as its maxTurns.
+// A run that reaches it ends with the `error_max_turns` result, from which
+// the user can let the agent continue.
+
+export const DEFAULT_MAX_STEPS = 25;
+
+/** Claude Code accepts at most 100 turns */
+export const MAX_STEPS_LIMIT = 100;
+
+/**
+ * The step limit for a request: the requested one, else the `maxSteps`
+ * setting, else the default — clamped to 1..MAX_STEPS_LIMIT.
+ */
+export function getMaxSteps(projectCwd: string, requested?: number): number {
+    const steps = requested ?? getSettings(projectCwd).maxSteps ?? DEFAULT_MAX_STEPS;
+    if (!Number.isFinite(steps)) return DEFAULT_MAX_STEPS;
+    return Math.min(MAX_STEPS_LIMIT, Math.max(1, Math.floor(steps)));
+}
@@ -0,0 +1,72 @@
+// ─── Model Pricing ────────────────────────────────────────────
+// USD per million tokens for the models in PROVIDER_CATALOG (see
+// registry.ts), used to estimate what a run cost. Models missing here are
+// still metered in tokens; their prices can be set under `pricing` in
+// .awel/config.json, which also overrides the entries below.
+
+export interface ModelPricing {
+    /** Uncached input tokens */
+    input: number;
+    output: number;
+    /** Input tokens read from the prompt cache (defaults to `input`) */
+    cacheRead?: number;
+    /** Input tokens written to the prompt cache (defaults to `input`) */
+    cacheWrite?: number;
+}
+
+export interface TokenUsage {
+    /** Total input tokens, including cached ones */
+    inputTokens?: number;
+    outputTokens?: number;
+    cacheReadTokens?: number;
+    cacheWriteTokens?: number;
+}
+
+const CLAUDE_OPUS_4_5: ModelPricing = { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 };
+const CLAUDE_OPUS_4: ModelPricing = { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 };
+const CLAUDE_SONNET_4: ModelPricing = { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 };
+const CLAUDE_HAIKU_4_5: ModelPricing = { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 };
+const GPT_5_1: ModelPricing = { input: 1.25, output: 10, cacheRead: 0.125 };
+const GPT_5_2: ModelPricing = { input: 1.75, output: 14, cacheRead: 0.175 };
+const GPT_5_MINI: ModelPricing = { input: 0.25, output: 2, cacheRead: 0.025 };
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+    // Claude Code aliases are priced as the API models they resolve to
+    'sonnet': CLAUDE_SONNET_4,
+    'opus': CLAUDE_OPUS_4_5,
+    'haiku': CLAUDE_HAIKU_4_5,
+    'claude-opus-4-6': CLAUDE_OPUS_4_5,
+    'claude-opus-4-5': CLAUDE_OPUS_4_5,
+    'claude-sonnet-4-5': CLAUDE_SONNET_4,
+    'claude-haiku-4-5': CLAUDE_HAIKU_4_5,
+    'anthropic/claude-opus-4-5': CLAUDE_OPUS_4_5,
+    'anthropic/claude-sonnet-4-5': CLAUDE_SONNET_4,
+    'anthropic/claude-opus-4': CLAUDE_OPUS_4,
+    'anthropic/claude-sonnet-4': CLAUDE_SONNET_4,
+    'gpt-5.1-codex': GPT_5_1,
+    'gpt-5.2-codex': GPT_5_2,
+    'gpt-5.2-chat-latest': GPT_5_2,
+    'gpt-5.2-pro': { input: 21, output: 168 },
+    'gpt-5.1-codex-mini': GPT_5_MINI,
+    'gpt-5-mini': GPT_5_MINI,
+    'gpt-5-nano': { input: 0.05, output: 0.4, cacheRead: 0.005 },
+    'gemini-3-pro-preview': { input: 2, output: 12, cacheRead: 0.2 },
+    'gemini-3-flash-preview': { input: 0.5, output: 3, cacheRead: 0.05 },
+    'gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.125 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.03 },
+};
+
+/**
+ * Estimated cost of the given usage in USD.
+ */
+export function computeCostUsd(pricing: ModelPricing, usage: TokenUsage): number {
+    const cacheRead = usage.cacheReadTokens ?? 0;
+    const cacheWrite = usage.cacheWriteTokens ?? 0;
+    const uncached = Math.max(0, (usage.inputTokens ?? 0) - cacheRead - cacheWrite);
+    const dollars =
+        uncached * pricing.input +
+        cacheRead * (pricing.cacheRead ?? pricing.input) +
+        cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+        (usage.outputTokens ?? 0) * pricing.output;
+    return dollars / 1_000_000;
+}
@@ -1,5 +1,8 @@
 import { execSync } from 'node:child_process';
 import { createVercelProvider } from './vercel.js';
+import { getCustomProviderEntries } from './custom.js';
+import { readAwelConfig } from '../awel-config.js';
+import type { ModelCandidate } from './retry.js';
 import type { StreamProvider, ProviderType, ProviderCatalogEntry, ProviderEntry } from './types.js';
 
 // ─── Provider Catalog ─────────────────────────────────────────
@@ -168,10 +171,11 @@ export function isCodexBinaryAvailable(): boolean {
 /**
  * Returns the full provider catalog with availability info.
  * Each provider entry includes its nested models, availability status,
- * and an optional unavailableReason.
+ * and an optional unavailableReason. With a project directory, the custom
+ * providers declared in its .awel/config.json are appended.
  */
-export function getProviderCatalog(): ProviderEntry[] {
-    return PROVIDER_CATALOG.map((entry) => {
+export function getProviderCatalog(projectCwd?: string): ProviderEntry[] {
+    const builtin = PROVIDER_CATALOG.map((entry): ProviderEntry => {
         if (entry.id === 'claude-code') {
             const hasBinary = isClaudeBinaryAvailable();
             return {
@@ -201,10 +205,27 @@ export function getProviderCatalog(): ProviderEntry[] {
             ...(!hasKey && { unavailableReason: `${entry.envVar} not set` }),
         };
     });
+    return projectCwd ? [...builtin, ...getCustomProviderEntries(projectCwd)] : builtin;
 }
 
 // ─── Provider Resolution ─────────────────────────────────────
 
+/**
+ * The `fallbackModels` of .awel/config.json that can stand in for the given
+ * model: available, not the model itself, and not CLI-based (those run
+ * their own agent loop and can't pick up another model's conversation).
+ */
+export function getFallbackModels(projectCwd: string, modelId: string, providerType: ProviderType): ModelCandidate[] {
+    const fallbacks = readAwelConfig(projectCwd).fallbackModels ?? [];
+    if (fallbacks.length === 0) return [];
+    const catalog = getProviderCatalog(projectCwd);
+    return fallbacks
+        .filter(f => !(f.provider === providerType && f.model === modelId))
+        .filter(f => f.provider !== 'claude-code' && f.provider !== 'codex-cli')
+        .filter(f => catalog.some(p => p.id === f.provider && p.available))
+        .map(f => ({ modelId: f.model, providerType: f.provider as ProviderType }));
+}
+
 export function resolveProvider(modelId: string, modelProvider: string): { provider: StreamProvider; modelProvider: string } {
-    return { provider: createVercelProvider(modelId, modelProvider as ProviderType), modelProvider };
+    return { provider: createVercelProvider(modelId, modelProvider as ProviderType, getFallbackModels), modelProvider };
 }
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { APICallError, RetryError } from 'ai';
+import { writeAwelConfig } from '../awel-config.js';
+import { getFallbackModels } from './registry.js';
+import { isRetryableError, getRetryDelayMs, getRetrySettings } from './retry.js';
+
+function apiError(statusCode: number, responseHeaders?: Record<string, string>): APICallError {
+    return new APICallError({
+        message: `HTTP ${statusCode}`,
+        url: 'https://api.example.com',
+        requestBodyValues: {},
+        statusCode,
+        responseHeaders,
+    });
+}
+
+describe('isRetryableError', () => {
+    it('retries rate limits, overload, server and network errors', () => {
+        expect(isRetryableError(apiError(429))).toBe(true);
+        expect(isRetryableError(apiError(503))).toBe(true);
+        expect(isRetryableError({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } })).toBe(true);
+        expect(isRetryableError(new TypeError('fetch failed'))).toBe(true);
+        expect(isRetryableError(new RetryError({ message: 'failed', reason: 'maxRetriesExceeded', errors: [apiError(529)] }))).toBe(true);
+    });
+
+    it('does not retry client errors', () => {
+        expect(isRetryableError(apiError(400))).toBe(false);
+        expect(isRetryableError(apiError(401))).toBe(false);
+        expect(isRetryableError(new Error('Invalid tool input'))).toBe(false);
+    });
+});
+
+describe('getRetryDelayMs', () => {
+    it('backs off exponentially and honours retry-after', () => {
+        expect(getRetryDelayMs(apiError(503), 1, 1000)).toBe(1000);
+        expect(getRetryDelayMs(apiError(503), 3, 1000)).toBe(4000);
+        expect(getRetryDelayMs(apiError(503), 20, 1000)).toBe(60_000);
+        expect(getRetryDelayMs(apiError(429, { 'retry-after': '7' }), 1, 1000)).toBe(7000);
+        expect(getRetryDelayMs(apiError(429, { 'retry-after-ms': '250' }), 1, 1000)).toBe(250);
+    });
+});
+
+describe('retry config', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-retry-'));
+        vi.stubEnv('OPENROUTER_API_KEY', 'test-key');
+        vi.stubEnv('AI_GATEWAY_API_KEY', '');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    it('defaults to two retries', () => {
+        expect(getRetrySettings(projectCwd)).toEqual({ maxRetries: 2, initialDelayMs: 2000 });
+        writeAwelConfig(projectCwd, { retry: { maxRetries: 0 } });
+        expect(getRetrySettings(projectCwd).maxRetries).toBe(0);
+    });
+
+    it('keeps only available fallbacks other than the selected model', () => {
+        writeAwelConfig(projectCwd, {
+            fallbackModels: [
+                { provider: 'anthropic', model: 'claude-sonnet-4-5' },
+                { provider: 'openrouter', model: 'anthropic/claude-sonnet-4-5' },
+                { provider: 'vercel-gateway', model: 'anthropic/claude-sonnet-4-5' },
+                { provider: 'claude-code', model: 'sonnet' },
+            ],
+        });
+        expect(getFallbackModels(projectCwd, 'claude-sonnet-4-5', 'anthropic')).toEqual([
+            { modelId: 'anthropic/claude-sonnet-4-5', providerType: 'openrouter' },
+        ]);
+    });
+});
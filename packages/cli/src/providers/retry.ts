@@ -0,0 +1,103 @@
+import { APICallError, RetryError } from 'ai';
+import { readAwelConfig } from '../awel-config.js';
+import type { ProviderType } from './types.js';
+
+// ─── Retry & Fallback ─────────────────────────────────────────
+// A run that fails on a transient error (rate limit, overload, 5xx,
+// dropped connection) is retried with exponential backoff, continuing from
+// the steps it already finished. Once the retries are used up, the models
+// under `fallbackModels` in .awel/config.json take over in order.
+
+export interface ModelCandidate {
+    modelId: string;
+    providerType: ProviderType;
+}
+
+export interface RetrySettings {
+    maxRetries: number;
+    initialDelayMs: number;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_INITIAL_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60_000;
+
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+/** Error types that providers report inside an otherwise healthy stream. */
+const RETRYABLE_ERROR_TYPES = new Set(['overloaded_error', 'rate_limit_error', 'api_error', 'server_error', 'rate_limit_exceeded']);
+
+const NETWORK_ERROR_PATTERN = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network error|terminated/i;
+
+export function getRetrySettings(projectCwd: string): RetrySettings {
+    const retry = readAwelConfig(projectCwd).retry;
+    return {
+        maxRetries: Math.max(0, retry?.maxRetries ?? DEFAULT_MAX_RETRIES),
+        initialDelayMs: Math.max(0, retry?.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS),
+    };
+}
+
+/**
+ * Whether the error is worth retrying: rate limits, overload, server
+ * errors and network failures. Client errors (bad request, auth) are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+    if (RetryError.isInstance(error)) return isRetryableError(error.lastError);
+    if (APICallError.isInstance(error)) {
+        return error.isRetryable
+            || (error.statusCode !== undefined && RETRYABLE_STATUS_CODES.has(error.statusCode));
+    }
+    if (error && typeof error === 'object') {
+        // Streamed provider errors, e.g. { type: 'error', error: { type: 'overloaded_error' } }
+        const { type, error: inner } = error as { type?: unknown; error?: unknown };
+        if (typeof type === 'string' && RETRYABLE_ERROR_TYPES.has(type)) return true;
+        if (inner && typeof inner === 'object') return isRetryableError(inner);
+    }
+    const message = error instanceof Error
+        ? `${error.message} ${error.cause instanceof Error ? error.cause.message : ''}`
+        : typeof error === 'string' ? error : '';
+    return NETWORK_ERROR_PATTERN.test(message);
+}
+
+/**
+ * Milliseconds to wait before retry number `retry` (1-based). A
+ * retry-after header from the provider wins over the exponential backoff.
+ */
+export function getRetryDelayMs(error: unknown, retry: number, initialDelayMs: number): number {
+    const backoff = Math.min(MAX_DELAY_MS, initialDelayMs * 2 ** (retry - 1));
+    const apiError = RetryError.isInstance(error) ? error.lastError : error;
+    const headers = APICallError.isInstance(apiError) ? apiError.responseHeaders : undefined;
+    if (!headers) return backoff;
+
+    const retryAfterMs = parseFloat(headers['retry-after-ms'] ?? '');
+    if (!Number.isNaN(retryAfterMs)) return Math.min(MAX_DELAY_MS, Math.max(0, retryAfterMs));
+    const retryAfter = headers['retry-after'];
+    if (retryAfter) {
+        const seconds = parseFloat(retryAfter);
+        const ms = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+        if (!Number.isNaN(ms)) return Math.min(MAX_DELAY_MS, Math.max(0, ms));
+    }
+    return backoff;
+}
+
+export function formatError(error: unknown): string {
+    if (error instanceof Error) return error.message;
+    if (typeof error === 'string') return error;
+    return JSON.stringify(error);
+}
+
+/**
+ * Resolves after `ms`, or as soon as the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (signal?.aborted) return resolve();
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+        function done() {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        }
+    });
+}
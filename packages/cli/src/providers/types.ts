@@ -1,7 +1,8 @@
 import type { SSEStreamingApi } from 'hono/streaming';
-import type { ModelMessage, AssistantModelMessage, ToolModelMessage } from 'ai';
+import type { ModelMessage, AssistantModelMessage, ToolModelMessage, UserModelMessage } from 'ai';
 
-export type ResponseMessage = AssistantModelMessage | ToolModelMessage;
+/** User messages only appear as feedback from failed checks (see verification.ts). */
+export type ResponseMessage = AssistantModelMessage | ToolModelMessage | UserModelMessage;
 
 export interface ProviderConfig {
     projectCwd: string;
@@ -12,6 +13,8 @@ export interface ProviderConfig {
     creationMode?: boolean;
     /** User's preferred language (e.g., 'en', 'zh'). Used to select localized system prompts. */
     language?: string;
+    /** Overrides the project's step limit for this request (see limits.ts). */
+    maxSteps?: number;
 }
 
 export interface StreamProvider {
@@ -20,9 +23,23 @@ export interface StreamProvider {
         messages: ModelMessage[],
         config: ProviderConfig
     ): Promise<ResponseMessage[]>;
+    /** One-shot, tool-less completion (e.g. for commit messages). */
+    complete?(prompt: string, projectCwd: string): Promise<string>;
 }
 
-export type ProviderType = 'claude-code' | 'codex-cli' | 'anthropic' | 'openai' | 'google-ai' | 'vercel-gateway' | 'minimax' | 'zhipu' | 'openrouter' | 'moonshot';
+export type BuiltinProviderType = 'claude-code' | 'codex-cli' | 'anthropic' | 'openai' | 'google-ai' | 'vercel-gateway' | 'minimax' | 'zhipu' | 'openrouter' | 'moonshot';
+
+/** A user-defined OpenAI-compatible provider from .awel/config.json (see custom.ts). */
+export type CustomProviderType = `custom:${string}`;
+
+export type ProviderType = BuiltinProviderType | CustomProviderType;
+
+export interface ModelCapabilities {
+    /** Accepts image attachments */
+    vision: boolean;
+    /** Can call Awel's tools; without it the agent can only chat */
+    toolCalling: boolean;
+}
 
 export interface ModelEntry {
     id: string;
@@ -36,6 +53,8 @@ export interface ProviderCatalogEntry {
     envVar: string | null;
     customModelInput?: boolean;
     models: ModelEntry[];
+    /** Set for custom providers; built-in providers support everything */
+    capabilities?: ModelCapabilities;
 }
 
 export interface ProviderEntry extends ProviderCatalogEntry {
@@ -1,4 +1,4 @@
-import { streamText, stepCountIs, type LanguageModel } from 'ai';
+import { streamText, generateText, stepCountIs, type LanguageModel } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createAnthropic } from '@ai-sdk/anthropic';
@@ -11,14 +11,23 @@ import { createMoonshotAI } from '@ai-sdk/moonshotai';
 import { pauseDevServer, resumeDevServer } from '../devserver.js';
 import { addToHistory, writeSSEEvent } from '../sse.js';
 import { awelTools } from '../tools/index.js';
+import { authorizeShellCommand } from '../tools/bash.js';
 import { rejectAllPending } from '../confirm-store.js';
 import { storePlan } from '../plan-store.js';
 import { startUndoSession, endUndoSession, getCurrentSessionStats } from '../undo.js';
 import { logEvent } from '../verbose.js';
 import { getAlwaysMemoryContext, getContextualMemoryContext } from '../memory.js';
+import { getRelatedCodeContext } from '../code-index.js';
+import { checkBudget, recordUsage, estimateCostUsd, toTokenUsage, addTokenUsage } from '../usage.js';
 import type { SSEStreamingApi } from 'hono/streaming';
 import type { ModelMessage } from 'ai';
-import type { StreamProvider, ProviderConfig, ResponseMessage, ProviderType } from './types.js';
+import { isCustomProviderType, getCustomProviderConfig, getCustomProviderLabel, getModelCapabilities, createCustomModel, stripImages } from './custom.js';
+import { DEFAULT_MAX_STEPS, getMaxSteps } from './limits.js';
+import { getSettings } from '../settings.js';
+import { getInstructionsContext } from '../instructions.js';
+import { getVerifySettings, runChecks, formatVerificationFeedback, getCheckName, type VerificationReport } from '../verification.js';
+import { getRetrySettings, isRetryableError, getRetryDelayMs, formatError, sleep, type ModelCandidate } from './retry.js';
+import type { StreamProvider, ProviderConfig, ResponseMessage, ProviderType, BuiltinProviderType } from './types.js';
 
 const SYSTEM_PROMPT = `You are Awel, an expert AI coding assistant. You help users build, modify, and understand their code projects.
 
@@ -26,13 +35,18 @@ You have access to these tools:
 - Read: Read file contents
 - Write: Create or overwrite files (creates parent directories automatically)
 - Edit: Find-and-replace edits in files
-- Bash: Execute shell commands
+- Bash: Execute shell commands. Set run_in_background for long-running commands (watchers, servers, long test runs)
+- BashOutput: Read new output from a background shell
+- KillShell: Stop a background shell
 - Glob: Find files by glob pattern
 - Ls: List directory contents
 - ProposePlan: Propose a structured implementation plan before executing complex tasks
 - AskUser: Ask the user clarifying questions with selectable options
 - ReactBestPractices: Get React/Next.js performance best practices (40+ rules). Call with a section name or "all".
 - Grep: Search file contents for a regex pattern (find function definitions, variable usage, string matches)
+- FindDefinition / FindReferences: Find where a component, hook, function or type is defined or used, via the TypeScript compiler — more precise than Grep, and it follows imports
+- ListSymbols: Outline the symbols declared in a file, or search the project's symbols by name
+- SemanticSearch: Find the project's code by describing what it does, when you don't know the names involved
 - MultiEdit: Apply multiple find-and-replace edits to a single file in one call
 - WebSearch: Search the web for real-time information (documentation, error messages, APIs, libraries)
 - WebFetch: Fetch content from a URL and return it as markdown, plain text, or raw HTML
@@ -40,7 +54,10 @@ You have access to these tools:
 - TodoRead: Read the current task list to check progress
 - TodoWrite: Create or update the task list to track multi-step work
 - RestartDevServer: Restart the user's dev server if it has crashed, is unresponsive, or needs a restart after config changes
+- ServerLogs: Read the dev server's recent output — compile errors, server-side exceptions, warnings and request logs. Check it after edits and when a page shows a server error
+- Diagnostics: Type-check and lint files with the project's TypeScript and ESLint, returning file:line:column problems. Run it on the files you changed after editing TypeScript/JavaScript; omit files to check the whole project
 - Memory: Read, write, or search project memories. Memories persist across sessions. Actions: 'read' (list all), 'write' (save new entry), 'search' (find contextual memories by keyword). When writing: provide content, tags, and scope ('always' for project-wide rules, 'contextual' for specific patterns).
+- mcp__<server>__<tool>: Tools provided by external MCP servers the user has configured (e.g. design systems, database schemas, ticket systems). Prefer them when they cover the task.
 
 React Best Practices:
 - When writing, reviewing, or refactoring React/Next.js code, use the ReactBestPractices tool to consult the performance guide. Request a specific section (e.g. "bundle", "rerender") when you know the area, or "all" for the full guide.
@@ -101,12 +118,16 @@ const CREATION_SYSTEM_PROMPT_EN = `You are Awel in creation mode — a design-fo
 
 You have access to these tools:
 - Read, Write, Edit, MultiEdit: File operations
-- Bash: Execute shell commands
+- Bash, BashOutput, KillShell: Execute shell commands, optionally in the background
 - Glob, Grep, Ls: Find and search files
+- FindDefinition, FindReferences, ListSymbols: Navigate code by symbol
+- SemanticSearch: Find code by describing what it does
 - AskUser: Ask clarifying questions with selectable options
 - WebSearch, WebFetch, CodeSearch: Research and reference
 - TodoWrite, TodoRead: Track multi-step work
 - RestartDevServer: Restart the dev server if needed
+- ServerLogs: Check the dev server for compile errors
+- Diagnostics: Type-check and lint the files you changed
 
 ## YOUR WORKFLOW
 
@@ -154,12 +175,16 @@ const CREATION_SYSTEM_PROMPT_ZH = `你是 Awel 创作模式——一个专注于
 
 你可以使用以下工具：
 - Read, Write, Edit, MultiEdit：文件操作
-- Bash：执行 shell 命令
+- Bash, BashOutput, KillShell：执行 shell 命令，可在后台运行
 - Glob, Grep, Ls：查找和搜索文件
+- FindDefinition, FindReferences, ListSymbols：按符号导航代码
+- SemanticSearch：用自然语言描述查找项目代码
 - AskUser：通过可选选项向用户提问
 - WebSearch, WebFetch, CodeSearch：研究和参考
 - TodoWrite, TodoRead：跟踪多步骤工作
 - RestartDevServer：在需要时重启开发服务器
+- ServerLogs：检查开发服务器的编译错误
+- Diagnostics：对你修改过的文件进行类型检查和 lint
 
 ## 工作流程
 
@@ -237,8 +262,14 @@ const ASK_USER_TOOLS = new Set(['AskUser', 'AskUserQuestion']);
 const PLAN_TOOLS = new Set(['ProposePlan', 'EnterPlanMode', 'ExitPlanMode']);
 const INTERACTIVE_TOOLS = new Set([...ASK_USER_TOOLS, ...PLAN_TOOLS]);
 
-function createModel(modelId: string, providerType: ProviderType, cwd?: string) {
-    if (providerType === 'claude-code') {
+function createModel(modelId: string, providerType: ProviderType, cwd?: string, maxSteps = DEFAULT_MAX_STEPS) {
+    if (isCustomProviderType(providerType)) {
+        const config = getCustomProviderConfig(cwd ?? process.cwd(), providerType);
+        if (!config) {
+            throw new Error(`Unknown provider "${providerType}" — declare it under "providers" in .awel/config.json`);
+        }
+        return createCustomModel(config, modelId);
+    } else if (providerType === 'claude-code') {
         let appendPrompt = 'IMPORTANT: Always respond in the same language the user writes in. If the user writes in Chinese, respond in Chinese. If the user writes in English, respond in English. Match the user\'s language throughout the conversation.';
 
         // Inject always-scope memories for Claude Code
@@ -255,7 +286,7 @@ function createModel(modelId: string, providerType: ProviderType, cwd?: string)
             cwd,
             permissionMode: 'acceptEdits',
             streamingInput: 'always',
-            maxTurns: 25,
+            maxTurns: maxSteps,
             systemPrompt: { type: 'preset', preset: 'claude_code', append: appendPrompt },
         });
     } else if (providerType === 'codex-cli') {
@@ -292,26 +323,56 @@ function createModel(modelId: string, providerType: ProviderType, cwd?: string)
     }
 }
 
-export function createVercelProvider(modelId: string, providerType: ProviderType): StreamProvider {
+const PROVIDER_LABEL_MAP: Record<BuiltinProviderType, string> = {
+    'claude-code': 'Claude Code',
+    'codex-cli': 'Codex CLI',
+    anthropic: 'Anthropic',
+    openai: 'OpenAI',
+    'google-ai': 'Google AI',
+    'vercel-gateway': 'Vercel AI Gateway',
+    minimax: 'MiniMax',
+    zhipu: 'Zhipu AI',
+    openrouter: 'OpenRouter',
+    moonshot: 'Moonshot AI',
+};
+
+function getProviderLabel(providerType: ProviderType, projectCwd: string): string {
+    return isCustomProviderType(providerType)
+        ? getCustomProviderLabel(providerType, projectCwd)
+        : PROVIDER_LABEL_MAP[providerType];
+}
+
+/** Resolves the models to fall back to (see getFallbackModels in registry.ts). */
+type FallbackResolver = (projectCwd: string, modelId: string, providerType: ProviderType) => ModelCandidate[];
+
+export function createVercelProvider(modelId: string, providerType: ProviderType, getFallbacks?: FallbackResolver): StreamProvider {
     return {
         async streamResponse(
             stream: SSEStreamingApi,
             messages: ModelMessage[],
             config: ProviderConfig
         ): Promise<ResponseMessage[]> {
-            const PROVIDER_LABEL_MAP: Record<ProviderType, string> = {
-                'claude-code': 'Claude Code',
-                'codex-cli': 'Codex CLI',
-                anthropic: 'Anthropic',
-                openai: 'OpenAI',
-                'google-ai': 'Google AI',
-                'vercel-gateway': 'Vercel AI Gateway',
-                minimax: 'MiniMax',
-                zhipu: 'Zhipu AI',
-                openrouter: 'OpenRouter',
-                moonshot: 'Moonshot AI',
-            };
-            const providerLabel = PROVIDER_LABEL_MAP[providerType];
+            const providerLabel = getProviderLabel(providerType, config.projectCwd);
+
+            // Don't start a run once a usage budget is used up
+            const budgetError = checkBudget();
+            if (budgetError) {
+                logEvent('budget', budgetError);
+                const resultData = JSON.stringify({
+                    type: 'result',
+                    subtype: 'error_max_budget_usd',
+                    duration_ms: 0,
+                    num_turns: 0,
+                    result: budgetError,
+                    is_error: true,
+                    errors: [budgetError],
+                });
+                addToHistory('result', resultData);
+                await stream.writeSSE({ event: 'result', data: resultData });
+                await writeSSEEvent(stream, 'done', { type: 'done', message: 'Agent completed' });
+                return [];
+            }
+
             await writeSSEEvent(stream, 'status', {
                 type: 'status',
                 message: `Connecting to ${providerLabel}...`
@@ -322,24 +383,51 @@ export function createVercelProvider(modelId: string, providerType: ProviderType
             const lastUserPrompt = typeof lastUserMsg?.content === 'string'
                 ? lastUserMsg.content
                 : '';
+            // Prompts with screenshots keep their text in a text part
+            const lastUserText = Array.isArray(lastUserMsg?.content)
+                ? lastUserMsg.content.flatMap(part => part.type === 'text' ? [part.text] : []).join('\n')
+                : lastUserPrompt;
 
             // Self-contained providers have built-in tools, system prompt, and execution
             // loop via the `cwd` config — they don't need Awel's tools or system prompt.
             const isSelfContained = providerType === 'claude-code' || providerType === 'codex-cli';
-            const model = createModel(modelId, providerType, config.projectCwd);
+            // Custom providers may not support tool calls or images
+            const capabilities = getModelCapabilities(providerType, config.projectCwd);
+            const useTools = !isSelfContained && capabilities.toolCalling;
+
+            // The selected model first, then the fallbacks that can use the same tools
+            const candidates: ModelCandidate[] = [
+                { modelId, providerType },
+                ...(isSelfContained ? [] : getFallbacks?.(config.projectCwd, modelId, providerType) ?? [])
+                    .filter(c => !useTools || getModelCapabilities(c.providerType, config.projectCwd).toolCalling),
+            ];
+            const retrySettings = getRetrySettings(config.projectCwd);
+            const maxSteps = getMaxSteps(config.projectCwd, config.maxSteps);
+            let candidateIndex = 0;
+            let retries = 0;
+            let active = candidates[0];
+            const canRetry = () => retries < retrySettings.maxRetries || candidateIndex < candidates.length - 1;
+
+            // Once cancelled, a run may belong to a thread that is no longer
+            // current, so nothing more is added to the (new thread's) history
+            const recordHistory = (event: string, data: string) => {
+                if (!config.signal?.aborted) addToHistory(event, data);
+            };
 
-            // emitSSE helper used by tools that need to send events (e.g. confirmations)
+            // emitSSE helper used by tools that need to send events (e.g. confirmations).
+            // Live command output is not kept in history — the tool result has it.
             const emitSSE = (event: string, data: string) => {
-                addToHistory(event, data);
+                if (event !== 'tool_output') recordHistory(event, data);
                 stream.writeSSE({ event, data }).catch(() => { });
             };
 
-            const tools = isSelfContained ? undefined : awelTools({
+            const toolContext = {
                 cwd: config.projectCwd,
                 emitSSE,
                 confirmBash: !config.creationMode,
                 confirmFileWrites: !config.creationMode,
-            });
+            };
+            const tools = !useTools ? undefined : awelTools(toolContext);
 
             pauseDevServer(config.targetPort);
             const startTime = Date.now();
@@ -351,6 +439,13 @@ export function createVercelProvider(modelId: string, providerType: ProviderType
             let inPlanMode = false;
             let waitingForUserInput = false;
             let reasoningActive = false;
+            // Usage of the current attempt's finished steps, checked against the budget as the run goes
+            let runUsage = toTokenUsage(undefined);
+            let budgetExceeded: string | null = null;
+            let lastFinishReason: string | undefined;
+            let stepLimitReached = false;
+            // Set when an error ended the run; its changes aren't checked then
+            let runFailed = false;
             const suppressedToolCallIds = new Set<string>();
             const abortController = new AbortController();
 
@@ -371,7 +466,7 @@ export function createVercelProvider(modelId: string, providerType: ProviderType
             // Pass projectCwd so the session can capture a git baseline — this is
             // essential for self-contained providers (Claude Code) where tool-call
             // events arrive after the file has already been modified.
-            startUndoSession(config.projectCwd);
+            const undoSessionId = startUndoSession(config.projectCwd, lastUserPrompt);
 
             let responseMessages: ResponseMessage[] = [];
 
@@ -391,6 +486,10 @@ export function createVercelProvider(modelId: string, providerType: ProviderType
                     }
                 }
 
+                if (systemPrompt && !useTools) {
+                    systemPrompt += '\n\nThe current model cannot call tools, so none of the tools above are available. Answer from the conversation alone, and show changes as code the user can apply themselves.';
+                }
+
                 // Auto-retrieve contextual memories relevant to the user's prompt
                 if (!isSelfContained && systemPrompt && lastUserPrompt) {
                     const contextualMemory = getContextualMemoryContext(config.projectCwd, lastUserPrompt);
@@ -400,280 +499,407 @@ export function createVercelProvider(modelId: string, providerType: ProviderType
                     }
                 }
 
-                const maxOutputTokens = process.env.AWEL_MAX_OUTPUT_TOKENS
-                    ? parseInt(process.env.AWEL_MAX_OUTPUT_TOKENS, 10)
-                    : undefined;
-
-                const streamTextArgs = {
-                    model,
-                    ...(systemPrompt && { system: systemPrompt }),
-                    messages,
-                    tools,
-                    ...(!isSelfContained && { stopWhen: stepCountIs(25) }),
-                    ...(maxOutputTokens && { maxOutputTokens }),
-                    abortSignal: abortController.signal,
+                // Inspector and page context name a component or route; add
+                // the project code the index finds for them
+                if (!isSelfContained && systemPrompt && lastUserText) {
+                    const relatedCode = await getRelatedCodeContext(config.projectCwd, lastUserText);
+                    if (relatedCode) {
+                        systemPrompt += '\n\n' + relatedCode;
+                        logEvent('code-index', 'Auto-retrieved related code for prompt');
+                    }
+                }
+
+                // Project instructions go last; each step re-collects them, since
+                // touching a directory brings in its own instruction files
+                const withInstructions = (stepMessages: ModelMessage[]) => {
+                    const instructions = getInstructionsContext(config.projectCwd, stepMessages);
+                    return instructions ? `${systemPrompt}\n\n${instructions}` : systemPrompt;
                 };
-                logEvent('stream:start', `model=${modelId} provider=${providerType} messages=${messages.length}`);
-                const result = streamText(streamTextArgs);
-
-                try {
-                    for await (const part of result.fullStream) {
-                        switch (part.type) {
-                            case 'text-delta': {
-                                logEvent('text-delta', part.text);
-                                accumulatedText += part.text;
-                                if (inPlanMode) break;
-                                const textData = JSON.stringify({
-                                    type: 'text',
-                                    text: part.text,
-                                    model: modelId
-                                });
-                                addToHistory('text', textData);
-                                await stream.writeSSE({ event: 'text', data: textData });
-                                break;
-                            }
 
-                            case 'tool-call': {
-                                logEvent('tool-call', `${part.toolName} ${JSON.stringify(part.input).slice(0, 200)}`);
-                                // Intercept ProposePlan — emit as a plan SSE event
-                                if (part.toolName === 'ProposePlan') {
-                                    const input = part.input as { title: string; content: string };
-                                    const planId = crypto.randomUUID();
-                                    storePlan({
-                                        planId,
-                                        plan: { title: input.title, content: input.content },
-                                        originalPrompt: lastUserPrompt,
-                                        modelId,
-                                        approved: false,
-                                    });
-                                    const planData = JSON.stringify({
-                                        type: 'plan',
-                                        planId,
-                                        planTitle: input.title,
-                                        planContent: input.content,
-                                    });
-                                    addToHistory('plan', planData);
-                                    await stream.writeSSE({ event: 'plan', data: planData });
-                                    waitingForUserInput = true;
-                                    break;
-                                }
+                const maxOutputTokens = process.env.AWEL_MAX_OUTPUT_TOKENS
+                    ? parseInt(process.env.AWEL_MAX_OUTPUT_TOKENS, 10)
+                    : getSettings(config.projectCwd).maxOutputTokens;
+
+                // Steps finished by attempts that then failed on a transient error;
+                // the next attempt continues from them
+                const completedMessages: ResponseMessage[] = [];
+                let result: ReturnType<typeof streamText<NonNullable<typeof tools>>>;
+
+                // Checks run once the agent finishes; failures start a fix-up attempt
+                const verifySettings = config.creationMode ? null : getVerifySettings(config.projectCwd);
+                let verification: VerificationReport | null = null;
+                let fixAttempts = 0;
+
+                while (true) {
+                    let attemptMessages: ResponseMessage[] = [];
+                    let retryableError: unknown = null;
+                    const attemptInput: ModelMessage[] = [...messages, ...completedMessages];
+                    const streamTextArgs = {
+                        model: createModel(active.modelId, active.providerType, config.projectCwd, maxSteps),
+                        ...(systemPrompt && {
+                            system: withInstructions(attemptInput),
+                            prepareStep: ({ messages: stepMessages }: { messages: ModelMessage[] }) => ({
+                                system: withInstructions(stepMessages),
+                            }),
+                        }),
+                        messages: getModelCapabilities(active.providerType, config.projectCwd).vision
+                            ? attemptInput
+                            : stripImages(attemptInput),
+                        tools,
+                        // Steps of earlier attempts count towards the limit
+                        ...(useTools && { stopWhen: stepCountIs(Math.max(1, maxSteps - numTurns)) }),
+                        ...(maxOutputTokens && { maxOutputTokens }),
+                        // Retried below instead, where the finished steps can be kept
+                        maxRetries: 0,
+                        abortSignal: abortController.signal,
+                        onStepFinish: (step: { response: { messages: ResponseMessage[] } }) => {
+                            attemptMessages = step.response.messages;
+                        },
+                    };
+                    logEvent('stream:start', `model=${active.modelId} provider=${active.providerType} messages=${attemptInput.length}`);
+                    result = streamText(streamTextArgs);
 
-                                // Intercept AskUser / AskUserQuestion — emit as a question SSE event
-                                if (ASK_USER_TOOLS.has(part.toolName)) {
-                                    const input = part.input as { questions: Array<{ question: string; header: string; multiSelect: boolean; options: Array<{ label: string; description: string }> }> };
-                                    const questionId = crypto.randomUUID();
-                                    const questionData = JSON.stringify({
-                                        type: 'question',
-                                        questionId,
-                                        questions: input.questions,
+                    try {
+                        for await (const part of result.fullStream) {
+                            switch (part.type) {
+                                case 'text-delta': {
+                                    logEvent('text-delta', part.text);
+                                    accumulatedText += part.text;
+                                    if (inPlanMode) break;
+                                    const textData = JSON.stringify({
+                                        type: 'text',
+                                        text: part.text,
+                                        model: active.modelId
                                     });
-                                    addToHistory('question', questionData);
-                                    await stream.writeSSE({ event: 'question', data: questionData });
-                                    waitingForUserInput = true;
+                                    recordHistory('text', textData);
+                                    await stream.writeSSE({ event: 'text', data: textData });
                                     break;
                                 }
 
-                                // Intercept Claude Code native plan mode tools
-                                if (part.toolName === 'EnterPlanMode') {
-                                    inPlanMode = true;
-                                    accumulatedText = '';
-                                    break;
-                                }
-
-                                if (part.toolName === 'ExitPlanMode') {
-                                    inPlanMode = false;
-                                    // Deduplicate — Claude Code may call ExitPlanMode multiple times
-                                    if (planEmitted) {
-                                        break;
-                                    }
-
-                                    // Prefer Write-captured content, fall back to accumulated text-deltas
-                                    const planContent = pendingPlanContent || accumulatedText;
-
-                                    if (planContent) {
-                                        const parsed = parsePlanContent(planContent);
+                                case 'tool-call': {
+                                    logEvent('tool-call', `${part.toolName} ${JSON.stringify(part.input).slice(0, 200)}`);
+                                    // Intercept ProposePlan — emit as a plan SSE event
+                                    if (part.toolName === 'ProposePlan') {
+                                        const input = part.input as { title: string; content: string };
                                         const planId = crypto.randomUUID();
                                         storePlan({
                                             planId,
-                                            plan: { title: parsed.title, content: parsed.content || planContent },
+                                            plan: { title: input.title, content: input.content },
                                             originalPrompt: lastUserPrompt,
-                                            modelId,
+                                            modelId: active.modelId,
                                             approved: false,
                                         });
                                         const planData = JSON.stringify({
                                             type: 'plan',
                                             planId,
-                                            planTitle: parsed.title,
-                                            planContent: parsed.content || planContent,
+                                            planTitle: input.title,
+                                            planContent: input.content,
                                         });
-                                        addToHistory('plan', planData);
+                                        recordHistory('plan', planData);
                                         await stream.writeSSE({ event: 'plan', data: planData });
-                                        planEmitted = true;
                                         waitingForUserInput = true;
+                                        break;
                                     }
-                                    pendingPlanContent = null;
+
+                                    // Intercept AskUser / AskUserQuestion — emit as a question SSE event
+                                    if (ASK_USER_TOOLS.has(part.toolName)) {
+                                        const input = part.input as { questions: Array<{ question: string; header: string; multiSelect: boolean; options: Array<{ label: string; description: string }> }> };
+                                        const questionId = crypto.randomUUID();
+                                        const questionData = JSON.stringify({
+                                            type: 'question',
+                                            questionId,
+                                            questions: input.questions,
+                                        });
+                                        recordHistory('question', questionData);
+                                        await stream.writeSSE({ event: 'question', data: questionData });
+                                        waitingForUserInput = true;
+                                        break;
+                                    }
+
+                                    // Intercept Claude Code native plan mode tools
+                                    if (part.toolName === 'EnterPlanMode') {
+                                        inPlanMode = true;
+                                        accumulatedText = '';
+                                        break;
+                                    }
+
+                                    if (part.toolName === 'ExitPlanMode') {
+                                        inPlanMode = false;
+                                        // Deduplicate — Claude Code may call ExitPlanMode multiple times
+                                        if (planEmitted) {
+                                            break;
+                                        }
+
+                                        // Prefer Write-captured content, fall back to accumulated text-deltas
+                                        const planContent = pendingPlanContent || accumulatedText;
+
+                                        if (planContent) {
+                                            const parsed = parsePlanContent(planContent);
+                                            const planId = crypto.randomUUID();
+                                            storePlan({
+                                                planId,
+                                                plan: { title: parsed.title, content: parsed.content || planContent },
+                                                originalPrompt: lastUserPrompt,
+                                                modelId: active.modelId,
+                                                approved: false,
+                                            });
+                                            const planData = JSON.stringify({
+                                                type: 'plan',
+                                                planId,
+                                                planTitle: parsed.title,
+                                                planContent: parsed.content || planContent,
+                                            });
+                                            recordHistory('plan', planData);
+                                            await stream.writeSSE({ event: 'plan', data: planData });
+                                            planEmitted = true;
+                                            waitingForUserInput = true;
+                                        }
+                                        pendingPlanContent = null;
+                                        break;
+                                    }
+
+                                    // Capture Write calls to plan files for ExitPlanMode interception
+                                    if (part.toolName === 'Write') {
+                                        const input = part.input as Record<string, unknown>;
+                                        const filePath = (input.file_path || input.filePath || '') as string;
+                                        if (isPlanFile(filePath) && typeof input.content === 'string') {
+                                            pendingPlanContent = input.content;
+                                            suppressedToolCallIds.add(part.toolCallId);
+                                            break;
+                                        }
+                                    }
+
+                                    const toolData = JSON.stringify({
+                                        type: 'tool_use',
+                                        tool: part.toolName,
+                                        input: part.input,
+                                        id: part.toolCallId
+                                    });
+                                    recordHistory('tool_use', toolData);
+                                    await stream.writeSSE({ event: 'tool_use', data: toolData });
                                     break;
                                 }
 
-                                // Capture Write calls to plan files for ExitPlanMode interception
-                                if (part.toolName === 'Write') {
-                                    const input = part.input as Record<string, unknown>;
-                                    const filePath = (input.file_path || input.filePath || '') as string;
-                                    if (isPlanFile(filePath) && typeof input.content === 'string') {
-                                        pendingPlanContent = input.content;
-                                        suppressedToolCallIds.add(part.toolCallId);
-                                        break;
+                                case 'tool-result': {
+                                    logEvent('tool-result', `${part.toolName} ${typeof part.output === 'string' ? part.output.slice(0, 120) : JSON.stringify(part.output).slice(0, 120)}`);
+                                    // Suppress tool results for intercepted tools
+                                    if (INTERACTIVE_TOOLS.has(part.toolName)
+                                        || suppressedToolCallIds.delete(part.toolCallId)) break;
+
+                                    const resultData = JSON.stringify({
+                                        type: 'tool_result',
+                                        tool_use_id: part.toolCallId,
+                                        tool: part.toolName,
+                                        content: part.output,
+                                        is_error: false
+                                    });
+                                    recordHistory('tool_result', resultData);
+                                    await stream.writeSSE({ event: 'tool_result', data: resultData });
+                                    break;
+                                }
+
+                                case 'finish-step': {
+                                    numTurns++;
+                                    logEvent('finish-step', `turn=${numTurns}`);
+                                    lastFinishReason = part.finishReason;
+                                    // Claude Code enforces the limit itself as maxTurns
+                                    if (part.rawFinishReason === 'error_max_turns') stepLimitReached = true;
+                                    runUsage = addTokenUsage(runUsage, toTokenUsage(part.usage));
+                                    budgetExceeded = checkBudget(estimateCostUsd(active.modelId, runUsage) ?? 0);
+                                    if (inPlanMode) {
+                                        accumulatedText = '';
                                     }
+                                    break;
                                 }
 
-                                const toolData = JSON.stringify({
-                                    type: 'tool_use',
-                                    tool: part.toolName,
-                                    input: part.input,
-                                    id: part.toolCallId
-                                });
-                                addToHistory('tool_use', toolData);
-                                await stream.writeSSE({ event: 'tool_use', data: toolData });
-                                break;
-                            }
+                                case 'reasoning-start': {
+                                    logEvent('reasoning', 'start');
+                                    reasoningActive = true;
+                                    // Emit a status so the UI shows progress
+                                    const reasoningStatus = JSON.stringify({ type: 'status', message: 'Reasoning...' });
+                                    recordHistory('status', reasoningStatus);
+                                    await stream.writeSSE({ event: 'status', data: reasoningStatus });
+                                    break;
+                                }
 
-                            case 'tool-result': {
-                                logEvent('tool-result', `${part.toolName} ${typeof part.output === 'string' ? part.output.slice(0, 120) : JSON.stringify(part.output).slice(0, 120)}`);
-                                // Suppress tool results for intercepted tools
-                                if (INTERACTIVE_TOOLS.has(part.toolName)
-                                    || suppressedToolCallIds.delete(part.toolCallId)) break;
-
-                                const resultData = JSON.stringify({
-                                    type: 'tool_result',
-                                    tool_use_id: part.toolCallId,
-                                    tool: part.toolName,
-                                    content: part.output,
-                                    is_error: false
-                                });
-                                addToHistory('tool_result', resultData);
-                                await stream.writeSSE({ event: 'tool_result', data: resultData });
-                                break;
-                            }
+                                case 'reasoning-delta': {
+                                    // Some providers surface reasoning text; capture if present
+                                    const rp = part as { type: string; text?: string };
+                                    if (rp.text) {
+                                        logEvent('reasoning-delta', rp.text.slice(0, 120));
+                                    }
+                                    break;
+                                }
 
-                            case 'finish-step': {
-                                numTurns++;
-                                logEvent('finish-step', `turn=${numTurns}`);
-                                if (inPlanMode) {
-                                    accumulatedText = '';
+                                case 'reasoning-end': {
+                                    logEvent('reasoning', 'end');
+                                    reasoningActive = false;
+                                    break;
                                 }
-                                break;
-                            }
 
-                            case 'reasoning-start': {
-                                logEvent('reasoning', 'start');
-                                reasoningActive = true;
-                                // Emit a status so the UI shows progress
-                                const reasoningStatus = JSON.stringify({ type: 'status', message: 'Reasoning...' });
-                                addToHistory('status', reasoningStatus);
-                                await stream.writeSSE({ event: 'status', data: reasoningStatus });
-                                break;
-                            }
+                                case 'tool-input-start':
+                                case 'tool-input-delta':
+                                case 'tool-input-end': {
+                                    // Intermediate tool-input streaming; the aggregated tool-call
+                                    // event is what we act on — silently ignore these.
+                                    break;
+                                }
 
-                            case 'reasoning-delta': {
-                                // Some providers surface reasoning text; capture if present
-                                const rp = part as { type: string; text?: string };
-                                if (rp.text) {
-                                    logEvent('reasoning-delta', rp.text.slice(0, 120));
+                                case 'tool-error': {
+                                    const te = part as { type: string; toolName?: string; error?: unknown };
+                                    const toolErrMsg = te.error instanceof Error
+                                        ? te.error.message
+                                        : typeof te.error === 'string'
+                                            ? te.error
+                                            : JSON.stringify(te.error);
+                                    logEvent('tool-error', `${te.toolName ?? 'unknown'} ${toolErrMsg}`);
+
+                                    // Self-contained providers execute tools internally. The AI SDK
+                                    // emits NoSuchToolError because these tool calls lack the
+                                    // `dynamic` flag — suppress them rather than surfacing to the user.
+                                    if (isSelfContained) break;
+                                    const toolErrData = JSON.stringify({
+                                        type: 'tool_result',
+                                        tool_use_id: '',
+                                        content: toolErrMsg,
+                                        is_error: true
+                                    });
+                                    recordHistory('tool_result', toolErrData);
+                                    await stream.writeSSE({ event: 'tool_result', data: toolErrData });
+                                    break;
                                 }
-                                break;
-                            }
 
-                            case 'reasoning-end': {
-                                logEvent('reasoning', 'end');
-                                reasoningActive = false;
-                                break;
+                                case 'error': {
+                                    const errorMsg = formatError(part.error);
+                                    logEvent('error', errorMsg);
+                                    if (isRetryableError(part.error) && canRetry()) {
+                                        retryableError = part.error;
+                                        break;
+                                    }
+                                    runFailed = true;
+                                    const errorData = JSON.stringify({
+                                        type: 'error',
+                                        message: errorMsg
+                                    });
+                                    recordHistory('error', errorData);
+                                    await stream.writeSSE({ event: 'error', data: errorData });
+                                    break;
+                                }
+
+                                // Known stream lifecycle events — no action needed
+                                case 'start':
+                                case 'start-step':
+                                case 'text-start':
+                                case 'text-end':
+                                case 'source':
+                                case 'file':
+                                case 'finish':
+                                case 'raw':
+                                    break;
+
+                                default:
+                                    logEvent('stream:unknown', `type=${(part as { type: string }).type}`);
+                                    break;
                             }
 
-                            case 'tool-input-start':
-                            case 'tool-input-delta':
-                            case 'tool-input-end': {
-                                // Intermediate tool-input streaming; the aggregated tool-call
-                                // event is what we act on — silently ignore these.
+                            // Stop consuming the stream when waiting for user input
+                            if (waitingForUserInput) {
+                                logEvent('abort', 'waiting for user input');
+                                abortController.abort();
                                 break;
                             }
 
-                            case 'tool-error': {
-                                const te = part as { type: string; toolName?: string; error?: unknown };
-                                const toolErrMsg = te.error instanceof Error
-                                    ? te.error.message
-                                    : typeof te.error === 'string'
-                                        ? te.error
-                                        : JSON.stringify(te.error);
-                                logEvent('tool-error', `${te.toolName ?? 'unknown'} ${toolErrMsg}`);
-
-                                // Self-contained providers execute tools internally. The AI SDK
-                                // emits NoSuchToolError because these tool calls lack the
-                                // `dynamic` flag — suppress them rather than surfacing to the user.
-                                if (isSelfContained) break;
-                                const toolErrData = JSON.stringify({
-                                    type: 'tool_result',
-                                    tool_use_id: '',
-                                    content: toolErrMsg,
-                                    is_error: true
-                                });
-                                addToHistory('tool_result', toolErrData);
-                                await stream.writeSSE({ event: 'tool_result', data: toolErrData });
+                            if (budgetExceeded) {
+                                logEvent('budget', budgetExceeded);
+                                abortController.abort();
                                 break;
                             }
 
-                            case 'error': {
-                                const errorMsg = part.error instanceof Error
-                                    ? part.error.message
-                                    : typeof part.error === 'string'
-                                        ? part.error
-                                        : JSON.stringify(part.error);
-                                logEvent('error', errorMsg);
+                            if (retryableError) break;
+                        }
+                    } catch (err) {
+                        // Ignore abort errors from user-input pauses or external cancellation.
+                        // For other errors (e.g. transient API 400s from tool-use concurrency),
+                        // log and surface them as SSE error events instead of killing the stream.
+                        const externallyAborted = config.signal?.aborted;
+                        if (!waitingForUserInput && !budgetExceeded && !externallyAborted) {
+                            const errorMsg = err instanceof Error ? err.message : String(err);
+                            if (isRetryableError(err) && canRetry()) {
+                                retryableError = err;
+                            } else {
+                                logEvent('error', `stream error (non-fatal): ${errorMsg}`);
+                                runFailed = true;
                                 const errorData = JSON.stringify({
                                     type: 'error',
                                     message: errorMsg
                                 });
-                                addToHistory('error', errorData);
+                                recordHistory('error', errorData);
                                 await stream.writeSSE({ event: 'error', data: errorData });
-                                break;
                             }
+                        }
+                    }
 
-                            // Known stream lifecycle events — no action needed
-                            case 'start':
-                            case 'start-step':
-                            case 'text-start':
-                            case 'text-end':
-                            case 'source':
-                            case 'file':
-                            case 'finish':
-                            case 'raw':
-                                break;
+                    if (abortController.signal.aborted) break;
 
-                            default:
-                                logEvent('stream:unknown', `type=${(part as { type: string }).type}`);
-                                break;
-                        }
+                    if (!retryableError) {
+                        const changedFiles = getCurrentSessionStats(config.projectCwd);
+                        if (!verifySettings || runFailed || numTurns >= maxSteps || !changedFiles?.length) break;
 
-                        // Stop consuming the stream when waiting for user input
-                        if (waitingForUserInput) {
-                            logEvent('abort', 'waiting for user input');
-                            abortController.abort();
+                        const checkNames = verifySettings.checks.map(getCheckName);
+                        await writeSSEEvent(stream, 'status', { type: 'status', message: `Running checks: ${checkNames.join(', ')}...` });
+                        verification = await runChecks(verifySettings.checks, {
+                            projectCwd: config.projectCwd,
+                            targetPort: config.targetPort,
+                            signal: abortController.signal,
+                            authorize: command => authorizeShellCommand(toolContext, command),
+                        });
+                        const failedNames = verification.checks.filter(c => !c.passed).map(c => c.name);
+                        logEvent('verify', verification.passed ? 'passed' : `failed: ${failedNames.join(', ')}`);
+                        if (verification.passed || fixAttempts >= verifySettings.maxFixAttempts || abortController.signal.aborted) break;
+                        // The agent can't fix a check the user refused to run
+                        if (verification.checks.some(c => c.refused)) break;
+
+                        // Continue from this attempt with the failures as the next user message
+                        fixAttempts++;
+                        try {
+                            completedMessages.push(...(await result.response).messages);
+                        } catch {
                             break;
                         }
+                        completedMessages.push({ role: 'user', content: formatVerificationFeedback(verification) });
+                        if (runUsage.inputTokens || runUsage.outputTokens) recordUsage(active.modelId, runUsage);
+                        runUsage = toTokenUsage(undefined);
+                        await writeSSEEvent(stream, 'status', {
+                            type: 'status',
+                            message: `Checks failed (${failedNames.join(', ')}). Asking the agent to fix them (${fixAttempts}/${verifySettings.maxFixAttempts})...`,
+                        });
+                        continue;
                     }
-                } catch (err) {
-                    // Ignore abort errors from user-input pauses or external cancellation.
-                    // For other errors (e.g. transient API 400s from tool-use concurrency),
-                    // log and surface them as SSE error events instead of killing the stream.
-                    const externallyAborted = config.signal?.aborted;
-                    if (!waitingForUserInput && !externallyAborted) {
-                        const errorMsg = err instanceof Error ? err.message : String(err);
-                        logEvent('error', `stream error (non-fatal): ${errorMsg}`);
-                        const errorData = JSON.stringify({
-                            type: 'error',
-                            message: errorMsg
+
+                    // Keep what the failed attempt finished and account for its tokens
+                    completedMessages.push(...attemptMessages);
+                    if (runUsage.inputTokens || runUsage.outputTokens) recordUsage(active.modelId, runUsage);
+                    runUsage = toTokenUsage(undefined);
+
+                    const failedLabel = getProviderLabel(active.providerType, config.projectCwd);
+                    const reason = formatError(retryableError);
+                    if (retries < retrySettings.maxRetries) {
+                        retries++;
+                        const delayMs = getRetryDelayMs(retryableError, retries, retrySettings.initialDelayMs);
+                        logEvent('retry', `${active.modelId} attempt ${retries}/${retrySettings.maxRetries} in ${delayMs}ms: ${reason}`);
+                        await writeSSEEvent(stream, 'status', {
+                            type: 'status',
+                            message: `${failedLabel} failed (${reason}). Retrying in ${Math.ceil(delayMs / 1000)}s (${retries}/${retrySettings.maxRetries})...`,
                         });
-                        addToHistory('error', errorData);
-                        await stream.writeSSE({ event: 'error', data: errorData });
+                        await sleep(delayMs, abortController.signal);
+                        if (abortController.signal.aborted) break;
+                    } else {
+                        candidateIndex++;
+                        retries = 0;
+                        active = candidates[candidateIndex];
+                        const message = `${failedLabel} failed (${reason}). Switching to ${active.modelId} on ${getProviderLabel(active.providerType, config.projectCwd)}...`;
+                        logEvent('fallback', message);
+                        await writeSSEEvent(stream, 'status', { type: 'status', message });
                     }
                 }
 
@@ -683,11 +909,12 @@ export function createVercelProvider(modelId: string, providerType: ProviderType
                 // (e.g. the assistant's plan/question tool call) so the session history
                 // stays consistent and avoids orphan user messages that cause 400 errors.
                 const externallyAborted = config.signal?.aborted;
+                responseMessages = [...completedMessages];
                 let usage: {
                     inputTokens?: number;
                     outputTokens?: number;
                     totalTokens?: number;
-                    inputTokenDetails?: { cacheReadTokens?: number; noCacheTokens?: number };
+                    inputTokenDetails?: { cacheReadTokens?: number; noCacheTokens?: number; cacheWriteTokens?: number };
                 } | undefined;
                 if (!externallyAborted) {
                     try {
@@ -696,7 +923,7 @@ export function createVercelProvider(modelId: string, providerType: ProviderType
                             result.usage,
                             result.totalUsage,
                         ]);
-                        responseMessages = response.messages;
+                        responseMessages = [...completedMessages, ...response.messages];
                         usage = totalUsageResult;
                         logEvent('usage', `lastStep=${JSON.stringify(usageResult)} total=${JSON.stringify(totalUsageResult)}`);
                     } catch (err) {
@@ -708,35 +935,61 @@ export function createVercelProvider(modelId: string, providerType: ProviderType
                     logEvent('abort', 'externally cancelled');
                 }
 
+                // The last step still wanted to call tools when the step limit stopped the run
+                if (useTools && numTurns >= maxSteps && lastFinishReason === 'tool-calls') {
+                    stepLimitReached = true;
+                }
+                const runError = budgetExceeded ?? (stepLimitReached && !waitingForUserInput
+                    ? `Stopped after reaching the limit of ${maxSteps} steps. Continue to let the agent pick up where it left off.`
+                    : null);
+
+                // Tokens spent on a cancelled run still count; fall back to the step totals
+                const tokenUsage = usage ? toTokenUsage(usage) : runUsage;
+                const costUsd = tokenUsage.inputTokens || tokenUsage.outputTokens
+                    ? recordUsage(active.modelId, tokenUsage)
+                    : null;
+
                 // When externally cancelled, skip result events — no client is listening
                 if (!externallyAborted) {
                     const durationMs = Date.now() - startTime;
-                    const resultSubtype = waitingForUserInput ? 'waiting_for_input' : 'success';
+                    const resultSubtype = budgetExceeded
+                        ? 'error_max_budget_usd'
+                        : waitingForUserInput ? 'waiting_for_input'
+                            : runError ? 'error_max_turns' : 'success';
                     const fileStats = getCurrentSessionStats(config.projectCwd);
                     const resultData = JSON.stringify({
                         type: 'result',
                         subtype: resultSubtype,
                         duration_ms: durationMs,
                         num_turns: numTurns,
-                        result: waitingForUserInput ? 'waiting_for_input' : 'completed',
-                        is_error: false,
-                        ...(fileStats && fileStats.length > 0 ? { file_stats: fileStats } : {}),
+                        result: runError ?? (waitingForUserInput ? 'waiting_for_input' : 'completed'),
+                        is_error: runError !== null,
+                        ...(runError && { errors: [runError] }),
+                        ...(fileStats && fileStats.length > 0 ? { file_stats: fileStats, undo_session_id: undoSessionId } : {}),
                         ...(usage && {
                             input_tokens: usage.inputTokens,
                             output_tokens: usage.outputTokens,
                             cache_read_tokens: usage.inputTokenDetails?.cacheReadTokens,
-                            cache_write_tokens: usage.inputTokenDetails?.noCacheTokens,
+                            cache_write_tokens: usage.inputTokenDetails?.cacheWriteTokens,
+                        }),
+                        ...(costUsd !== null && { total_cost_usd: costUsd }),
+                        ...(verification && {
+                            verification: {
+                                passed: verification.passed,
+                                fix_attempts: fixAttempts,
+                                checks: verification.checks.map(c => ({ name: c.name, passed: c.passed, duration_ms: c.durationMs })),
+                            },
                         }),
                     });
                     logEvent('stream:end', `duration=${durationMs}ms turns=${numTurns} result=${resultSubtype}`);
-                    addToHistory('result', resultData);
+                    recordHistory('result', resultData);
                     await stream.writeSSE({ event: 'result', data: resultData });
                 }
             } finally {
                 // Reject any pending confirmations so tool promises don't hang
                 rejectAllPending();
                 // End undo session so all file changes are grouped together
-                endUndoSession();
+                endUndoSession(accumulatedText);
                 resumeDevServer(config.targetPort);
             }
 
@@ -745,6 +998,13 @@ export function createVercelProvider(modelId: string, providerType: ProviderType
             }
 
             return responseMessages;
+        },
+
+        async complete(prompt: string, projectCwd: string): Promise<string> {
+            const model = createModel(modelId, providerType, projectCwd);
+            const { text, usage } = await generateText({ model, prompt });
+            recordUsage(modelId, toTokenUsage(usage));
+            return text;
         }
     };
 }
@@ -31,7 +31,8 @@ export function createProxyMiddleware(
     targetPort: number,
     projectCwd?: string,
     isFresh?: () => boolean,
-    getComparisonPhase?: () => ComparisonPhase | null
+    getComparisonPhase?: () => ComparisonPhase | null,
+    rootSelectors?: string[]
 ) {
     return async (c: any, _next: () => Promise<void>) => {
         const url = new URL(c.req.url);
@@ -93,9 +94,14 @@ export function createProxyMiddleware(
                     ? `<script>window.__AWEL_COMPARISON_MODE__=true</script>`
                     : '';
 
+                // Tell the host where the framework renders React (for the route component)
+                const rootScript = rootSelectors
+                    ? `<script>window.__AWEL_ROOT_SELECTORS__=${JSON.stringify(rootSelectors)}</script>`
+                    : '';
+
                 // Constrain Next.js error overlay stacking context below Awel's UI.
                 const awelOverlayStyle = `<style id="awel-overlay-fix">nextjs-portal, nextjs-portal-root, next-error-overlay, nextjs-dev-tools { position: relative !important; z-index: 999997 !important; }</style>`;
-                const scriptTag = `${awelOverlayStyle}${cwdScript}${comparisonScript}<script src="/_awel/host.js"></script>`;
+                const scriptTag = `${awelOverlayStyle}${cwdScript}${rootScript}${comparisonScript}<script src="/_awel/host.js"></script>`;
 
                 if (html.includes('</head>')) {
                     html = html.replace('</head>', `${scriptTag}</head>`);
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { resolveRunModel, runHeadless } from './run.js';
+import { todayKey } from './usage.js';
+import type { ProviderEntry } from './providers/types.js';
+
+const catalog: ProviderEntry[] = [
+    {
+        id: 'claude-code',
+        label: 'Claude Code',
+        color: '',
+        envVar: null,
+        available: false,
+        unavailableReason: 'Claude Code CLI not installed',
+        models: [{ id: 'sonnet', label: 'Claude Sonnet' }],
+    },
+    {
+        id: 'anthropic',
+        label: 'Anthropic API',
+        color: '',
+        envVar: 'ANTHROPIC_API_KEY',
+        available: true,
+        models: [{ id: 'claude-sonnet-4-5', label: 'Claude Sonnet 4.5' }],
+    },
+    {
+        id: 'openrouter',
+        label: 'OpenRouter',
+        color: '',
+        envVar: 'OPENROUTER_API_KEY',
+        available: true,
+        customModelInput: true,
+        models: [],
+    },
+];
+
+describe('resolveRunModel', () => {
+    it('defaults to the first model of the first available provider', () => {
+        expect(resolveRunModel(catalog)).toEqual({ modelId: 'claude-sonnet-4-5', modelProvider: 'anthropic' });
+    });
+
+    it('finds the provider of a bare model id', () => {
+        expect(resolveRunModel(catalog, 'claude-sonnet-4-5')).toEqual({ modelId: 'claude-sonnet-4-5', modelProvider: 'anthropic' });
+    });
+
+    it('accepts custom model ids with an explicit provider', () => {
+        expect(resolveRunModel(catalog, 'qwen/qwen3-coder', 'openrouter')).toEqual({ modelId: 'qwen/qwen3-coder', modelProvider: 'openrouter' });
+    });
+
+    it('reports unknown and unavailable providers', () => {
+        expect(resolveRunModel(catalog, undefined, 'nope')).toHaveProperty('error');
+        expect(resolveRunModel(catalog, 'sonnet')).toEqual({ error: 'Claude Code is not available: Claude Code CLI not installed' });
+        expect(resolveRunModel(catalog, undefined, 'openrouter')).toEqual({ error: 'OpenRouter needs an explicit --model' });
+    });
+});
+
+describe('runHeadless', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-run-'));
+        mkdirSync(join(projectCwd, '.awel'));
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    it('stops before calling the model once the daily budget is spent', async () => {
+        const spent = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 3, calls: 1 };
+        writeFileSync(join(projectCwd, '.awel', 'config.json'), JSON.stringify({ budget: { dailyUsd: 2 } }));
+        writeFileSync(join(projectCwd, '.awel', 'usage.json'), JSON.stringify({ threads: {}, days: { [todayKey()]: spent }, models: {} }));
+        const stderr: string[] = [];
+        vi.spyOn(process.stderr, 'write').mockImplementation((chunk: string | Uint8Array) => {
+            stderr.push(String(chunk));
+            return true;
+        });
+
+        const code = await runHeadless({
+            prompt: 'Make the title bold',
+            modelId: 'claude-sonnet-4-5',
+            modelProvider: 'anthropic',
+            projectCwd,
+            targetPort: 3000,
+            yes: false,
+        });
+
+        expect(code).toBe(1);
+        expect(stderr.join('')).toContain('error_max_budget_usd');
+        expect(stderr.join('')).toContain('Daily budget of $2.00 reached');
+    });
+});
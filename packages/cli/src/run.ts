@@ -0,0 +1,288 @@
+// ─── Headless Run ────────────────────────────────────────────
+// Drives a single agent run from the terminal (`awel run "<prompt>"`).
+// The provider writes the same SSE events the dashboard consumes; a
+// terminal adapter renders them instead — agent text on stdout, tool
+// activity and diagnostics on stderr — so output can be piped.
+
+import { createInterface } from 'readline';
+import { resolveProvider } from './providers/registry.js';
+import { resolveConfirmation, setAutoApprove, type AutoApproveCategory } from './confirm-store.js';
+import { initUndoHistory } from './undo.js';
+import { initUsage, setUsageThread } from './usage.js';
+import { initMcpClients, closeMcpClients } from './mcp.js';
+import type { SSEStreamingApi } from 'hono/streaming';
+import type { ProviderEntry } from './providers/types.js';
+
+const dim = (s: string) => `\x1b[2m${s}\x1b[22m`;
+const red = (s: string) => `\x1b[31m${s}\x1b[39m`;
+const yellow = (s: string) => `\x1b[33m${s}\x1b[39m`;
+
+/** Exit code when the agent stopped to ask a question or propose a plan. */
+export const EXIT_WAITING_FOR_INPUT = 2;
+
+const MAX_TOOL_SUMMARY_LENGTH = 120;
+
+export interface HeadlessRunOptions {
+    prompt: string;
+    modelId: string;
+    modelProvider: string;
+    projectCwd: string;
+    targetPort: number;
+    /** Approve every confirmation without asking */
+    yes: boolean;
+    /** Overrides the project's step limit */
+    maxSteps?: number;
+}
+
+/** Payloads of the SSE events the terminal renders; every field may be missing. */
+interface EventPayloads {
+    text: { text?: string };
+    status: { message?: string };
+    tool_use: { tool?: string; input?: unknown };
+    tool_result: { is_error?: boolean; content?: unknown };
+    confirm: { confirmId: string; toolName: string; summary: string };
+    question: { questions?: { question: string; options?: { label: string; description?: string }[] }[] };
+    plan: { planTitle?: string; planContent?: string };
+    error: { message?: string };
+    result: {
+        subtype?: string;
+        is_error?: boolean;
+        errors?: unknown;
+        file_stats?: unknown;
+        num_turns?: number;
+        duration_ms?: number;
+    };
+}
+
+type TerminalEvent = { [E in keyof EventPayloads]: { event: E; data: EventPayloads[E] } }[keyof EventPayloads];
+
+interface RunOutcome {
+    failed: boolean;
+    waitingForInput: boolean;
+}
+
+/**
+ * Picks the model and provider for a run. An explicit provider wins; a bare
+ * model id is matched against the catalog; with neither, the first model of
+ * the first available provider is used.
+ */
+export function resolveRunModel(
+    catalog: ProviderEntry[],
+    model?: string,
+    provider?: string,
+): { modelId: string; modelProvider: string } | { error: string } {
+    let entry: ProviderEntry | undefined;
+    if (provider) {
+        entry = catalog.find(p => p.id === provider);
+        if (!entry) return { error: `Unknown provider "${provider}". Available: ${catalog.map(p => p.id).join(', ')}` };
+    } else if (model) {
+        entry = catalog.find(p => p.available && p.models.some(m => m.id === model))
+            ?? catalog.find(p => p.models.some(m => m.id === model));
+        if (!entry) return { error: `Unknown model "${model}" — pass --provider to use a custom model id` };
+    } else {
+        entry = catalog.find(p => p.available && p.models.length > 0);
+        if (!entry) return { error: 'No provider is available. Set an API key or install Claude Code / Codex CLI.' };
+    }
+
+    if (!entry.available) {
+        return { error: `${entry.label} is not available: ${entry.unavailableReason ?? 'not configured'}` };
+    }
+
+    const modelId = model ?? entry.models[0]?.id;
+    if (!modelId) return { error: `${entry.label} needs an explicit --model` };
+    return { modelId, modelProvider: entry.id };
+}
+
+function truncate(text: string, max: number): string {
+    const oneLine = text.replace(/\s+/g, ' ').trim();
+    return oneLine.length > max ? oneLine.slice(0, max - 1) + '…' : oneLine;
+}
+
+/**
+ * Short, human-readable summary of a tool call's input.
+ */
+function summarizeToolInput(input: unknown): string {
+    if (!input || typeof input !== 'object') return '';
+    const record = input as Record<string, unknown>;
+    const primary = record.command ?? record.file_path ?? record.pattern ?? record.path ?? record.url ?? record.query;
+    if (typeof primary === 'string') return truncate(primary, MAX_TOOL_SUMMARY_LENGTH);
+    return truncate(JSON.stringify(input), MAX_TOOL_SUMMARY_LENGTH);
+}
+
+function confirmCategory(toolName: string): AutoApproveCategory {
+    if (toolName === 'Bash') return 'bash';
+    return toolName.startsWith('mcp__') ? 'mcp' : 'fileWrites';
+}
+
+/**
+ * Creates an SSE stream stand-in that renders agent events to the terminal
+ * and answers tool confirmations — from the TTY when interactive, denying
+ * them otherwise.
+ */
+function createTerminalStream(outcome: RunOutcome): SSEStreamingApi {
+    const interactive = process.stdin.isTTY === true;
+    let textOpen = false;
+    // Confirmations can arrive concurrently; ask one question at a time
+    let promptQueue: Promise<void> = Promise.resolve();
+
+    const endText = () => {
+        if (textOpen) {
+            process.stdout.write('\n');
+            textOpen = false;
+        }
+    };
+
+    const ask = (question: string): Promise<string> => new Promise((resolve) => {
+        const rl = createInterface({ input: process.stdin, output: process.stderr });
+        rl.question(question, (answer) => {
+            rl.close();
+            resolve(answer.trim().toLowerCase());
+        });
+    });
+
+    const handleConfirm = (data: { confirmId: string; toolName: string; summary: string }) => {
+        const label = `${data.toolName}: ${truncate(data.summary, MAX_TOOL_SUMMARY_LENGTH)}`;
+        if (!interactive) {
+            process.stderr.write(yellow(`✗ Denied ${label} (not a TTY — pass --yes to allow)`) + '\n');
+            resolveConfirmation(data.confirmId, false);
+            return;
+        }
+        promptQueue = promptQueue.then(async () => {
+            const answer = await ask(yellow(`? Allow ${label} [y/N/a=always] `));
+            if (answer === 'a' || answer === 'always') {
+                setAutoApprove(confirmCategory(data.toolName), true);
+            }
+            resolveConfirmation(data.confirmId, answer === 'y' || answer === 'yes' || answer === 'a' || answer === 'always');
+        });
+    };
+
+    const handleEvent = (e: TerminalEvent) => {
+        switch (e.event) {
+            case 'text':
+                process.stdout.write(e.data.text ?? '');
+                textOpen = true;
+                break;
+            case 'status':
+                endText();
+                process.stderr.write(dim(`… ${e.data.message}`) + '\n');
+                break;
+            case 'tool_use':
+                endText();
+                process.stderr.write(dim(`⏺ ${e.data.tool}(${summarizeToolInput(e.data.input)})`) + '\n');
+                break;
+            case 'tool_result':
+                if (e.data.is_error) {
+                    endText();
+                    process.stderr.write(red(`  ⎿ ${truncate(String(e.data.content ?? ''), MAX_TOOL_SUMMARY_LENGTH)}`) + '\n');
+                }
+                break;
+            case 'confirm':
+                endText();
+                handleConfirm(e.data);
+                break;
+            case 'question':
+                endText();
+                outcome.waitingForInput = true;
+                for (const q of e.data.questions ?? []) {
+                    process.stderr.write(yellow(`? ${q.question}`) + '\n');
+                    for (const option of q.options ?? []) {
+                        process.stderr.write(`  - ${option.label}${option.description ? dim(` — ${option.description}`) : ''}\n`);
+                    }
+                }
+                break;
+            case 'plan':
+                endText();
+                outcome.waitingForInput = true;
+                process.stderr.write(yellow(`Plan: ${e.data.planTitle ?? ''}`) + '\n');
+                process.stdout.write(`${e.data.planContent ?? ''}\n`);
+                break;
+            case 'error':
+                endText();
+                outcome.failed = true;
+                process.stderr.write(red(`✗ ${e.data.message}`) + '\n');
+                break;
+            case 'result': {
+                endText();
+                if (e.data.is_error || (e.data.subtype !== 'success' && e.data.subtype !== 'waiting_for_input')) {
+                    outcome.failed = true;
+                }
+                for (const error of Array.isArray(e.data.errors) ? e.data.errors : []) {
+                    process.stderr.write(red(`✗ ${error}`) + '\n');
+                }
+                const files = Array.isArray(e.data.file_stats) ? e.data.file_stats.length : 0;
+                const parts = [
+                    `${e.data.num_turns ?? 0} turns`,
+                    `${((e.data.duration_ms ?? 0) / 1000).toFixed(1)}s`,
+                    `${files} ${files === 1 ? 'file' : 'files'} changed`,
+                ];
+                process.stderr.write(dim(`✓ ${e.data.subtype} · ${parts.join(' · ')}`) + '\n');
+                break;
+            }
+            default:
+                break;
+        }
+    };
+
+    return {
+        writeSSE: async (msg: { event?: string; data: string }) => {
+            try {
+                // Events the terminal doesn't render fall through to the default case
+                const data: unknown = JSON.parse(msg.data);
+                handleEvent({ event: msg.event || 'message', data } as TerminalEvent);
+            } catch {
+                // Non-JSON payloads carry nothing to render
+            }
+        },
+    } as unknown as SSEStreamingApi;
+}
+
+/**
+ * Runs the agent once against the project and returns the process exit
+ * code: 0 on success, 1 on error, EXIT_WAITING_FOR_INPUT when the agent
+ * asked a question or proposed a plan.
+ */
+export async function runHeadless(options: HeadlessRunOptions): Promise<number> {
+    const { prompt, modelId, modelProvider, projectCwd, targetPort, yes, maxSteps } = options;
+
+    // Record changes on the undo timeline so they can be reviewed in the dashboard
+    initUndoHistory(projectCwd);
+
+    // Account the run's spend and enforce the project's budgets; each run
+    // counts as its own session
+    initUsage(projectCwd);
+    setUsageThread(`run-${crypto.randomUUID().slice(0, 8)}`);
+
+    await initMcpClients(projectCwd, { quiet: true });
+
+    if (yes) {
+        setAutoApprove('bash', true);
+        setAutoApprove('fileWrites', true);
+        setAutoApprove('mcp', true);
+    }
+
+    const outcome: RunOutcome = { failed: false, waitingForInput: false };
+    const stream = createTerminalStream(outcome);
+    const abortController = new AbortController();
+    const onSigint = () => abortController.abort();
+    process.once('SIGINT', onSigint);
+
+    try {
+        const { provider } = resolveProvider(modelId, modelProvider);
+        await provider.streamResponse(stream, [{ role: 'user', content: prompt }], {
+            projectCwd,
+            targetPort,
+            signal: abortController.signal,
+            maxSteps,
+        });
+    } catch (err) {
+        outcome.failed = true;
+        process.stderr.write(red(`✗ ${err instanceof Error ? err.message : String(err)}`) + '\n');
+    } finally {
+        process.off('SIGINT', onSigint);
+        await closeMcpClients();
+    }
+
+    if (abortController.signal.aborted) return 130;
+    if (outcome.failed) return 1;
+    return outcome.waitingForInput ? EXIT_WAITING_FOR_INPUT : 0;
+}
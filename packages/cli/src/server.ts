@@ -4,11 +4,20 @@ import httpProxy from 'http-proxy';
 import { createProxyMiddleware } from './proxy.js';
 import { createAgentRoute } from './agent.js';
 import { createUndoRoute } from './undo.js';
+import { createGitRoute } from './git.js';
+import { createMcpRoute } from './mcp.js';
+import { createPermissionsRoute } from './permissions.js';
+import { createUsageRoute } from './usage.js';
+import { createSettingsRoute } from './settings.js';
+import { createInstructionsRoute } from './instructions.js';
+import { createMcpServerRoute } from './mcp-server.js';
+import { createBrowserContextRoute } from './browser-context.js';
 import { createInspectorRoute } from './inspector.js';
 import { createCommentPopupRoute } from './comment-popup.js';
 import { trackProxySocket } from './devserver.js';
 import { getMimeType } from './config.js';
 import { markProjectReady } from './awel-config.js';
+import type { FrameworkAdapter } from './frameworks.js';
 import { awel } from './logger.js';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
@@ -38,6 +47,7 @@ interface ServerOptions {
   targetPort: number;
   projectCwd: string;
   fresh?: boolean;
+  framework?: FrameworkAdapter;
 }
 
 /**
@@ -63,7 +73,7 @@ function serveDashboardIndex(): string | null {
   return readFileSync(indexPath, 'utf-8');
 }
 
-export async function startServer({ awelPort, targetPort, projectCwd, fresh }: ServerOptions) {
+export async function startServer({ awelPort, targetPort, projectCwd, fresh, framework }: ServerOptions) {
   const app = new Hono();
 
   let isFresh = fresh ?? false;
@@ -99,9 +109,33 @@ export async function startServer({ awelPort, targetPort, projectCwd, fresh }: S
   // Mount undo API routes
   app.route('/', createUndoRoute(projectCwd));
 
+  // Mount git API routes
+  app.route('/', createGitRoute(projectCwd));
+
+  // Mount MCP status routes
+  app.route('/', createMcpRoute(projectCwd));
+
+  // Mount permission policy routes
+  app.route('/', createPermissionsRoute(projectCwd));
+
+  // Mount token usage and budget routes
+  app.route('/', createUsageRoute(projectCwd));
+
+  // Mount project settings routes
+  app.route('/', createSettingsRoute(projectCwd));
+
+  // Mount project instructions routes
+  app.route('/', createInstructionsRoute(projectCwd));
+
   // Mount inspector relay routes
   app.route('/', createInspectorRoute(projectCwd));
 
+  // Mount browser context routes (console, page, screenshot reported by the host script)
+  app.route('/', createBrowserContextRoute());
+
+  // Mount the MCP endpoint other agents connect to
+  app.route('/', createMcpServerRoute());
+
   // Serve the comment popup page (loaded in an iframe by the host script)
   app.route('/', createCommentPopupRoute());
 
@@ -305,7 +339,7 @@ export async function startServer({ awelPort, targetPort, projectCwd, fresh }: S
   });
 
   // Proxy all other requests to the target app
-  app.all('*', createProxyMiddleware(targetPort, projectCwd, () => isFresh, () => comparisonPhase));
+  app.all('*', createProxyMiddleware(targetPort, projectCwd, () => isFresh, () => comparisonPhase, framework?.rootSelectors));
 
   // Create the HTTP server with Hono
   const server = serve({
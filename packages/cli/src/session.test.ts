@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 vi.mock('./providers/registry.js', () => ({
     resolveProvider: vi.fn((modelId: string, modelProvider: string) => ({
-        provider: { streamChat: vi.fn() },
+        provider: { streamChat: vi.fn(), complete: vi.fn(async () => 'Earlier work summarized.') },
         modelProvider,
     })),
 }));
@@ -13,7 +13,10 @@ import {
     appendUserMessage,
     appendResponseMessages,
     resetSession,
+    compactSession,
+    getSessionTokenEstimate,
 } from './session.js';
+import { getTurnAnchor } from './fork.js';
 
 describe('session', () => {
     beforeEach(() => {
@@ -102,6 +105,37 @@ describe('session', () => {
         });
     });
 
+    describe('compactSession', () => {
+        it('replaces the whole history with a summary on manual compaction', async () => {
+            getOrCreateSession('sonnet', 'anthropic');
+            appendUserMessage('first');
+            appendResponseMessages([{ role: 'assistant', content: 'x'.repeat(4000) }]);
+            const before = getSessionTokenEstimate();
+
+            const result = await compactSession('/project', { trigger: 'manual' });
+            expect(result?.preTokens).toBe(before);
+            expect(getSessionTokenEstimate()).toBeLessThan(before);
+
+            const messages = getSessionMessages('next');
+            expect(messages).toHaveLength(3);
+            expect(messages[0].content).toContain('Earlier work summarized.');
+            expect(messages[2]).toEqual({ role: 'user', content: 'next' });
+        });
+
+        it('tags the summary with the anchor of the last folded turn', async () => {
+            getOrCreateSession('sonnet', 'anthropic');
+            appendUserMessage('first', 'h2');
+            appendResponseMessages([{ role: 'assistant', content: 'done' }]);
+
+            await compactSession('/project', { trigger: 'manual' });
+            expect(getTurnAnchor(getSessionMessages('next')[0])).toBe('h2');
+        });
+
+        it('returns null without a session', async () => {
+            expect(await compactSession('/project', { trigger: 'auto' })).toBeNull();
+        });
+    });
+
     describe('resetSession', () => {
         it('clears the session', () => {
             getOrCreateSession('sonnet', 'anthropic');
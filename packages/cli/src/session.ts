@@ -4,12 +4,16 @@
 // swaps the provider while preserving message history (unless switching
 // to or from the self-contained claude-code provider).
 //
-// Session messages are persisted to .awel/session.json so the LLM
-// retains full conversation context across `awel dev` restarts.
+// Session messages are persisted to session.json in the current thread's
+// directory (see threads.ts) so the LLM retains full conversation context
+// across `awel dev` restarts. Long
+// histories are compacted into a summary (see compaction.ts).
 
 import { existsSync, readFileSync, writeFileSync, mkdirSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import { resolveProvider } from './providers/registry.js';
+import { compactMessages, estimateTokens, type CompactResult, type CompactTrigger } from './compaction.js';
+import { withTurnAnchor, getLastTurnAnchor } from './fork.js';
 import type { StreamProvider, ResponseMessage } from './providers/types.js';
 import type { ModelMessage, UserContent } from 'ai';
 
@@ -20,20 +24,20 @@ interface ChatSession {
     messages: ModelMessage[];
 }
 
-interface PersistedSession {
+export interface PersistedSession {
     modelId: string;
     modelProvider: string;
     messages: ModelMessage[];
 }
 
 let session: ChatSession | null = null;
-let _projectCwd: string | null = null;
+let _sessionDir: string | null = null;
 
 // ─── Disk Persistence ────────────────────────────────────────
 
 function sessionPath(): string | null {
-    if (!_projectCwd) return null;
-    return join(_projectCwd, '.awel', 'session.json');
+    if (!_sessionDir) return null;
+    return join(_sessionDir, 'session.json');
 }
 
 function saveToDisk(): void {
@@ -41,8 +45,7 @@ function saveToDisk(): void {
     const filePath = sessionPath();
     if (!filePath) return;
     try {
-        const dir = join(_projectCwd!, '.awel');
-        if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+        if (!existsSync(_sessionDir!)) mkdirSync(_sessionDir!, { recursive: true });
         const data: PersistedSession = {
             modelId: session.modelId,
             modelProvider: session.modelProvider,
@@ -55,11 +58,13 @@ function saveToDisk(): void {
 }
 
 /**
- * Initialize session persistence. Restores the previous session from disk.
- * Must be called before the server starts.
+ * Initialize session persistence for a thread directory and restore the
+ * session stored there. Called on startup and whenever the current thread
+ * changes.
  */
-export function initSession(projectCwd: string): void {
-    _projectCwd = projectCwd;
+export function initSession(dir: string): void {
+    _sessionDir = dir;
+    session = null;
     const filePath = sessionPath();
     if (!filePath || !existsSync(filePath)) return;
     try {
@@ -110,6 +115,13 @@ export function getOrCreateSession(modelId: string, modelProvider: string): { pr
     return { provider: session.provider };
 }
 
+/**
+ * Returns the provider of the current session, if any.
+ */
+export function getSessionProvider(): StreamProvider | null {
+    return session?.provider ?? null;
+}
+
 /**
  * Builds the messages array to send to the provider.
  * Returns the full accumulated history plus the new user message.
@@ -144,10 +156,11 @@ export function getSessionMessages(prompt: string | UserContent): ModelMessage[]
 
 /**
  * Appends a user message to the session history.
+ * @param historyAnchor - Id of the latest chat history entry, used to fork the conversation later (see fork.ts)
  */
-export function appendUserMessage(content: string | UserContent): void {
+export function appendUserMessage(content: string | UserContent, historyAnchor?: string): void {
     if (!session) return;
-    session.messages.push({ role: 'user', content });
+    session.messages.push(withTurnAnchor({ role: 'user', content }, historyAnchor));
     saveToDisk();
 }
 
@@ -160,6 +173,74 @@ export function appendResponseMessages(msgs: ResponseMessage[]): void {
     saveToDisk();
 }
 
+/**
+ * Estimated token size of the session history.
+ */
+export function getSessionTokenEstimate(): number {
+    return session ? estimateTokens(session.messages) : 0;
+}
+
+/**
+ * Summarizes older turns with the session's model and replaces them in
+ * the history. Manual compaction folds in everything; automatic
+ * compaction keeps the most recent turns verbatim. Returns null when
+ * there is nothing to compact.
+ */
+export async function compactSession(
+    projectCwd: string,
+    options: { trigger: CompactTrigger; instructions?: string },
+): Promise<CompactResult | null> {
+    if (!session || session.messages.length === 0) return null;
+    const { provider } = session;
+    if (!provider.complete) throw new Error('The current model does not support compaction');
+
+    const original = session.messages;
+    const originalLength = original.length;
+    const result = await compactMessages(
+        original,
+        (prompt) => provider.complete!(prompt, projectCwd),
+        {
+            instructions: options.instructions,
+            ...(options.trigger === 'manual' && { keepRecentTurns: 0 }),
+        },
+    );
+    // Skip if the session was reset or changed while the summary was written
+    if (!result || !session || session.messages !== original || original.length !== originalLength) return null;
+
+    // The summary stands in for the folded turns when forking
+    const [summary, ...rest] = result.messages;
+    session.messages = [withTurnAnchor(summary, getLastTurnAnchor(original.slice(0, result.summarizedCount))), ...rest];
+    saveToDisk();
+    return result;
+}
+
+/**
+ * A copy of the current session without its provider, e.g. to carry it
+ * into a forked thread.
+ */
+export function getSessionState(): PersistedSession | null {
+    if (!session) return null;
+    return {
+        modelId: session.modelId,
+        modelProvider: session.modelProvider,
+        messages: [...session.messages],
+    };
+}
+
+/**
+ * Replaces the current session with the given state.
+ */
+export function restoreSession(state: PersistedSession): void {
+    const { provider } = resolveProvider(state.modelId, state.modelProvider);
+    session = {
+        modelId: state.modelId,
+        modelProvider: state.modelProvider,
+        provider,
+        messages: [...state.messages],
+    };
+    saveToDisk();
+}
+
 /**
  * Resets the session entirely (called on history clear).
  */
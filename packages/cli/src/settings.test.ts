@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { writeAwelConfig } from './awel-config.js';
+import { isAutoApproved } from './confirm-store.js';
+import { initSettings, getSettings, getIgnoredDirs, readSettingsFile, createSettingsRoute } from './settings.js';
+
+describe('project settings', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-settings-'));
+    });
+
+    afterEach(async () => {
+        rmSync(projectCwd, { recursive: true, force: true });
+        // Back to no settings, so the auto-approve defaults don't leak
+        await initSettings(projectCwd);
+    });
+
+    function writeSettings(settings: unknown) {
+        writeFileSync(join(projectCwd, 'awel.config.json'), JSON.stringify(settings), 'utf-8');
+    }
+
+    it('reports unknown keys and invalid values', () => {
+        writeSettings({ maxStep: 10, port: 'abc' });
+        const { settings, error } = readSettingsFile(projectCwd);
+        expect(settings).toEqual({});
+        expect(error).toContain('awel.config.json');
+        expect(error).toContain('port');
+        expect(error).toContain('maxStep');
+    });
+
+    it('layers the file, .awel/config.json and CLI flags', async () => {
+        writeSettings({ port: 4000, maxSteps: 40, model: { provider: 'anthropic', id: 'claude-sonnet-4-5' } });
+        writeAwelConfig(projectCwd, { maxSteps: 60 });
+        expect(await initSettings(projectCwd, { port: 5000 })).toBeNull();
+
+        expect(getSettings(projectCwd)).toEqual({
+            port: 5000,
+            maxSteps: 60,
+            model: { provider: 'anthropic', id: 'claude-sonnet-4-5' },
+        });
+    });
+
+    it('reports invalid values in .awel/config.json', async () => {
+        writeSettings({ port: 4000 });
+        writeAwelConfig(projectCwd, { port: '3000', maxSteps: 60 });
+        const error = await initSettings(projectCwd);
+        expect(error).toContain('.awel/config.json');
+        expect(error).toContain('port');
+        expect(getSettings(projectCwd)).toEqual({ port: 4000 });
+
+        const res = await createSettingsRoute(projectCwd).request('/api/settings');
+        expect((await res.json()).error).toContain('.awel/config.json');
+    });
+
+    it('adds configured ignored directories to the defaults', () => {
+        writeSettings({ ignoredDirs: ['coverage', 'node_modules'] });
+        const dirs = getIgnoredDirs(projectCwd);
+        expect(dirs).toContain('.git');
+        expect(dirs).toContain('coverage');
+        expect(dirs.filter(d => d === 'node_modules')).toHaveLength(1);
+    });
+
+    it('uses autoApprove as the starting permissions', async () => {
+        writeSettings({ autoApprove: { bash: true } });
+        await initSettings(projectCwd);
+        expect(isAutoApproved('bash')).toBe(true);
+        expect(isAutoApproved('fileWrites')).toBe(false);
+    });
+
+    it('validates and writes settings through the API', async () => {
+        const app = createSettingsRoute(projectCwd);
+        const put = (body: unknown) => app.request('/api/settings', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+
+        expect((await put({ awelPort: 99999 })).status).toBe(400);
+
+        const res = await put({ maxSteps: 30 });
+        expect(res.status).toBe(200);
+        expect(JSON.parse(readFileSync(join(projectCwd, 'awel.config.json'), 'utf-8'))).toEqual({ maxSteps: 30 });
+
+        const body = await (await app.request('/api/settings')).json();
+        expect(body.file).toEqual({ name: 'awel.config.json', format: 'json' });
+        expect(body.effective.maxSteps).toBe(30);
+    });
+});
@@ -0,0 +1,267 @@
+import { Hono } from 'hono';
+import { existsSync, readFileSync, writeFileSync, unlinkSync } from 'fs';
+import { join, basename } from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { readAwelConfig } from './awel-config.js';
+import { setAutoApproveDefaults } from './confirm-store.js';
+
+// ─── Project Settings ────────────────────────────────────────
+// Settings meant to be committed live in awel.config.json or awel.config.ts
+// at the project root. The same keys in .awel/config.json (local to the
+// machine) override them, and CLI flags override both. Environment
+// variables such as AWEL_MAX_OUTPUT_TOKENS still take precedence where
+// they exist.
+
+const PortSchema = z.number().int().min(1).max(65535);
+
+const SettingsShape = z.object({
+    /** Model used when the dashboard or `awel run` hasn't picked one */
+    model: z.object({
+        provider: z.string().min(1),
+        id: z.string().min(1),
+    }).strict().optional(),
+    /** Port of the app's dev server */
+    port: PortSchema.optional(),
+    /** Port of the Awel server and dashboard */
+    awelPort: PortSchema.optional(),
+    /** Open the browser when `awel dev` starts */
+    openBrowser: z.boolean().optional(),
+    maxOutputTokens: z.number().int().positive().optional(),
+    /** Steps the agent may take per request (see providers/limits.ts) */
+    maxSteps: z.number().int().positive().optional(),
+    /** Estimated tokens at which older turns are summarized; 0 turns it off */
+    autoCompactTokens: z.number().int().nonnegative().optional(),
+    /** Categories of tool calls that run without asking */
+    autoApprove: z.object({
+        bash: z.boolean().optional(),
+        fileWrites: z.boolean().optional(),
+        mcp: z.boolean().optional(),
+    }).strict().optional(),
+    /** Directory names skipped by search, undo snapshots and the file watcher, at any depth */
+    ignoredDirs: z.array(z.string().min(1)).optional(),
+    /** Names of the instruction files added to the system prompt (see instructions.ts) */
+    instructionFiles: z.array(z.string().min(1)).optional(),
+    /** Checks run after the agent changes files (see verification.ts) */
+    verify: z.object({
+        checks: z.array(z.union([
+            z.enum(['typecheck', 'lint', 'test', 'server']),
+            z.object({
+                name: z.string().min(1),
+                command: z.string().min(1),
+                timeoutMs: z.number().int().positive().optional(),
+            }).strict(),
+        ])).min(1),
+        /** Runs in which the agent may fix failed checks; 0 only reports them */
+        maxFixAttempts: z.number().int().nonnegative().optional(),
+    }).strict().optional(),
+    /** The local search index in .awel/index/ (see code-index.ts) */
+    codeIndex: z.object({
+        enabled: z.boolean().optional(),
+        /** Embedding model for @huggingface/transformers; used only if already on disk */
+        embeddingModel: z.string().min(1).optional(),
+    }).strict().optional(),
+});
+
+/** Unknown keys are reported, so typos don't go unnoticed. */
+export const SettingsSchema = SettingsShape.strict();
+
+export type AwelSettings = z.infer<typeof SettingsSchema>;
+
+export const DEFAULT_IGNORED_DIRS = ['node_modules', '.git', '.next', 'dist', 'build'];
+
+const SETTINGS_FILES = ['awel.config.ts', 'awel.config.json'] as const;
+
+export interface SettingsFile {
+    path: string;
+    format: 'ts' | 'json';
+}
+
+let _projectCwd: string | null = null;
+let _cliOverrides: AwelSettings = {};
+/** awel.config.ts is evaluated once, at startup */
+let _tsExport: { path: string; value?: unknown; error?: string } | null = null;
+
+function formatIssues(error: z.ZodError): string {
+    return error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+}
+
+export function findSettingsFile(projectCwd: string): SettingsFile | null {
+    for (const name of SETTINGS_FILES) {
+        const path = join(projectCwd, name);
+        if (existsSync(path)) return { path, format: name.endsWith('.ts') ? 'ts' : 'json' };
+    }
+    return null;
+}
+
+/**
+ * Evaluates awel.config.ts. The project's own TypeScript compiles it when
+ * installed; otherwise Node's type stripping (Node 22.18+) has to.
+ */
+async function importTsSettings(path: string, projectCwd: string): Promise<unknown> {
+    let ts: typeof import('typescript') | null = null;
+    try {
+        ts = createRequire(join(projectCwd, 'package.json'))('typescript');
+    } catch {
+        // Not installed — rely on Node's type stripping
+    }
+    if (!ts) {
+        const mod = await import(pathToFileURL(path).href);
+        return mod.default;
+    }
+
+    const { outputText } = ts.transpileModule(readFileSync(path, 'utf-8'), {
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    });
+    // Written next to the source so its relative and package imports resolve
+    const compiledPath = `${path}.timestamp-${Date.now()}.mjs`;
+    writeFileSync(compiledPath, outputText, 'utf-8');
+    try {
+        const mod = await import(pathToFileURL(compiledPath).href);
+        return mod.default;
+    } finally {
+        try { unlinkSync(compiledPath); } catch { /* already gone */ }
+    }
+}
+
+/**
+ * Reads and validates the project's settings file. An invalid file yields
+ * no settings plus the error.
+ */
+export function readSettingsFile(projectCwd: string): { file: SettingsFile | null; settings: AwelSettings; error?: string } {
+    const file = findSettingsFile(projectCwd);
+    if (!file) return { file, settings: {} };
+
+    let raw: unknown;
+    if (file.format === 'json') {
+        try {
+            raw = JSON.parse(readFileSync(file.path, 'utf-8'));
+        } catch (err) {
+            return { file, settings: {}, error: `${basename(file.path)}: ${err instanceof Error ? err.message : String(err)}` };
+        }
+    } else if (_tsExport?.path === file.path) {
+        if (_tsExport.error) return { file, settings: {}, error: _tsExport.error };
+        raw = _tsExport.value;
+    } else {
+        return { file, settings: {}, error: `${basename(file.path)} is loaded at startup — restart Awel to apply it` };
+    }
+
+    const parsed = SettingsSchema.safeParse(raw ?? {});
+    if (!parsed.success) {
+        return { file, settings: {}, error: `${basename(file.path)}: ${formatIssues(parsed.error)}` };
+    }
+    return { file, settings: parsed.data };
+}
+
+/**
+ * Loads the project's settings and remembers the CLI flags that override
+ * them. Must be called before the server starts. Returns the problems with
+ * the settings file and .awel/config.json, if any.
+ */
+export async function initSettings(projectCwd: string, cliOverrides: AwelSettings = {}): Promise<string | null> {
+    _projectCwd = projectCwd;
+    _cliOverrides = cliOverrides;
+    _tsExport = null;
+
+    const file = findSettingsFile(projectCwd);
+    if (file?.format === 'ts') {
+        try {
+            _tsExport = { path: file.path, value: await importTsSettings(file.path, projectCwd) };
+        } catch (err) {
+            _tsExport = { path: file.path, error: `awel.config.ts: ${err instanceof Error ? err.message : String(err)}` };
+        }
+    }
+
+    setAutoApproveDefaults(getSettings(projectCwd).autoApprove ?? {});
+    return settingsErrors(projectCwd) ?? null;
+}
+
+/**
+ * Reads the settings keys from .awel/config.json. Like the settings file,
+ * an invalid value yields no settings plus the error.
+ */
+function readLocalSettings(projectCwd: string): { settings: AwelSettings; error?: string } {
+    const parsed = SettingsShape.safeParse(readAwelConfig(projectCwd));
+    if (!parsed.success) {
+        return { settings: {}, error: `.awel/config.json: ${formatIssues(parsed.error)}` };
+    }
+    return { settings: withoutUndefined(parsed.data) };
+}
+
+/** The problems with the settings file and .awel/config.json, one per line. */
+function settingsErrors(projectCwd: string): string | undefined {
+    const errors = [readSettingsFile(projectCwd).error, readLocalSettings(projectCwd).error].filter(Boolean);
+    return errors.length > 0 ? errors.join('\n') : undefined;
+}
+
+/**
+ * The effective settings: the settings file, then the same keys from
+ * .awel/config.json, then CLI flags.
+ */
+export function getSettings(projectCwd = _projectCwd ?? process.cwd()): AwelSettings {
+    return {
+        ...readSettingsFile(projectCwd).settings,
+        ...readLocalSettings(projectCwd).settings,
+        ...(projectCwd === _projectCwd && _cliOverrides),
+    };
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Directory names to skip when walking the project: the defaults plus
+ * the configured `ignoredDirs`.
+ */
+export function getIgnoredDirs(projectCwd?: string): string[] {
+    return [...new Set([...DEFAULT_IGNORED_DIRS, ...(getSettings(projectCwd).ignoredDirs ?? [])])];
+}
+
+// ─── Settings API ────────────────────────────────────────────
+
+function describeSettings(projectCwd: string) {
+    const { file, settings } = readSettingsFile(projectCwd);
+    const error = settingsErrors(projectCwd);
+    return {
+        file: file && { name: basename(file.path), format: file.format },
+        // TypeScript settings are code; only JSON is written back
+        editable: file?.format !== 'ts',
+        settings,
+        effective: getSettings(projectCwd),
+        ...(error && { error }),
+    };
+}
+
+export function createSettingsRoute(projectCwd: string) {
+    const settings = new Hono();
+
+    settings.get('/api/settings', (c) => {
+        return c.json(describeSettings(projectCwd));
+    });
+
+    // Replaces the contents of awel.config.json
+    settings.put('/api/settings', async (c) => {
+        if (findSettingsFile(projectCwd)?.format === 'ts') {
+            return c.json({ success: false, error: 'This project uses awel.config.ts — edit it directly' }, 409);
+        }
+
+        let body: unknown;
+        try {
+            body = await c.req.json();
+        } catch {
+            return c.json({ success: false, error: 'Invalid JSON' }, 400);
+        }
+        const parsed = SettingsSchema.safeParse(body);
+        if (!parsed.success) {
+            return c.json({ success: false, error: formatIssues(parsed.error) }, 400);
+        }
+
+        writeFileSync(join(projectCwd, 'awel.config.json'), JSON.stringify(parsed.data, null, 2) + '\n', 'utf-8');
+        setAutoApproveDefaults(getSettings(projectCwd).autoApprove ?? {});
+        return c.json({ success: true, ...describeSettings(projectCwd) });
+    });
+
+    return settings;
+}
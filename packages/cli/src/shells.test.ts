@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { tmpdir } from 'os';
+import {
+    truncateOutput,
+    runShellCommand,
+    startBackgroundShell,
+    readBackgroundShell,
+    killBackgroundShell,
+} from './shells.js';
+
+const cwd = tmpdir();
+
+async function waitFor(check: () => boolean, timeoutMs = 5000): Promise<void> {
+    const start = Date.now();
+    while (!check()) {
+        if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting');
+        await new Promise(r => setTimeout(r, 20));
+    }
+}
+
+describe('truncateOutput', () => {
+    it('returns short output unchanged', () => {
+        expect(truncateOutput('hello', 100)).toBe('hello');
+    });
+
+    it('keeps the head and a larger tail', () => {
+        const output = 'a'.repeat(50) + 'b'.repeat(100) + 'c'.repeat(50);
+        const result = truncateOutput(output, 100);
+        expect(result.startsWith('a'.repeat(25) + '\n')).toBe(true);
+        expect(result.endsWith('b'.repeat(25) + 'c'.repeat(50))).toBe(true);
+        expect(result).toContain('[... 100 characters truncated ...]');
+    });
+});
+
+describe('runShellCommand', () => {
+    it('streams output and reports the exit code', async () => {
+        const chunks: string[] = [];
+        const result = await runShellCommand('echo out; echo err >&2; exit 3', {
+            cwd,
+            timeout: 5000,
+            onOutput: (chunk) => chunks.push(chunk),
+        });
+        expect(result.exitCode).toBe(3);
+        expect(result.output).toContain('out');
+        expect(result.output).toContain('err');
+        expect(chunks.join('')).toContain('out');
+        expect(result.timedOut).toBe(false);
+    });
+
+    it('stops commands that exceed the timeout', async () => {
+        const result = await runShellCommand('echo started; sleep 10', { cwd, timeout: 200 });
+        expect(result.timedOut).toBe(true);
+        expect(result.output).toContain('started');
+    });
+
+    it('stops commands when the signal aborts', async () => {
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 100);
+        const result = await runShellCommand('sleep 10', { cwd, timeout: 5000, signal: controller.signal });
+        expect(result.aborted).toBe(true);
+    });
+});
+
+describe('background shells', () => {
+    it('returns only output produced since the last read', async () => {
+        const { id } = startBackgroundShell('echo one; sleep 0.5; echo two', cwd);
+        let first = '';
+        await waitFor(() => {
+            first += readBackgroundShell(id)?.output ?? '';
+            return first.includes('one');
+        });
+        expect(first).not.toContain('two');
+
+        let status: string | undefined;
+        let rest = '';
+        await waitFor(() => {
+            const shell = readBackgroundShell(id);
+            rest += shell?.output ?? '';
+            status = shell?.status;
+            return status !== 'running';
+        });
+        expect(status).toBe('completed');
+        expect(rest).toContain('two');
+        expect(rest).not.toContain('one');
+    });
+
+    it('filters lines and can be killed', async () => {
+        const { id } = startBackgroundShell('echo keep; echo drop; sleep 10', cwd);
+        let output = '';
+        await waitFor(() => {
+            output += readBackgroundShell(id, /keep/)?.output ?? '';
+            return output.includes('keep');
+        });
+        expect(output).not.toContain('drop');
+
+        expect(killBackgroundShell(id)).toBe(true);
+        expect(readBackgroundShell(id)?.status).toBe('killed');
+    });
+
+    it('returns null or false for unknown ids', () => {
+        expect(readBackgroundShell('bash_missing')).toBeNull();
+        expect(killBackgroundShell('bash_missing')).toBe(false);
+    });
+});
@@ -0,0 +1,290 @@
+import { spawn, type ChildProcess } from 'child_process';
+
+// ─── Shell Processes ─────────────────────────────────────────
+// Runs Bash tool commands without blocking the event loop (which also
+// serves the proxy and SSE). Commands run in their own process group so a
+// timeout, a cancelled stream or KillShell stops everything they started.
+// Background shells keep running across agent turns until they exit, are
+// killed, or Awel shuts down.
+
+export type ShellStream = 'stdout' | 'stderr';
+
+export interface ShellResult {
+    output: string;
+    exitCode: number | null;
+    timedOut: boolean;
+    aborted: boolean;
+}
+
+export interface RunShellOptions {
+    cwd: string;
+    timeout: number;
+    signal?: AbortSignal;
+    onOutput?: (chunk: string, stream: ShellStream) => void;
+}
+
+export type BackgroundShellStatus = 'running' | 'completed' | 'failed' | 'killed';
+
+interface BackgroundShell {
+    id: string;
+    command: string;
+    child: ChildProcess;
+    startedAt: number;
+    status: BackgroundShellStatus;
+    exitCode: number | null;
+    /** Retained output; older text is dropped once it exceeds MAX_BACKGROUND_CHARS */
+    output: string;
+    /** Absolute character offset of output[0] */
+    outputStart: number;
+    /** Absolute offset up to which BashOutput has returned output */
+    readOffset: number;
+}
+
+/** Output returned to the model is cut to this many characters. */
+export const MAX_TOOL_OUTPUT_CHARS = 30_000;
+
+/** Output held in memory per background shell. */
+const MAX_BACKGROUND_CHARS = 1024 * 1024;
+
+/** Grace period between SIGTERM and SIGKILL. */
+const KILL_GRACE_MS = 2000;
+
+const backgroundShells = new Map<string, BackgroundShell>();
+const liveProcesses = new Set<ChildProcess>();
+let nextShellId = 1;
+let exitHandlersInstalled = false;
+
+/**
+ * Shortens output for the model by cutting out the middle. The tail is
+ * kept larger than the head since errors and summaries usually come last.
+ */
+export function truncateOutput(output: string, max = MAX_TOOL_OUTPUT_CHARS): string {
+    if (output.length <= max) return output;
+    const headLength = Math.floor(max * 0.25);
+    const tailLength = max - headLength;
+    const dropped = output.length - headLength - tailLength;
+    return `${output.slice(0, headLength)}\n\n[... ${dropped} characters truncated ...]\n\n${output.slice(-tailLength)}`;
+}
+
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+    if (child.exitCode !== null || child.signalCode !== null) return;
+    try {
+        if (child.pid && process.platform !== 'win32') {
+            process.kill(-child.pid, signal);
+        } else {
+            child.kill(signal);
+        }
+    } catch {
+        // Already gone
+    }
+}
+
+/**
+ * SIGTERM, then SIGKILL if the process group is still around after the grace period.
+ */
+function stopProcessTree(child: ChildProcess): void {
+    killProcessTree(child, 'SIGTERM');
+    const timer = setTimeout(() => killProcessTree(child, 'SIGKILL'), KILL_GRACE_MS);
+    timer.unref();
+    child.once('exit', () => clearTimeout(timer));
+}
+
+function killAllProcesses(): void {
+    for (const child of liveProcesses) {
+        killProcessTree(child, 'SIGKILL');
+    }
+}
+
+/**
+ * Detached process groups don't receive the terminal's Ctrl+C, so kill
+ * them when Awel exits. Signals are re-raised only when nothing else
+ * handles them, preserving the default exit behavior.
+ */
+function installExitHandlers(): void {
+    if (exitHandlersInstalled) return;
+    exitHandlersInstalled = true;
+    process.once('exit', killAllProcesses);
+    for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+        process.once(signal, () => {
+            killAllProcesses();
+            if (process.listenerCount(signal) === 0) {
+                process.kill(process.pid, signal);
+            }
+        });
+    }
+}
+
+function spawnShell(command: string, cwd: string): ChildProcess {
+    installExitHandlers();
+    const child = spawn(command, {
+        cwd,
+        shell: true,
+        // Own process group, so killing it also stops whatever the command spawned
+        detached: process.platform !== 'win32',
+        // No stdin: commands that prompt for input get EOF instead of hanging
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: process.env,
+    });
+    liveProcesses.add(child);
+    child.once('close', () => liveProcesses.delete(child));
+    child.stdout?.setEncoding('utf-8');
+    child.stderr?.setEncoding('utf-8');
+    return child;
+}
+
+/**
+ * Runs a command to completion, streaming its output as it arrives.
+ * The process group is stopped on timeout or when the signal aborts.
+ */
+export function runShellCommand(command: string, options: RunShellOptions): Promise<ShellResult> {
+    const { cwd, timeout, signal, onOutput } = options;
+
+    return new Promise((resolve) => {
+        if (signal?.aborted) {
+            resolve({ output: '', exitCode: null, timedOut: false, aborted: true });
+            return;
+        }
+
+        // Keep a head and a rolling tail, the same cut truncateOutput makes,
+        // so huge output can't exhaust memory
+        const headLimit = Math.floor(MAX_TOOL_OUTPUT_CHARS * 0.25);
+        const tailLimit = MAX_TOOL_OUTPUT_CHARS - headLimit;
+        let head = '';
+        let tail = '';
+        let dropped = 0;
+
+        let timedOut = false;
+        let aborted = false;
+        let spawnError: Error | null = null;
+
+        const child = spawnShell(command, cwd);
+
+        const onData = (stream: ShellStream) => (chunk: string) => {
+            onOutput?.(chunk, stream);
+            if (head.length < headLimit) {
+                const take = headLimit - head.length;
+                head += chunk.slice(0, take);
+                chunk = chunk.slice(take);
+            }
+            tail += chunk;
+            if (tail.length > tailLimit) {
+                dropped += tail.length - tailLimit;
+                tail = tail.slice(-tailLimit);
+            }
+        };
+        child.stdout?.on('data', onData('stdout'));
+        child.stderr?.on('data', onData('stderr'));
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            stopProcessTree(child);
+        }, timeout);
+
+        const onAbort = () => {
+            aborted = true;
+            stopProcessTree(child);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        child.once('error', (err) => {
+            spawnError = err;
+        });
+
+        child.once('close', (code) => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            let output = dropped > 0
+                ? `${head}\n\n[... ${dropped} characters truncated ...]\n\n${tail}`
+                : head + tail;
+            if (spawnError) output = `${spawnError.message}\n${output}`;
+            resolve({ output, exitCode: code, timedOut, aborted });
+        });
+    });
+}
+
+// ─── Background Shells ───────────────────────────────────────
+
+function appendBackgroundOutput(shell: BackgroundShell, chunk: string): void {
+    shell.output += chunk;
+    if (shell.output.length > MAX_BACKGROUND_CHARS) {
+        const excess = shell.output.length - MAX_BACKGROUND_CHARS;
+        shell.output = shell.output.slice(excess);
+        shell.outputStart += excess;
+    }
+}
+
+/**
+ * Starts a command that keeps running after the tool call returns.
+ * Returns the id to use with BashOutput and KillShell.
+ */
+export function startBackgroundShell(command: string, cwd: string): { id: string; pid?: number } {
+    const id = `bash_${nextShellId++}`;
+    const child = spawnShell(command, cwd);
+    const shell: BackgroundShell = {
+        id,
+        command,
+        child,
+        startedAt: Date.now(),
+        status: 'running',
+        exitCode: null,
+        output: '',
+        outputStart: 0,
+        readOffset: 0,
+    };
+    backgroundShells.set(id, shell);
+
+    child.stdout?.on('data', (chunk: string) => appendBackgroundOutput(shell, chunk));
+    child.stderr?.on('data', (chunk: string) => appendBackgroundOutput(shell, chunk));
+    child.once('error', (err) => appendBackgroundOutput(shell, `${err.message}\n`));
+    child.once('close', (code) => {
+        shell.exitCode = code;
+        if (shell.status === 'running') {
+            shell.status = code === 0 ? 'completed' : 'failed';
+        }
+    });
+
+    return { id, pid: child.pid };
+}
+
+export function listBackgroundShells(): { id: string; command: string; status: BackgroundShellStatus }[] {
+    return [...backgroundShells.values()].map(s => ({ id: s.id, command: s.command, status: s.status }));
+}
+
+/**
+ * Returns the output a background shell produced since the last read,
+ * optionally keeping only lines that match `filter`. Returns null for
+ * unknown ids.
+ */
+export function readBackgroundShell(id: string, filter?: RegExp): {
+    status: BackgroundShellStatus;
+    exitCode: number | null;
+    output: string;
+    droppedChars: number;
+} | null {
+    const shell = backgroundShells.get(id);
+    if (!shell) return null;
+
+    const droppedChars = Math.max(0, shell.outputStart - shell.readOffset);
+    const from = Math.max(shell.readOffset, shell.outputStart) - shell.outputStart;
+    let output = shell.output.slice(from);
+    shell.readOffset = shell.outputStart + shell.output.length;
+
+    if (filter) {
+        output = output.split('\n').filter(line => filter.test(line)).join('\n');
+    }
+
+    return { status: shell.status, exitCode: shell.exitCode, output: truncateOutput(output), droppedChars };
+}
+
+/**
+ * Stops a background shell and everything it started. Returns false for unknown ids.
+ */
+export function killBackgroundShell(id: string): boolean {
+    const shell = backgroundShells.get(id);
+    if (!shell) return false;
+    if (shell.status === 'running') {
+        shell.status = 'killed';
+        stopProcessTree(shell.child);
+    }
+    return true;
+}
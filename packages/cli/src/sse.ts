@@ -20,20 +20,19 @@ const TRANSIENT_EVENTS = new Set(['status', 'done']);
 
 // ─── Disk Persistence ────────────────────────────────────────
 
-let _projectCwd: string | null = null;
+let _historyDir: string | null = null;
 let _flushTimer: ReturnType<typeof setTimeout> | null = null;
 
 function historyPath(): string | null {
-    if (!_projectCwd) return null;
-    return join(_projectCwd, '.awel', 'history.json');
+    if (!_historyDir) return null;
+    return join(_historyDir, 'history.json');
 }
 
 function flushToDisk(): void {
     const filePath = historyPath();
     if (!filePath) return;
     try {
-        const dir = join(_projectCwd!, '.awel');
-        if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+        if (!existsSync(_historyDir!)) mkdirSync(_historyDir!, { recursive: true });
         writeFileSync(filePath, JSON.stringify(chatHistory) + '\n', 'utf-8');
     } catch {
         // Non-critical — history will be lost on restart but nothing breaks
@@ -46,11 +45,24 @@ function scheduleFlush(): void {
 }
 
 /**
- * Initialize history persistence. Loads existing history from disk.
- * Must be called before the server starts.
+ * Writes any pending history to disk right away (e.g. before switching threads).
  */
-export function initHistory(projectCwd: string): void {
-    _projectCwd = projectCwd;
+export function flushHistory(): void {
+    if (!_flushTimer) return;
+    clearTimeout(_flushTimer);
+    _flushTimer = null;
+    flushToDisk();
+}
+
+/**
+ * Initialize history persistence for a thread directory, replacing the
+ * in-memory history with the one stored there. Called on startup and
+ * whenever the current thread changes.
+ */
+export function initHistory(dir: string): void {
+    flushHistory();
+    _historyDir = dir;
+    chatHistory.length = 0;
     const filePath = historyPath();
     if (!filePath || !existsSync(filePath)) return;
     try {
@@ -64,7 +76,11 @@ export function initHistory(projectCwd: string): void {
     }
 }
 
-export function addToHistory(eventType: string, data: string): void {
+/**
+ * @param id - Id chosen by the dashboard for messages it renders before
+ *   persisting them, so it can refer back to them (e.g. to fork from a prompt)
+ */
+export function addToHistory(eventType: string, data: string, id?: string): void {
     if (TRANSIENT_EVENTS.has(eventType)) return;
 
     // Merge consecutive text events into a single history entry
@@ -87,7 +103,7 @@ export function addToHistory(eventType: string, data: string): void {
     }
 
     chatHistory.push({
-        id: crypto.randomUUID(),
+        id: id ?? crypto.randomUUID(),
         eventType,
         data,
         timestamp: Date.now(),
@@ -110,6 +126,18 @@ export function getHistory(): ChatMessage[] {
     return [...chatHistory];
 }
 
+/**
+ * Replaces the history of the current thread (e.g. with the truncated
+ * history of a forked conversation) and writes it to disk.
+ */
+export function replaceHistory(entries: ChatMessage[]): void {
+    if (_flushTimer) clearTimeout(_flushTimer);
+    _flushTimer = null;
+    chatHistory.length = 0;
+    chatHistory.push(...entries.slice(-MAX_HISTORY));
+    flushToDisk();
+}
+
 export function clearHistory(): void {
     chatHistory.length = 0;
     if (_flushTimer) clearTimeout(_flushTimer);
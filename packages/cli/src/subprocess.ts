@@ -6,6 +6,9 @@
 import { execa, type ResultPromise } from 'execa';
 import { watch, type FSWatcher } from 'node:fs';
 import { awel, pipeChildOutput } from './logger.js';
+import { getIgnoredDirs } from './settings.js';
+import type { FrameworkAdapter } from './frameworks.js';
+import { recordDevServerOutput } from './dev-server-logs.js';
 
 export type DevServerStatus = 'stopped' | 'starting' | 'running' | 'restarting' | 'crashed';
 
@@ -14,6 +17,7 @@ interface DevServerState {
     status: DevServerStatus;
     port: number;
     cwd: string;
+    framework: FrameworkAdapter | null;
     startedAt: number | null;
     restartCount: number;
     lastError: string | null;
@@ -24,6 +28,7 @@ const state: DevServerState = {
     status: 'stopped',
     port: 3000,
     cwd: process.cwd(),
+    framework: null,
     startedAt: null,
     restartCount: 0,
     lastError: null,
@@ -34,7 +39,6 @@ let crashWatcher: FSWatcher | null = null;
 let crashDebounceTimer: ReturnType<typeof setTimeout> | null = null;
 
 const SOURCE_EXT_RE = /\.(ts|tsx|js|jsx|json|css|scss|html|mdx?)$/;
-const IGNORE_RE = /(?:^|[/\\])(?:node_modules|\.next|\.git|dist|build)[/\\]/;
 
 /**
  * Start watching the project directory for file changes while the server is
@@ -44,9 +48,11 @@ const IGNORE_RE = /(?:^|[/\\])(?:node_modules|\.next|\.git|dist|build)[/\\]/;
 function startCrashWatcher() {
     if (crashWatcher) return;
 
+    const ignoredDirs = getIgnoredDirs(state.cwd);
     crashWatcher = watch(state.cwd, { recursive: true }, (_event, filename) => {
         if (!filename) return;
-        if (IGNORE_RE.test(filename)) return;
+        const dirs = filename.split(/[/\\]/).slice(0, -1);
+        if (dirs.some(dir => ignoredDirs.includes(dir))) return;
         if (!SOURCE_EXT_RE.test(filename)) return;
         if (state.status !== 'crashed') return;
 
@@ -85,7 +91,7 @@ function stopCrashWatcher() {
  * Wait for the dev server to respond on its port.
  * Polls with 500ms intervals up to the timeout.
  */
-async function waitForServer(port: number, timeoutMs = 30_000): Promise<boolean> {
+export async function waitForServer(port: number, timeoutMs = 30_000): Promise<boolean> {
     const start = Date.now();
     while (Date.now() - start < timeoutMs) {
         try {
@@ -103,19 +109,23 @@ async function waitForServer(port: number, timeoutMs = 30_000): Promise<boolean>
 }
 
 /**
- * Spawn the dev server process and pipe its output.
+ * Spawn the dev server process and pipe its output. The framework adapter
+ * decides how the port is passed; without one, `npm run dev` gets PORT.
  */
-function spawn(port: number, cwd: string): ResultPromise {
-    const child = execa('npm', ['run', 'dev'], {
+function spawn(port: number, cwd: string, framework: FrameworkAdapter | null): ResultPromise {
+    const { command, args, env } = framework?.devCommand(port)
+        ?? { command: 'npm', args: ['run', 'dev'], env: { PORT: String(port) } };
+    const child = execa(command, args, {
         stdin: 'inherit',
         env: {
             ...process.env,
-            PORT: String(port),
+            ...env,
         },
         cwd,
     });
 
-    pipeChildOutput(child);
+    // Kept for the agent (ServerLogs) and the dashboard's Server tab
+    pipeChildOutput(child, recordDevServerOutput);
     return child;
 }
 
@@ -174,7 +184,7 @@ function attachExitHandler(child: ResultPromise) {
 async function doSpawn(): Promise<void> {
     stopCrashWatcher();
     state.status = 'starting';
-    const child = spawn(state.port, state.cwd);
+    const child = spawn(state.port, state.cwd, state.framework);
     state.process = child;
 
     attachExitHandler(child);
@@ -192,12 +202,13 @@ async function doSpawn(): Promise<void> {
 /**
  * Spawn the dev server. Called once from CLI entry point.
  */
-export async function spawnDevServer(opts: { port: number; cwd: string }): Promise<void> {
+export async function spawnDevServer(opts: { port: number; cwd: string; framework?: FrameworkAdapter }): Promise<void> {
     state.port = opts.port;
     state.cwd = opts.cwd;
+    state.framework = opts.framework ?? null;
     state.restartCount = 0;
 
-    awel.log('Starting your Next.js app...');
+    awel.log(`Starting your ${state.framework?.label ?? 'React'} app...`);
     await doSpawn();
 }
 
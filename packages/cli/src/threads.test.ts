@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, existsSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { addToHistory, getHistory, flushHistory } from './sse.js';
+import { getSessionState } from './session.js';
+import {
+    initThreads,
+    listThreads,
+    getCurrentThread,
+    createThread,
+    forkThread,
+    switchThread,
+    renameThread,
+    deleteThread,
+    touchCurrentThread,
+    deriveThreadName,
+    DEFAULT_THREAD_NAME,
+} from './threads.js';
+
+describe('threads', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-threads-'));
+    });
+
+    afterEach(() => {
+        flushHistory();
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    it('migrates the pre-thread history into a first thread named after its first prompt', () => {
+        mkdirSync(join(projectCwd, '.awel'));
+        writeFileSync(join(projectCwd, '.awel', 'history.json'), JSON.stringify([
+            { id: '1', eventType: 'user', data: JSON.stringify({ type: 'user', text: 'Fix the navbar' }), timestamp: 1 },
+        ]));
+
+        initThreads(projectCwd);
+
+        const thread = getCurrentThread()!;
+        expect(thread.name).toBe('Fix the navbar');
+        expect(getHistory()).toHaveLength(1);
+        expect(existsSync(join(projectCwd, '.awel', 'history.json'))).toBe(false);
+        expect(existsSync(join(projectCwd, '.awel', 'threads', thread.id, 'history.json'))).toBe(true);
+    });
+
+    it('keeps a separate history per thread', () => {
+        initThreads(projectCwd);
+        const first = getCurrentThread()!;
+        addToHistory('user', JSON.stringify({ type: 'user', text: 'first thread' }));
+
+        const second = createThread('Second')!;
+        expect(getCurrentThread()!.id).toBe(second.id);
+        expect(getHistory()).toHaveLength(0);
+        addToHistory('user', JSON.stringify({ type: 'user', text: 'second thread' }));
+
+        switchThread(first.id);
+        expect(getHistory().map(m => JSON.parse(m.data).text)).toEqual(['first thread']);
+
+        // The choice survives a restart
+        flushHistory();
+        initThreads(projectCwd);
+        expect(getCurrentThread()!.id).toBe(first.id);
+        expect(listThreads().threads).toHaveLength(2);
+    });
+
+    it('names unnamed threads after their first prompt and supports renaming', () => {
+        initThreads(projectCwd);
+        const thread = getCurrentThread()!;
+        expect(thread.name).toBe(DEFAULT_THREAD_NAME);
+
+        touchCurrentThread('Add a pricing page\nwith three tiers');
+        expect(getCurrentThread()!.name).toBe('Add a pricing page');
+        touchCurrentThread('Something else');
+        expect(getCurrentThread()!.name).toBe('Add a pricing page');
+
+        expect(renameThread(thread.id, '  Pricing  ')!.name).toBe('Pricing');
+        expect(renameThread('missing', 'x')).toBeNull();
+
+        const index = JSON.parse(readFileSync(join(projectCwd, '.awel', 'threads', 'index.json'), 'utf-8'));
+        expect(index.threads[0].name).toBe('Pricing');
+    });
+
+    it('forks the current thread with a truncated history and session', () => {
+        initThreads(projectCwd);
+        const source = getCurrentThread()!;
+        renameThread(source.id, 'Navbar');
+        addToHistory('user', JSON.stringify({ type: 'user', text: 'first' }));
+        addToHistory('user', JSON.stringify({ type: 'user', text: 'second' }));
+        const history = getHistory();
+
+        const fork = forkThread(history.slice(0, 1), {
+            modelId: 'sonnet',
+            modelProvider: 'anthropic',
+            messages: [{ role: 'user', content: 'first' }],
+        })!;
+        expect(fork.name).toBe('Navbar (fork)');
+        expect(getCurrentThread()!.id).toBe(fork.id);
+        expect(getHistory().map(m => m.id)).toEqual([history[0].id]);
+        expect(getSessionState()!.messages).toHaveLength(1);
+        expect(existsSync(join(projectCwd, '.awel', 'threads', fork.id, 'session.json'))).toBe(true);
+
+        // The original thread is left as it was
+        switchThread(source.id);
+        expect(getHistory()).toHaveLength(2);
+        expect(getSessionState()).toBeNull();
+    });
+
+    it('switches to another thread when the current one is deleted', () => {
+        initThreads(projectCwd);
+        const first = getCurrentThread()!;
+        const second = createThread('Second')!;
+
+        expect(deleteThread(second.id)).toBe(true);
+        expect(getCurrentThread()!.id).toBe(first.id);
+        expect(existsSync(join(projectCwd, '.awel', 'threads', second.id))).toBe(false);
+
+        // Deleting the last thread leaves a fresh one
+        expect(deleteThread(first.id)).toBe(true);
+        expect(listThreads().threads).toHaveLength(1);
+        expect(getCurrentThread()!.id).not.toBe(first.id);
+        expect(deleteThread('missing')).toBe(false);
+    });
+});
+
+describe('deriveThreadName', () => {
+    it('uses the first line and shortens long prompts', () => {
+        expect(deriveThreadName('  Hello   world  ')).toBe('Hello world');
+        expect(deriveThreadName('')).toBe(DEFAULT_THREAD_NAME);
+        const long = deriveThreadName('a'.repeat(100));
+        expect(long).toHaveLength(60);
+        expect(long.endsWith('…')).toBe(true);
+    });
+});
@@ -0,0 +1,254 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync, renameSync, rmSync } from 'fs';
+import { join } from 'path';
+import { initHistory, flushHistory, getHistory, replaceHistory, type ChatMessage } from './sse.js';
+import { initSession, restoreSession, type PersistedSession } from './session.js';
+import { initTodos } from './tools/todo.js';
+import { setUsageThread } from './usage.js';
+
+// ─── Chat Threads ────────────────────────────────────────────
+// Each project can hold several named conversations. A thread keeps its
+// chat history, LLM session and todo list under .awel/threads/<id>/;
+// .awel/threads/index.json lists the threads and which one is current.
+// The history, session and todo modules always operate on the current
+// thread, so switching threads just points them at another directory.
+
+export interface ThreadInfo {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+interface ThreadIndex {
+    currentThreadId: string;
+    threads: ThreadInfo[];
+}
+
+export const DEFAULT_THREAD_NAME = 'New chat';
+
+const MAX_THREAD_NAME_LENGTH = 60;
+
+let _projectCwd: string | null = null;
+let index: ThreadIndex | null = null;
+
+function threadsDir(): string {
+    return join(_projectCwd!, '.awel', 'threads');
+}
+
+function threadDir(id: string): string {
+    return join(threadsDir(), id);
+}
+
+function indexPath(): string {
+    return join(threadsDir(), 'index.json');
+}
+
+function saveIndex(): void {
+    if (!index) return;
+    try {
+        mkdirSync(threadsDir(), { recursive: true });
+        writeFileSync(indexPath(), JSON.stringify(index, null, 2) + '\n', 'utf-8');
+    } catch {
+        // Non-critical — the thread list is rebuilt on the next change
+    }
+}
+
+function readIndex(): ThreadIndex | null {
+    if (!existsSync(indexPath())) return null;
+    try {
+        const parsed = JSON.parse(readFileSync(indexPath(), 'utf-8'));
+        if (!Array.isArray(parsed.threads) || parsed.threads.length === 0) return null;
+        return parsed as ThreadIndex;
+    } catch {
+        // Corrupt index — start over with a fresh thread
+        return null;
+    }
+}
+
+function loadThread(id: string): void {
+    const dir = threadDir(id);
+    initHistory(dir);
+    initSession(dir);
+    initTodos(dir);
+    setUsageThread(id);
+}
+
+function newThreadInfo(name?: string): ThreadInfo {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID().slice(0, 8),
+        name: name?.trim().slice(0, MAX_THREAD_NAME_LENGTH) || DEFAULT_THREAD_NAME,
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Derives a thread name from the first prompt: its first line, shortened.
+ */
+export function deriveThreadName(prompt: string): string {
+    const line = prompt.trim().split('\n')[0].replace(/\s+/g, ' ');
+    if (!line) return DEFAULT_THREAD_NAME;
+    return line.length > MAX_THREAD_NAME_LENGTH
+        ? line.slice(0, MAX_THREAD_NAME_LENGTH - 1).trimEnd() + '…'
+        : line;
+}
+
+/**
+ * Moves the pre-thread .awel/history.json and .awel/session.json into a
+ * first thread so existing conversations survive the upgrade.
+ */
+function migrateLegacyFiles(thread: ThreadInfo): void {
+    const dir = threadDir(thread.id);
+    for (const file of ['history.json', 'session.json']) {
+        const legacy = join(_projectCwd!, '.awel', file);
+        if (!existsSync(legacy)) continue;
+        try {
+            mkdirSync(dir, { recursive: true });
+            renameSync(legacy, join(dir, file));
+        } catch {
+            // Leave the file where it is; the thread starts empty
+        }
+    }
+}
+
+/**
+ * Loads the thread index (creating the first thread if needed) and points
+ * history, session and todos at the current thread. Must be called before
+ * the server starts.
+ */
+export function initThreads(projectCwd: string): void {
+    _projectCwd = projectCwd;
+    index = readIndex();
+
+    if (!index) {
+        const thread = newThreadInfo();
+        migrateLegacyFiles(thread);
+        index = { currentThreadId: thread.id, threads: [thread] };
+        loadThread(thread.id);
+
+        // Name a migrated conversation after its first prompt
+        const firstUser = getHistory().find(m => m.eventType === 'user');
+        if (firstUser) {
+            try {
+                thread.name = deriveThreadName(JSON.parse(firstUser.data).text ?? '');
+            } catch {
+                // Keep the default name
+            }
+        }
+        saveIndex();
+        return;
+    }
+
+    if (!index.threads.some(t => t.id === index!.currentThreadId)) {
+        index.currentThreadId = index.threads[0].id;
+        saveIndex();
+    }
+    loadThread(index.currentThreadId);
+}
+
+/**
+ * All threads, most recently active first.
+ */
+export function listThreads(): { currentThreadId: string | null; threads: ThreadInfo[] } {
+    if (!index) return { currentThreadId: null, threads: [] };
+    return {
+        currentThreadId: index.currentThreadId,
+        threads: [...index.threads].sort((a, b) => b.updatedAt - a.updatedAt),
+    };
+}
+
+export function getCurrentThread(): ThreadInfo | null {
+    return index?.threads.find(t => t.id === index!.currentThreadId) ?? null;
+}
+
+/**
+ * Makes another thread current. Returns false for unknown ids.
+ */
+export function switchThread(id: string): boolean {
+    if (!index || !index.threads.some(t => t.id === id)) return false;
+    if (index.currentThreadId === id) return true;
+    flushHistory();
+    index.currentThreadId = id;
+    saveIndex();
+    loadThread(id);
+    return true;
+}
+
+/**
+ * Creates a thread and makes it current.
+ */
+export function createThread(name?: string): ThreadInfo | null {
+    if (!index) return null;
+    const thread = newThreadInfo(name);
+    index.threads.push(thread);
+    saveIndex();
+    switchThread(thread.id);
+    return thread;
+}
+
+/**
+ * Creates a branch of the current thread holding the given (truncated)
+ * history and session, and makes it current. The original thread is left
+ * untouched. See fork.ts for how the cut point is found.
+ */
+export function forkThread(history: ChatMessage[], session: PersistedSession | null): ThreadInfo | null {
+    const source = getCurrentThread();
+    if (!source) return null;
+    const thread = createThread(`${source.name.slice(0, MAX_THREAD_NAME_LENGTH - 7)} (fork)`);
+    if (!thread) return null;
+    replaceHistory(history);
+    if (session) restoreSession(session);
+    return thread;
+}
+
+export function renameThread(id: string, name: string): ThreadInfo | null {
+    const thread = index?.threads.find(t => t.id === id);
+    if (!thread) return null;
+    thread.name = name.trim().slice(0, MAX_THREAD_NAME_LENGTH) || DEFAULT_THREAD_NAME;
+    saveIndex();
+    return thread;
+}
+
+/**
+ * Deletes a thread and its files. Deleting the current thread switches to
+ * the most recently active remaining one, or to a new empty thread.
+ */
+export function deleteThread(id: string): boolean {
+    if (!index || !index.threads.some(t => t.id === id)) return false;
+    const wasCurrent = index.currentThreadId === id;
+    if (wasCurrent) flushHistory();
+
+    index.threads = index.threads.filter(t => t.id !== id);
+    try {
+        rmSync(threadDir(id), { recursive: true, force: true });
+    } catch {
+        // Orphaned files are harmless
+    }
+
+    if (index.threads.length === 0) {
+        const thread = newThreadInfo();
+        index.threads.push(thread);
+    }
+    if (wasCurrent) {
+        const next = [...index.threads].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+        index.currentThreadId = next.id;
+        loadThread(next.id);
+    }
+    saveIndex();
+    return true;
+}
+
+/**
+ * Records activity on the current thread. An unnamed thread is named
+ * after the prompt that starts it.
+ */
+export function touchCurrentThread(prompt?: string): void {
+    const thread = getCurrentThread();
+    if (!thread) return;
+    thread.updatedAt = Date.now();
+    if (prompt && thread.name === DEFAULT_THREAD_NAME) {
+        thread.name = deriveThreadName(prompt);
+    }
+    saveIndex();
+}
@@ -0,0 +1,44 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { readBackgroundShell, listBackgroundShells } from '../shells.js';
+
+export function createBashOutputTool() {
+    return tool({
+        description:
+            'Read new output from a background shell started with Bash run_in_background. ' +
+            'Returns only output produced since the last read, plus the shell status.',
+        inputSchema: z.object({
+            shell_id: z.string().describe('The shell id returned by Bash, e.g. "bash_1"'),
+            filter: z.string().optional().describe('Regular expression; only matching lines are returned'),
+        }),
+        execute: async ({ shell_id, filter }) => {
+            let filterRe: RegExp | undefined;
+            if (filter) {
+                try {
+                    filterRe = new RegExp(filter);
+                } catch (err) {
+                    return `Error: Invalid filter: ${err instanceof Error ? err.message : String(err)}`;
+                }
+            }
+
+            const result = readBackgroundShell(shell_id, filterRe);
+            if (!result) {
+                const shells = listBackgroundShells();
+                const known = shells.length > 0
+                    ? `Known shells: ${shells.map(s => `${s.id} (${s.status})`).join(', ')}`
+                    : 'No background shells have been started.';
+                return `Error: No background shell with id ${shell_id}. ${known}`;
+            }
+
+            const status = result.exitCode !== null
+                ? `${result.status} (exit code ${result.exitCode})`
+                : result.status;
+            const lines = [`Status: ${status}`];
+            if (result.droppedChars > 0) {
+                lines.push(`[${result.droppedChars} earlier characters were discarded before they could be read]`);
+            }
+            lines.push(result.output || '(no new output)');
+            return lines.join('\n');
+        },
+    });
+}
@@ -1,62 +1,118 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import { execSync } from 'child_process';
 import { requestConfirmation, isAutoApproved } from '../confirm-store.js';
+import { evaluatePermission } from '../permissions.js';
+import { runShellCommand, startBackgroundShell, type ShellStream } from '../shells.js';
 import type { ToolContext } from './index.js';
 
-export function createBashTool(ctx: ToolContext) {
+/** Live output is batched into one tool_output event per interval. */
+const OUTPUT_FLUSH_MS = 100;
+
+/**
+ * Checks a command against the permission rules and, unless a rule allows
+ * it or bash is auto-approved, asks the user. Returns the error for the
+ * model when the command may not run, else null.
+ */
+export async function authorizeShellCommand(ctx: Pick<ToolContext, 'cwd' | 'emitSSE' | 'confirmBash'>, command: string): Promise<string | null> {
     const { cwd, emitSSE, confirmBash } = ctx;
+    const permissionRequest = { tool: 'Bash', command };
+    const permission = evaluatePermission(cwd, permissionRequest);
+    if (permission === 'deny') {
+        return 'Error: Command is denied by a rule in .awel/permissions.json. Do not retry it — try a different approach or ask the user for guidance.';
+    }
+    if (permission === 'ask' || (permission !== 'allow' && confirmBash && !isAutoApproved('bash'))) {
+        const confirmId = crypto.randomUUID();
+        const confirmData = JSON.stringify({
+            type: 'confirm',
+            confirmId,
+            toolName: 'Bash',
+            summary: command,
+        });
+        emitSSE('confirm', confirmData);
+
+        const approved = await requestConfirmation(confirmId, permissionRequest);
+        if (!approved) {
+            const resolvedData = JSON.stringify({
+                type: 'confirm_resolved',
+                confirmId,
+                approved: false,
+            });
+            emitSSE('confirm_resolved', resolvedData);
+            return 'Error: Command was rejected by the user. Try a different approach or ask the user for guidance.';
+        }
+
+        const resolvedData = JSON.stringify({
+            type: 'confirm_resolved',
+            confirmId,
+            approved: true,
+        });
+        emitSSE('confirm_resolved', resolvedData);
+    }
+    return null;
+}
+
+export function createBashTool(ctx: ToolContext) {
+    const { cwd, emitSSE } = ctx;
     return tool({
-        description: 'Execute a shell command and return stdout/stderr. Runs in the project directory.',
+        description:
+            'Execute a shell command and return stdout/stderr. Runs in the project directory. ' +
+            'Long output is truncated in the middle. For long-running commands (watchers, servers, ' +
+            'long test runs) set run_in_background and check on them with BashOutput; stop them with KillShell.',
         inputSchema: z.object({
             command: z.string().describe('The shell command to execute'),
-            timeout: z.number().optional().default(30000).describe('Timeout in milliseconds (default 30s)'),
+            timeout: z.number().max(600000).optional().default(30000).describe('Timeout in milliseconds (default 30s, max 10 minutes)'),
+            run_in_background: z.boolean().optional().describe('Start the command and return immediately with a shell id'),
         }),
-        execute: async ({ command, timeout }) => {
-            if (confirmBash && !isAutoApproved('bash')) {
-                const confirmId = crypto.randomUUID();
-                const confirmData = JSON.stringify({
-                    type: 'confirm',
-                    confirmId,
-                    toolName: 'Bash',
-                    summary: command,
-                });
-                emitSSE('confirm', confirmData);
-
-                const approved = await requestConfirmation(confirmId);
-                if (!approved) {
-                    const resolvedData = JSON.stringify({
-                        type: 'confirm_resolved',
-                        confirmId,
-                        approved: false,
-                    });
-                    emitSSE('confirm_resolved', resolvedData);
-                    return 'Error: Command was rejected by the user. Try a different approach or ask the user for guidance.';
-                }
+        execute: async ({ command, timeout, run_in_background }, { toolCallId, abortSignal }) => {
+            const refusal = await authorizeShellCommand(ctx, command);
+            if (refusal) return refusal;
 
-                const resolvedData = JSON.stringify({
-                    type: 'confirm_resolved',
-                    confirmId,
-                    approved: true,
-                });
-                emitSSE('confirm_resolved', resolvedData);
+            if (run_in_background) {
+                const { id, pid } = startBackgroundShell(command, cwd);
+                return `Started background shell ${id}${pid ? ` (pid ${pid})` : ''}. ` +
+                    `Use BashOutput with shell_id "${id}" to read its output and KillShell to stop it.`;
             }
 
-            try {
-                const output = execSync(command, {
-                    cwd,
-                    encoding: 'utf-8',
-                    timeout,
-                    stdio: ['pipe', 'pipe', 'pipe'],
-                    maxBuffer: 1024 * 1024, // 1MB
-                });
-                return output || '(no output)';
-            } catch (err: unknown) {
-                const execErr = err as { stdout?: string; stderr?: string; message?: string };
-                const stderr = execErr.stderr || '';
-                const stdout = execErr.stdout || '';
-                return `Error: ${execErr.message || 'Command failed'}\n${stderr}\n${stdout}`.trim();
+            // Stream output to the dashboard in batches rather than per chunk
+            let pending: { stream: ShellStream; chunk: string }[] = [];
+            let flushTimer: ReturnType<typeof setTimeout> | null = null;
+            const flush = () => {
+                flushTimer = null;
+                for (const { stream, chunk } of pending) {
+                    emitSSE('tool_output', JSON.stringify({
+                        type: 'tool_output',
+                        tool_use_id: toolCallId,
+                        stream,
+                        chunk,
+                    }));
+                }
+                pending = [];
+            };
+
+            const result = await runShellCommand(command, {
+                cwd,
+                timeout,
+                signal: abortSignal,
+                onOutput: (chunk, stream) => {
+                    const last = pending[pending.length - 1];
+                    if (last && last.stream === stream) last.chunk += chunk;
+                    else pending.push({ stream, chunk });
+                    flushTimer ??= setTimeout(flush, OUTPUT_FLUSH_MS);
+                },
+            });
+            if (flushTimer) clearTimeout(flushTimer);
+            flush();
+
+            if (result.aborted) {
+                return `Error: Command was cancelled\n${result.output}`.trim();
+            }
+            if (result.timedOut) {
+                return `Error: Command timed out after ${timeout}ms. Use run_in_background for long-running commands.\n${result.output}`.trim();
+            }
+            if (result.exitCode !== 0) {
+                return `Error: Command failed with exit code ${result.exitCode ?? 'unknown'}\n${result.output}`.trim();
             }
+            return result.output || '(no output)';
         },
     });
 }
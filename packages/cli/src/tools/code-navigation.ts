@@ -0,0 +1,101 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { existsSync } from 'fs';
+import { guardPath } from '../path-guard.js';
+import { findDefinition, findReferences, listSymbols, type CodeLocation } from '../code-navigation.js';
+
+const MAX_REFERENCES = 100;
+const MAX_SYMBOLS = 150;
+
+/** Resolves an optional file_path input; a string is an error for the model */
+function resolveFile(cwd: string, filePath: string | undefined): { path?: string } | string {
+    if (!filePath) return {};
+    const guarded = guardPath(cwd, filePath, { read: true });
+    if (!guarded.ok) return guarded.error;
+    if (!existsSync(guarded.path)) return `Error: File not found: ${guarded.path}`;
+    return { path: guarded.path };
+}
+
+function formatLocations(locations: CodeLocation[], max: number): string {
+    const shown = locations.slice(0, max).map(l => {
+        const label = l.name ? `${l.kind ? `${l.kind} ` : ''}${l.name}` : l.isDefinition ? '(definition)' : '';
+        return `${l.file}:${l.line}:${l.column}${label ? `  ${label}` : ''}\n    ${l.text}`;
+    });
+    if (locations.length > max) shown.push(`(${locations.length - max} more not shown)`);
+    return shown.join('\n');
+}
+
+const symbolInput = {
+    symbol: z.string().min(1).describe('Name of the component, function, type or variable (e.g. "Button", "useCart", "Props.onClick")'),
+    file_path: z.string().optional()
+        .describe('A file where the symbol appears (absolute or relative to project root); omit to look it up among the project\'s declarations'),
+    line: z.number().int().min(1).optional().describe('Line in file_path where the symbol appears, to pick the right occurrence'),
+};
+
+export function createFindDefinitionTool(cwd: string) {
+    return tool({
+        description:
+            'Find where a symbol is defined, using the TypeScript compiler over the project. ' +
+            'Follows imports and re-exports to the actual declaration. ' +
+            'Prefer this over Grep for locating components, hooks, functions and types.',
+        inputSchema: z.object(symbolInput),
+        execute: async ({ symbol, file_path, line }) => {
+            const file = resolveFile(cwd, file_path);
+            if (typeof file === 'string') return file;
+            try {
+                const result = findDefinition(cwd, symbol, file.path, line);
+                if (typeof result === 'string') return `Error: ${result}`;
+                return formatLocations(result, MAX_REFERENCES);
+            } catch (err) {
+                return `Error finding definition: ${err instanceof Error ? err.message : String(err)}`;
+            }
+        },
+    });
+}
+
+export function createFindReferencesTool(cwd: string) {
+    return tool({
+        description:
+            'Find every place a symbol is used, using the TypeScript compiler over the project. ' +
+            'Unlike Grep it skips unrelated symbols with the same name. ' +
+            'Use before renaming or changing the props of a component to see what depends on it.',
+        inputSchema: z.object(symbolInput),
+        execute: async ({ symbol, file_path, line }) => {
+            const file = resolveFile(cwd, file_path);
+            if (typeof file === 'string') return file;
+            try {
+                const result = findReferences(cwd, symbol, file.path, line);
+                if (typeof result === 'string') return `Error: ${result}`;
+                const files = new Set(result.map(r => r.file)).size;
+                return `${result.length} reference${result.length === 1 ? '' : 's'} in ${files} file${files === 1 ? '' : 's'}:\n\n${formatLocations(result, MAX_REFERENCES)}`;
+            } catch (err) {
+                return `Error finding references: ${err instanceof Error ? err.message : String(err)}`;
+            }
+        },
+    });
+}
+
+export function createListSymbolsTool(cwd: string) {
+    return tool({
+        description:
+            'List the symbols (components, functions, types, variables, class members) declared in a file, ' +
+            'or search the project\'s symbols by name. Gives an outline of a file without reading all of it.',
+        inputSchema: z.object({
+            file_path: z.string().optional().describe('File to outline (absolute or relative to project root)'),
+            query: z.string().optional().describe('Name or part of a name to search for; filters the outline when file_path is given'),
+        }),
+        execute: async ({ file_path, query }) => {
+            if (!file_path && !query) return 'Error: Pass file_path, query, or both';
+            const file = resolveFile(cwd, file_path);
+            if (typeof file === 'string') return file;
+            try {
+                const result = listSymbols(cwd, { file: file.path, query });
+                if (typeof result === 'string') return `Error: ${result}`;
+                if (result.length === 0) return query ? `No symbols matching "${query}"` : 'No symbols found';
+                return formatLocations(result, MAX_SYMBOLS);
+            } catch (err) {
+                return `Error listing symbols: ${err instanceof Error ? err.message : String(err)}`;
+            }
+        },
+    });
+}
@@ -0,0 +1,65 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { existsSync } from 'fs';
+import { guardPath } from '../path-guard.js';
+import { getDiagnostics, formatDiagnostics, type DiagnosticSource } from '../diagnostics.js';
+
+const MAX_DIAGNOSTICS = 100;
+
+const SOURCE_LABELS: Record<DiagnosticSource, string> = {
+    typescript: 'TypeScript',
+    eslint: 'ESLint',
+};
+
+export function createDiagnosticsTool(cwd: string) {
+    return tool({
+        description:
+            'Type-check and lint files with the project\'s TypeScript and ESLint. ' +
+            'Returns one line per problem as file:line:column severity code: message. ' +
+            'Use after Edit/Write to confirm your changes compile; much faster than running tsc through Bash, ' +
+            'since the type-checker stays warm between calls. Omit files to check the whole project.',
+        inputSchema: z.object({
+            files: z.array(z.string()).optional()
+                .describe('Files to check (absolute or relative to project root); omit for the whole project'),
+            sources: z.array(z.enum(['typescript', 'eslint'])).min(1).optional().default(['typescript', 'eslint'])
+                .describe('Which checkers to run (default: both)'),
+        }),
+        execute: async ({ files, sources }) => {
+            let paths: string[] | null = null;
+            if (files && files.length > 0) {
+                paths = [];
+                for (const file of files) {
+                    const guarded = guardPath(cwd, file, { read: true });
+                    if (!guarded.ok) return guarded.error;
+                    if (!existsSync(guarded.path)) return `Error: File not found: ${guarded.path}`;
+                    paths.push(guarded.path);
+                }
+            }
+
+            try {
+                const { diagnostics, fileCount, skipped } = await getDiagnostics(cwd, paths, sources);
+                const ran = sources.filter(s => !skipped[s]).map(s => SOURCE_LABELS[s]);
+                const notes = Object.entries(skipped).map(([source, reason]) =>
+                    `${SOURCE_LABELS[source as DiagnosticSource]} skipped: ${reason}`);
+
+                if (ran.length === 0) return `Error: ${notes.join('; ')}`;
+
+                const errors = diagnostics.filter(d => d.severity === 'error').length;
+                const warnings = diagnostics.length - errors;
+                const summary = diagnostics.length === 0
+                    ? `No problems found in ${fileCount} file${fileCount === 1 ? '' : 's'} (${ran.join(', ')}).`
+                    : `${errors} error${errors === 1 ? '' : 's'} and ${warnings} warning${warnings === 1 ? '' : 's'} in ${fileCount} checked file${fileCount === 1 ? '' : 's'} (${ran.join(', ')}).`;
+
+                const shown = diagnostics.slice(0, MAX_DIAGNOSTICS);
+                return [
+                    summary,
+                    ...notes,
+                    ...(shown.length > 0 ? ['', formatDiagnostics(shown)] : []),
+                    ...(diagnostics.length > shown.length ? [`\n(${diagnostics.length - shown.length} more not shown — check fewer files)`] : []),
+                ].join('\n');
+            } catch (err) {
+                return `Error running diagnostics: ${err instanceof Error ? err.message : String(err)}`;
+            }
+        },
+    });
+}
@@ -4,6 +4,7 @@ vi.mock('fs', () => ({
     existsSync: vi.fn(),
     readFileSync: vi.fn(),
     writeFileSync: vi.fn(),
+    realpathSync: vi.fn((p: string) => p),
 }));
 
 vi.mock('ai', () => ({
@@ -36,7 +37,7 @@ describe('createEditTool', () => {
 
     beforeEach(() => {
         vi.clearAllMocks();
-        const toolDef = createEditTool(cwd) as unknown as { execute: typeof execute };
+        const toolDef = createEditTool({ cwd, emitSSE: vi.fn(), confirmBash: false, confirmFileWrites: false }) as unknown as { execute: typeof execute };
         execute = toolDef.execute;
     });
 
@@ -108,11 +109,22 @@ describe('createEditTool', () => {
         mockReadFileSync.mockReturnValue('content');
 
         await execute({
-            file_path: '/absolute/path/file.ts',
+            file_path: '/project/src/file.ts',
             old_string: 'content',
             new_string: 'new content',
         });
 
-        expect(mockReadFileSync).toHaveBeenCalledWith('/absolute/path/file.ts', 'utf-8');
+        expect(mockReadFileSync).toHaveBeenCalledWith('/project/src/file.ts', 'utf-8');
+    });
+
+    it('rejects paths outside the project root', async () => {
+        mockExistsSync.mockReturnValue(true);
+        const result = await execute({
+            file_path: '/absolute/path/file.ts',
+            old_string: 'content',
+            new_string: 'new content',
+        });
+        expect(result).toContain('outside the project root');
+        expect(mockWriteFileSync).not.toHaveBeenCalled();
     });
 });
@@ -1,8 +1,10 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { resolve } from 'path';
 import { requestConfirmation, isAutoApproved } from '../confirm-store.js';
+import { evaluatePermission } from '../permissions.js';
+import { guardPath } from '../path-guard.js';
+import { recordFileBeforeWrite } from '../undo.js';
 import type { ToolContext } from './index.js';
 
 export function createEditTool(ctx: ToolContext) {
@@ -16,7 +18,16 @@ export function createEditTool(ctx: ToolContext) {
             replace_all: z.boolean().optional().default(false).describe('Replace all occurrences instead of just the first'),
         }),
         execute: async ({ file_path, old_string, new_string, replace_all }) => {
-            if (confirmFileWrites && !isAutoApproved('fileWrites')) {
+            // Check the path before asking the user about a write that can't happen
+            const guarded = guardPath(cwd, file_path, { write: true });
+            if (!guarded.ok) return guarded.error;
+
+            const permissionRequest = { tool: 'Edit', filePath: file_path };
+            const permission = evaluatePermission(cwd, permissionRequest);
+            if (permission === 'deny') {
+                return 'Error: Editing this file is denied by a rule in .awel/permissions.json. Do not retry it — try a different approach or ask the user for guidance.';
+            }
+            if (permission === 'ask' || (permission !== 'allow' && confirmFileWrites && !isAutoApproved('fileWrites'))) {
                 const confirmId = crypto.randomUUID();
                 const confirmData = JSON.stringify({
                     type: 'confirm',
@@ -27,7 +38,7 @@ export function createEditTool(ctx: ToolContext) {
                 });
                 emitSSE('confirm', confirmData);
 
-                const approved = await requestConfirmation(confirmId);
+                const approved = await requestConfirmation(confirmId, permissionRequest);
                 if (!approved) {
                     const resolvedData = JSON.stringify({
                         type: 'confirm_resolved',
@@ -46,7 +57,7 @@ export function createEditTool(ctx: ToolContext) {
                 emitSSE('confirm_resolved', resolvedData);
             }
 
-            const fullPath = file_path.startsWith('/') ? file_path : resolve(cwd, file_path);
+            const fullPath = guarded.path;
             if (!existsSync(fullPath)) {
                 return `Error: File not found: ${fullPath}`;
             }
@@ -58,6 +69,7 @@ export function createEditTool(ctx: ToolContext) {
                 const updated = replace_all
                     ? content.replaceAll(old_string, new_string)
                     : content.replace(old_string, new_string);
+                recordFileBeforeWrite(fullPath);
                 writeFileSync(fullPath, updated, 'utf-8');
                 return `Successfully edited ${file_path}`;
             } catch (err) {
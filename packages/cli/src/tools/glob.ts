@@ -1,6 +1,8 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import fg from 'fast-glob';
+import { guardPath } from '../path-guard.js';
+import { getIgnoredDirs } from '../settings.js';
 
 export function createGlobTool(cwd: string) {
     return tool({
@@ -10,12 +12,17 @@ export function createGlobTool(cwd: string) {
             path: z.string().optional().describe('Directory to search in (default: project root)'),
         }),
         execute: async ({ pattern, path }) => {
+            if (pattern.startsWith('/') || pattern.split('/').includes('..')) {
+                return 'Error: Glob patterns must be relative and stay inside the search directory. Use the path parameter to search elsewhere.';
+            }
+            const guarded = guardPath(cwd, path || '.');
+            if (!guarded.ok) return guarded.error;
             try {
-                const searchDir = path || cwd;
+                const searchDir = guarded.path;
                 const files = await fg(pattern, {
                     cwd: searchDir,
                     dot: false,
-                    ignore: ['**/node_modules/**', '**/.git/**', '**/dist/**'],
+                    ignore: getIgnoredDirs(cwd).map(d => `**/${d}/**`),
                 });
                 if (files.length === 0) {
                     return 'No files matched the pattern.';
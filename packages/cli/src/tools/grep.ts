@@ -2,14 +2,14 @@ import { tool } from 'ai';
 import { z } from 'zod';
 import { execSync } from 'child_process';
 import { readFileSync } from 'fs';
-import { resolve, relative } from 'path';
+import { relative } from 'path';
 import fg from 'fast-glob';
+import { guardPath } from '../path-guard.js';
+import { getIgnoredDirs } from '../settings.js';
 
 const MAX_RESULTS = 100;
 const MAX_LINE_LENGTH = 2000;
 
-const IGNORE_DIRS = ['node_modules', '.git', 'dist', 'build', '.next'];
-
 /** Check once at startup whether ripgrep is available. */
 let rgAvailable: boolean | null = null;
 function hasRipgrep(): boolean {
@@ -37,9 +37,9 @@ export function createGrepTool(cwd: string) {
             include: z.string().optional().describe('File glob filter (e.g. "*.ts", "*.{js,jsx,ts,tsx}")'),
         }),
         execute: async ({ pattern, path, include }) => {
-            const searchPath = path
-                ? (path.startsWith('/') ? path : resolve(cwd, path))
-                : cwd;
+            const guarded = guardPath(cwd, path || '.', { read: true });
+            if (!guarded.ok) return guarded.error;
+            const searchPath = guarded.path;
 
             if (hasRipgrep()) {
                 return searchWithRipgrep(cwd, pattern, searchPath, include);
@@ -57,7 +57,7 @@ function searchWithRipgrep(cwd: string, pattern: string, searchPath: string, inc
         '--max-count=5',
         '--hidden',
         '--follow',
-        ...IGNORE_DIRS.map(d => `--glob=!${d}`),
+        ...getIgnoredDirs(cwd).map(d => `--glob=!${d}`),
     ];
 
     if (include) {
@@ -75,7 +75,7 @@ function searchWithRipgrep(cwd: string, pattern: string, searchPath: string, inc
             maxBuffer: 2 * 1024 * 1024,
         });
 
-        return formatOutput(output);
+        return formatOutput(filterGuardedLines(cwd, output));
     } catch (err: unknown) {
         const execErr = err as { status?: number; stderr?: string; message?: string };
         if (execErr.status === 1) {
@@ -94,7 +94,7 @@ async function searchWithNode(cwd: string, pattern: string, searchPath: string,
     }
 
     const globPattern = include || '**/*';
-    const ignore = IGNORE_DIRS.map(d => `**/${d}/**`);
+    const ignore = getIgnoredDirs(cwd).map(d => `**/${d}/**`);
 
     let files: string[];
     try {
@@ -115,6 +115,7 @@ async function searchWithNode(cwd: string, pattern: string, searchPath: string,
 
     for (const filePath of files) {
         if (matchCount >= MAX_RESULTS) break;
+        if (!guardPath(cwd, filePath, { read: true }).ok) continue;
 
         let content: string;
         try {
@@ -149,6 +150,20 @@ async function searchWithNode(cwd: string, pattern: string, searchPath: string,
     return matches.join('\n');
 }
 
+/**
+ * Drops matches in files the path guard rejects — secret files, and files
+ * reached through symlinks that lead outside the project.
+ */
+function filterGuardedLines(cwd: string, output: string): string {
+    const allowed = new Map<string, boolean>();
+    return output.split('\n').filter(line => {
+        const file = line.match(/^(.+?):\d+:/)?.[1];
+        if (!file) return true;
+        if (!allowed.has(file)) allowed.set(file, guardPath(cwd, file, { read: true }).ok);
+        return allowed.get(file);
+    }).join('\n');
+}
+
 function formatOutput(output: string): string {
     const lines = output.split('\n').filter(Boolean);
     const truncated = lines.slice(0, MAX_RESULTS).map(line =>
@@ -2,6 +2,8 @@ import { createReadTool } from './read.js';
 import { createWriteTool } from './write.js';
 import { createEditTool } from './edit.js';
 import { createBashTool } from './bash.js';
+import { createBashOutputTool } from './bash-output.js';
+import { createKillShellTool } from './kill-shell.js';
 import { createGlobTool } from './glob.js';
 import { createLsTool } from './ls.js';
 import { createProposePlanTool } from './propose-plan.js';
@@ -14,7 +16,12 @@ import { createCodeSearchTool } from './code-search.js';
 import { createMultiEditTool } from './multi-edit.js';
 import { createTodoReadTool, createTodoWriteTool } from './todo.js';
 import { createRestartDevServerTool } from './restart-dev-server.js';
+import { createServerLogsTool } from './server-logs.js';
+import { createDiagnosticsTool } from './diagnostics.js';
+import { createFindDefinitionTool, createFindReferencesTool, createListSymbolsTool } from './code-navigation.js';
+import { createSemanticSearchTool } from './semantic-search.js';
 import { createMemoryTool } from './memory.js';
+import { getMcpTools } from '../mcp.js';
 
 export interface ToolContext {
     cwd: string;
@@ -26,6 +33,7 @@ export interface ToolContext {
 /**
  * Returns all agentic tools configured for the given project directory.
  * Tool names use PascalCase to match Claude Code tool names for consistent SSE events.
+ * Tools from connected MCP servers are appended as `mcp__<server>__<tool>`.
  */
 export function awelTools(ctx: ToolContext) {
     const { cwd } = ctx;
@@ -35,8 +43,14 @@ export function awelTools(ctx: ToolContext) {
         Edit: createEditTool(ctx),
         MultiEdit: createMultiEditTool(ctx),
         Bash: createBashTool(ctx),
+        BashOutput: createBashOutputTool(),
+        KillShell: createKillShellTool(),
         Glob: createGlobTool(cwd),
         Grep: createGrepTool(cwd),
+        FindDefinition: createFindDefinitionTool(cwd),
+        FindReferences: createFindReferencesTool(cwd),
+        ListSymbols: createListSymbolsTool(cwd),
+        SemanticSearch: createSemanticSearchTool(cwd),
         Ls: createLsTool(cwd),
         ProposePlan: createProposePlanTool(),
         AskUser: createAskUserTool(),
@@ -47,6 +61,9 @@ export function awelTools(ctx: ToolContext) {
         TodoRead: createTodoReadTool(),
         TodoWrite: createTodoWriteTool(),
         RestartDevServer: createRestartDevServerTool(),
+        ServerLogs: createServerLogsTool(),
+        Diagnostics: createDiagnosticsTool(cwd),
         Memory: createMemoryTool(cwd),
+        ...getMcpTools(ctx),
     };
 }
@@ -0,0 +1,18 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { killBackgroundShell } from '../shells.js';
+
+export function createKillShellTool() {
+    return tool({
+        description: 'Stop a background shell started with Bash run_in_background, including any processes it spawned.',
+        inputSchema: z.object({
+            shell_id: z.string().describe('The shell id returned by Bash, e.g. "bash_1"'),
+        }),
+        execute: async ({ shell_id }) => {
+            if (!killBackgroundShell(shell_id)) {
+                return `Error: No background shell with id ${shell_id}.`;
+            }
+            return `Stopped background shell ${shell_id}.`;
+        },
+    });
+}
@@ -1,7 +1,8 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { readdirSync, statSync } from 'fs';
-import { resolve, join } from 'path';
+import { join } from 'path';
+import { guardPath } from '../path-guard.js';
 
 export function createLsTool(cwd: string) {
     return tool({
@@ -10,7 +11,9 @@ export function createLsTool(cwd: string) {
             path: z.string().optional().default('.').describe('Directory path to list (default: project root)'),
         }),
         execute: async ({ path }) => {
-            const fullPath = path.startsWith('/') ? path : resolve(cwd, path);
+            const guarded = guardPath(cwd, path);
+            if (!guarded.ok) return guarded.error;
+            const fullPath = guarded.path;
             try {
                 const entries = readdirSync(fullPath);
                 const results = entries.map(name => {
@@ -1,8 +1,10 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { resolve } from 'path';
 import { requestConfirmation, isAutoApproved } from '../confirm-store.js';
+import { evaluatePermission } from '../permissions.js';
+import { guardPath } from '../path-guard.js';
+import { recordFileBeforeWrite } from '../undo.js';
 import type { ToolContext } from './index.js';
 
 export function createMultiEditTool(ctx: ToolContext) {
@@ -21,7 +23,16 @@ export function createMultiEditTool(ctx: ToolContext) {
             })).min(1).describe('List of edits to apply sequentially'),
         }),
         execute: async ({ file_path, edits }) => {
-            if (confirmFileWrites && !isAutoApproved('fileWrites')) {
+            // Check the path before asking the user about a write that can't happen
+            const guarded = guardPath(cwd, file_path, { write: true });
+            if (!guarded.ok) return guarded.error;
+
+            const permissionRequest = { tool: 'MultiEdit', filePath: file_path };
+            const permission = evaluatePermission(cwd, permissionRequest);
+            if (permission === 'deny') {
+                return 'Error: Editing this file is denied by a rule in .awel/permissions.json. Do not retry it — try a different approach or ask the user for guidance.';
+            }
+            if (permission === 'ask' || (permission !== 'allow' && confirmFileWrites && !isAutoApproved('fileWrites'))) {
                 const confirmId = crypto.randomUUID();
                 const confirmData = JSON.stringify({
                     type: 'confirm',
@@ -32,7 +43,7 @@ export function createMultiEditTool(ctx: ToolContext) {
                 });
                 emitSSE('confirm', confirmData);
 
-                const approved = await requestConfirmation(confirmId);
+                const approved = await requestConfirmation(confirmId, permissionRequest);
                 if (!approved) {
                     const resolvedData = JSON.stringify({
                         type: 'confirm_resolved',
@@ -51,7 +62,7 @@ export function createMultiEditTool(ctx: ToolContext) {
                 emitSSE('confirm_resolved', resolvedData);
             }
 
-            const fullPath = file_path.startsWith('/') ? file_path : resolve(cwd, file_path);
+            const fullPath = guarded.path;
 
             if (!existsSync(fullPath)) {
                 return `Error: File not found: ${fullPath}`;
@@ -76,6 +87,7 @@ export function createMultiEditTool(ctx: ToolContext) {
                     results.push(`Edit ${i + 1}: applied`);
                 }
 
+                recordFileBeforeWrite(fullPath);
                 writeFileSync(fullPath, content, 'utf-8');
 
                 const applied = results.filter(r => r.endsWith('applied')).length;
@@ -3,6 +3,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 vi.mock('fs', () => ({
     existsSync: vi.fn(),
     readFileSync: vi.fn(),
+    realpathSync: vi.fn((p: string) => p),
 }));
 
 // Mock zod to avoid ESM import issues with the ai package
@@ -45,9 +46,22 @@ describe('createReadTool', () => {
     it('reads a file with absolute path', async () => {
         mockExistsSync.mockReturnValue(true);
         mockReadFileSync.mockReturnValue('abs content');
-        const result = await execute({ file_path: '/other/path/file.ts' });
+        const result = await execute({ file_path: '/project/lib/file.ts' });
         expect(result).toBe('abs content');
-        expect(mockReadFileSync).toHaveBeenCalledWith('/other/path/file.ts', 'utf-8');
+        expect(mockReadFileSync).toHaveBeenCalledWith('/project/lib/file.ts', 'utf-8');
+    });
+
+    it('rejects paths outside the project root', async () => {
+        mockExistsSync.mockReturnValue(true);
+        const result = await execute({ file_path: '/other/path/file.ts' });
+        expect(result).toContain('outside the project root');
+        expect(mockReadFileSync).not.toHaveBeenCalledWith('/other/path/file.ts', 'utf-8');
+    });
+
+    it('blocks secret files', async () => {
+        mockExistsSync.mockReturnValue(false);
+        const result = await execute({ file_path: '.env.local' });
+        expect(result).toContain('may contain secrets');
     });
 
     it('returns error when file not found', async () => {
@@ -1,7 +1,7 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { readFileSync, existsSync } from 'fs';
-import { resolve } from 'path';
+import { guardPath } from '../path-guard.js';
 
 export function createReadTool(cwd: string) {
     return tool({
@@ -10,7 +10,9 @@ export function createReadTool(cwd: string) {
             file_path: z.string().describe('The path to the file to read (absolute or relative to project root)'),
         }),
         execute: async ({ file_path }) => {
-            const fullPath = file_path.startsWith('/') ? file_path : resolve(cwd, file_path);
+            const guarded = guardPath(cwd, file_path, { read: true });
+            if (!guarded.ok) return guarded.error;
+            const fullPath = guarded.path;
             if (!existsSync(fullPath)) {
                 return `Error: File not found: ${fullPath}`;
             }
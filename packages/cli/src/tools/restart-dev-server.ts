@@ -4,7 +4,7 @@ import { restartDevServer } from '../subprocess.js';
 
 export function createRestartDevServerTool() {
     return tool({
-        description: 'Restart the user\'s dev server (Next.js). Use when the dev server has crashed, is unresponsive, or needs a restart after config changes.',
+        description: 'Restart the user\'s dev server. Use when the dev server has crashed, is unresponsive, or needs a restart after config changes.',
         inputSchema: z.object({
             reason: z.string().optional().describe('Why the restart is needed (for logging)'),
         }),
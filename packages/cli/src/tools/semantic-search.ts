@@ -0,0 +1,46 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { guardPath } from '../path-guard.js';
+import { searchCode } from '../code-index.js';
+
+const MAX_LINES_PER_RESULT = 30;
+
+export function createSemanticSearchTool(cwd: string) {
+    return tool({
+        description:
+            'Search the project\'s own code by describing what you are looking for in plain words ' +
+            '(e.g. "where the cart total is calculated", "login form validation"). ' +
+            'Returns the most relevant components, functions and types with their code, from a local index of the project. ' +
+            'Use it when you don\'t know the names involved; use Grep for exact strings and FindDefinition for known names.',
+        inputSchema: z.object({
+            query: z.string().min(1).describe('What the code does or is about'),
+            path: z.string().optional().describe('Only search files under this directory (default: project root)'),
+            limit: z.number().int().min(1).max(20).optional().describe('Number of results (default: 8)'),
+        }),
+        execute: async ({ query, path, limit }) => {
+            let dir: string | undefined;
+            if (path) {
+                const guarded = guardPath(cwd, path, { read: true });
+                if (!guarded.ok) return guarded.error;
+                dir = guarded.path;
+            }
+            try {
+                const search = await searchCode(cwd, query, { limit, path: dir });
+                if (typeof search === 'string') return `Error: ${search}`;
+                if (search.chunkCount === 0) return 'The code index is empty: no TypeScript or JavaScript source found.';
+                if (search.results.length === 0) return `No code matching "${query}".`;
+
+                const ranking = search.model ? `embeddings, ${search.model}` : 'keyword ranking';
+                const results = search.results.map(({ chunk }) => {
+                    const lines = chunk.text.split('\n');
+                    const shown = lines.slice(0, MAX_LINES_PER_RESULT).join('\n');
+                    const more = lines.length > MAX_LINES_PER_RESULT ? `\n    (${lines.length - MAX_LINES_PER_RESULT} more lines)` : '';
+                    return `${chunk.file}:${chunk.startLine}-${chunk.endLine}  ${chunk.kind} ${chunk.name}\n\`\`\`\n${shown}\n\`\`\`${more}`;
+                });
+                return `${search.results.length} result${search.results.length === 1 ? '' : 's'} (${ranking}):\n\n${results.join('\n\n')}`;
+            } catch (err) {
+                return `Error searching code: ${err instanceof Error ? err.message : String(err)}`;
+            }
+        },
+    });
+}
@@ -0,0 +1,32 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { getDevServerLogs, formatDevServerLogs } from '../dev-server-logs.js';
+import { getDevServerStatus } from '../subprocess.js';
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 200;
+
+export function createServerLogsTool() {
+    return tool({
+        description:
+            'Read recent output of the user\'s dev server: compile errors, server-side exceptions, warnings and request logs. ' +
+            'Use after edits to check the app still compiles, or when a page fails with a server error.',
+        inputSchema: z.object({
+            level: z.enum(['error', 'warning', 'info']).optional().default('warning')
+                .describe('Minimum level: "error" for errors only, "warning" for errors and warnings (default), "info" for everything'),
+            kind: z.enum(['compile', 'runtime', 'request', 'output']).optional()
+                .describe('Only entries of this kind'),
+            limit: z.number().int().min(1).max(MAX_LIMIT).optional().default(DEFAULT_LIMIT)
+                .describe(`Most recent entries to return (default ${DEFAULT_LIMIT})`),
+        }),
+        execute: async ({ level, kind, limit }) => {
+            const { status, lastError } = getDevServerStatus();
+            const header = `Dev server: ${status}${lastError && status === 'crashed' ? ` (${lastError})` : ''}`;
+            const logs = getDevServerLogs({ level, kind, limit });
+            if (logs.length === 0) {
+                return `${header}\nNo ${level === 'info' ? '' : `${level}-level `}dev server output${kind ? ` of kind ${kind}` : ''}.`;
+            }
+            return `${header}\n\n${formatDevServerLogs(logs)}`;
+        },
+    });
+}
@@ -1,9 +1,11 @@
 import { tool } from 'ai';
 import { z } from 'zod';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
 
 /**
- * Simple in-memory todo store scoped to the current server session.
- * Resets when the Awel server restarts.
+ * Todo store scoped to the current chat thread, saved as todos.json in
+ * the thread's directory.
  */
 interface TodoItem {
     id: number;
@@ -13,6 +15,36 @@ interface TodoItem {
 
 let todos: TodoItem[] = [];
 let nextId = 1;
+let _todosDir: string | null = null;
+
+function saveTodos(): void {
+    if (!_todosDir) return;
+    try {
+        if (!existsSync(_todosDir)) mkdirSync(_todosDir, { recursive: true });
+        writeFileSync(join(_todosDir, 'todos.json'), JSON.stringify(todos, null, 2) + '\n', 'utf-8');
+    } catch {
+        // Non-critical — the list still works in memory
+    }
+}
+
+/**
+ * Loads the todo list of a thread directory. Called on startup and
+ * whenever the current thread changes.
+ */
+export function initTodos(dir: string): void {
+    _todosDir = dir;
+    todos = [];
+    const filePath = join(dir, 'todos.json');
+    if (existsSync(filePath)) {
+        try {
+            const parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+            if (Array.isArray(parsed)) todos = parsed;
+        } catch {
+            // Corrupt file — start with an empty list
+        }
+    }
+    nextId = Math.max(0, ...todos.map(t => t.id)) + 1;
+}
 
 export function createTodoReadTool() {
     return tool({
@@ -69,6 +101,7 @@ export function createTodoWriteTool() {
             if (nextId <= maxId) {
                 nextId = maxId + 1;
             }
+            saveTodos();
 
             const pending = todos.filter(t => t.status === 'pending').length;
             const inProgress = todos.filter(t => t.status === 'in_progress').length;
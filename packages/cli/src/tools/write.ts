@@ -1,8 +1,11 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { writeFileSync, mkdirSync } from 'fs';
-import { resolve, dirname } from 'path';
+import { dirname } from 'path';
 import { requestConfirmation, isAutoApproved } from '../confirm-store.js';
+import { evaluatePermission } from '../permissions.js';
+import { guardPath } from '../path-guard.js';
+import { recordFileBeforeWrite } from '../undo.js';
 import type { ToolContext } from './index.js';
 
 export function createWriteTool(ctx: ToolContext) {
@@ -14,7 +17,16 @@ export function createWriteTool(ctx: ToolContext) {
             content: z.string().describe('The content to write to the file'),
         }),
         execute: async ({ file_path, content }) => {
-            if (confirmFileWrites && !isAutoApproved('fileWrites')) {
+            // Check the path before asking the user about a write that can't happen
+            const guarded = guardPath(cwd, file_path, { write: true });
+            if (!guarded.ok) return guarded.error;
+
+            const permissionRequest = { tool: 'Write', filePath: file_path };
+            const permission = evaluatePermission(cwd, permissionRequest);
+            if (permission === 'deny') {
+                return 'Error: Writing to this file is denied by a rule in .awel/permissions.json. Do not retry it — try a different approach or ask the user for guidance.';
+            }
+            if (permission === 'ask' || (permission !== 'allow' && confirmFileWrites && !isAutoApproved('fileWrites'))) {
                 const confirmId = crypto.randomUUID();
                 const preview = content.length > 2000 ? content.slice(0, 2000) + '\n... (truncated)' : content;
                 const confirmData = JSON.stringify({
@@ -26,7 +38,7 @@ export function createWriteTool(ctx: ToolContext) {
                 });
                 emitSSE('confirm', confirmData);
 
-                const approved = await requestConfirmation(confirmId);
+                const approved = await requestConfirmation(confirmId, permissionRequest);
                 if (!approved) {
                     const resolvedData = JSON.stringify({
                         type: 'confirm_resolved',
@@ -45,9 +57,10 @@ export function createWriteTool(ctx: ToolContext) {
                 emitSSE('confirm_resolved', resolvedData);
             }
 
-            const fullPath = file_path.startsWith('/') ? file_path : resolve(cwd, file_path);
+            const fullPath = guarded.path;
             try {
                 mkdirSync(dirname(fullPath), { recursive: true });
+                recordFileBeforeWrite(fullPath);
                 writeFileSync(fullPath, content, 'utf-8');
                 return `Successfully wrote to ${file_path}`;
             } catch (err) {
@@ -17,3 +17,29 @@ export interface SelectedElement {
     sourceSnippet?: string | null;
     propsTypeDefinition?: string | null;
 }
+
+// ─── Browser Context Types ───────────────────────────────────
+
+export interface BrowserConsoleEntry {
+    level: string;
+    message: string;
+    source?: string;
+    line?: number;
+    column?: number;
+    sourceTrace?: { source: string; line?: number }[];
+    stack?: string;
+    timestamp?: number;
+    count: number;
+}
+
+export interface BrowserPageContext {
+    url: string;
+    title: string;
+    routeComponent?: string;
+}
+
+export interface BrowserScreenshot {
+    /** PNG data URL */
+    dataUrl: string;
+    capturedAt: number;
+}
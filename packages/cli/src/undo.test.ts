@@ -1,5 +1,22 @@
-import { describe, it, expect } from 'vitest';
-import { countLineStats } from './undo.js';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    countLineStats,
+    detectConflicts,
+    getRedoableFiles,
+    initUndoHistory,
+    startUndoSession,
+    endUndoSession,
+    getCurrentSessionStats,
+    revertSession,
+    redoSession,
+    detectRevertSessionsConflicts,
+    revertSessions,
+} from './undo.js';
+import type { UndoTimelineEntry } from './undo.js';
 
 describe('countLineStats', () => {
     it('returns zero changes for identical content', () => {
@@ -54,3 +71,146 @@ describe('countLineStats', () => {
         expect(result.deletions).toBe(1);
     });
 });
+
+describe('detectConflicts', () => {
+    function entry(id: string, files: string[], status: UndoTimelineEntry['status'] = 'applied'): UndoTimelineEntry {
+        return { id, label: id, createdAt: 0, baseline: 'abc', files, revertedFiles: [], redoSnapshots: [], status };
+    }
+
+    it('returns no conflicts when later sessions touched other files', () => {
+        const entries = [entry('a', ['src/a.ts']), entry('b', ['src/b.ts'])];
+        expect(detectConflicts(entries, 'a', ['src/a.ts'])).toEqual([]);
+    });
+
+    it('reports later applied sessions that touched the same file', () => {
+        const entries = [entry('a', ['src/a.ts', 'src/b.ts']), entry('b', ['src/b.ts']), entry('c', ['src/b.ts'])];
+        expect(detectConflicts(entries, 'a', ['src/a.ts', 'src/b.ts'])).toEqual([
+            { file: 'src/b.ts', sessionIds: ['b', 'c'] },
+        ]);
+    });
+
+    it('ignores earlier and reverted sessions', () => {
+        const entries = [entry('a', ['src/a.ts']), entry('b', ['src/a.ts']), entry('c', ['src/a.ts'], 'reverted')];
+        expect(detectConflicts(entries, 'b', ['src/a.ts'])).toEqual([]);
+    });
+
+    it('returns no conflicts for an unknown session', () => {
+        expect(detectConflicts([entry('a', ['src/a.ts'])], 'missing', ['src/a.ts'])).toEqual([]);
+    });
+});
+
+describe('getRedoableFiles', () => {
+    it('only returns reverted files that have a snapshot', () => {
+        const entry: UndoTimelineEntry = {
+            id: 'a',
+            label: 'a',
+            createdAt: 0,
+            baseline: 'abc',
+            files: ['src/c.ts'],
+            revertedFiles: ['src/a.ts', 'src/b.ts'],
+            redoSnapshots: [{ treeRef: 'def', files: ['src/a.ts'] }],
+            status: 'applied',
+        };
+        expect(getRedoableFiles(entry)).toEqual(['src/a.ts']);
+    });
+});
+
+describe('snapshot backend', () => {
+    it('undoes changes in a project that is not a git repository', () => {
+        const projectCwd = mkdtempSync(join(tmpdir(), 'awel-undo-'));
+        writeFileSync(join(projectCwd, 'page.tsx'), 'before');
+        initUndoHistory(projectCwd);
+
+        const sessionId = startUndoSession(projectCwd, 'change page');
+        writeFileSync(join(projectCwd, 'page.tsx'), 'after');
+        writeFileSync(join(projectCwd, 'new.tsx'), 'created');
+        expect(getCurrentSessionStats(projectCwd)?.map(f => f.relativePath).sort()).toEqual(['new.tsx', 'page.tsx']);
+        endUndoSession();
+
+        expect(revertSession(projectCwd, sessionId)).toMatchObject({ success: true });
+        expect(readFileSync(join(projectCwd, 'page.tsx'), 'utf-8')).toBe('before');
+        expect(existsSync(join(projectCwd, 'new.tsx'))).toBe(false);
+    });
+});
+
+describe('git backend', () => {
+    let projectCwd: string;
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: projectCwd, stdio: 'pipe' }).toString().trim();
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-undo-git-'));
+        git('init', '-q');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        writeFileSync(join(projectCwd, 'page.tsx'), 'committed');
+        git('add', '.');
+        git('commit', '-q', '-m', 'init');
+        // Uncommitted at session start, so the baseline is a dangling stash commit
+        writeFileSync(join(projectCwd, 'page.tsx'), 'before');
+        initUndoHistory(projectCwd);
+    });
+
+    function runSession(): string {
+        const sessionId = startUndoSession(projectCwd, 'change page');
+        writeFileSync(join(projectCwd, 'page.tsx'), 'after');
+        endUndoSession();
+        return sessionId;
+    }
+
+    it('pins baselines and redo trees so git gc keeps them', () => {
+        const sessionId = runSession();
+        git('gc', '-q', '--prune=now');
+
+        expect(revertSession(projectCwd, sessionId)).toMatchObject({ success: true });
+        expect(readFileSync(join(projectCwd, 'page.tsx'), 'utf-8')).toBe('before');
+
+        git('gc', '-q', '--prune=now');
+        expect(redoSession(projectCwd, sessionId)).toMatchObject({ success: true });
+        expect(readFileSync(join(projectCwd, 'page.tsx'), 'utf-8')).toBe('after');
+        expect(git('for-each-ref', '--format=%(refname)', 'refs/awel/undo')).toContain(`refs/awel/undo/${sessionId}/`);
+    });
+
+    it('does not redo over edits made after the undo unless forced', () => {
+        const sessionId = runSession();
+        expect(revertSession(projectCwd, sessionId)).toMatchObject({ success: true });
+        writeFileSync(join(projectCwd, 'page.tsx'), 'edited by hand');
+
+        expect(redoSession(projectCwd, sessionId)).toEqual({
+            success: false,
+            error: 'These files changed after they were undone',
+            conflicts: [{ file: 'page.tsx', sessionIds: [] }],
+        });
+        expect(readFileSync(join(projectCwd, 'page.tsx'), 'utf-8')).toBe('edited by hand');
+
+        expect(redoSession(projectCwd, sessionId, true)).toMatchObject({ success: true });
+        expect(readFileSync(join(projectCwd, 'page.tsx'), 'utf-8')).toBe('after');
+    });
+
+    it('reverts a set of sessions, reporting changes made outside it first', () => {
+        const mine = runSession();
+        expect(detectRevertSessionsConflicts(projectCwd, [mine])).toEqual([]);
+
+        writeFileSync(join(projectCwd, 'page.tsx'), 'edited by hand');
+        expect(detectRevertSessionsConflicts(projectCwd, [mine])).toEqual([{ file: 'page.tsx', sessionIds: [] }]);
+
+        const other = startUndoSession(projectCwd, 'another thread');
+        writeFileSync(join(projectCwd, 'page.tsx'), 'other');
+        endUndoSession();
+        expect(detectRevertSessionsConflicts(projectCwd, [mine])).toEqual([{ file: 'page.tsx', sessionIds: [other] }]);
+        expect(detectRevertSessionsConflicts(projectCwd, [mine, other])).toEqual([]);
+
+        expect(revertSessions(projectCwd, [mine, other])).toEqual(['page.tsx']);
+        expect(readFileSync(join(projectCwd, 'page.tsx'), 'utf-8')).toBe('before');
+    });
+
+    it('refuses to revert instead of deleting files when the baseline is gone', () => {
+        const sessionId = runSession();
+        const refs = git('for-each-ref', '--format=%(refname)', 'refs/awel/undo').split('\n');
+        for (const ref of refs) git('update-ref', '-d', ref);
+        git('reflog', 'expire', '--expire=now', '--all');
+        git('gc', '-q', '--prune=now');
+
+        expect(revertSession(projectCwd, sessionId)).toEqual({ success: false, error: expect.stringContaining('no longer available') });
+        expect(readFileSync(join(projectCwd, 'page.tsx'), 'utf-8')).toBe('after');
+    });
+});
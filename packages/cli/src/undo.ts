@@ -1,32 +1,116 @@
 import { Hono } from 'hono';
-import { existsSync, readFileSync, writeFileSync, unlinkSync } from 'fs';
-import { execSync } from 'child_process';
-import { relative, join } from 'path';
+import { existsSync, readFileSync, writeFileSync, unlinkSync, mkdirSync, readdirSync, statSync } from 'fs';
+import { execSync, execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import { tmpdir } from 'os';
+import { relative, join, dirname, isAbsolute } from 'path';
+import { getIgnoredDirs } from './settings.js';
 
+// ─── Undo Timeline ───────────────────────────────────────────
+// Every agent run that changes files becomes an entry on the undo
+// timeline. Entries are persisted to .awel/undo.json so they survive
+// `awel dev` restarts, and any entry (not just the latest) can be
+// reverted — as a whole or file by file. Reverts snapshot the files'
+// post-session content first so they can be redone.
+//
+// Git projects use git objects for baselines and snapshots. Projects that
+// are not git repositories fall back to a file-snapshot backend: pre-images
+// come from a directory scan at session start plus the file tools, and are
+// stored as content-addressed blobs under .awel/undo/.
+
+/**
+ * The in-flight session for the current agent run. Only lives in memory;
+ * it is promoted to a timeline entry at endUndoSession() if files changed.
+ */
 interface UndoSession {
+    id: string;
     projectCwd: string;
-    gitBaseline: string;
-    /** Relative paths of untracked files at session start */
+    backend: 'git' | 'snapshot';
+    /** A git ref, or a `snapshot:` ref written when the session ends */
+    baseline: string;
+    /** Relative paths of untracked files at session start (git backend) */
     untrackedAtStart: Set<string>;
-    /** Relative paths of files changed during session (populated at endUndoSession) */
-    changedFiles: string[] | null;
+    /** mtime/size stamps from the start-of-session scan (snapshot backend) */
+    stampsAtStart: Map<string, string>;
+    /** Known pre-session content; null means the file did not exist (snapshot backend) */
+    preImages: Map<string, string | null>;
+    label: string;
+    createdAt: number;
 }
 
-/**
- * Session-based undo groups.
- * Each session ID maps to a session with a git baseline.
- */
-const undoGroups: Map<string, UndoSession> = new Map();
+export type UndoEntryStatus = 'applied' | 'reverted';
 
 /**
- * Stack of session IDs in LIFO order for undo operations.
+ * A git tree (or `snapshot:` ref) holding the content of `files` just before
+ * they were reverted. Files absent from it did not exist at that point.
  */
-const sessionStack: string[] = [];
+export interface RedoSnapshot {
+    treeRef: string;
+    files: string[];
+    /** The ref the revert restored the files to; redo checks they still match it */
+    revertedTo?: string;
+}
+
+export interface UndoTimelineEntry {
+    id: string;
+    /** Short description of the run (usually the user's prompt) */
+    label: string;
+    createdAt: number;
+    /** Git ref or `snapshot:` ref holding the pre-session content */
+    baseline: string;
+    /** Relative paths changed by this session that are still applied */
+    files: string[];
+    /** Relative paths that were reverted individually or as part of a session revert */
+    revertedFiles: string[];
+    /** Snapshots taken at revert time, used to reapply reverted files */
+    redoSnapshots: RedoSnapshot[];
+    /** When the session (or one of its files) was last reverted */
+    revertedAt?: number;
+    /** The agent's closing text for the run, used for commit messages */
+    summary?: string;
+    /** Commit created from this session via /api/git/commit */
+    commit?: string;
+    /**
+     * SHA-1 of each changed file as the session left it (null when it
+     * deleted the file), used to notice edits made after the session
+     */
+    contentHashes?: Record<string, string | null>;
+    status: UndoEntryStatus;
+}
+
+export interface UndoConflict {
+    file: string;
+    /** Later applied sessions that also touched this file */
+    sessionIds: string[];
+}
+
+export type RevertResult =
+    | { success: true; restored: string[] }
+    | { success: false; error: string; conflicts?: UndoConflict[] };
+
+export type RedoResult = RevertResult;
+
+const MAX_TIMELINE_ENTRIES = 50;
+const MAX_LABEL_LENGTH = 200;
+const MAX_SUMMARY_LENGTH = 2000;
+
+const SNAPSHOT_REF_PREFIX = 'snapshot:';
+/** Git refs that keep the timeline's baselines and redo trees from being garbage collected */
+const UNDO_REF_PREFIX = 'refs/awel/undo/';
+const MISSING_SNAPSHOT_ERROR = 'The saved copy of these files is no longer available (it may have been removed by git gc), so they were left as they are';
+const MAX_SCAN_FILES = 10_000;
+const MAX_SNAPSHOT_FILE_BYTES = 1024 * 1024; // 1MB
+const MAX_SNAPSHOT_TOTAL_BYTES = 50 * 1024 * 1024; // 50MB
+
+/** Timeline ordered oldest → newest. */
+let timeline: UndoTimelineEntry[] = [];
 
 /**
- * The currently active session ID.
+ * The currently active session.
  */
-let currentSessionId: string | null = null;
+let currentSession: UndoSession | null = null;
+
+let _projectCwd: string | null = null;
 
 /**
  * Generates a unique session ID.
@@ -35,6 +119,53 @@ function generateSessionId(): string {
     return `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 }
 
+// ─── Disk Persistence ────────────────────────────────────────
+
+function timelinePath(): string | null {
+    if (!_projectCwd) return null;
+    return join(_projectCwd, '.awel', 'undo.json');
+}
+
+function saveToDisk(): void {
+    const filePath = timelinePath();
+    if (!filePath) return;
+    try {
+        const dir = join(_projectCwd!, '.awel');
+        if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+        writeFileSync(filePath, JSON.stringify({ sessions: timeline }, null, 2) + '\n', 'utf-8');
+    } catch {
+        // Non-critical — the timeline is lost on restart but undo still works in-process
+    }
+    syncGitRefs();
+}
+
+/**
+ * Initialize undo persistence. Restores the timeline from disk.
+ * Must be called before the server starts.
+ */
+export function initUndoHistory(projectCwd: string): void {
+    _projectCwd = projectCwd;
+    timeline = [];
+    const filePath = timelinePath();
+    if (!filePath || !existsSync(filePath)) return;
+    try {
+        const parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+        if (Array.isArray(parsed?.sessions)) {
+            timeline = parsed.sessions.slice(-MAX_TIMELINE_ENTRIES).map((e: UndoTimelineEntry & { gitBaseline?: string }) => ({
+                ...e,
+                baseline: e.baseline ?? e.gitBaseline,
+                redoSnapshots: Array.isArray(e.redoSnapshots) ? e.redoSnapshots : [],
+            }));
+        }
+    } catch {
+        // Corrupt file — start fresh
+    }
+    // Pins baselines of timelines saved before they were pinned
+    syncGitRefs();
+}
+
+// ─── Git Helpers ─────────────────────────────────────────────
+
 /**
  * Captures a git baseline ref for the current working tree state.
  * Uses `git stash create` which creates a commit object without actually
@@ -70,11 +201,32 @@ function getUntrackedFiles(projectCwd: string): Set<string> {
     }
 }
 
+function gitObjectExists(projectCwd: string, gitRef: string): boolean {
+    try {
+        execFileSync('git', ['cat-file', '-e', gitRef], { cwd: projectCwd, stdio: 'pipe' });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function gitTreeHasPath(projectCwd: string, gitRef: string, relPath: string): boolean {
+    try {
+        return execFileSync('git', ['ls-tree', '--name-only', gitRef, '--', relPath], { cwd: projectCwd, stdio: 'pipe' })
+            .toString().trim() !== '';
+    } catch {
+        return false;
+    }
+}
+
 /**
  * Gets the content of a file at a given git ref.
- * Returns null if the file doesn't exist at that ref.
+ * Returns null if the file doesn't exist at that ref, and throws when the
+ * ref's objects are gone — that must not read as "the file did not exist",
+ * or a restore would delete it.
  */
 function getFileAtRef(projectCwd: string, gitRef: string, relPath: string): string | null {
+    if (isSnapshotRef(gitRef)) return getFileAtSnapshot(gitRef, relPath);
     try {
         return execSync(`git show ${gitRef}:${relPath}`, {
             cwd: projectCwd,
@@ -82,21 +234,101 @@ function getFileAtRef(projectCwd: string, gitRef: string, relPath: string): stri
             maxBuffer: 10 * 1024 * 1024, // 10MB
         }).toString();
     } catch {
+        if (!gitObjectExists(projectCwd, gitRef) || gitTreeHasPath(projectCwd, gitRef, relPath)) {
+            throw new Error(MISSING_SNAPSHOT_ERROR);
+        }
         return null; // File didn't exist at that ref
     }
 }
 
+/** Baseline content for display; a missing snapshot shows as no content */
+function getFileAtRefOrNull(projectCwd: string, gitRef: string, relPath: string): string | null {
+    try {
+        return getFileAtRef(projectCwd, gitRef, relPath);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether the content saved under a baseline or redo ref can still be read.
+ */
+function isRefAvailable(projectCwd: string, ref: string): boolean {
+    if (isSnapshotRef(ref)) return !!_projectCwd && existsSync(manifestPath(ref.slice(SNAPSHOT_REF_PREFIX.length)));
+    return gitObjectExists(projectCwd, ref);
+}
+
+/**
+ * Pins every git object the timeline refers to under
+ * refs/awel/undo/<session>/<object>, since `git stash create` and
+ * `git write-tree` leave them dangling and `git gc` would remove them.
+ * Refs of entries that left the timeline are deleted.
+ */
+function syncGitRefs(): void {
+    if (!_projectCwd) return;
+    const wanted = new Map<string, string>();
+    for (const entry of timeline) {
+        for (const ref of [entry.baseline, ...entry.redoSnapshots.flatMap(r => [r.treeRef, r.revertedTo ?? ''])]) {
+            if (ref && !isSnapshotRef(ref)) wanted.set(`${UNDO_REF_PREFIX}${entry.id}/${ref}`, ref);
+        }
+    }
+    try {
+        const options = { cwd: _projectCwd, stdio: 'pipe' as const };
+        const existing = execFileSync('git', ['for-each-ref', '--format=%(refname)', UNDO_REF_PREFIX.slice(0, -1)], options)
+            .toString().split('\n').filter(Boolean);
+        const commands = existing.filter(name => !wanted.has(name)).map(name => `delete ${name}\n`);
+
+        const pinned = new Set(existing);
+        const toPin = [...wanted].filter(([name]) => !pinned.has(name));
+        if (toPin.length > 0) {
+            // An object that is already gone would fail the whole update
+            const found = execFileSync('git', ['cat-file', '--batch-check'], { ...options, input: toPin.map(([, ref]) => ref).join('\n') + '\n' })
+                .toString().split('\n');
+            toPin.forEach(([name, ref], i) => {
+                if (!found[i]?.endsWith(' missing')) commands.push(`create ${name} ${ref}\n`);
+            });
+        }
+        if (commands.length > 0) execFileSync('git', ['update-ref', '--stdin'], { ...options, input: commands.join('') });
+    } catch {
+        // Not a git repository
+    }
+}
+
+/**
+ * Writes the current content of `files` into a git tree object without
+ * touching the real index or working tree. Unlike `git stash create` this
+ * also captures untracked files, which covers files the agent created.
+ * Returns null when the snapshot could not be taken.
+ */
+function captureFilesSnapshot(projectCwd: string, files: string[]): string | null {
+    const indexFile = join(tmpdir(), `awel-redo-index-${process.pid}-${Date.now()}`);
+    const env = { ...process.env, GIT_INDEX_FILE: indexFile };
+    try {
+        const existing = files.filter(f => existsSync(join(projectCwd, f)));
+        if (existing.length > 0) {
+            execFileSync('git', ['add', '--force', '--', ...existing], { cwd: projectCwd, env, stdio: 'pipe' });
+        }
+        return execFileSync('git', ['write-tree'], { cwd: projectCwd, env, stdio: 'pipe' }).toString().trim();
+    } catch {
+        return null;
+    } finally {
+        try { unlinkSync(indexFile); } catch { /* never created */ }
+    }
+}
+
 /**
  * Discovers files that changed since the session baseline by combining
  * tracked file diffs and newly created untracked files.
  */
 function getChangedFiles(session: UndoSession): string[] {
-    const { projectCwd, gitBaseline, untrackedAtStart } = session;
+    if (session.backend === 'snapshot') return getChangedFilesFromScan(session);
+
+    const { projectCwd, baseline, untrackedAtStart } = session;
 
     // Tracked files that differ between baseline and current working tree
     let trackedChanges: string[] = [];
     try {
-        const output = execSync(`git diff --name-only ${gitBaseline}`, {
+        const output = execSync(`git diff --name-only ${baseline}`, {
             cwd: projectCwd,
             stdio: 'pipe',
         }).toString().trim();
@@ -120,106 +352,452 @@ function getChangedFiles(session: UndoSession): string[] {
 }
 
 /**
- * Starts a new undo session. Captures a git baseline ref and the current
- * set of untracked files for later diffing.
- * @param projectCwd - Project directory (must be a git repo for undo to work)
- * @returns The new session ID
+ * Pre-session content of a file in the in-flight session.
  */
-export function startUndoSession(projectCwd?: string): string {
-    const sessionId = generateSessionId();
-    currentSessionId = sessionId;
+function getSessionBaselineContent(session: UndoSession, relPath: string): string | null {
+    if (session.backend === 'snapshot') return session.preImages.get(relPath) ?? null;
+    return getFileAtRefOrNull(session.projectCwd, session.baseline, relPath);
+}
 
-    if (!projectCwd) return sessionId;
+/**
+ * Restores a single file to its content at the given ref.
+ * Files that did not exist at that ref are deleted.
+ */
+function restoreFileToRef(projectCwd: string, gitRef: string, relPath: string): void {
+    const fullPath = join(projectCwd, relPath);
+    const originalContent = getFileAtRef(projectCwd, gitRef, relPath);
+    if (originalContent === null) {
+        // File didn't exist at baseline — delete it
+        if (existsSync(fullPath)) {
+            unlinkSync(fullPath);
+        }
+    } else {
+        const dir = dirname(fullPath);
+        if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+        writeFileSync(fullPath, originalContent, 'utf-8');
+    }
+}
 
-    const gitBaseline = captureGitBaseline(projectCwd);
-    if (!gitBaseline) return sessionId; // Not a git repo
+// ─── Snapshot Backend ────────────────────────────────────────
 
-    undoGroups.set(sessionId, {
-        projectCwd,
-        gitBaseline,
-        untrackedAtStart: getUntrackedFiles(projectCwd),
-        changedFiles: null,
-    });
+function isSnapshotRef(ref: string): boolean {
+    return ref.startsWith(SNAPSHOT_REF_PREFIX);
+}
 
-    return sessionId;
+function snapshotDir(): string {
+    return join(_projectCwd!, '.awel', 'undo');
+}
+
+function manifestPath(snapshotId: string): string {
+    return join(snapshotDir(), 'snapshots', `${snapshotId}.json`);
+}
+
+function blobPath(hash: string): string {
+    return join(snapshotDir(), 'blobs', hash);
 }
 
 /**
- * Ends the current undo session. Discovers changed files via git and
- * pushes the session to the stack if any files were modified.
+ * Stores `content` as a content-addressed blob and returns its hash.
  */
-export function endUndoSession(): void {
-    if (currentSessionId) {
-        const session = undoGroups.get(currentSessionId);
-        if (session) {
-            const changed = getChangedFiles(session);
-            if (changed.length > 0) {
-                session.changedFiles = changed;
-                sessionStack.push(currentSessionId);
-            } else {
-                undoGroups.delete(currentSessionId);
-            }
-        }
+function writeBlob(content: string): string {
+    const hash = createHash('sha256').update(content).digest('hex');
+    const path = blobPath(hash);
+    if (!existsSync(path)) {
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, content, 'utf-8');
     }
-    currentSessionId = null;
+    return hash;
 }
 
 /**
- * Pops the most recent session and restores all files to their baseline state.
- * Files that existed at baseline are restored; files created during the session are deleted.
- * @returns Array of restored file paths, or null if nothing to undo
+ * Writes a manifest mapping each file to a blob hash (or null when the
+ * file did not exist) and returns its `snapshot:` ref.
  */
-export function popAndRestoreSession(): string[] | null {
-    const sessionId = sessionStack.pop();
-    if (!sessionId) return null;
+function writeSnapshotManifest(snapshotId: string, contents: Map<string, string | null>): string {
+    const files: Record<string, string | null> = {};
+    for (const [relPath, content] of contents) {
+        files[relPath] = content === null ? null : writeBlob(content);
+    }
+    const path = manifestPath(snapshotId);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify({ files }, null, 2) + '\n', 'utf-8');
+    return SNAPSHOT_REF_PREFIX + snapshotId;
+}
 
-    const session = undoGroups.get(sessionId);
-    if (!session || !session.changedFiles || session.changedFiles.length === 0) {
-        undoGroups.delete(sessionId);
+function readSnapshotManifest(snapshotId: string): Record<string, string | null> | null {
+    try {
+        const parsed = JSON.parse(readFileSync(manifestPath(snapshotId), 'utf-8'));
+        return parsed?.files ?? null;
+    } catch {
         return null;
     }
+}
 
-    const restoredPaths: string[] = [];
+/**
+ * Snapshot-backend counterpart of getFileAtRef(): null when the file did
+ * not exist, and throws when the manifest or blob is gone.
+ */
+function getFileAtSnapshot(ref: string, relPath: string): string | null {
+    const files = _projectCwd ? readSnapshotManifest(ref.slice(SNAPSHOT_REF_PREFIX.length)) : null;
+    const hash = files?.[relPath];
+    if (hash === null) return null;
+    if (hash === undefined) throw new Error(MISSING_SNAPSHOT_ERROR);
+    try {
+        return readFileSync(blobPath(hash), 'utf-8');
+    } catch {
+        throw new Error(MISSING_SNAPSHOT_ERROR);
+    }
+}
 
-    for (const relPath of session.changedFiles) {
-        const fullPath = join(session.projectCwd, relPath);
+/**
+ * Snapshot-backend counterpart of captureFilesSnapshot().
+ */
+function captureFilesManifest(projectCwd: string, files: string[]): string | null {
+    try {
+        const contents = new Map<string, string | null>();
+        for (const relPath of files) {
+            const fullPath = join(projectCwd, relPath);
+            contents.set(relPath, existsSync(fullPath) ? readFileSync(fullPath, 'utf-8') : null);
+        }
+        return writeSnapshotManifest(generateSessionId(), contents);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Walks the project and returns an mtime/size stamp per file, skipping
+ * dependency and build directories.
+ */
+function scanProjectFiles(projectCwd: string): Map<string, string> {
+    const stamps = new Map<string, string>();
+    const ignoredDirs = new Set([...getIgnoredDirs(projectCwd), '.awel']);
+    const walk = (dir: string) => {
+        let entries;
         try {
-            const originalContent = getFileAtRef(session.projectCwd, session.gitBaseline, relPath);
-            if (originalContent === null) {
-                // File didn't exist at baseline — delete it
-                if (existsSync(fullPath)) {
-                    unlinkSync(fullPath);
+            entries = readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            if (stamps.size >= MAX_SCAN_FILES) return;
+            const fullPath = join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (!ignoredDirs.has(entry.name)) walk(fullPath);
+            } else if (entry.isFile()) {
+                try {
+                    const stat = statSync(fullPath);
+                    stamps.set(relative(projectCwd, fullPath), `${stat.mtimeMs}:${stat.size}`);
+                } catch {
+                    // Vanished mid-scan
                 }
-            } else {
-                writeFileSync(fullPath, originalContent, 'utf-8');
             }
-            restoredPaths.push(fullPath);
-        } catch (err) {
-            console.error(`Failed to restore ${relPath}:`, err);
+        }
+    };
+    walk(projectCwd);
+    return stamps;
+}
+
+/**
+ * Reads the pre-session content of scanned files, within per-file and total
+ * size budgets. Binary files are skipped — they can't be restored as text.
+ */
+function capturePreImages(projectCwd: string, stamps: Map<string, string>): Map<string, string | null> {
+    const preImages = new Map<string, string | null>();
+    let totalBytes = 0;
+    for (const [relPath, stamp] of stamps) {
+        const size = Number(stamp.split(':')[1]);
+        if (size > MAX_SNAPSHOT_FILE_BYTES || totalBytes + size > MAX_SNAPSHOT_TOTAL_BYTES) continue;
+        try {
+            const content = readFileSync(join(projectCwd, relPath), 'utf-8');
+            if (content.includes('\0')) continue;
+            preImages.set(relPath, content);
+            totalBytes += size;
+        } catch {
+            // Unreadable — changes to it can't be undone
         }
     }
+    return preImages;
+}
 
-    undoGroups.delete(sessionId);
-    return restoredPaths;
+/**
+ * Compares a fresh scan (plus files recorded by the file tools) against the
+ * start-of-session state. Only files whose pre-image is known are reported,
+ * so a revert never deletes or clobbers a file it can't restore.
+ */
+function getChangedFilesFromScan(session: UndoSession): string[] {
+    const { projectCwd, stampsAtStart, preImages } = session;
+    const stampsNow = scanProjectFiles(projectCwd);
+    const candidates = new Set<string>(preImages.keys());
+
+    for (const [relPath, stamp] of stampsNow) {
+        if (stampsAtStart.get(relPath) !== stamp) candidates.add(relPath);
+    }
+    for (const relPath of stampsAtStart.keys()) {
+        if (!stampsNow.has(relPath)) candidates.add(relPath);
+    }
+
+    const changed: string[] = [];
+    for (const relPath of candidates) {
+        const fullPath = join(projectCwd, relPath);
+        const existsNow = existsSync(fullPath);
+        if (!preImages.has(relPath)) {
+            // Created during the session — its pre-image is "did not exist"
+            if (existsNow && !stampsAtStart.has(relPath)) {
+                preImages.set(relPath, null);
+                changed.push(relPath);
+            }
+            continue;
+        }
+        const before = preImages.get(relPath)!;
+        let now: string | null = null;
+        try {
+            now = existsNow ? readFileSync(fullPath, 'utf-8') : null;
+        } catch {
+            continue;
+        }
+        if (before !== now) changed.push(relPath);
+    }
+    return changed;
 }
 
 /**
- * Reads the most recent session from the stack (without popping it) and pairs
- * each file's baseline content with its current content on disk.
+ * Records a file's pre-image before a file tool writes to it. Only needed
+ * by the snapshot backend, for files the start-of-session scan skipped.
+ * @param filePath - Absolute path, or relative to the project root
  */
-export function getLatestSessionDiffs(projectCwd: string) {
-    if (sessionStack.length === 0) return null;
+export function recordFileBeforeWrite(filePath: string): void {
+    const session = currentSession;
+    if (!session || session.backend !== 'snapshot') return;
 
-    const sessionId = sessionStack[sessionStack.length - 1];
-    const session = undoGroups.get(sessionId);
-    if (!session) return null;
+    const fullPath = isAbsolute(filePath) ? filePath : join(session.projectCwd, filePath);
+    const relPath = relative(session.projectCwd, fullPath);
+    if (relPath.startsWith('..') || isAbsolute(relPath)) return;
+    if (session.preImages.has(relPath)) return;
 
-    const files = session.changedFiles ?? getChangedFiles(session);
-    if (files.length === 0) return null;
+    try {
+        session.preImages.set(relPath, existsSync(fullPath) ? readFileSync(fullPath, 'utf-8') : null);
+    } catch {
+        // Unreadable — changes to it can't be undone
+    }
+}
+
+/**
+ * Deletes snapshot manifests no timeline entry refers to, then blobs no
+ * remaining manifest refers to.
+ */
+function pruneSnapshots(): void {
+    if (!_projectCwd) return;
+    const referenced = new Set<string>();
+    for (const entry of timeline) {
+        if (isSnapshotRef(entry.baseline)) referenced.add(entry.baseline.slice(SNAPSHOT_REF_PREFIX.length));
+        for (const r of entry.redoSnapshots) {
+            if (isSnapshotRef(r.treeRef)) referenced.add(r.treeRef.slice(SNAPSHOT_REF_PREFIX.length));
+        }
+    }
+
+    try {
+        const liveBlobs = new Set<string>();
+        const manifestsDir = join(snapshotDir(), 'snapshots');
+        for (const name of existsSync(manifestsDir) ? readdirSync(manifestsDir) : []) {
+            const snapshotId = name.replace(/\.json$/, '');
+            if (!referenced.has(snapshotId)) {
+                unlinkSync(join(manifestsDir, name));
+                continue;
+            }
+            for (const hash of Object.values(readSnapshotManifest(snapshotId) ?? {})) {
+                if (hash) liveBlobs.add(hash);
+            }
+        }
+        const blobsDir = join(snapshotDir(), 'blobs');
+        for (const hash of existsSync(blobsDir) ? readdirSync(blobsDir) : []) {
+            if (!liveBlobs.has(hash)) unlinkSync(join(blobsDir, hash));
+        }
+    } catch {
+        // Non-critical — leftover blobs only cost disk space
+    }
+}
+
+// ─── Session Lifecycle ───────────────────────────────────────
+
+/**
+ * Starts a new undo session. In git repos this captures a baseline ref and
+ * the current set of untracked files; elsewhere it scans the project and
+ * keeps the files' content in memory until the session ends.
+ * @param projectCwd - Project directory
+ * @param label - Short description shown in the undo timeline
+ * @returns The new session ID
+ */
+export function startUndoSession(projectCwd?: string, label?: string): string {
+    const sessionId = generateSessionId();
+    currentSession = null;
+
+    if (!projectCwd) return sessionId;
+    if (!_projectCwd) _projectCwd = projectCwd;
+
+    const trimmedLabel = (label ?? '').trim().slice(0, MAX_LABEL_LENGTH);
+    const gitBaseline = captureGitBaseline(projectCwd);
+
+    if (gitBaseline) {
+        currentSession = {
+            id: sessionId,
+            projectCwd,
+            backend: 'git',
+            baseline: gitBaseline,
+            untrackedAtStart: getUntrackedFiles(projectCwd),
+            stampsAtStart: new Map(),
+            preImages: new Map(),
+            label: trimmedLabel,
+            createdAt: Date.now(),
+        };
+    } else {
+        // Not a git repo — fall back to file snapshots
+        const stampsAtStart = scanProjectFiles(projectCwd);
+        currentSession = {
+            id: sessionId,
+            projectCwd,
+            backend: 'snapshot',
+            baseline: SNAPSHOT_REF_PREFIX + sessionId,
+            untrackedAtStart: new Set(),
+            stampsAtStart,
+            preImages: capturePreImages(projectCwd, stampsAtStart),
+            label: trimmedLabel,
+            createdAt: Date.now(),
+        };
+    }
+
+    return sessionId;
+}
+
+/**
+ * Ends the current undo session. Discovers changed files and appends the
+ * session to the timeline if any files were modified.
+ * @param summary - The agent's closing text for the run
+ */
+export function endUndoSession(summary?: string): void {
+    const session = currentSession;
+    currentSession = null;
+    if (!session) return;
+
+    const changed = getChangedFiles(session);
+    if (changed.length === 0) return;
+
+    if (session.backend === 'snapshot') {
+        // Persist pre-images of the changed files only
+        try {
+            writeSnapshotManifest(session.id, new Map(changed.map(f => [f, session.preImages.get(f) ?? null])));
+        } catch {
+            return; // Can't persist pre-images — the session can't be undone
+        }
+    }
+
+    const contentHashes: Record<string, string | null> = {};
+    for (const file of changed) {
+        try {
+            contentHashes[file] = hashFileOnDisk(session.projectCwd, file);
+        } catch {
+            // Unreadable — edits to it since the session can't be noticed
+        }
+    }
+
+    timeline.push({
+        id: session.id,
+        label: session.label,
+        createdAt: session.createdAt,
+        baseline: session.baseline,
+        files: changed,
+        revertedFiles: [],
+        redoSnapshots: [],
+        ...(summary?.trim() ? { summary: summary.trim().slice(-MAX_SUMMARY_LENGTH) } : {}),
+        contentHashes,
+        status: 'applied',
+    });
+    if (timeline.length > MAX_TIMELINE_ENTRIES) {
+        timeline.splice(0, timeline.length - MAX_TIMELINE_ENTRIES);
+    }
+    saveToDisk();
+    pruneSnapshots();
+}
+
+// ─── Timeline Queries ────────────────────────────────────────
+
+/**
+ * Returns a copy of the timeline, newest first.
+ */
+export function getUndoTimeline(): UndoTimelineEntry[] {
+    return [...timeline].reverse().map(e => ({
+        ...e,
+        files: [...e.files],
+        revertedFiles: [...e.revertedFiles],
+        redoSnapshots: e.redoSnapshots.map(r => ({ ...r, files: [...r.files] })),
+    }));
+}
+
+/**
+ * Returns a copy of the given session, or of the latest applied session
+ * when no id is given.
+ */
+export function getUndoEntry(sessionId?: string): UndoTimelineEntry | undefined {
+    const entry = sessionId ? findEntry(sessionId) : latestAppliedEntry();
+    return entry ? getUndoTimeline().find(e => e.id === entry.id) : undefined;
+}
+
+/**
+ * Records the commit a session's changes were committed in.
+ */
+export function markSessionCommitted(sessionId: string, commit: string): void {
+    const entry = findEntry(sessionId);
+    if (!entry) return;
+    entry.commit = commit;
+    saveToDisk();
+}
+
+function hashFileOnDisk(projectCwd: string, relPath: string): string | null {
+    const fullPath = join(projectCwd, relPath);
+    return existsSync(fullPath) ? createHash('sha1').update(readFileSync(fullPath)).digest('hex') : null;
+}
+
+function findEntry(sessionId: string): UndoTimelineEntry | undefined {
+    return timeline.find(e => e.id === sessionId);
+}
+
+function latestAppliedEntry(): UndoTimelineEntry | undefined {
+    for (let i = timeline.length - 1; i >= 0; i--) {
+        if (timeline[i].status === 'applied') return timeline[i];
+    }
+    return undefined;
+}
 
+/**
+ * Finds files in `files` that were also touched by applied sessions
+ * recorded after `sessionId`. Reverting those files would also discard
+ * the later sessions' changes.
+ */
+export function detectConflicts(
+    entries: UndoTimelineEntry[],
+    sessionId: string,
+    files: string[],
+): UndoConflict[] {
+    const idx = entries.findIndex(e => e.id === sessionId);
+    if (idx === -1) return [];
+
+    const conflicts: UndoConflict[] = [];
+    for (const file of files) {
+        const sessionIds = entries
+            .slice(idx + 1)
+            .filter(e => e.status === 'applied' && e.files.includes(file))
+            .map(e => e.id);
+        if (sessionIds.length > 0) {
+            conflicts.push({ file, sessionIds });
+        }
+    }
+    return conflicts;
+}
+
+function buildDiffs(projectCwd: string, entry: UndoTimelineEntry, files: string[]) {
     return files.map((relPath) => {
-        const fullPath = join(session.projectCwd, relPath);
-        const originalContent = getFileAtRef(session.projectCwd, session.gitBaseline, relPath);
+        const fullPath = join(projectCwd, relPath);
+        const originalContent = getFileAtRefOrNull(projectCwd, entry.baseline, relPath);
         const existsNow = existsSync(fullPath);
         const currentContent = existsNow ? readFileSync(fullPath, 'utf-8') : '';
 
@@ -233,6 +811,305 @@ export function getLatestSessionDiffs(projectCwd: string) {
     });
 }
 
+/**
+ * Pairs each still-applied file of a session with its baseline and current content.
+ */
+export function getSessionDiffs(projectCwd: string, sessionId: string) {
+    const entry = findEntry(sessionId);
+    if (!entry || entry.files.length === 0) return null;
+    return buildDiffs(projectCwd, entry, entry.files);
+}
+
+/**
+ * Reads the most recent applied session (without reverting it) and pairs
+ * each file's baseline content with its current content on disk.
+ */
+export function getLatestSessionDiffs(projectCwd: string) {
+    const entry = latestAppliedEntry();
+    if (!entry) return null;
+    return getSessionDiffs(projectCwd, entry.id);
+}
+
+// ─── Revert ──────────────────────────────────────────────────
+
+/**
+ * Marks `files` as reverted in every later applied session that also
+ * touched them — their changes to those files are gone once an earlier
+ * baseline is restored.
+ */
+function markLaterSessionsReverted(
+    entry: UndoTimelineEntry,
+    files: string[],
+    treeRef: string | null,
+    now: number,
+): void {
+    const idx = timeline.indexOf(entry);
+    for (const later of timeline.slice(idx + 1)) {
+        if (later.status !== 'applied') continue;
+        const overlap = later.files.filter(f => files.includes(f));
+        if (overlap.length === 0) continue;
+        later.files = later.files.filter(f => !files.includes(f));
+        later.revertedFiles.push(...overlap);
+        if (treeRef) later.redoSnapshots.push({ treeRef, files: overlap, revertedTo: entry.baseline });
+        later.revertedAt = now;
+        if (later.files.length === 0) later.status = 'reverted';
+    }
+}
+
+function revertFiles(
+    projectCwd: string,
+    entry: UndoTimelineEntry,
+    files: string[],
+    force: boolean,
+): RevertResult {
+    const conflicts = detectConflicts(timeline, entry.id, files);
+    if (conflicts.length > 0 && !force) {
+        return { success: false, error: 'Later sessions also changed these files', conflicts };
+    }
+
+    if (!isRefAvailable(projectCwd, entry.baseline)) return { success: false, error: MISSING_SNAPSHOT_ERROR };
+
+    // Snapshot the post-session content so the revert can be redone
+    const treeRef = isSnapshotRef(entry.baseline)
+        ? captureFilesManifest(projectCwd, files)
+        : captureFilesSnapshot(projectCwd, files);
+
+    const restored: string[] = [];
+    for (const relPath of files) {
+        try {
+            restoreFileToRef(projectCwd, entry.baseline, relPath);
+            restored.push(relPath);
+        } catch (err) {
+            console.error(`Failed to restore ${relPath}:`, err);
+        }
+    }
+
+    const now = Date.now();
+    entry.files = entry.files.filter(f => !restored.includes(f));
+    entry.revertedFiles.push(...restored);
+    if (treeRef && restored.length > 0) entry.redoSnapshots.push({ treeRef, files: restored, revertedTo: entry.baseline });
+    entry.revertedAt = now;
+    if (entry.files.length === 0) entry.status = 'reverted';
+    if (conflicts.length > 0) markLaterSessionsReverted(entry, restored, treeRef, now);
+    saveToDisk();
+
+    return { success: true, restored };
+}
+
+/**
+ * Reverts every still-applied file of the given session to its baseline.
+ * Refuses when later sessions touched the same files unless `force` is set.
+ */
+export function revertSession(projectCwd: string, sessionId: string, force = false): RevertResult {
+    const entry = findEntry(sessionId);
+    if (!entry || entry.status !== 'applied' || entry.files.length === 0) {
+        return { success: false, error: 'Session not found or already reverted' };
+    }
+    return revertFiles(projectCwd, entry, [...entry.files], force);
+}
+
+/**
+ * Reverts a single file of the given session to its baseline.
+ */
+export function revertSessionFile(projectCwd: string, sessionId: string, file: string, force = false): RevertResult {
+    const entry = findEntry(sessionId);
+    if (!entry || !entry.files.includes(file)) {
+        return { success: false, error: 'File not found in session or already reverted' };
+    }
+    return revertFiles(projectCwd, entry, [file], force);
+}
+
+/**
+ * Reverts the most recent applied session and restores all its files to their baseline state.
+ * Files that existed at baseline are restored; files created during the session are deleted.
+ * @returns Array of restored file paths, or null if nothing to undo
+ */
+export function popAndRestoreSession(): string[] | null {
+    const entry = latestAppliedEntry();
+    if (!entry || !_projectCwd) return null;
+
+    // The latest applied session never has later applied sessions, so no conflicts
+    const result = revertSession(_projectCwd, entry.id, true);
+    if (!result.success || result.restored.length === 0) return null;
+    return result.restored.map(p => join(_projectCwd!, p));
+}
+
+/**
+ * Finds files that reverting the given sessions together would overwrite
+ * changes to: files that sessions outside the set changed afterwards, and
+ * files edited since the last of the sessions touched them. The latter are
+ * reported without session ids.
+ */
+export function detectRevertSessionsConflicts(projectCwd: string, sessionIds: string[]): UndoConflict[] {
+    const ids = new Set(sessionIds);
+    const conflicts = new Map<string, Set<string>>();
+    for (const entry of timeline) {
+        if (!ids.has(entry.id) || entry.status !== 'applied') continue;
+        for (const { file, sessionIds: later } of detectConflicts(timeline, entry.id, entry.files)) {
+            const others = later.filter(id => !ids.has(id));
+            if (others.length > 0) conflicts.set(file, new Set([...(conflicts.get(file) ?? []), ...others]));
+        }
+    }
+
+    // The newest applied session that touched a file knows how it left it
+    const lastWriter = new Map<string, UndoTimelineEntry>();
+    for (const entry of timeline) {
+        if (entry.status !== 'applied') continue;
+        for (const file of entry.files) lastWriter.set(file, entry);
+    }
+    for (const [file, entry] of lastWriter) {
+        if (!ids.has(entry.id) || conflicts.has(file)) continue;
+        const expected = entry.contentHashes?.[file];
+        if (expected === undefined) continue;
+        try {
+            if (hashFileOnDisk(projectCwd, file) !== expected) conflicts.set(file, new Set());
+        } catch {
+            // Unreadable — leave it to the revert
+        }
+    }
+
+    return [...conflicts].map(([file, later]) => ({ file, sessionIds: [...later] }));
+}
+
+/**
+ * Reverts the given sessions' applied files, newest session first. Used
+ * when a conversation is rewound to an earlier message. Changes made by
+ * other sessions or by hand are overwritten, so check
+ * detectRevertSessionsConflicts() and ask first.
+ * @returns Relative paths of the restored files
+ */
+export function revertSessions(projectCwd: string, sessionIds: string[]): string[] {
+    const ids = new Set(sessionIds);
+    const restored = new Set<string>();
+    for (const entry of [...timeline].reverse()) {
+        if (!ids.has(entry.id) || entry.status !== 'applied' || entry.files.length === 0) continue;
+        const result = revertSession(projectCwd, entry.id, true);
+        if (result.success) result.restored.forEach(file => restored.add(file));
+    }
+    return [...restored];
+}
+
+// ─── Redo ────────────────────────────────────────────────────
+
+/**
+ * Reverted files of an entry that still have a snapshot to reapply.
+ */
+export function getRedoableFiles(entry: UndoTimelineEntry): string[] {
+    return entry.revertedFiles.filter(f => entry.redoSnapshots.some(r => r.files.includes(f)));
+}
+
+/**
+ * Finds the most recently reverted entry that can still be redone.
+ */
+function latestRedoableEntry(): UndoTimelineEntry | undefined {
+    let latest: UndoTimelineEntry | undefined;
+    for (const entry of timeline) {
+        if (getRedoableFiles(entry).length === 0) continue;
+        if (!latest || (entry.revertedAt ?? 0) >= (latest.revertedAt ?? 0)) latest = entry;
+    }
+    return latest;
+}
+
+function latestSnapshotFor(entry: UndoTimelineEntry, file: string): RedoSnapshot | undefined {
+    return [...entry.redoSnapshots].reverse().find(r => r.files.includes(file));
+}
+
+/**
+ * Finds reverted files that changed on disk since the revert — edited by
+ * hand or by a later run. Redoing would overwrite those changes. Reported
+ * like detectConflicts(), with the later sessions that touched the file.
+ */
+export function detectChangesSinceRevert(
+    projectCwd: string,
+    entries: UndoTimelineEntry[],
+    sessionId: string,
+    files: string[],
+): UndoConflict[] {
+    const entry = entries.find(e => e.id === sessionId);
+    if (!entry) return [];
+
+    const laterConflicts = detectConflicts(entries, sessionId, files);
+    const conflicts: UndoConflict[] = [];
+    for (const file of files) {
+        const sessionIds = laterConflicts.find(c => c.file === file)?.sessionIds ?? [];
+        const revertedTo = latestSnapshotFor(entry, file)?.revertedTo;
+        let changed = false;
+        if (revertedTo) {
+            try {
+                const fullPath = join(projectCwd, file);
+                const current = existsSync(fullPath) ? readFileSync(fullPath, 'utf-8') : null;
+                changed = current !== getFileAtRef(projectCwd, revertedTo, file);
+            } catch {
+                // The reverted content is gone; only later sessions can be checked
+            }
+        }
+        if (changed || sessionIds.length > 0) conflicts.push({ file, sessionIds });
+    }
+    return conflicts;
+}
+
+/**
+ * Reapplies reverted files of a session from the snapshots taken when they
+ * were reverted. Other sessions that were reverted by the same snapshot
+ * (forced reverts of overlapping files) get those files back as well.
+ * Refuses when the files changed since they were reverted — by later
+ * sessions or by hand — unless `force` is set, since redoing would
+ * overwrite those changes.
+ * Defaults to the most recently reverted session when no id is given.
+ */
+export function redoSession(projectCwd: string, sessionId?: string, force = false): RedoResult {
+    const entry = sessionId ? findEntry(sessionId) : latestRedoableEntry();
+    const files = entry ? getRedoableFiles(entry) : [];
+    if (!entry || files.length === 0) {
+        return { success: false, error: 'Nothing to redo' };
+    }
+
+    const conflicts = detectChangesSinceRevert(projectCwd, timeline, entry.id, files);
+    if (conflicts.length > 0 && !force) {
+        return { success: false, error: 'These files changed after they were undone', conflicts };
+    }
+
+    // Group files by the latest snapshot that holds them
+    const byRef = new Map<string, string[]>();
+    for (const file of files) {
+        const snapshot = latestSnapshotFor(entry, file)!;
+        byRef.set(snapshot.treeRef, [...(byRef.get(snapshot.treeRef) ?? []), file]);
+    }
+
+    if ([...byRef.keys()].some(treeRef => !isRefAvailable(projectCwd, treeRef))) {
+        return { success: false, error: MISSING_SNAPSHOT_ERROR };
+    }
+
+    const restored: string[] = [];
+    for (const [treeRef, refFiles] of byRef) {
+        for (const relPath of refFiles) {
+            try {
+                restoreFileToRef(projectCwd, treeRef, relPath);
+                restored.push(relPath);
+            } catch (err) {
+                console.error(`Failed to redo ${relPath}:`, err);
+                continue;
+            }
+            // Every session reverted by this snapshot gets the file back
+            for (const e of timeline) {
+                if (!e.redoSnapshots.some(r => r.treeRef === treeRef && r.files.includes(relPath))) continue;
+                e.revertedFiles = e.revertedFiles.filter(f => f !== relPath);
+                if (!e.files.includes(relPath)) e.files.push(relPath);
+                e.status = 'applied';
+            }
+        }
+    }
+
+    for (const e of timeline) {
+        e.redoSnapshots = e.redoSnapshots
+            .map(r => ({ ...r, files: r.files.filter(f => e.revertedFiles.includes(f)) }))
+            .filter(r => r.files.length > 0);
+    }
+    saveToDisk();
+
+    return { success: true, restored };
+}
+
 /**
  * Computes +/- line stats for two strings using bag-based line matching.
  */
@@ -266,9 +1143,7 @@ export function countLineStats(original: string, current: string): { additions:
  * Discovers changed files via git diff on the fly.
  */
 export function getCurrentSessionStats(projectCwd: string) {
-    if (!currentSessionId) return null;
-
-    const session = undoGroups.get(currentSessionId);
+    const session = currentSession;
     if (!session) return null;
 
     const files = getChangedFiles(session);
@@ -276,7 +1151,7 @@ export function getCurrentSessionStats(projectCwd: string) {
 
     return files.map((relPath) => {
         const fullPath = join(session.projectCwd, relPath);
-        const originalContent = getFileAtRef(session.projectCwd, session.gitBaseline, relPath);
+        const originalContent = getSessionBaselineContent(session, relPath);
         const existsNow = existsSync(fullPath);
         const currentContent = existsNow ? readFileSync(fullPath, 'utf-8') : '';
         const isNew = originalContent === null && existsNow;
@@ -312,17 +1187,63 @@ export function createUndoRoute(projectCwd: string) {
     });
 
     undo.get('/api/undo/stack', async (c) => {
-        const sessions = sessionStack.map(sessionId => {
-            const session = undoGroups.get(sessionId);
-            return {
-                sessionId,
-                files: (session?.changedFiles || []).map(f => ({
+        const sessions = timeline
+            .filter(e => e.status === 'applied')
+            .map(e => ({
+                sessionId: e.id,
+                files: e.files.map(f => ({
                     file: f,
                 })),
-            };
-        });
+            }));
         return c.json(sessions);
     });
 
+    undo.post('/api/redo', async (c) => {
+        let body: { sessionId?: string; force?: boolean } = {};
+        try {
+            body = await c.req.json();
+        } catch {
+            // No body — redo the most recently undone session
+        }
+
+        const result = redoSession(projectCwd, body.sessionId, body.force === true);
+        if (result.success) return c.json(result);
+        return c.json(result, result.conflicts ? 409 : 400);
+    });
+
+    undo.get('/api/undo/timeline', async (c) => {
+        const sessions = getUndoTimeline().map(e => ({
+            ...e,
+            conflicts: e.status === 'applied' ? detectConflicts(timeline, e.id, e.files) : [],
+            redoableFiles: getRedoableFiles(e),
+        }));
+        return c.json({ sessions });
+    });
+
+    undo.get('/api/undo/sessions/:id/diff', async (c) => {
+        const diffs = getSessionDiffs(projectCwd, c.req.param('id'));
+        if (!diffs) {
+            return c.json({ success: false, error: 'No session to diff' }, 400);
+        }
+        return c.json({ success: true, diffs });
+    });
+
+    undo.post('/api/undo/sessions/:id/revert', async (c) => {
+        let body: { force?: boolean; file?: string } = {};
+        try {
+            body = await c.req.json();
+        } catch {
+            // No body — revert the whole session without forcing
+        }
+
+        const sessionId = c.req.param('id');
+        const result = body.file
+            ? revertSessionFile(projectCwd, sessionId, body.file, body.force === true)
+            : revertSession(projectCwd, sessionId, body.force === true);
+
+        if (result.success) return c.json(result);
+        return c.json(result, result.conflicts ? 409 : 400);
+    });
+
     return undo;
 }
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { writeAwelConfig } from './awel-config.js';
+import { computeCostUsd } from './providers/pricing.js';
+import {
+    initUsage,
+    setUsageThread,
+    recordUsage,
+    estimateCostUsd,
+    checkBudget,
+    getUsageSummary,
+    toTokenUsage,
+    addTokenUsage,
+    todayKey,
+} from './usage.js';
+
+describe('computeCostUsd', () => {
+    it('prices uncached, cached and output tokens separately', () => {
+        const pricing = { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 };
+        const cost = computeCostUsd(pricing, {
+            inputTokens: 1_000_000,
+            cacheReadTokens: 500_000,
+            cacheWriteTokens: 100_000,
+            outputTokens: 100_000,
+        });
+        // 400k uncached × $3 + 500k × $0.30 + 100k × $3.75 + 100k × $15
+        expect(cost).toBeCloseTo(1.2 + 0.15 + 0.375 + 1.5);
+    });
+});
+
+describe('usage', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-usage-'));
+        initUsage(projectCwd);
+        setUsageThread('t1');
+    });
+
+    afterEach(() => {
+        rmSync(projectCwd, { recursive: true, force: true });
+    });
+
+    it('accumulates usage per thread, day and model and persists it', () => {
+        expect(recordUsage('claude-sonnet-4-5', { inputTokens: 1_000_000, outputTokens: 0 })).toBeCloseTo(3);
+        setUsageThread('t2');
+        recordUsage('claude-sonnet-4-5', { inputTokens: 0, outputTokens: 1_000_000 });
+
+        const summary = getUsageSummary();
+        expect(summary.session.costUsd).toBeCloseTo(15);
+        expect(summary.today.costUsd).toBeCloseTo(18);
+        expect(summary.today.calls).toBe(2);
+        expect(summary.days[0].date).toBe(todayKey());
+        expect(summary.models[0]).toMatchObject({ modelId: 'claude-sonnet-4-5', priced: true, inputTokens: 1_000_000 });
+
+        const persisted = JSON.parse(readFileSync(join(projectCwd, '.awel', 'usage.json'), 'utf-8'));
+        expect(persisted.threads.t1.costUsd).toBeCloseTo(3);
+
+        initUsage(projectCwd);
+        setUsageThread('t1');
+        expect(getUsageSummary().session.costUsd).toBeCloseTo(3);
+    });
+
+    it('counts tokens of unpriced models without a cost, unless priced in the config', () => {
+        expect(recordUsage('my-local-model', { inputTokens: 1000, outputTokens: 10 })).toBeNull();
+        expect(getUsageSummary().models[0]).toMatchObject({ priced: false, inputTokens: 1000, costUsd: 0 });
+
+        writeAwelConfig(projectCwd, { pricing: { 'my-local-model': { input: 1, output: 2 } } });
+        expect(estimateCostUsd('my-local-model', { inputTokens: 1_000_000 })).toBeCloseTo(1);
+    });
+
+    it('reports the session budget before the daily budget', () => {
+        recordUsage('claude-sonnet-4-5', { inputTokens: 1_000_000 });
+        expect(checkBudget()).toBeNull();
+
+        writeAwelConfig(projectCwd, { budget: { sessionUsd: 5, dailyUsd: 4 } });
+        expect(checkBudget()).toBeNull();
+        expect(checkBudget(1)).toContain('Daily budget of $4.00');
+        expect(checkBudget(2)).toContain('Session budget of $5.00');
+
+        // A fresh thread only has the daily budget left to hit
+        setUsageThread('t2');
+        expect(checkBudget(1.5)).toContain('Daily budget');
+    });
+
+    it('converts and adds AI SDK usage', () => {
+        const step = toTokenUsage({ inputTokens: 10, outputTokens: 5, inputTokenDetails: { cacheReadTokens: 4 } });
+        expect(step).toEqual({ inputTokens: 10, outputTokens: 5, cacheReadTokens: 4, cacheWriteTokens: 0 });
+        expect(addTokenUsage(step, step)).toEqual({ inputTokens: 20, outputTokens: 10, cacheReadTokens: 8, cacheWriteTokens: 0 });
+    });
+});
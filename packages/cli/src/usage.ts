@@ -0,0 +1,254 @@
+import { Hono } from 'hono';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { readAwelConfig, writeAwelConfig, type UsageBudgetConfig } from './awel-config.js';
+import { MODEL_PRICING, computeCostUsd, type ModelPricing, type TokenUsage } from './providers/pricing.js';
+
+// ─── Usage Accounting ────────────────────────────────────────
+// Token usage and estimated cost of every model call are accumulated per
+// chat thread, per day and per model in .awel/usage.json. Optional budgets
+// (`budget` in .awel/config.json) stop a run once the spend of the current
+// thread or of the day reaches them.
+
+export interface UsageTotals {
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+    /** Estimated cost; calls to models without pricing add tokens only */
+    costUsd: number;
+    calls: number;
+}
+
+interface UsageData {
+    threads: Record<string, UsageTotals>;
+    /** Keyed by local date (YYYY-MM-DD) */
+    days: Record<string, UsageTotals>;
+    models: Record<string, UsageTotals>;
+}
+
+const MAX_DAYS = 90;
+
+let _projectCwd: string | null = null;
+let _threadId: string | null = null;
+let data: UsageData = emptyData();
+
+function emptyData(): UsageData {
+    return { threads: {}, days: {}, models: {} };
+}
+
+function emptyTotals(): UsageTotals {
+    return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0, calls: 0 };
+}
+
+function usagePath(): string {
+    return join(_projectCwd!, '.awel', 'usage.json');
+}
+
+function saveToDisk(): void {
+    if (!_projectCwd) return;
+    try {
+        mkdirSync(join(_projectCwd, '.awel'), { recursive: true });
+        writeFileSync(usagePath(), JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    } catch {
+        // Non-critical — usage is still tracked in memory
+    }
+}
+
+/**
+ * Loads the accumulated usage of the project. Must be called before the
+ * server starts.
+ */
+export function initUsage(projectCwd: string): void {
+    _projectCwd = projectCwd;
+    data = emptyData();
+    if (!existsSync(usagePath())) return;
+    try {
+        const parsed = JSON.parse(readFileSync(usagePath(), 'utf-8'));
+        data = {
+            threads: parsed.threads ?? {},
+            days: parsed.days ?? {},
+            models: parsed.models ?? {},
+        };
+    } catch {
+        // Corrupt file — start fresh
+    }
+}
+
+/**
+ * Points per-session accounting at a chat thread. Called by threads.ts
+ * whenever the current thread changes.
+ */
+export function setUsageThread(threadId: string): void {
+    _threadId = threadId;
+}
+
+export function todayKey(date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** The parts of the AI SDK's LanguageModelUsage that are accounted. */
+interface SdkUsage {
+    inputTokens?: number;
+    outputTokens?: number;
+    inputTokenDetails?: { cacheReadTokens?: number; cacheWriteTokens?: number };
+}
+
+/**
+ * Converts AI SDK usage into the token counts that are accounted.
+ */
+export function toTokenUsage(usage: SdkUsage | undefined): TokenUsage {
+    return {
+        inputTokens: usage?.inputTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0,
+        cacheReadTokens: usage?.inputTokenDetails?.cacheReadTokens ?? 0,
+        cacheWriteTokens: usage?.inputTokenDetails?.cacheWriteTokens ?? 0,
+    };
+}
+
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+    return {
+        inputTokens: (a.inputTokens ?? 0) + (b.inputTokens ?? 0),
+        outputTokens: (a.outputTokens ?? 0) + (b.outputTokens ?? 0),
+        cacheReadTokens: (a.cacheReadTokens ?? 0) + (b.cacheReadTokens ?? 0),
+        cacheWriteTokens: (a.cacheWriteTokens ?? 0) + (b.cacheWriteTokens ?? 0),
+    };
+}
+
+/**
+ * Pricing for a model: the `pricing` entry in .awel/config.json, else the
+ * built-in table. Null when the model's price is unknown.
+ */
+export function getModelPricing(modelId: string): ModelPricing | null {
+    const custom = _projectCwd ? readAwelConfig(_projectCwd).pricing?.[modelId] : undefined;
+    return custom ?? MODEL_PRICING[modelId] ?? null;
+}
+
+/**
+ * Estimated cost of the usage in USD, or null for models without pricing.
+ */
+export function estimateCostUsd(modelId: string, usage: TokenUsage): number | null {
+    const pricing = getModelPricing(modelId);
+    return pricing ? computeCostUsd(pricing, usage) : null;
+}
+
+function addTo(totals: UsageTotals | undefined, usage: TokenUsage, costUsd: number): UsageTotals {
+    const next = totals ?? emptyTotals();
+    next.inputTokens += usage.inputTokens ?? 0;
+    next.outputTokens += usage.outputTokens ?? 0;
+    next.cacheReadTokens += usage.cacheReadTokens ?? 0;
+    next.cacheWriteTokens += usage.cacheWriteTokens ?? 0;
+    next.costUsd += costUsd;
+    next.calls++;
+    return next;
+}
+
+/**
+ * Adds a model call to the current thread's, today's and the model's
+ * totals. Returns the call's estimated cost (null when the model has no
+ * pricing).
+ */
+export function recordUsage(modelId: string, usage: TokenUsage): number | null {
+    const costUsd = estimateCostUsd(modelId, usage);
+    const cost = costUsd ?? 0;
+    const day = todayKey();
+
+    if (_threadId) data.threads[_threadId] = addTo(data.threads[_threadId], usage, cost);
+    data.days[day] = addTo(data.days[day], usage, cost);
+    data.models[modelId] = addTo(data.models[modelId], usage, cost);
+
+    const days = Object.keys(data.days).sort();
+    for (const old of days.slice(0, Math.max(0, days.length - MAX_DAYS))) {
+        delete data.days[old];
+    }
+    saveToDisk();
+    return costUsd;
+}
+
+export function getBudget(): UsageBudgetConfig {
+    return _projectCwd ? readAwelConfig(_projectCwd).budget ?? {} : {};
+}
+
+/**
+ * Checks the configured budgets against what was spent so far plus
+ * `pendingCostUsd` (the not yet recorded cost of a running call).
+ * Returns a message describing the exceeded budget, or null.
+ */
+export function checkBudget(pendingCostUsd = 0): string | null {
+    const budget = getBudget();
+    const session = (_threadId ? data.threads[_threadId]?.costUsd ?? 0 : 0) + pendingCostUsd;
+    const today = (data.days[todayKey()]?.costUsd ?? 0) + pendingCostUsd;
+
+    if (budget.sessionUsd !== undefined && session >= budget.sessionUsd) {
+        return `Session budget of $${budget.sessionUsd.toFixed(2)} reached ($${session.toFixed(2)} spent). Raise it in the usage panel or start a new thread.`;
+    }
+    if (budget.dailyUsd !== undefined && today >= budget.dailyUsd) {
+        return `Daily budget of $${budget.dailyUsd.toFixed(2)} reached ($${today.toFixed(2)} spent today). Raise it in the usage panel to continue.`;
+    }
+    return null;
+}
+
+/**
+ * Usage of the current thread and of today, the daily history (newest
+ * first) and per-model totals, along with the configured budget.
+ */
+export function getUsageSummary() {
+    return {
+        session: (_threadId && data.threads[_threadId]) || emptyTotals(),
+        today: data.days[todayKey()] ?? emptyTotals(),
+        days: Object.entries(data.days)
+            .sort(([a], [b]) => b.localeCompare(a))
+            .map(([date, totals]) => ({ date, ...totals })),
+        models: Object.entries(data.models)
+            .map(([modelId, totals]) => ({ modelId, priced: getModelPricing(modelId) !== null, ...totals }))
+            .sort((a, b) => b.costUsd - a.costUsd || b.inputTokens - a.inputTokens),
+        budget: getBudget(),
+    };
+}
+
+// ─── Usage API ───────────────────────────────────────────────
+
+const BudgetSchema = z.object({
+    sessionUsd: z.number().positive().nullable().optional(),
+    dailyUsd: z.number().positive().nullable().optional(),
+});
+
+export function createUsageRoute(projectCwd: string) {
+    const usage = new Hono();
+
+    usage.get('/api/usage', (c) => {
+        return c.json(getUsageSummary());
+    });
+
+    // Sets the budgets; null (or a missing field) removes a budget
+    usage.put('/api/usage/budget', async (c) => {
+        let body: unknown;
+        try {
+            body = await c.req.json();
+        } catch {
+            return c.json({ success: false, error: 'Invalid JSON' }, 400);
+        }
+        const parsed = BudgetSchema.safeParse(body);
+        if (!parsed.success) {
+            const message = parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+            return c.json({ success: false, error: message }, 400);
+        }
+
+        const budget: UsageBudgetConfig = {
+            ...(parsed.data.sessionUsd != null && { sessionUsd: parsed.data.sessionUsd }),
+            ...(parsed.data.dailyUsd != null && { dailyUsd: parsed.data.dailyUsd }),
+        };
+        const config = readAwelConfig(projectCwd);
+        if (Object.keys(budget).length > 0) {
+            config.budget = budget;
+        } else {
+            delete config.budget;
+        }
+        writeAwelConfig(projectCwd, config);
+        return c.json({ success: true, budget });
+    });
+
+    return usage;
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { initSettings } from './settings.js';
+import { getVerifySettings, runChecks, formatVerificationFeedback, isVerificationFeedback } from './verification.js';
+
+describe('verification', () => {
+    let projectCwd: string;
+
+    beforeEach(() => {
+        projectCwd = mkdtempSync(join(tmpdir(), 'awel-verify-'));
+    });
+
+    afterEach(async () => {
+        rmSync(projectCwd, { recursive: true, force: true });
+        await initSettings(projectCwd);
+    });
+
+    it('is off until checks are configured', async () => {
+        await initSettings(projectCwd);
+        expect(getVerifySettings(projectCwd)).toBeNull();
+
+        await initSettings(projectCwd, { verify: { checks: ['typecheck', { name: 'unit', command: 'npm run test:unit' }] } });
+        expect(getVerifySettings(projectCwd)).toEqual({
+            checks: ['typecheck', { name: 'unit', command: 'npm run test:unit' }],
+            maxFixAttempts: 2,
+        });
+    });
+
+    it('runs command checks and keeps the output of failures', async () => {
+        const report = await runChecks([
+            { name: 'ok', command: 'node -e "process.exit(0)"' },
+            { name: 'broken', command: 'node -e "console.error(\'Type error in app.tsx\'); process.exit(2)"' },
+        ], { projectCwd, targetPort: 0, authorize: async () => null });
+
+        expect(report.passed).toBe(false);
+        expect(report.checks.map(c => [c.name, c.passed])).toEqual([['ok', true], ['broken', false]]);
+        expect(report.checks[1].output).toContain('exited with code 2');
+        expect(report.checks[1].output).toContain('Type error in app.tsx');
+    });
+
+    it('does not run a custom command that was refused', async () => {
+        const commands: string[] = [];
+        const report = await runChecks([
+            { name: 'sneaky', command: 'node -e "require(\'fs\').writeFileSync(\'ran\', \'\')"' },
+            { name: 'after', command: 'node -e "process.exit(0)"' },
+        ], {
+            projectCwd,
+            targetPort: 0,
+            authorize: async command => {
+                commands.push(command);
+                return 'Error: Command was rejected by the user.';
+            },
+        });
+
+        expect(commands).toHaveLength(1);
+        expect(report.passed).toBe(false);
+        expect(report.checks).toEqual([
+            { name: 'sneaky', passed: false, output: 'Error: Command was rejected by the user.', durationMs: 0, refused: true },
+        ]);
+        expect(existsSync(join(projectCwd, 'ran'))).toBe(false);
+    });
+
+    it('puts preset commands through the same authorization', async () => {
+        const report = await runChecks(['test'], {
+            projectCwd,
+            targetPort: 0,
+            authorize: async command => command === 'npm test' ? 'Error: npm test is denied by a rule in .awel/permissions.json.' : null,
+        });
+
+        expect(report.checks).toEqual([
+            { name: 'test', passed: false, output: 'Error: npm test is denied by a rule in .awel/permissions.json.', durationMs: 0, refused: true },
+        ]);
+    });
+
+    it('reports only the failed checks back to the model', () => {
+        const feedback = formatVerificationFeedback({
+            passed: false,
+            checks: [
+                { name: 'lint', passed: true, output: '', durationMs: 10 },
+                { name: 'test', passed: false, output: '1 test failed', durationMs: 20 },
+            ],
+        });
+        expect(feedback).toContain('These checks failed after your changes: test.');
+        expect(feedback).toContain('## test\n1 test failed');
+        expect(feedback).not.toContain('## lint');
+        expect(isVerificationFeedback({ role: 'user', content: feedback })).toBe(true);
+        expect(isVerificationFeedback({ role: 'user', content: 'Fix the tests' })).toBe(false);
+    });
+});
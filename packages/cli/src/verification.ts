@@ -0,0 +1,157 @@
+import type { ModelMessage } from 'ai';
+import { runShellCommand, truncateOutput } from './shells.js';
+import { waitForServer, getDevServerStatus } from './subprocess.js';
+import { getDevServerLogs, formatDevServerLogs } from './dev-server-logs.js';
+import { getSettings, type AwelSettings } from './settings.js';
+
+// ─── Verification ────────────────────────────────────────────
+// Checks run after an agent run that changed files: type-check, lint,
+// tests, custom commands, or whether the dev server still serves the app.
+// Failures go back to the model as a user message for a bounded number of
+// fix-up runs (see providers/vercel.ts). Nothing runs unless the project
+// configures `verify` in its settings.
+
+export type VerifyCheck = NonNullable<AwelSettings['verify']>['checks'][number];
+
+export interface CheckResult {
+    name: string;
+    passed: boolean;
+    /** Output of a failed check, shortened for the model */
+    output: string;
+    durationMs: number;
+    /** The permission rules or the user refused to run the check's command */
+    refused?: boolean;
+}
+
+export interface VerificationReport {
+    passed: boolean;
+    checks: CheckResult[];
+}
+
+/** Starts the message that reports failed checks to the model */
+export const VERIFICATION_PREFIX = '[Verification failed]';
+
+const DEFAULT_MAX_FIX_ATTEMPTS = 2;
+const DEFAULT_CHECK_TIMEOUT_MS = 120_000;
+const SERVER_CHECK_TIMEOUT_MS = 15_000;
+const MAX_CHECK_OUTPUT_CHARS = 4_000;
+
+const PRESET_COMMANDS: Record<'typecheck' | 'lint' | 'test', string> = {
+    typecheck: 'npx --no-install tsc --noEmit',
+    lint: 'npx --no-install eslint .',
+    test: 'npm test',
+};
+
+/**
+ * The configured checks and fix-up budget, or null when verification is
+ * off.
+ */
+export function getVerifySettings(projectCwd: string): { checks: VerifyCheck[]; maxFixAttempts: number } | null {
+    const verify = getSettings(projectCwd).verify;
+    if (!verify || verify.checks.length === 0) return null;
+    return { checks: verify.checks, maxFixAttempts: verify.maxFixAttempts ?? DEFAULT_MAX_FIX_ATTEMPTS };
+}
+
+export function getCheckName(check: VerifyCheck): string {
+    return typeof check === 'string' ? check : check.name;
+}
+
+async function runCommandCheck(name: string, command: string, timeout: number, projectCwd: string, signal?: AbortSignal): Promise<CheckResult> {
+    const start = Date.now();
+    const result = await runShellCommand(command, { cwd: projectCwd, timeout, signal });
+    const passed = result.exitCode === 0 && !result.timedOut && !result.aborted;
+    const header = result.timedOut
+        ? `\`${command}\` timed out after ${timeout}ms`
+        : `\`${command}\` exited with code ${result.exitCode ?? 'unknown'}`;
+    return {
+        name,
+        passed,
+        output: passed ? '' : `${header}\n${truncateOutput(result.output, MAX_CHECK_OUTPUT_CHARS)}`.trim(),
+        durationMs: Date.now() - start,
+    };
+}
+
+/**
+ * Requests the app from the dev server. Fails when the server is down,
+ * answers with a 5xx, or logs errors while serving the page.
+ */
+async function runServerCheck(targetPort: number): Promise<CheckResult> {
+    const start = Date.now();
+    const fail = (output: string): CheckResult => ({ name: 'server', passed: false, output, durationMs: Date.now() - start });
+
+    const { status, lastError } = getDevServerStatus();
+    if (status === 'crashed') return fail(`The dev server crashed${lastError ? `: ${lastError}` : ''}`);
+    if (!await waitForServer(targetPort, SERVER_CHECK_TIMEOUT_MS)) {
+        return fail(`The dev server did not respond on port ${targetPort}`);
+    }
+
+    let httpStatus: number | null = null;
+    try {
+        const res = await fetch(`http://localhost:${targetPort}`, { signal: AbortSignal.timeout(SERVER_CHECK_TIMEOUT_MS) });
+        httpStatus = res.status;
+    } catch {
+        // Counted as a failure below
+    }
+    const errors = getDevServerLogs({ level: 'error' }).filter(e => e.timestamp >= start);
+    if (httpStatus !== null && httpStatus < 500 && errors.length === 0) {
+        return { name: 'server', passed: true, output: '', durationMs: Date.now() - start };
+    }
+    const summary = httpStatus === null ? 'The dev server did not answer' : `The dev server answered with HTTP ${httpStatus}`;
+    return fail(truncateOutput(
+        errors.length > 0 ? `${summary}. It logged:\n${formatDevServerLogs(errors)}` : summary,
+        MAX_CHECK_OUTPUT_CHARS,
+    ));
+}
+
+/**
+ * Runs the checks one after another. Stops early when the signal aborts,
+ * or when a command is refused: `authorize` puts every command — presets
+ * included, as `npm test` runs whatever package.json says — through the
+ * same permission rules and confirmation as the Bash tool.
+ */
+export async function runChecks(
+    checks: VerifyCheck[],
+    options: {
+        projectCwd: string;
+        targetPort: number;
+        signal?: AbortSignal;
+        /** Returns why a command may not run, or null */
+        authorize: (command: string) => Promise<string | null>;
+    },
+): Promise<VerificationReport> {
+    const results: CheckResult[] = [];
+    for (const check of checks) {
+        if (options.signal?.aborted) break;
+        if (check === 'server') {
+            results.push(await runServerCheck(options.targetPort));
+            continue;
+        }
+
+        const { name, command, timeoutMs } = typeof check === 'string'
+            ? { name: check, command: PRESET_COMMANDS[check], timeoutMs: DEFAULT_CHECK_TIMEOUT_MS }
+            : { name: check.name, command: check.command, timeoutMs: check.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS };
+        const refusal = await options.authorize(command);
+        if (refusal) {
+            results.push({ name, passed: false, output: refusal, durationMs: 0, refused: true });
+            break;
+        }
+        results.push(await runCommandCheck(name, command, timeoutMs, options.projectCwd, options.signal));
+    }
+    return { passed: results.length === checks.length && results.every(r => r.passed), checks: results };
+}
+
+/**
+ * The message that hands failed checks back to the model.
+ */
+export function formatVerificationFeedback(report: VerificationReport): string {
+    const failed = report.checks.filter(c => !c.passed);
+    return [
+        VERIFICATION_PREFIX,
+        `These checks failed after your changes: ${failed.map(c => c.name).join(', ')}. Fix the problems your changes caused; the checks run again when you finish.`,
+        ...failed.map(c => `\n## ${c.name}\n${c.output}`),
+    ].join('\n');
+}
+
+export function isVerificationFeedback(message: ModelMessage): boolean {
+    return message.role === 'user' && typeof message.content === 'string' && message.content.startsWith(VERIFICATION_PREFIX);
+}
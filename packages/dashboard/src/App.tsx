@@ -1,11 +1,18 @@
-import { useState, useCallback, useRef } from 'react'
+import { useState, useCallback, useRef, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
-import { X, Maximize2, Minimize2, Trash2, Sun, Moon } from 'lucide-react'
+import { X, Maximize2, Minimize2, Trash2, Sun, Moon, History, Plug, ShieldCheck, MessagesSquare, Gauge, Settings, ScrollText } from 'lucide-react'
 import { Button } from './components/ui/button'
 import { ConfirmDialog } from './components/ui/confirm-dialog'
 import { Console } from './components/Console'
 import { ModelSelector, type ModelSelectorHandle } from './components/ModelSelector'
 import { DiffModal, type FileDiff } from './components/DiffModal'
+import { UndoTimeline } from './components/UndoTimeline'
+import { McpServers, type McpServerInfo } from './components/McpServers'
+import { PermissionsEditor } from './components/PermissionsEditor'
+import { Threads, type ThreadInfo } from './components/Threads'
+import { UsagePanel } from './components/UsagePanel'
+import { SettingsPanel } from './components/SettingsPanel'
+import { InstructionsPanel } from './components/InstructionsPanel'
 import { CreationView } from './components/CreationView'
 import { ComparisonView } from './components/ComparisonView'
 import { useTheme } from './hooks/useTheme'
@@ -30,6 +37,15 @@ function App() {
     const [isStreaming, setIsStreaming] = useState(false)
     const [reviewDiffs, setReviewDiffs] = useState<FileDiff[] | null>(null)
     const [showClearConfirm, setShowClearConfirm] = useState(false)
+    const [showUndoTimeline, setShowUndoTimeline] = useState(false)
+    const [mcpServers, setMcpServers] = useState<McpServerInfo[]>([])
+    const [showMcpServers, setShowMcpServers] = useState(false)
+    const [showPermissions, setShowPermissions] = useState(false)
+    const [showThreads, setShowThreads] = useState(false)
+    const [threadName, setThreadName] = useState<string | null>(null)
+    const [showUsage, setShowUsage] = useState(false)
+    const [showSettings, setShowSettings] = useState(false)
+    const [showInstructions, setShowInstructions] = useState(false)
     const [modelReady, setModelReady] = useState(false)
     const modelSelectorRef = useRef<ModelSelectorHandle>(null)
 
@@ -40,9 +56,122 @@ function App() {
 
     const handleReviewClose = useCallback(() => {
         setReviewDiffs(null)
+        // The undo timeline stays open underneath a review it launched
+        if (!showUndoTimeline) {
+            window.parent.postMessage({ type: 'AWEL_SHOW_CONTROLS' }, '*')
+        }
+    }, [showUndoTimeline])
+
+    const handleUndoTimelineOpen = () => {
+        setShowUndoTimeline(true)
+        window.parent.postMessage({ type: 'AWEL_HIDE_CONTROLS' }, '*')
+    }
+
+    const handleUndoTimelineClose = useCallback(() => {
+        setShowUndoTimeline(false)
+        window.parent.postMessage({ type: 'AWEL_SHOW_CONTROLS' }, '*')
+    }, [])
+
+    useEffect(() => {
+        if (IS_CREATION_MODE || IS_COMPARISON_MODE) return
+        fetch('/api/mcp/servers')
+            .then(res => res.json())
+            .then(data => setMcpServers(data.servers ?? []))
+            .catch(() => { })
+    }, [])
+
+    const handleMcpServersOpen = () => {
+        setShowMcpServers(true)
+        window.parent.postMessage({ type: 'AWEL_HIDE_CONTROLS' }, '*')
+    }
+
+    const handleMcpServersClose = useCallback(() => {
+        setShowMcpServers(false)
         window.parent.postMessage({ type: 'AWEL_SHOW_CONTROLS' }, '*')
     }, [])
 
+    const handlePermissionsOpen = () => {
+        setShowPermissions(true)
+        window.parent.postMessage({ type: 'AWEL_HIDE_CONTROLS' }, '*')
+    }
+
+    const handlePermissionsClose = useCallback(() => {
+        setShowPermissions(false)
+        window.parent.postMessage({ type: 'AWEL_SHOW_CONTROLS' }, '*')
+    }, [])
+
+    // Refresh the thread name when the chat changes or a prompt names a new thread
+    useEffect(() => {
+        if (IS_CREATION_MODE || IS_COMPARISON_MODE) return
+        fetch('/api/threads')
+            .then(res => res.json())
+            .then(data => {
+                const current = (data.threads as ThreadInfo[] | undefined)?.find(th => th.id === data.currentThreadId)
+                setThreadName(current?.name ?? null)
+            })
+            .catch(() => { })
+    }, [chatKey, isStreaming])
+
+    const handleThreadsOpen = () => {
+        setShowThreads(true)
+        window.parent.postMessage({ type: 'AWEL_HIDE_CONTROLS' }, '*')
+    }
+
+    const handleThreadsClose = useCallback(() => {
+        setShowThreads(false)
+        window.parent.postMessage({ type: 'AWEL_SHOW_CONTROLS' }, '*')
+    }, [])
+
+    const handleThreadChange = useCallback(() => {
+        setChatKey(k => k + 1)
+    }, [])
+
+    const handleUsageOpen = () => {
+        setShowUsage(true)
+        window.parent.postMessage({ type: 'AWEL_HIDE_CONTROLS' }, '*')
+    }
+
+    const handleUsageClose = useCallback(() => {
+        setShowUsage(false)
+        window.parent.postMessage({ type: 'AWEL_SHOW_CONTROLS' }, '*')
+    }, [])
+
+    const handleSettingsOpen = () => {
+        setShowSettings(true)
+        window.parent.postMessage({ type: 'AWEL_HIDE_CONTROLS' }, '*')
+    }
+
+    const handleSettingsClose = useCallback(() => {
+        setShowSettings(false)
+        window.parent.postMessage({ type: 'AWEL_SHOW_CONTROLS' }, '*')
+    }, [])
+
+    const handleInstructionsOpen = () => {
+        setShowInstructions(true)
+        window.parent.postMessage({ type: 'AWEL_HIDE_CONTROLS' }, '*')
+    }
+
+    const handleInstructionsClose = useCallback(() => {
+        setShowInstructions(false)
+        window.parent.postMessage({ type: 'AWEL_SHOW_CONTROLS' }, '*')
+    }, [])
+
+    // Without a model picked in this browser, start from the project's default model
+    useEffect(() => {
+        if (IS_COMPARISON_MODE || localStorage.getItem('awel-model')) return
+        fetch('/api/settings')
+            .then(res => res.json())
+            .then(data => {
+                const model = data.effective?.model
+                if (!model || localStorage.getItem('awel-model')) return
+                setSelectedModel(model.id)
+                setSelectedModelProvider(model.provider)
+            })
+            .catch(() => { })
+    }, [])
+
+    const mcpHasErrors = mcpServers.some(s => s.status === 'error')
+
     const handleClearChat = async () => {
         setShowClearConfirm(false)
         await fetch('/api/chat/history', { method: 'DELETE' })
@@ -116,9 +245,18 @@ function App() {
             >
                 {/* Header */}
                 <header className="flex items-center justify-between px-4 py-2.5 border-b border-border shrink-0">
-                    <div className="flex items-center gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
                         <span className="text-sm leading-none">🌸</span>
                         <span className="text-sm font-semibold text-foreground">Awel</span>
+                        {threadName && (
+                            <button
+                                onClick={handleThreadsOpen}
+                                className="text-xs text-muted-foreground hover:text-foreground truncate max-w-[120px] transition-colors"
+                                title={threadName}
+                            >
+                                {threadName}
+                            </button>
+                        )}
                         {isStreaming && (
                             <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse" />
                         )}
@@ -145,6 +283,74 @@ function App() {
                                 : <Moon className="w-3.5 h-3.5" />
                             }
                         </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={handleThreadsOpen}
+                            className="h-7 w-7 hover:bg-muted"
+                            title={t('threads')}
+                        >
+                            <MessagesSquare className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={handleUndoTimelineOpen}
+                            className="h-7 w-7 hover:bg-muted"
+                            title={t('undoHistory')}
+                        >
+                            <History className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={handleUsageOpen}
+                            className="h-7 w-7 hover:bg-muted"
+                            title={t('usage')}
+                        >
+                            <Gauge className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={handlePermissionsOpen}
+                            className="h-7 w-7 hover:bg-muted"
+                            title={t('permissions')}
+                        >
+                            <ShieldCheck className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={handleSettingsOpen}
+                            className="h-7 w-7 hover:bg-muted"
+                            title={t('projectSettings')}
+                        >
+                            <Settings className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={handleInstructionsOpen}
+                            className="h-7 w-7 hover:bg-muted"
+                            title={t('projectInstructions')}
+                        >
+                            <ScrollText className="w-3.5 h-3.5" />
+                        </Button>
+                        {mcpServers.length > 0 && (
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={handleMcpServersOpen}
+                                className="relative h-7 w-7 hover:bg-muted"
+                                title={t('mcpServers')}
+                            >
+                                <Plug className="w-3.5 h-3.5" />
+                                {mcpHasErrors && (
+                                    <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-red-500" />
+                                )}
+                            </Button>
+                        )}
                         <Button
                             variant="ghost"
                             size="icon"
@@ -186,6 +392,44 @@ function App() {
                 />
             </div>
 
+            {showUndoTimeline && (
+                <UndoTimeline
+                    onClose={handleUndoTimelineClose}
+                    onReviewDiffs={setReviewDiffs}
+                />
+            )}
+
+            {showMcpServers && (
+                <McpServers
+                    servers={mcpServers}
+                    onServersChange={setMcpServers}
+                    onClose={handleMcpServersClose}
+                />
+            )}
+
+            {showThreads && (
+                <Threads
+                    onClose={handleThreadsClose}
+                    onThreadChange={handleThreadChange}
+                />
+            )}
+
+            {showUsage && (
+                <UsagePanel onClose={handleUsageClose} />
+            )}
+
+            {showSettings && (
+                <SettingsPanel onClose={handleSettingsClose} />
+            )}
+
+            {showInstructions && (
+                <InstructionsPanel onClose={handleInstructionsClose} />
+            )}
+
+            {showPermissions && (
+                <PermissionsEditor onClose={handlePermissionsClose} />
+            )}
+
             {reviewDiffs && (
                 <DiffModal
                     diffs={reviewDiffs}
@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { GitCommitHorizontal, Sparkles } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+interface CommitDialogProps {
+    sessionId?: string
+    onCommitted: (commit: string, branch: string) => void
+    onCancel: () => void
+}
+
+export function CommitDialog({ sessionId, onCommitted, onCancel }: CommitDialogProps) {
+    const { t } = useTranslation()
+    const [message, setMessage] = useState('')
+    const [branch, setBranch] = useState('')
+    const [createBranch, setCreateBranch] = useState(false)
+    const [generating, setGenerating] = useState(false)
+    const [committing, setCommitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const loadMessage = useCallback(async (useModel: boolean) => {
+        setGenerating(true)
+        try {
+            const res = await fetch('/api/git/commit-message', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ sessionId, useModel }),
+            })
+            const data = await res.json()
+            if (data.success) setMessage(data.message)
+        } catch {
+            // Keep whatever the user typed
+        } finally {
+            setGenerating(false)
+        }
+    }, [sessionId])
+
+    useEffect(() => { loadMessage(false) }, [loadMessage])
+
+    const handleKeyDown = useCallback((e: KeyboardEvent) => {
+        if (e.key === 'Escape') onCancel()
+    }, [onCancel])
+
+    useEffect(() => {
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [handleKeyDown])
+
+    const handleCommit = async () => {
+        setCommitting(true)
+        setError(null)
+        try {
+            const res = await fetch('/api/git/commit', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    sessionId,
+                    message,
+                    branch: createBranch ? branch : undefined,
+                }),
+            })
+            const data = await res.json()
+            if (data.success) {
+                onCommitted(data.commit, data.branch)
+            } else {
+                setError(data.error || t('commitFailed'))
+            }
+        } catch {
+            setError(t('commitFailed'))
+        } finally {
+            setCommitting(false)
+        }
+    }
+
+    const canCommit = message.trim().length > 0 && (!createBranch || branch.trim().length > 0) && !committing
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+            onClick={(e) => { e.stopPropagation(); if (e.target === e.currentTarget) onCancel() }}
+        >
+            <div className="bg-card border border-border rounded-lg w-full max-w-md shadow-xl mx-4 p-4">
+                <h3 className="flex items-center gap-2 text-sm font-medium text-foreground">
+                    <GitCommitHorizontal className="w-4 h-4" />
+                    {t('commitChanges')}
+                </h3>
+
+                <div className="mt-3 flex items-center justify-between">
+                    <label className="text-xs text-muted-foreground">{t('commitMessage')}</label>
+                    <button
+                        onClick={() => loadMessage(true)}
+                        disabled={generating}
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground disabled:opacity-50 transition-colors"
+                    >
+                        <Sparkles className="w-3 h-3" />
+                        {generating ? t('generating') : t('generateWithAi')}
+                    </button>
+                </div>
+                <textarea
+                    value={message}
+                    onChange={e => setMessage(e.target.value)}
+                    rows={5}
+                    className="mt-1 w-full text-xs font-mono bg-background border border-border rounded px-2 py-1.5 text-foreground outline-none resize-y"
+                />
+
+                <label className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
+                    <input
+                        type="checkbox"
+                        checked={createBranch}
+                        onChange={e => setCreateBranch(e.target.checked)}
+                    />
+                    {t('createBranch')}
+                </label>
+                {createBranch && (
+                    <input
+                        value={branch}
+                        onChange={e => setBranch(e.target.value)}
+                        placeholder="awel/my-change"
+                        className="mt-1.5 w-full text-xs font-mono bg-background border border-border rounded px-2 py-1.5 text-foreground outline-none"
+                    />
+                )}
+
+                {error && (
+                    <p className="mt-2 text-xs text-red-600 dark:text-red-400 whitespace-pre-wrap">{error}</p>
+                )}
+
+                <div className="mt-4 flex gap-2 justify-end">
+                    <button
+                        onClick={onCancel}
+                        className="text-xs px-3 py-1.5 rounded bg-muted text-muted-foreground hover:bg-accent transition-colors"
+                    >
+                        {t('cancel')}
+                    </button>
+                    <button
+                        onClick={handleCommit}
+                        disabled={!canCommit}
+                        className={cn(
+                            "text-xs px-3 py-1.5 rounded transition-colors bg-primary text-primary-foreground hover:bg-primary/90",
+                            !canCommit && "opacity-50 cursor-not-allowed"
+                        )}
+                    >
+                        {committing ? t('committing') : t('commit')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -32,6 +32,7 @@ export function Console({ selectedModel, selectedModelProvider, modelReady, onMo
         messagesEndRef,
         renderedMessages,
         consoleEntries,
+        serverEntries,
         handleConsoleEntryClick,
         dismissConsoleEntry,
         clearConsoleEntries,
@@ -422,6 +423,7 @@ export function Console({ selectedModel, selectedModelProvider, modelReady, onMo
                 <div className="flex-1 min-w-0">
                     <ConsoleChips
                         entries={consoleEntries}
+                        serverEntries={serverEntries}
                         onEntryClick={handleConsoleEntryClick}
                         onDismiss={dismissConsoleEntry}
                         onClearAll={clearConsoleEntries}
@@ -14,27 +14,42 @@ function formatTrace(entry: ConsoleEntry): string | null {
         .join('\n')
 }
 
+type ConsoleTab = 'browser' | 'server'
+
 interface ConsoleChipsProps {
     entries: ConsoleEntry[]
+    /** Dev server errors and warnings, shown under a Server tab */
+    serverEntries?: ConsoleEntry[]
     onEntryClick: (entry: ConsoleEntry) => void
     onDismiss: (id: string) => void
-    onClearAll: () => void
+    onClearAll: (origin: ConsoleTab) => void
 }
 
-export function ConsoleChips({ entries, onEntryClick, onDismiss, onClearAll }: ConsoleChipsProps) {
+export function ConsoleChips({ entries, serverEntries, onEntryClick, onDismiss, onClearAll }: ConsoleChipsProps) {
     const { t } = useTranslation()
     const [expanded, setExpanded] = useState(false)
+    const [tab, setTab] = useState<ConsoleTab>('browser')
 
     const handleEntryClick = (entry: ConsoleEntry) => {
         onEntryClick(entry)
         setExpanded(false)
     }
 
-    const errorCount = entries.filter(e => e.level === 'error').length
-    const warningCount = entries.filter(e => e.level === 'warning').length
-    const hasEntries = entries.length > 0
-    const visible = entries.slice(-MAX_VISIBLE).reverse()
-    const hiddenCount = entries.length - visible.length
+    const handleTabClick = (next: ConsoleTab) => {
+        setTab(next)
+        setExpanded(true)
+    }
+
+    const activeEntries = tab === 'server' && serverEntries ? serverEntries : entries
+    // The bar is highlighted for problems in either tab
+    const allEntries = serverEntries ? [...entries, ...serverEntries] : entries
+    const errorCount = allEntries.filter(e => e.level === 'error').length
+    const warningCount = allEntries.filter(e => e.level === 'warning').length
+    const activeErrorCount = activeEntries.filter(e => e.level === 'error').length
+    const activeWarningCount = activeEntries.filter(e => e.level === 'warning').length
+    const hasEntries = activeEntries.length > 0
+    const visible = activeEntries.slice(-MAX_VISIBLE).reverse()
+    const hiddenCount = activeEntries.length - visible.length
 
     return (
         <div className="mx-4 my-1.5 flex flex-col-reverse gap-2">
@@ -48,19 +63,48 @@ export function ConsoleChips({ entries, onEntryClick, onDismiss, onClearAll }: C
                     errorCount === 0 && warningCount === 0 && "border-border bg-card/60 cursor-default"
                 )}
             >
+                {serverEntries && (
+                    <span className="flex items-center gap-0.5 mr-1">
+                        {(['browser', 'server'] as const).map(name => {
+                            const tabEntries = name === 'server' ? serverEntries : entries
+                            const tabHasErrors = tabEntries.some(e => e.level === 'error')
+                            return (
+                                <span
+                                    key={name}
+                                    role="button"
+                                    onClick={(e) => {
+                                        e.stopPropagation()
+                                        handleTabClick(name)
+                                    }}
+                                    className={cn(
+                                        "relative px-1.5 py-0.5 rounded transition-colors",
+                                        tab === name
+                                            ? "bg-muted text-foreground"
+                                            : "text-muted-foreground hover:text-foreground"
+                                    )}
+                                >
+                                    {name === 'server' ? t('consoleServerTab') : t('consoleBrowserTab')}
+                                    {tabHasErrors && tab !== name && (
+                                        <span className="absolute top-0 right-0 w-1.5 h-1.5 rounded-full bg-red-500" />
+                                    )}
+                                </span>
+                            )
+                        })}
+                    </span>
+                )}
                 <span className={cn(
                     "flex items-center gap-1 font-medium",
-                    errorCount > 0 ? "text-red-600 dark:text-red-400" : "text-red-600/60 dark:text-red-400/60"
+                    activeErrorCount > 0 ? "text-red-600 dark:text-red-400" : "text-red-600/60 dark:text-red-400/60"
                 )}>
                     <XCircle className="w-3 h-3" />
-                    {errorCount}
+                    {activeErrorCount}
                 </span>
                 <span className={cn(
                     "flex items-center gap-1 font-medium",
-                    warningCount > 0 && errorCount === 0 ? "text-yellow-600 dark:text-yellow-400" : "text-yellow-600/60 dark:text-yellow-400/60"
+                    activeWarningCount > 0 && activeErrorCount === 0 ? "text-yellow-600 dark:text-yellow-400" : "text-yellow-600/60 dark:text-yellow-400/60"
                 )}>
                     <AlertTriangle className="w-3 h-3" />
-                    {warningCount}
+                    {activeWarningCount}
                 </span>
                 {hasEntries && (
                     <>
@@ -68,7 +112,7 @@ export function ConsoleChips({ entries, onEntryClick, onDismiss, onClearAll }: C
                             role="button"
                             onClick={(e) => {
                                 e.stopPropagation()
-                                onClearAll()
+                                onClearAll(tab)
                             }}
                             className="flex items-center gap-1 ml-auto text-muted-foreground hover:text-foreground transition-colors"
                         >
@@ -0,0 +1,125 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, ScrollText, ChevronRight } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+interface InstructionFile {
+    path: string
+    dir: string
+    content: string
+    truncated: boolean
+}
+
+interface InstructionsResponse {
+    fileNames: string[]
+    files: InstructionFile[]
+    injectedAt: string | null
+}
+
+interface InstructionsPanelProps {
+    onClose: () => void
+}
+
+export function InstructionsPanel({ onClose }: InstructionsPanelProps) {
+    const { t } = useTranslation()
+    const [data, setData] = useState<InstructionsResponse | null>(null)
+    const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+    useEffect(() => {
+        fetch('/api/instructions')
+            .then(res => res.json())
+            .then((response: InstructionsResponse) => {
+                setData(response)
+                // Open the root files; nested ones stay collapsed
+                setExpanded(new Set(response.files.filter(f => !f.dir).map(f => f.path)))
+            })
+            .catch(() => setData(null))
+    }, [])
+
+    const handleKeyDown = useCallback((e: KeyboardEvent) => {
+        if (e.key === 'Escape') onClose()
+    }, [onClose])
+
+    useEffect(() => {
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [handleKeyDown])
+
+    const toggle = (path: string) => {
+        setExpanded(prev => {
+            const next = new Set(prev)
+            if (next.has(path)) next.delete(path)
+            else next.add(path)
+            return next
+        })
+    }
+
+    return (
+        <div className="fixed inset-0 z-50" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+            <div
+                className="absolute inset-0 bg-background overflow-hidden flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                    <span className="flex items-center gap-2 text-sm text-foreground">
+                        <ScrollText className="w-4 h-4" />
+                        {t('projectInstructions')}
+                    </span>
+                    <button
+                        onClick={onClose}
+                        className="text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {/* Body */}
+                <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                    {data === null ? (
+                        <div className="text-xs text-muted-foreground">{t('loading')}</div>
+                    ) : (
+                        <>
+                            <p className="text-[11px] text-muted-foreground">
+                                {data.injectedAt
+                                    ? t('instructionsInjected', { time: new Date(data.injectedAt).toLocaleTimeString() })
+                                    : t('instructionsPreview')}
+                            </p>
+                            {data.files.length === 0 ? (
+                                <p className="text-xs text-muted-foreground">
+                                    {t('noInstructions', { names: data.fileNames.join(', ') })}
+                                </p>
+                            ) : data.files.map(file => (
+                                <div key={file.path} className="rounded-lg border border-border">
+                                    <button
+                                        onClick={() => toggle(file.path)}
+                                        className="w-full flex items-center gap-2 px-3 py-2 text-left"
+                                    >
+                                        <ChevronRight className={cn(
+                                            "w-3.5 h-3.5 text-muted-foreground transition-transform",
+                                            expanded.has(file.path) && "rotate-90"
+                                        )} />
+                                        <span className="text-xs font-mono text-foreground truncate">{file.path}</span>
+                                        <span className="ml-auto shrink-0 text-[11px] text-muted-foreground">
+                                            {file.dir ? t('instructionsDirectory') : t('instructionsProject')}
+                                        </span>
+                                    </button>
+                                    {expanded.has(file.path) && (
+                                        <div className="border-t border-border px-3 py-2 space-y-1">
+                                            <pre className="text-[11px] text-foreground whitespace-pre-wrap break-words font-mono">
+                                                {file.content}
+                                            </pre>
+                                            {file.truncated && (
+                                                <p className="text-[11px] text-amber-600 dark:text-amber-400">{t('instructionsTruncated')}</p>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
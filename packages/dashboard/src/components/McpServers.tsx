@@ -0,0 +1,132 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, Plug, RotateCw, Wrench } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+export interface McpServerInfo {
+    name: string
+    transport: 'stdio' | 'http'
+    status: 'connecting' | 'connected' | 'error' | 'disabled'
+    error?: string
+    tools: { name: string; description: string }[]
+}
+
+interface McpServersProps {
+    servers: McpServerInfo[]
+    onServersChange: (servers: McpServerInfo[]) => void
+    onClose: () => void
+}
+
+const STATUS_DOT: Record<McpServerInfo['status'], string> = {
+    connecting: 'bg-amber-400 animate-pulse',
+    connected: 'bg-emerald-500',
+    error: 'bg-red-500',
+    disabled: 'bg-muted-foreground/40',
+}
+
+export function McpServers({ servers, onServersChange, onClose }: McpServersProps) {
+    const { t } = useTranslation()
+    const [reloading, setReloading] = useState(false)
+    const [expanded, setExpanded] = useState<string | null>(null)
+
+    const handleKeyDown = useCallback((e: KeyboardEvent) => {
+        if (e.key === 'Escape') onClose()
+    }, [onClose])
+
+    useEffect(() => {
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [handleKeyDown])
+
+    const handleReload = async () => {
+        setReloading(true)
+        try {
+            const res = await fetch('/api/mcp/reload', { method: 'POST' })
+            const data = await res.json()
+            onServersChange(data.servers ?? [])
+        } catch {
+            // Keep the last known status
+        } finally {
+            setReloading(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+            <div
+                className="absolute inset-0 bg-background overflow-hidden flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                    <span className="flex items-center gap-2 text-sm text-foreground">
+                        <Plug className="w-4 h-4" />
+                        {t('mcpServers')}
+                    </span>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={handleReload}
+                            disabled={reloading}
+                            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground disabled:opacity-50 transition-colors"
+                        >
+                            <RotateCw className={cn("w-3 h-3", reloading && "animate-spin")} />
+                            {reloading ? t('mcpReloading') : t('mcpReload')}
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Body */}
+                <div className="flex-1 overflow-y-auto">
+                    {servers.length === 0 ? (
+                        <div className="p-4 text-xs text-muted-foreground">{t('mcpNoServers')}</div>
+                    ) : (
+                        servers.map(server => (
+                            <div key={server.name} className="px-4 py-3 border-b border-border/50">
+                                <button
+                                    onClick={() => setExpanded(e => e === server.name ? null : server.name)}
+                                    disabled={server.tools.length === 0}
+                                    className="w-full flex items-center gap-2 text-left"
+                                >
+                                    <span className={cn("w-2 h-2 rounded-full flex-shrink-0", STATUS_DOT[server.status])} />
+                                    <span className="text-xs font-medium text-foreground truncate">{server.name}</span>
+                                    <span className="text-[10px] px-1.5 rounded bg-muted text-muted-foreground flex-shrink-0">
+                                        {server.transport}
+                                    </span>
+                                    <span className="ml-auto text-[11px] text-muted-foreground flex-shrink-0">
+                                        {server.status === 'connected'
+                                            ? t('mcpToolCount', { count: server.tools.length })
+                                            : t(`mcpStatus_${server.status}`)}
+                                    </span>
+                                </button>
+                                {server.error && (
+                                    <p className="mt-1 text-[11px] text-red-600 dark:text-red-400 whitespace-pre-wrap break-all">{server.error}</p>
+                                )}
+                                {expanded === server.name && (
+                                    <div className="mt-2 space-y-1">
+                                        {server.tools.map(tool => (
+                                            <div key={tool.name} className="flex items-start gap-2 text-[11px] leading-5">
+                                                <Wrench className="w-3 h-3 mt-1 text-muted-foreground flex-shrink-0" />
+                                                <div className="min-w-0">
+                                                    <div className="font-mono text-foreground truncate">{tool.name}</div>
+                                                    {tool.description && (
+                                                        <div className="text-muted-foreground line-clamp-2">{tool.description}</div>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
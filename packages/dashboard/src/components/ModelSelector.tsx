@@ -18,6 +18,7 @@ interface ProviderEntry {
     available: boolean
     unavailableReason?: string
     customModelInput?: boolean
+    capabilities?: { vision: boolean; toolCalling: boolean }
     models: ModelEntry[]
 }
 
@@ -342,6 +343,9 @@ export const ModelSelector = forwardRef<ModelSelectorHandle, ModelSelectorProps>
                                 <div key={provider.id}>
                                     <div className={cn("px-4 py-1.5 text-[10px] font-medium uppercase tracking-wider bg-card/50 sticky top-0", provider.color || "text-muted-foreground")}>
                                         {provider.label}
+                                        {provider.capabilities && !provider.capabilities.toolCalling && (
+                                            <span className="ml-2 normal-case tracking-normal text-muted-foreground">{t('chatOnly', 'chat only — no tools')}</span>
+                                        )}
                                     </div>
                                     {provider.models.map(m => (
                                         <button
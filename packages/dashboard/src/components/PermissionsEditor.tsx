@@ -0,0 +1,185 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, ShieldCheck, Trash2, Plus } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+type PermissionAction = 'allow' | 'deny' | 'ask'
+
+interface PermissionRule {
+    action: PermissionAction
+    tool: string
+    command?: string
+    path?: string
+}
+
+interface PermissionsEditorProps {
+    onClose: () => void
+}
+
+const TOOL_OPTIONS = ['Bash', 'Write', 'Edit', 'MultiEdit', 'mcp__*', '*']
+
+const ACTION_STYLES: Record<PermissionAction, string> = {
+    allow: 'bg-green-100/60 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+    ask: 'bg-amber-100/60 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+    deny: 'bg-red-100/60 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+}
+
+export function PermissionsEditor({ onClose }: PermissionsEditorProps) {
+    const { t } = useTranslation()
+    const [rules, setRules] = useState<PermissionRule[] | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [action, setAction] = useState<PermissionAction>('allow')
+    const [tool, setTool] = useState('Bash')
+    const [pattern, setPattern] = useState('')
+
+    useEffect(() => {
+        fetch('/api/permissions')
+            .then(res => res.json())
+            .then(data => setRules(data.rules ?? []))
+            .catch(() => setRules([]))
+    }, [])
+
+    const handleKeyDown = useCallback((e: KeyboardEvent) => {
+        if (e.key === 'Escape') onClose()
+    }, [onClose])
+
+    useEffect(() => {
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [handleKeyDown])
+
+    const saveRules = async (next: PermissionRule[]) => {
+        setError(null)
+        try {
+            const res = await fetch('/api/permissions', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ rules: next }),
+            })
+            const data = await res.json()
+            if (data.success) {
+                setRules(data.rules)
+            } else {
+                setError(data.error || t('permissionsSaveFailed'))
+            }
+        } catch {
+            setError(t('permissionsSaveFailed'))
+        }
+    }
+
+    // Bash rules match commands; every other tool matches file paths
+    const isCommandRule = tool === 'Bash'
+
+    const handleAdd = () => {
+        if (!rules) return
+        const rule: PermissionRule = { action, tool }
+        const value = pattern.trim()
+        if (value) {
+            if (isCommandRule) rule.command = value
+            else rule.path = value
+        }
+        saveRules([...rules, rule])
+        setPattern('')
+    }
+
+    const handleDelete = (index: number) => {
+        if (!rules) return
+        saveRules(rules.filter((_, i) => i !== index))
+    }
+
+    return (
+        <div className="fixed inset-0 z-50" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+            <div
+                className="absolute inset-0 bg-background overflow-hidden flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                    <span className="flex items-center gap-2 text-sm text-foreground">
+                        <ShieldCheck className="w-4 h-4" />
+                        {t('permissions')}
+                    </span>
+                    <button
+                        onClick={onClose}
+                        className="text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <p className="px-4 py-2 text-[11px] text-muted-foreground border-b border-border/50">
+                    {t('permissionsDescription')}
+                </p>
+
+                {error && (
+                    <div className="px-4 py-2 text-xs text-red-600 dark:text-red-400 border-b border-border/50">{error}</div>
+                )}
+
+                {/* Add rule */}
+                <div className="px-4 py-3 border-b border-border flex items-center gap-2">
+                    <select
+                        value={action}
+                        onChange={e => setAction(e.target.value as PermissionAction)}
+                        className="text-xs bg-background border border-border rounded px-1.5 py-1 text-foreground outline-none"
+                    >
+                        <option value="allow">{t('permissionAllow')}</option>
+                        <option value="ask">{t('permissionAsk')}</option>
+                        <option value="deny">{t('permissionDeny')}</option>
+                    </select>
+                    <select
+                        value={tool}
+                        onChange={e => setTool(e.target.value)}
+                        className="text-xs bg-background border border-border rounded px-1.5 py-1 text-foreground outline-none"
+                    >
+                        {TOOL_OPTIONS.map(option => (
+                            <option key={option} value={option}>{option === '*' ? t('permissionAnyTool') : option}</option>
+                        ))}
+                    </select>
+                    <input
+                        value={pattern}
+                        onChange={e => setPattern(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') handleAdd() }}
+                        placeholder={isCommandRule ? 'npm test*' : 'src/**'}
+                        className="flex-1 min-w-0 text-xs font-mono bg-background border border-border rounded px-2 py-1 text-foreground outline-none"
+                    />
+                    <button
+                        onClick={handleAdd}
+                        disabled={rules === null}
+                        className="flex items-center gap-1 text-xs px-2 py-1 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors"
+                    >
+                        <Plus className="w-3 h-3" />
+                        {t('add')}
+                    </button>
+                </div>
+
+                {/* Rules */}
+                <div className="flex-1 overflow-y-auto">
+                    {rules === null ? (
+                        <div className="p-4 text-xs text-muted-foreground">{t('loading')}</div>
+                    ) : rules.length === 0 ? (
+                        <div className="p-4 text-xs text-muted-foreground">{t('permissionsEmpty')}</div>
+                    ) : (
+                        rules.map((rule, i) => (
+                            <div key={i} className="group flex items-center gap-2 px-4 py-2 border-b border-border/50 text-xs">
+                                <span className={cn("px-1.5 rounded text-[10px] font-medium uppercase flex-shrink-0", ACTION_STYLES[rule.action])}>
+                                    {rule.action}
+                                </span>
+                                <span className="font-mono text-foreground flex-shrink-0">{rule.tool}</span>
+                                <span className="font-mono text-muted-foreground truncate">
+                                    {rule.command ?? rule.path ?? ''}
+                                </span>
+                                <button
+                                    onClick={() => handleDelete(i)}
+                                    className="ml-auto opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-red-600 dark:hover:text-red-400 transition-opacity flex-shrink-0"
+                                    title={t('delete')}
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,289 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, Settings } from 'lucide-react'
+
+interface AwelSettings {
+    model?: { provider: string; id: string }
+    port?: number
+    awelPort?: number
+    openBrowser?: boolean
+    maxOutputTokens?: number
+    maxSteps?: number
+    autoCompactTokens?: number
+    autoApprove?: { bash?: boolean; fileWrites?: boolean; mcp?: boolean }
+    ignoredDirs?: string[]
+}
+
+interface SettingsResponse {
+    file: { name: string; format: 'json' | 'ts' } | null
+    editable: boolean
+    settings: AwelSettings
+    effective: AwelSettings
+    error?: string
+}
+
+interface SettingsPanelProps {
+    onClose: () => void
+}
+
+type NumberField = 'port' | 'awelPort' | 'maxSteps' | 'maxOutputTokens' | 'autoCompactTokens'
+type AutoApproveField = 'bash' | 'fileWrites' | 'mcp'
+
+const NUMBER_FIELDS: { key: NumberField; label: string }[] = [
+    { key: 'port', label: 'settingsPort' },
+    { key: 'awelPort', label: 'settingsAwelPort' },
+    { key: 'maxSteps', label: 'settingsMaxSteps' },
+    { key: 'maxOutputTokens', label: 'settingsMaxOutputTokens' },
+    { key: 'autoCompactTokens', label: 'settingsAutoCompactTokens' },
+]
+
+const AUTO_APPROVE_FIELDS: { key: AutoApproveField; label: string }[] = [
+    { key: 'bash', label: 'settingsAutoApproveBash' },
+    { key: 'fileWrites', label: 'settingsAutoApproveFileWrites' },
+    { key: 'mcp', label: 'settingsAutoApproveMcp' },
+]
+
+const inputClass = 'w-full text-xs bg-background border border-border rounded px-2 py-1 text-foreground outline-none disabled:opacity-60'
+
+/** Builds the settings file from the form, leaving out empty fields. */
+function toSettings(
+    base: AwelSettings,
+    provider: string,
+    modelId: string,
+    numbers: Record<NumberField, string>,
+    autoApprove: Record<AutoApproveField, boolean>,
+    ignoredDirs: string,
+): AwelSettings {
+    const settings: AwelSettings = { ...base }
+    delete settings.model
+    if (provider.trim() && modelId.trim()) settings.model = { provider: provider.trim(), id: modelId.trim() }
+    for (const { key } of NUMBER_FIELDS) {
+        const value = numbers[key].trim()
+        if (value === '') delete settings[key]
+        else settings[key] = Number(value)
+    }
+    const approve = Object.fromEntries(
+        Object.entries(autoApprove).filter(([, enabled]) => enabled),
+    ) as AwelSettings['autoApprove']
+    if (approve && Object.keys(approve).length > 0) settings.autoApprove = approve
+    else delete settings.autoApprove
+    const dirs = ignoredDirs.split(',').map(d => d.trim()).filter(Boolean)
+    if (dirs.length > 0) settings.ignoredDirs = dirs
+    else delete settings.ignoredDirs
+    return settings
+}
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+    const { t } = useTranslation()
+    const [data, setData] = useState<SettingsResponse | null>(null)
+    const [provider, setProvider] = useState('')
+    const [modelId, setModelId] = useState('')
+    const [numbers, setNumbers] = useState<Record<NumberField, string>>({
+        port: '', awelPort: '', maxSteps: '', maxOutputTokens: '', autoCompactTokens: '',
+    })
+    const [autoApprove, setAutoApprove] = useState<Record<AutoApproveField, boolean>>({
+        bash: false, fileWrites: false, mcp: false,
+    })
+    const [ignoredDirs, setIgnoredDirs] = useState('')
+    const [saveError, setSaveError] = useState<string | null>(null)
+    const [saved, setSaved] = useState(false)
+
+    const applyResponse = useCallback((response: SettingsResponse) => {
+        const { settings } = response
+        setData(response)
+        setProvider(settings.model?.provider ?? '')
+        setModelId(settings.model?.id ?? '')
+        setNumbers({
+            port: settings.port?.toString() ?? '',
+            awelPort: settings.awelPort?.toString() ?? '',
+            maxSteps: settings.maxSteps?.toString() ?? '',
+            maxOutputTokens: settings.maxOutputTokens?.toString() ?? '',
+            autoCompactTokens: settings.autoCompactTokens?.toString() ?? '',
+        })
+        setAutoApprove({
+            bash: settings.autoApprove?.bash ?? false,
+            fileWrites: settings.autoApprove?.fileWrites ?? false,
+            mcp: settings.autoApprove?.mcp ?? false,
+        })
+        setIgnoredDirs(settings.ignoredDirs?.join(', ') ?? '')
+    }, [])
+
+    useEffect(() => {
+        fetch('/api/settings')
+            .then(res => res.json())
+            .then(applyResponse)
+            .catch(() => setData(null))
+    }, [applyResponse])
+
+    const handleKeyDown = useCallback((e: KeyboardEvent) => {
+        if (e.key === 'Escape') onClose()
+    }, [onClose])
+
+    useEffect(() => {
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [handleKeyDown])
+
+    const markDirty = () => setSaved(false)
+
+    const handleSave = async () => {
+        if (!data) return
+        setSaveError(null)
+        setSaved(false)
+        try {
+            const res = await fetch('/api/settings', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(toSettings(data.settings, provider, modelId, numbers, autoApprove, ignoredDirs)),
+            })
+            const result = await res.json()
+            if (!result.success) {
+                setSaveError(result.error || t('settingsSaveFailed'))
+                return
+            }
+            applyResponse(result)
+            setSaved(true)
+        } catch {
+            setSaveError(t('settingsSaveFailed'))
+        }
+    }
+
+    const readOnly = data ? !data.editable : true
+
+    return (
+        <div className="fixed inset-0 z-50" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+            <div
+                className="absolute inset-0 bg-background overflow-hidden flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                    <span className="flex items-center gap-2 text-sm text-foreground">
+                        <Settings className="w-4 h-4" />
+                        {t('projectSettings')}
+                    </span>
+                    <button
+                        onClick={onClose}
+                        className="text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {/* Body */}
+                <div className="flex-1 overflow-y-auto p-4 space-y-5">
+                    {data === null ? (
+                        <div className="text-xs text-muted-foreground">{t('loading')}</div>
+                    ) : (
+                        <>
+                            <p className="text-[11px] text-muted-foreground">
+                                {data.file
+                                    ? t('settingsFile', { name: data.file.name })
+                                    : t('settingsNoFile')}
+                            </p>
+                            {readOnly && (
+                                <p className="text-[11px] text-amber-600 dark:text-amber-400">{t('settingsReadOnly')}</p>
+                            )}
+                            {data.error && (
+                                <p className="text-[11px] text-red-600 dark:text-red-400 whitespace-pre-line">{data.error}</p>
+                            )}
+
+                            {/* Default model */}
+                            <section className="space-y-2">
+                                <h3 className="text-xs font-medium text-foreground">{t('settingsDefaultModel')}</h3>
+                                <div className="flex gap-2">
+                                    <label className="flex-1 space-y-1">
+                                        <span className="text-[11px] text-muted-foreground">{t('settingsProvider')}</span>
+                                        <input
+                                            value={provider}
+                                            disabled={readOnly}
+                                            onChange={e => { setProvider(e.target.value); markDirty() }}
+                                            placeholder={data.effective.model?.provider ?? 'anthropic'}
+                                            className={inputClass}
+                                        />
+                                    </label>
+                                    <label className="flex-[2] space-y-1">
+                                        <span className="text-[11px] text-muted-foreground">{t('settingsModel')}</span>
+                                        <input
+                                            value={modelId}
+                                            disabled={readOnly}
+                                            onChange={e => { setModelId(e.target.value); markDirty() }}
+                                            placeholder={data.effective.model?.id ?? 'claude-sonnet-4-5'}
+                                            className={inputClass}
+                                        />
+                                    </label>
+                                </div>
+                            </section>
+
+                            {/* Limits and ports */}
+                            <section className="space-y-2">
+                                <h3 className="text-xs font-medium text-foreground">{t('settingsLimits')}</h3>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {NUMBER_FIELDS.map(({ key, label }) => (
+                                        <label key={key} className="space-y-1">
+                                            <span className="text-[11px] text-muted-foreground">{t(label)}</span>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={numbers[key]}
+                                                disabled={readOnly}
+                                                onChange={e => { setNumbers(prev => ({ ...prev, [key]: e.target.value })); markDirty() }}
+                                                placeholder={data.effective[key]?.toString() ?? t('settingsDefault')}
+                                                className={inputClass}
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                            </section>
+
+                            {/* Auto-approve */}
+                            <section className="space-y-2">
+                                <h3 className="text-xs font-medium text-foreground">{t('settingsAutoApprove')}</h3>
+                                <p className="text-[11px] text-muted-foreground">{t('settingsAutoApproveDescription')}</p>
+                                {AUTO_APPROVE_FIELDS.map(({ key, label }) => (
+                                    <label key={key} className="flex items-center gap-2 text-xs text-foreground">
+                                        <input
+                                            type="checkbox"
+                                            checked={autoApprove[key]}
+                                            disabled={readOnly}
+                                            onChange={e => { setAutoApprove(prev => ({ ...prev, [key]: e.target.checked })); markDirty() }}
+                                        />
+                                        {t(label)}
+                                    </label>
+                                ))}
+                            </section>
+
+                            {/* Ignored directories */}
+                            <section className="space-y-2">
+                                <h3 className="text-xs font-medium text-foreground">{t('settingsIgnoredDirs')}</h3>
+                                <p className="text-[11px] text-muted-foreground">{t('settingsIgnoredDirsDescription')}</p>
+                                <input
+                                    value={ignoredDirs}
+                                    disabled={readOnly}
+                                    onChange={e => { setIgnoredDirs(e.target.value); markDirty() }}
+                                    placeholder="coverage, .turbo"
+                                    className={inputClass}
+                                />
+                            </section>
+
+                            {!readOnly && (
+                                <div className="flex items-center gap-3">
+                                    <button
+                                        onClick={handleSave}
+                                        className="px-3 py-1 text-xs rounded bg-foreground text-background hover:opacity-90 transition-opacity"
+                                    >
+                                        {saved ? t('saved') : t('save')}
+                                    </button>
+                                    <span className="text-[11px] text-muted-foreground">{t('settingsRestartHint')}</span>
+                                </div>
+                            )}
+                            {saveError && (
+                                <p className="text-[11px] text-red-600 dark:text-red-400">{saveError}</p>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
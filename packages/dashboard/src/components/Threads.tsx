@@ -0,0 +1,189 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, MessagesSquare, Plus, Pencil, Trash2 } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+export interface ThreadInfo {
+    id: string
+    name: string
+    createdAt: number
+    updatedAt: number
+}
+
+interface ThreadsProps {
+    onClose: () => void
+    /** Called after the current thread changed, so the chat can reload */
+    onThreadChange: () => void
+}
+
+export function Threads({ onClose, onThreadChange }: ThreadsProps) {
+    const { t } = useTranslation()
+    const [threads, setThreads] = useState<ThreadInfo[] | null>(null)
+    const [currentThreadId, setCurrentThreadId] = useState<string | null>(null)
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [editName, setEditName] = useState('')
+
+    useEffect(() => {
+        fetch('/api/threads')
+            .then(res => res.json())
+            .then(data => {
+                setThreads(data.threads ?? [])
+                setCurrentThreadId(data.currentThreadId ?? null)
+            })
+            .catch(() => setThreads([]))
+    }, [])
+
+    const handleKeyDown = useCallback((e: KeyboardEvent) => {
+        if (e.key === 'Escape' && !editingId) onClose()
+    }, [onClose, editingId])
+
+    useEffect(() => {
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [handleKeyDown])
+
+    const handleCreate = async () => {
+        try {
+            await fetch('/api/threads', { method: 'POST' })
+            onThreadChange()
+            onClose()
+        } catch {
+            // Keep the list open
+        }
+    }
+
+    const handleSwitch = async (id: string) => {
+        if (id === currentThreadId) {
+            onClose()
+            return
+        }
+        try {
+            await fetch(`/api/threads/${id}/switch`, { method: 'POST' })
+            onThreadChange()
+            onClose()
+        } catch {
+            // Keep the list open
+        }
+    }
+
+    const handleRename = async (id: string) => {
+        const name = editName.trim()
+        setEditingId(null)
+        if (!name) return
+        try {
+            const res = await fetch(`/api/threads/${id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name }),
+            })
+            const data = await res.json()
+            if (data.success) {
+                setThreads(prev => prev?.map(th => th.id === id ? data.thread : th) ?? null)
+                if (id === currentThreadId) onThreadChange()
+            }
+        } catch {
+            // Keep the old name
+        }
+    }
+
+    const handleDelete = async (id: string) => {
+        try {
+            const res = await fetch(`/api/threads/${id}`, { method: 'DELETE' })
+            const data = await res.json()
+            if (data.success) {
+                setThreads(data.threads ?? [])
+                setCurrentThreadId(data.currentThreadId ?? null)
+                if (id === currentThreadId) onThreadChange()
+            }
+        } catch {
+            // Keep the list as it was
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+            <div
+                className="absolute inset-0 bg-background overflow-hidden flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                    <span className="flex items-center gap-2 text-sm text-foreground">
+                        <MessagesSquare className="w-4 h-4" />
+                        {t('threads')}
+                    </span>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={handleCreate}
+                            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                            <Plus className="w-3 h-3" />
+                            {t('newThread')}
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Body */}
+                <div className="flex-1 overflow-y-auto">
+                    {threads === null ? (
+                        <div className="p-4 text-xs text-muted-foreground">{t('loading')}</div>
+                    ) : (
+                        threads.map(thread => (
+                            <div
+                                key={thread.id}
+                                className={cn(
+                                    "group flex items-center gap-2 px-4 py-2.5 border-b border-border/50 text-xs",
+                                    thread.id === currentThreadId ? "bg-muted/60" : "hover:bg-muted/30"
+                                )}
+                            >
+                                {editingId === thread.id ? (
+                                    <input
+                                        autoFocus
+                                        value={editName}
+                                        onChange={e => setEditName(e.target.value)}
+                                        onBlur={() => handleRename(thread.id)}
+                                        onKeyDown={e => {
+                                            if (e.key === 'Enter') handleRename(thread.id)
+                                            if (e.key === 'Escape') setEditingId(null)
+                                        }}
+                                        className="flex-1 min-w-0 text-xs bg-background border border-border rounded px-2 py-1 text-foreground outline-none"
+                                    />
+                                ) : (
+                                    <button
+                                        onClick={() => handleSwitch(thread.id)}
+                                        className="flex-1 min-w-0 text-left"
+                                    >
+                                        <div className="text-foreground truncate">{thread.name}</div>
+                                        <div className="text-[10px] text-muted-foreground">
+                                            {new Date(thread.updatedAt).toLocaleString()}
+                                        </div>
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => { setEditingId(thread.id); setEditName(thread.name) }}
+                                    className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground transition-opacity flex-shrink-0"
+                                    title={t('renameThread')}
+                                >
+                                    <Pencil className="w-3 h-3" />
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(thread.id)}
+                                    className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-red-600 dark:hover:text-red-400 transition-opacity flex-shrink-0"
+                                    title={t('delete')}
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,283 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, Eye, Undo2, Redo2, History, FileCode } from 'lucide-react'
+import { cn } from '../lib/utils'
+import { ConfirmDialog } from './ui/confirm-dialog'
+import type { FileDiff } from './DiffModal'
+
+interface UndoConflict {
+    file: string
+    sessionIds: string[]
+}
+
+interface TimelineSession {
+    id: string
+    label: string
+    createdAt: number
+    files: string[]
+    revertedFiles: string[]
+    status: 'applied' | 'reverted'
+    conflicts: UndoConflict[]
+    redoableFiles: string[]
+}
+
+interface PendingRevert {
+    action: 'revert' | 'redo'
+    sessionId: string
+    file?: string
+    conflicts: UndoConflict[]
+}
+
+interface UndoTimelineProps {
+    onClose: () => void
+    onReviewDiffs: (diffs: FileDiff[]) => void
+}
+
+export function UndoTimeline({ onClose, onReviewDiffs }: UndoTimelineProps) {
+    const { t } = useTranslation()
+    const [sessions, setSessions] = useState<TimelineSession[] | null>(null)
+    const [busyKey, setBusyKey] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [pendingRevert, setPendingRevert] = useState<PendingRevert | null>(null)
+
+    const loadTimeline = useCallback(async () => {
+        try {
+            const res = await fetch('/api/undo/timeline')
+            const data = await res.json()
+            setSessions(data.sessions ?? [])
+        } catch {
+            setSessions([])
+        }
+    }, [])
+
+    useEffect(() => { loadTimeline() }, [loadTimeline])
+
+    const handleKeyDown = useCallback((e: KeyboardEvent) => {
+        if (e.key === 'Escape' && !pendingRevert) onClose()
+    }, [onClose, pendingRevert])
+
+    useEffect(() => {
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [handleKeyDown])
+
+    const revert = useCallback(async (sessionId: string, file?: string, force = false) => {
+        setBusyKey(file ? `${sessionId}:${file}` : sessionId)
+        setError(null)
+        try {
+            const res = await fetch(`/api/undo/sessions/${sessionId}/revert`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ file, force }),
+            })
+            const data = await res.json()
+            if (data.success) {
+                await loadTimeline()
+            } else if (data.conflicts?.length > 0) {
+                setPendingRevert({ action: 'revert', sessionId, file, conflicts: data.conflicts })
+            } else {
+                setError(data.error || t('undoFailed'))
+            }
+        } catch {
+            setError(t('undoFailed'))
+        } finally {
+            setBusyKey(null)
+        }
+    }, [loadTimeline, t])
+
+    const redo = useCallback(async (sessionId: string, force = false) => {
+        setBusyKey(`redo:${sessionId}`)
+        setError(null)
+        try {
+            const res = await fetch('/api/redo', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ sessionId, force }),
+            })
+            const data = await res.json()
+            if (data.success) {
+                await loadTimeline()
+            } else if (data.conflicts?.length > 0) {
+                setPendingRevert({ action: 'redo', sessionId, conflicts: data.conflicts })
+            } else {
+                setError(data.error || t('redoFailed'))
+            }
+        } catch {
+            setError(t('redoFailed'))
+        } finally {
+            setBusyKey(null)
+        }
+    }, [loadTimeline, t])
+
+    const handleForceRevert = useCallback(() => {
+        if (!pendingRevert) return
+        const { action, sessionId, file } = pendingRevert
+        setPendingRevert(null)
+        if (action === 'redo') {
+            redo(sessionId, true)
+        } else {
+            revert(sessionId, file, true)
+        }
+    }, [pendingRevert, revert, redo])
+
+    const handleReview = useCallback(async (sessionId: string) => {
+        setBusyKey(`review:${sessionId}`)
+        try {
+            const res = await fetch(`/api/undo/sessions/${sessionId}/diff`)
+            const data = await res.json()
+            if (data.success && data.diffs?.length > 0) {
+                onReviewDiffs(data.diffs)
+            }
+        } catch {
+            // ignore
+        } finally {
+            setBusyKey(null)
+        }
+    }, [onReviewDiffs])
+
+    return (
+        <div className="fixed inset-0 z-50" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+            <div
+                className="absolute inset-0 bg-background overflow-hidden flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                    <span className="flex items-center gap-2 text-sm text-foreground">
+                        <History className="w-4 h-4" />
+                        {t('undoHistory')}
+                    </span>
+                    <button
+                        onClick={onClose}
+                        className="text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {error && (
+                    <div className="px-4 py-2 text-xs text-red-600 dark:text-red-400 border-b border-border/50">{error}</div>
+                )}
+
+                {/* Body */}
+                <div className="flex-1 overflow-y-auto">
+                    {sessions === null ? (
+                        <div className="p-4 text-xs text-muted-foreground">{t('loading')}</div>
+                    ) : sessions.length === 0 ? (
+                        <div className="p-4 text-xs text-muted-foreground">{t('undoHistoryEmpty')}</div>
+                    ) : (
+                        sessions.map(session => {
+                            const isApplied = session.status === 'applied'
+                            const canRedo = session.redoableFiles.length > 0
+                            const redoButton = canRedo && (
+                                <button
+                                    onClick={() => redo(session.id)}
+                                    disabled={busyKey !== null}
+                                    className="flex items-center gap-1 px-2 py-0.5 rounded bg-blue-100/60 text-blue-700 hover:bg-blue-200/60 hover:text-blue-800 dark:bg-blue-900/40 dark:text-blue-300 dark:hover:bg-blue-800/50 dark:hover:text-blue-200 transition-colors"
+                                    title={t('redoFileChanges')}
+                                >
+                                    <Redo2 className="w-3 h-3" />
+                                    <span>{busyKey === `redo:${session.id}` ? t('redoing') : t('redo')}</span>
+                                </button>
+                            )
+                            const conflictFiles = new Set(session.conflicts.map(c => c.file))
+                            return (
+                                <div key={session.id} className="px-4 py-3 border-b border-border/50">
+                                    <div className="flex items-center gap-2">
+                                        <div className="min-w-0 flex-1">
+                                            <div className={cn(
+                                                "text-xs font-medium truncate",
+                                                isApplied ? "text-foreground" : "text-muted-foreground line-through"
+                                            )}>
+                                                {session.label || t('untitledSession')}
+                                            </div>
+                                            <div className="text-[11px] text-muted-foreground">
+                                                {new Date(session.createdAt).toLocaleString()}
+                                                {' · '}
+                                                {t('fileChanged', { count: session.files.length + session.revertedFiles.length })}
+                                            </div>
+                                        </div>
+                                        {isApplied ? (
+                                            <div className="flex items-center gap-2 flex-shrink-0 text-xs">
+                                                {redoButton}
+                                                <button
+                                                    onClick={() => handleReview(session.id)}
+                                                    disabled={busyKey !== null}
+                                                    className="flex items-center gap-1 px-2 py-0.5 rounded bg-blue-100/60 text-blue-700 hover:bg-blue-200/60 hover:text-blue-800 dark:bg-blue-900/40 dark:text-blue-300 dark:hover:bg-blue-800/50 dark:hover:text-blue-200 transition-colors"
+                                                >
+                                                    <Eye className="w-3 h-3" />
+                                                    <span>{busyKey === `review:${session.id}` ? t('loading') : t('review')}</span>
+                                                </button>
+                                                <button
+                                                    onClick={() => revert(session.id)}
+                                                    disabled={busyKey !== null}
+                                                    className="flex items-center gap-1 px-2 py-0.5 rounded bg-amber-100/60 text-amber-700 hover:bg-amber-200/60 hover:text-amber-800 dark:bg-amber-900/40 dark:text-amber-300 dark:hover:bg-amber-800/50 dark:hover:text-amber-200 transition-colors"
+                                                >
+                                                    <Undo2 className="w-3 h-3" />
+                                                    <span>{busyKey === session.id ? t('undoing') : t('revert')}</span>
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <div className="flex items-center gap-2 flex-shrink-0 text-xs">
+                                                <span className="flex items-center gap-1 text-muted-foreground">
+                                                    <Undo2 className="w-3 h-3" />
+                                                    {t('undone')}
+                                                </span>
+                                                {redoButton}
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {/* Files */}
+                                    <div className="mt-2 space-y-0.5">
+                                        {session.files.map(file => (
+                                            <div key={file} className="group flex items-center gap-2 text-[11px] leading-5">
+                                                <FileCode className="w-3 h-3 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+                                                <span className="font-mono text-muted-foreground truncate">{file}</span>
+                                                {conflictFiles.has(file) && (
+                                                    <span
+                                                        className="text-[10px] px-1.5 rounded bg-amber-100/60 text-amber-700 dark:bg-amber-900/40 dark:text-amber-400 flex-shrink-0"
+                                                        title={t('changedLaterHint')}
+                                                    >
+                                                        {t('changedLater')}
+                                                    </span>
+                                                )}
+                                                <button
+                                                    onClick={() => revert(session.id, file)}
+                                                    disabled={busyKey !== null}
+                                                    className="ml-auto opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground transition-opacity flex-shrink-0"
+                                                    title={t('revertFile')}
+                                                >
+                                                    {busyKey === `${session.id}:${file}` ? t('undoing') : t('revert')}
+                                                </button>
+                                            </div>
+                                        ))}
+                                        {session.revertedFiles.map(file => (
+                                            <div key={`reverted-${file}`} className="flex items-center gap-2 text-[11px] leading-5 text-muted-foreground/70">
+                                                <FileCode className="w-3 h-3 flex-shrink-0" />
+                                                <span className="font-mono truncate line-through">{file}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )
+                        })
+                    )}
+                </div>
+            </div>
+
+            {pendingRevert && (
+                <ConfirmDialog
+                    title={t(pendingRevert.action === 'redo' ? 'redoConflictTitle' : 'revertConflictTitle')}
+                    description={t(pendingRevert.action === 'redo' ? 'redoConflictDescription' : 'revertConflictDescription', {
+                        files: pendingRevert.conflicts.map(c => c.file).join(', '),
+                    })}
+                    confirmLabel={t(pendingRevert.action === 'redo' ? 'redoAnyway' : 'revertAnyway')}
+                    variant="warning"
+                    onConfirm={handleForceRevert}
+                    onCancel={() => setPendingRevert(null)}
+                />
+            )}
+        </div>
+    )
+}
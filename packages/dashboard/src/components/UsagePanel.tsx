@@ -0,0 +1,239 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, Gauge } from 'lucide-react'
+
+interface UsageTotals {
+    inputTokens: number
+    outputTokens: number
+    cacheReadTokens: number
+    cacheWriteTokens: number
+    costUsd: number
+    calls: number
+}
+
+interface UsageBudget {
+    sessionUsd?: number
+    dailyUsd?: number
+}
+
+interface UsageSummary {
+    session: UsageTotals
+    today: UsageTotals
+    days: (UsageTotals & { date: string })[]
+    models: (UsageTotals & { modelId: string; priced: boolean })[]
+    budget: UsageBudget
+}
+
+interface UsagePanelProps {
+    onClose: () => void
+}
+
+const MAX_DAYS_SHOWN = 14
+
+function formatTokens(n: number): string {
+    if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`
+    if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`
+    return String(n)
+}
+
+function formatCost(usd: number): string {
+    return `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`
+}
+
+function UsageCard({ label, totals, budget }: { label: string; totals: UsageTotals; budget?: number }) {
+    const { t } = useTranslation()
+    const ratio = budget ? Math.min(1, totals.costUsd / budget) : 0
+    return (
+        <div className="flex-1 rounded-lg border border-border p-3 space-y-1">
+            <div className="text-[11px] text-muted-foreground">{label}</div>
+            <div className="text-lg font-semibold text-foreground">
+                {formatCost(totals.costUsd)}
+                {budget !== undefined && (
+                    <span className="text-xs font-normal text-muted-foreground"> / {formatCost(budget)}</span>
+                )}
+            </div>
+            {budget !== undefined && (
+                <div className="h-1 rounded-full bg-muted overflow-hidden">
+                    <div
+                        className={ratio >= 1 ? "h-full bg-red-500" : ratio >= 0.8 ? "h-full bg-amber-500" : "h-full bg-emerald-500"}
+                        style={{ width: `${ratio * 100}%` }}
+                    />
+                </div>
+            )}
+            <div className="text-[11px] text-muted-foreground">
+                {t('usageTokens', { input: formatTokens(totals.inputTokens), output: formatTokens(totals.outputTokens) })}
+            </div>
+        </div>
+    )
+}
+
+export function UsagePanel({ onClose }: UsagePanelProps) {
+    const { t } = useTranslation()
+    const [usage, setUsage] = useState<UsageSummary | null>(null)
+    const [sessionBudget, setSessionBudget] = useState('')
+    const [dailyBudget, setDailyBudget] = useState('')
+    const [budgetError, setBudgetError] = useState<string | null>(null)
+    const [saved, setSaved] = useState(false)
+
+    useEffect(() => {
+        fetch('/api/usage')
+            .then(res => res.json())
+            .then((data: UsageSummary) => {
+                setUsage(data)
+                setSessionBudget(data.budget.sessionUsd?.toString() ?? '')
+                setDailyBudget(data.budget.dailyUsd?.toString() ?? '')
+            })
+            .catch(() => setUsage(null))
+    }, [])
+
+    const handleKeyDown = useCallback((e: KeyboardEvent) => {
+        if (e.key === 'Escape') onClose()
+    }, [onClose])
+
+    useEffect(() => {
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [handleKeyDown])
+
+    const handleSaveBudget = async () => {
+        const parse = (value: string) => value.trim() === '' ? null : Number(value)
+        setBudgetError(null)
+        setSaved(false)
+        try {
+            const res = await fetch('/api/usage/budget', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ sessionUsd: parse(sessionBudget), dailyUsd: parse(dailyBudget) }),
+            })
+            const data = await res.json()
+            if (!data.success) {
+                setBudgetError(data.error || t('budgetSaveFailed'))
+                return
+            }
+            setUsage(prev => prev ? { ...prev, budget: data.budget } : prev)
+            setSaved(true)
+        } catch {
+            setBudgetError(t('budgetSaveFailed'))
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+            <div
+                className="absolute inset-0 bg-background overflow-hidden flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                    <span className="flex items-center gap-2 text-sm text-foreground">
+                        <Gauge className="w-4 h-4" />
+                        {t('usage')}
+                    </span>
+                    <button
+                        onClick={onClose}
+                        className="text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {/* Body */}
+                <div className="flex-1 overflow-y-auto p-4 space-y-5">
+                    {usage === null ? (
+                        <div className="text-xs text-muted-foreground">{t('loading')}</div>
+                    ) : (
+                        <>
+                            <div className="flex gap-3">
+                                <UsageCard label={t('usageThisThread')} totals={usage.session} budget={usage.budget.sessionUsd} />
+                                <UsageCard label={t('usageToday')} totals={usage.today} budget={usage.budget.dailyUsd} />
+                            </div>
+
+                            {/* Budgets */}
+                            <section className="space-y-2">
+                                <h3 className="text-xs font-medium text-foreground">{t('budgets')}</h3>
+                                <p className="text-[11px] text-muted-foreground">{t('budgetsDescription')}</p>
+                                <div className="flex items-end gap-2">
+                                    <label className="flex-1 space-y-1">
+                                        <span className="text-[11px] text-muted-foreground">{t('sessionBudget')}</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.5"
+                                            value={sessionBudget}
+                                            onChange={e => { setSessionBudget(e.target.value); setSaved(false) }}
+                                            placeholder={t('noLimit')}
+                                            className="w-full text-xs bg-background border border-border rounded px-2 py-1 text-foreground outline-none"
+                                        />
+                                    </label>
+                                    <label className="flex-1 space-y-1">
+                                        <span className="text-[11px] text-muted-foreground">{t('dailyBudget')}</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.5"
+                                            value={dailyBudget}
+                                            onChange={e => { setDailyBudget(e.target.value); setSaved(false) }}
+                                            placeholder={t('noLimit')}
+                                            className="w-full text-xs bg-background border border-border rounded px-2 py-1 text-foreground outline-none"
+                                        />
+                                    </label>
+                                    <button
+                                        onClick={handleSaveBudget}
+                                        className="px-3 py-1 text-xs rounded bg-foreground text-background hover:opacity-90 transition-opacity"
+                                    >
+                                        {saved ? t('saved') : t('save')}
+                                    </button>
+                                </div>
+                                {budgetError && (
+                                    <p className="text-[11px] text-red-600 dark:text-red-400">{budgetError}</p>
+                                )}
+                            </section>
+
+                            {/* Per model */}
+                            {usage.models.length > 0 && (
+                                <section className="space-y-2">
+                                    <h3 className="text-xs font-medium text-foreground">{t('usageByModel')}</h3>
+                                    <table className="w-full text-[11px]">
+                                        <tbody>
+                                            {usage.models.map(m => (
+                                                <tr key={m.modelId} className="border-b border-border/50">
+                                                    <td className="py-1.5 font-mono text-foreground">{m.modelId}</td>
+                                                    <td className="py-1.5 text-right text-muted-foreground">
+                                                        {formatTokens(m.inputTokens)} / {formatTokens(m.outputTokens)}
+                                                    </td>
+                                                    <td className="py-1.5 text-right text-foreground">
+                                                        {m.priced ? formatCost(m.costUsd) : t('unpriced')}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </section>
+                            )}
+
+                            {/* Per day */}
+                            {usage.days.length > 0 && (
+                                <section className="space-y-2">
+                                    <h3 className="text-xs font-medium text-foreground">{t('usageByDay')}</h3>
+                                    <table className="w-full text-[11px]">
+                                        <tbody>
+                                            {usage.days.slice(0, MAX_DAYS_SHOWN).map(d => (
+                                                <tr key={d.date} className="border-b border-border/50">
+                                                    <td className="py-1.5 text-foreground">{d.date}</td>
+                                                    <td className="py-1.5 text-right text-muted-foreground">
+                                                        {formatTokens(d.inputTokens)} / {formatTokens(d.outputTokens)}
+                                                    </td>
+                                                    <td className="py-1.5 text-right text-foreground">{formatCost(d.costUsd)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </section>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
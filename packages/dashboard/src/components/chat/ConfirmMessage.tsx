@@ -9,7 +9,7 @@ interface ConfirmMessageProps {
     details?: string
     resolved?: boolean
     approved?: boolean
-    onConfirm: (confirmId: string, approved: boolean, opts?: { allowAll?: boolean; category?: string }) => void
+    onConfirm: (confirmId: string, approved: boolean, opts?: { allowAll?: boolean; alwaysAllow?: boolean; category?: string }) => void
     disabled?: boolean
     pendingCount?: number
 }
@@ -86,13 +86,19 @@ export function ConfirmMessage({ confirmId, toolName, summary, details, resolved
     const { t } = useTranslation()
     const inactive = !!resolved || !!disabled
 
-    const category = toolName === 'Bash' ? 'bash' : 'fileWrites'
+    const isMcp = toolName.startsWith('mcp__')
+    const category = toolName === 'Bash' ? 'bash' : isMcp ? 'mcp' : 'fileWrites'
 
     const headerKey = toolName === 'Bash' ? 'confirmBashHeader'
         : toolName === 'Write' ? 'confirmWriteHeader'
         : toolName === 'Edit' || toolName === 'MultiEdit' ? 'confirmEditHeader'
+        : isMcp ? 'confirmMcpHeader'
         : 'confirmBashHeader'
 
+    const alwaysAllowKey = toolName === 'Bash' ? 'confirmAlwaysAllowCommand'
+        : isMcp ? 'confirmAlwaysAllowTool'
+        : 'confirmAlwaysAllowFile'
+
     const showQueueIndicator = !resolved && pendingCount && pendingCount > 1
 
     const renderDetails = () => {
@@ -104,7 +110,7 @@ export function ConfirmMessage({ confirmId, toolName, summary, details, resolved
             )
         }
 
-        if (toolName === 'Write') {
+        if (toolName === 'Write' || isMcp) {
             return (
                 <div className="space-y-1.5">
                     <p className="text-xs text-foreground font-medium font-mono">{summary}</p>
@@ -229,6 +235,13 @@ export function ConfirmMessage({ confirmId, toolName, summary, details, resolved
                             {t('confirmDeny')}
                         </button>
                     </div>
+                    <button
+                        onClick={() => onConfirm(confirmId, true, { alwaysAllow: true })}
+                        className="w-full text-[11px] px-4 py-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                        title={t('confirmAlwaysAllowHint')}
+                    >
+                        {t(alwaysAllowKey)}
+                    </button>
                     <p className="text-[10px] text-muted-foreground text-center">
                         {showQueueIndicator
                             ? t('confirmAllowAllHintPending', { count: pendingCount })
@@ -1,10 +1,11 @@
 import { useState, useRef, useCallback } from 'react'
 import { useTranslation } from 'react-i18next'
-import { CheckCircle2, AlertCircle, Clock, DollarSign, Undo2, Eye } from 'lucide-react'
+import { CheckCircle2, AlertCircle, Clock, DollarSign, Undo2, Redo2, Eye, GitCommitHorizontal, Play, ShieldCheck, ShieldAlert } from 'lucide-react'
 import { cn } from '../../lib/utils'
-import type { ResultSubtype } from '../../types/messages'
+import type { ResultSubtype, VerificationSummary } from '../../types/messages'
 import type { FileDiff } from '../DiffModal'
 import { ConfirmDialog } from '../ui/confirm-dialog'
+import { CommitDialog } from '../CommitDialog'
 import { Tooltip } from '../ui/tooltip'
 
 interface FileStat {
@@ -27,10 +28,16 @@ interface ResultMessageProps {
     cacheReadTokens?: number
     cacheWriteTokens?: number
     fileStats?: FileStat[]
+    undoSessionId?: string
     undone?: boolean
+    /** Checks run after the agent changed files */
+    verification?: VerificationSummary
     isLatest?: boolean
     onReviewDiffs?: (diffs: FileDiff[]) => void
     onUndone?: (msgId: string) => void
+    onRedone?: (msgId: string) => void
+    /** Resumes a run that stopped at the step limit; undefined while the agent is busy */
+    onContinue?: () => void
 }
 
 const ERROR_LABEL_KEYS: Record<string, string> = {
@@ -53,10 +60,14 @@ export function ResultMessage({
     cacheReadTokens,
     cacheWriteTokens,
     fileStats,
+    undoSessionId,
     undone,
+    verification,
     isLatest,
     onReviewDiffs,
     onUndone,
+    onRedone,
+    onContinue,
 }: ResultMessageProps) {
     const { t } = useTranslation()
     const [expanded, setExpanded] = useState(false)
@@ -65,6 +76,10 @@ export function ResultMessage({
     const [reviewLoading, setReviewLoading] = useState(false)
     const [showTooltip, setShowTooltip] = useState(false)
     const [showUndoConfirm, setShowUndoConfirm] = useState(false)
+    const [redoState, setRedoState] = useState<'idle' | 'loading' | 'error'>('idle')
+    const [redoConflictFiles, setRedoConflictFiles] = useState<string[] | null>(null)
+    const [showCommitDialog, setShowCommitDialog] = useState(false)
+    const [committed, setCommitted] = useState<{ commit: string; branch: string } | null>(null)
     const hoverTimeout = useRef<ReturnType<typeof setTimeout>>()
 
     const handleReviewMouseEnter = useCallback(() => {
@@ -119,6 +134,44 @@ export function ResultMessage({
         }
     }
 
+    const redo = async (force: boolean) => {
+        setRedoState('loading')
+        try {
+            const res = await fetch('/api/redo', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ sessionId: undoSessionId, force }),
+            })
+            const data = await res.json()
+            if (data.success) {
+                setRedoState('idle')
+                setUndoState('idle')
+                setUndoMessage('')
+                onRedone?.(msgId)
+            } else if (data.conflicts?.length > 0) {
+                setRedoState('idle')
+                setRedoConflictFiles(data.conflicts.map((c: { file: string }) => c.file))
+            } else {
+                setRedoState('error')
+                setUndoMessage(data.error || t('redoFailed'))
+            }
+        } catch {
+            setRedoState('error')
+            setUndoMessage(t('redoFailed'))
+        }
+    }
+
+    const handleRedoClick = (e: React.MouseEvent) => {
+        e.stopPropagation()
+        if (redoState === 'loading') return
+        redo(false)
+    }
+
+    const handleRedoConfirm = () => {
+        setRedoConflictFiles(null)
+        redo(true)
+    }
+
     const handleReview = async (e: React.MouseEvent) => {
         e.stopPropagation()
         if (reviewLoading) return
@@ -154,17 +207,51 @@ export function ResultMessage({
                     {isError ? errorLabel : t('taskCompleted')}
                 </span>
 
-                {/* Undone label */}
+                {/* Undone label + Redo button */}
                 {hasFileChanges && undone && (
-                    <span className="ml-auto flex items-center gap-1 text-muted-foreground">
-                        <Undo2 className="w-3 h-3" />
-                        {t('undone')}
-                    </span>
+                    <div className="ml-auto flex items-center gap-2">
+                        <span className="flex items-center gap-1 text-muted-foreground">
+                            <Undo2 className="w-3 h-3" />
+                            {t('undone')}
+                        </span>
+                        {undoSessionId && redoState !== 'error' && (
+                            <button
+                                onClick={handleRedoClick}
+                                disabled={redoState === 'loading'}
+                                className="flex items-center gap-1 px-2 py-0.5 rounded bg-blue-100/60 text-blue-700 hover:bg-blue-200/60 hover:text-blue-800 dark:bg-blue-900/40 dark:text-blue-300 dark:hover:bg-blue-800/50 dark:hover:text-blue-200 transition-colors"
+                                title={t('redoFileChanges')}
+                            >
+                                <Redo2 className="w-3 h-3" />
+                                <span>{redoState === 'loading' ? t('redoing') : t('redo')}</span>
+                            </button>
+                        )}
+                        {redoState === 'error' && (
+                            <span className="text-muted-foreground">{undoMessage}</span>
+                        )}
+                    </div>
                 )}
 
-                {/* Review + Undo buttons (only on latest non-undone result with file changes) */}
+                {/* Review + Commit + Undo buttons (only on latest non-undone result with file changes) */}
                 {isLatest && !isError && hasFileChanges && !undone && undoState === 'idle' && (
                     <div className="ml-auto flex items-center gap-2">
+                        {committed ? (
+                            <span
+                                className="flex items-center gap-1 text-muted-foreground"
+                                title={t('committedTo', { branch: committed.branch })}
+                            >
+                                <GitCommitHorizontal className="w-3 h-3" />
+                                <span className="font-mono">{committed.commit.slice(0, 7)}</span>
+                            </span>
+                        ) : undoSessionId && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setShowCommitDialog(true) }}
+                                className="flex items-center gap-1 px-2 py-0.5 rounded bg-green-100/60 text-green-700 hover:bg-green-200/60 hover:text-green-800 dark:bg-green-900/40 dark:text-green-300 dark:hover:bg-green-800/50 dark:hover:text-green-200 transition-colors"
+                                title={t('commitChanges')}
+                            >
+                                <GitCommitHorizontal className="w-3 h-3" />
+                                <span>{t('commit')}</span>
+                            </button>
+                        )}
                         <div
                             className="relative"
                             onMouseEnter={handleReviewMouseEnter}
@@ -200,6 +287,17 @@ export function ResultMessage({
                         </button>
                     </div>
                 )}
+                {/* Continue button (only on the latest result that hit the step limit) */}
+                {isLatest && subtype === 'error_max_turns' && onContinue && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onContinue() }}
+                        className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded bg-blue-100/60 text-blue-700 hover:bg-blue-200/60 hover:text-blue-800 dark:bg-blue-900/40 dark:text-blue-300 dark:hover:bg-blue-800/50 dark:hover:text-blue-200 transition-colors"
+                        title={t('continueAgent')}
+                    >
+                        <Play className="w-3 h-3" />
+                        <span>{t('continue')}</span>
+                    </button>
+                )}
                 {undoState === 'loading' && (
                     <span className="ml-auto text-muted-foreground animate-pulse">{t('undoing')}</span>
                 )}
@@ -241,6 +339,22 @@ export function ResultMessage({
                         {totalCostUsd.toFixed(4)}
                     </span>
                 )}
+                {verification && (
+                    <Tooltip
+                        text={[
+                            ...verification.checks.map(c => `${c.passed ? '✓' : '✗'} ${c.name} (${(c.durationMs / 1000).toFixed(1)}s)`),
+                            ...(verification.fixAttempts > 0 ? [t('verificationFixAttempts', { count: verification.fixAttempts })] : []),
+                        ].join(' / ')}
+                    >
+                        <span className={cn(
+                            "flex items-center gap-1",
+                            verification.passed ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                        )}>
+                            {verification.passed ? <ShieldCheck className="w-3 h-3" /> : <ShieldAlert className="w-3 h-3" />}
+                            {verification.passed ? t('verificationPassed') : t('verificationFailed')}
+                        </span>
+                    </Tooltip>
+                )}
             </div>
 
             {/* Error details */}
@@ -268,6 +382,28 @@ export function ResultMessage({
                 />
             )}
 
+            {showCommitDialog && (
+                <CommitDialog
+                    sessionId={undoSessionId}
+                    onCommitted={(commit, branch) => {
+                        setShowCommitDialog(false)
+                        setCommitted({ commit, branch })
+                    }}
+                    onCancel={() => setShowCommitDialog(false)}
+                />
+            )}
+
+            {redoConflictFiles && (
+                <ConfirmDialog
+                    title={t('redoConflictTitle')}
+                    description={t('redoConflictDescription', { files: redoConflictFiles.join(', ') })}
+                    confirmLabel={t('redoAnyway')}
+                    variant="warning"
+                    onConfirm={handleRedoConfirm}
+                    onCancel={() => setRedoConflictFiles(null)}
+                />
+            )}
+
         </div>
     )
 }
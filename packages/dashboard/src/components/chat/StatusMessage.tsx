@@ -1,11 +1,12 @@
-import { Loader2, StopCircle } from 'lucide-react'
+import { Loader2, StopCircle, Undo2 } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 
 interface StatusMessageProps {
     text: string
+    revertedFiles?: string[]
 }
 
-export function StatusMessage({ text }: StatusMessageProps) {
+export function StatusMessage({ text, revertedFiles }: StatusMessageProps) {
     const { t } = useTranslation()
     const isAborted = text === 'aborted'
 
@@ -18,6 +19,19 @@ export function StatusMessage({ text }: StatusMessageProps) {
         )
     }
 
+    if (text === 'reverted' && revertedFiles) {
+        return (
+            <div className="flex items-center gap-2 text-muted-foreground text-xs py-1">
+                <Undo2 className="w-3 h-3" />
+                <span>
+                    {revertedFiles.length === 1
+                        ? t('revertedFile', { file: revertedFiles[0] })
+                        : t('revertedFiles', { count: revertedFiles.length, files: revertedFiles.join(', ') })}
+                </span>
+            </div>
+        )
+    }
+
     return (
         <div className="flex items-center gap-2 text-muted-foreground text-xs py-1">
             <Loader2 className="w-3 h-3 animate-spin" />
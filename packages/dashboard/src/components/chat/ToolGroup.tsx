@@ -4,10 +4,12 @@ import { Wrench, ChevronDown, ChevronRight } from 'lucide-react'
 
 interface ToolGroupProps {
     toolCount: number
+    /** Output of a tool that is still running, previewed while the group is collapsed */
+    liveOutput?: string
     children: React.ReactNode
 }
 
-export function ToolGroup({ toolCount, children }: ToolGroupProps) {
+export function ToolGroup({ toolCount, liveOutput, children }: ToolGroupProps) {
     const { t } = useTranslation()
     const [expanded, setExpanded] = useState(false)
 
@@ -26,6 +28,11 @@ export function ToolGroup({ toolCount, children }: ToolGroupProps) {
                     : <ChevronRight className="w-3 h-3 ml-auto" />
                 }
             </button>
+            {!expanded && liveOutput && (
+                <pre className="mx-2 mt-0.5 text-[11px] text-muted-foreground font-mono whitespace-pre-wrap break-all line-clamp-3">
+                    {liveOutput.trimEnd().split('\n').slice(-3).join('\n')}
+                </pre>
+            )}
             {expanded && (
                 <div className="mt-1 space-y-0.5">
                     {children}
@@ -1,10 +1,11 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useRef, useEffect } from 'react'
 import { Wrench, FileText, Edit, Terminal, Search, FolderTree, List } from 'lucide-react'
 import { cn } from '../../lib/utils'
 
 interface ToolUseMessageProps {
     toolName: string
     input?: Record<string, unknown>
+    liveOutput?: string
 }
 
 // Tool-specific icons
@@ -13,6 +14,8 @@ const TOOL_ICONS: Record<string, typeof Wrench> = {
     Write: Edit,
     Edit: Edit,
     Bash: Terminal,
+    BashOutput: Terminal,
+    KillShell: Terminal,
     Grep: Search,
     Glob: FolderTree,
     Ls: List,
@@ -24,6 +27,8 @@ const TOOL_COLORS: Record<string, { text: string; border: string }> = {
     Write: { text: 'text-foreground', border: 'border-border/50' },
     Edit: { text: 'text-foreground', border: 'border-border/50' },
     Bash: { text: 'text-purple-400', border: 'border-purple-500/50' },
+    BashOutput: { text: 'text-purple-400', border: 'border-purple-500/50' },
+    KillShell: { text: 'text-purple-400', border: 'border-purple-500/50' },
     Grep: { text: 'text-orange-400', border: 'border-orange-500/50' },
     Glob: { text: 'text-cyan-400', border: 'border-cyan-500/50' },
     Ls: { text: 'text-cyan-400', border: 'border-cyan-500/50' },
@@ -31,8 +36,15 @@ const TOOL_COLORS: Record<string, { text: string; border: string }> = {
 
 const DEFAULT_COLORS = { text: 'text-amber-400', border: 'border-amber-500/50' }
 
-export function ToolUseMessage({ toolName, input }: ToolUseMessageProps) {
+export function ToolUseMessage({ toolName, input, liveOutput }: ToolUseMessageProps) {
     const [expanded, setExpanded] = useState(false)
+    const liveOutputRef = useRef<HTMLPreElement>(null)
+
+    // Follow live output like a terminal
+    useEffect(() => {
+        const el = liveOutputRef.current
+        if (el) el.scrollTop = el.scrollHeight
+    }, [liveOutput])
 
     const Icon = TOOL_ICONS[toolName] || Wrench
     const colors = TOOL_COLORS[toolName] || DEFAULT_COLORS
@@ -49,6 +61,9 @@ export function ToolUseMessage({ toolName, input }: ToolUseMessageProps) {
                 return input.file_path ? `${input.file_path}` : null
             case 'Bash':
                 return input.command ? `${input.command}` : null
+            case 'BashOutput':
+            case 'KillShell':
+                return input.shell_id ? `${input.shell_id}` : null
             case 'Grep':
                 return input.pattern ? `pattern: ${input.pattern}` : null
             case 'Glob':
@@ -96,6 +111,14 @@ export function ToolUseMessage({ toolName, input }: ToolUseMessageProps) {
                     {JSON.stringify(input, null, 2)}
                 </pre>
             )}
+            {liveOutput && (
+                <pre
+                    ref={liveOutputRef}
+                    className="text-muted-foreground text-[11px] mt-2 max-h-48 overflow-y-auto bg-card/50 rounded p-2 font-mono whitespace-pre-wrap break-all"
+                >
+                    {liveOutput}
+                </pre>
+            )}
         </div>
     )
 }
@@ -1,8 +1,9 @@
 import { useState, useCallback } from 'react'
 import { useTranslation } from 'react-i18next'
 import ReactMarkdown from 'react-markdown'
-import { XCircle, AlertTriangle, Copy, Check } from 'lucide-react'
+import { XCircle, AlertTriangle, Copy, Check, Pencil } from 'lucide-react'
 import { cn } from '../../lib/utils'
+import { ConfirmDialog } from '../ui/confirm-dialog'
 import type { ConsoleEntry, SelectedElement, ContentSegment } from '../../types/messages'
 
 interface UserMessageProps {
@@ -13,6 +14,11 @@ interface UserMessageProps {
     contentSegments?: ContentSegment[]
     onConsoleEntryClick?: (entry: ConsoleEntry) => void
     onImageClick?: (images: string[], index: number) => void
+    /**
+     * Forks the conversation before this message and sends the edited text.
+     * Resolves to the conflicting files when reverting needs confirmation.
+     */
+    onEditResend?: (text: string, revertChanges: boolean, force?: boolean) => Promise<string[] | null>
 }
 
 function InlineElementChip({ el }: { el: SelectedElement }) {
@@ -39,9 +45,14 @@ export function UserMessage({
     contentSegments,
     onConsoleEntryClick,
     onImageClick,
+    onEditResend,
 }: UserMessageProps) {
     const { t } = useTranslation()
     const [copied, setCopied] = useState(false)
+    const [editing, setEditing] = useState(false)
+    const [editText, setEditText] = useState(content)
+    const [revertChanges, setRevertChanges] = useState(false)
+    const [pendingResend, setPendingResend] = useState<{ text: string; conflicts: string[] } | null>(null)
     const allImages = imageUrls ?? []
     const hasInlineSegments = contentSegments && contentSegments.length > 0 && attachedElements && attachedElements.length > 0
 
@@ -52,6 +63,65 @@ export function UserMessage({
         }).catch(() => {})
     }, [content])
 
+    const handleResend = useCallback(() => {
+        const text = editText.trim()
+        if (!text || !onEditResend) return
+        setEditing(false)
+        onEditResend(text, revertChanges).then(conflicts => {
+            if (conflicts && conflicts.length > 0) setPendingResend({ text, conflicts })
+        })
+    }, [editText, revertChanges, onEditResend])
+
+    const handleForceResend = useCallback(() => {
+        if (!pendingResend || !onEditResend) return
+        setPendingResend(null)
+        onEditResend(pendingResend.text, true, true)
+    }, [pendingResend, onEditResend])
+
+    if (editing) {
+        return (
+            <div className="bg-muted/50 rounded-lg px-3 py-2 text-sm self-end w-[85%] space-y-2">
+                <textarea
+                    autoFocus
+                    value={editText}
+                    onChange={e => setEditText(e.target.value)}
+                    onKeyDown={e => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault()
+                            handleResend()
+                        }
+                        if (e.key === 'Escape') setEditing(false)
+                    }}
+                    rows={Math.min(8, editText.split('\n').length + 1)}
+                    className="w-full resize-none bg-background border border-border rounded px-2 py-1.5 text-sm text-foreground outline-none"
+                />
+                <label className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+                    <input
+                        type="checkbox"
+                        checked={revertChanges}
+                        onChange={e => setRevertChanges(e.target.checked)}
+                    />
+                    {t('revertLaterChanges')}
+                </label>
+                <div className="flex justify-end gap-2">
+                    <button
+                        onClick={() => setEditing(false)}
+                        className="px-2 py-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                        {t('cancel')}
+                    </button>
+                    <button
+                        onClick={handleResend}
+                        disabled={!editText.trim()}
+                        className="px-2 py-1 text-xs rounded bg-foreground text-background hover:opacity-90 disabled:opacity-50 transition-opacity"
+                    >
+                        {t('send')}
+                    </button>
+                </div>
+            </div>
+        )
+    }
+
     return (
         <div className="text-foreground bg-muted/50 rounded-lg px-3 py-2 text-sm self-end max-w-[85%] relative group">
             {allImages.length > 0 && (
@@ -173,6 +243,16 @@ export function UserMessage({
                     </ReactMarkdown>
                 </>
             )}
+            {/* Edit & resend: forks the conversation from this message */}
+            {onEditResend && (
+                <button
+                    onClick={() => { setEditText(content); setRevertChanges(false); setEditing(true) }}
+                    className="absolute bottom-1.5 right-7 p-1 rounded text-muted-foreground/0 group-hover:text-muted-foreground hover:!text-foreground hover:bg-background/50 transition-all"
+                    title={t('editResend')}
+                >
+                    <Pencil className="w-3 h-3" />
+                </button>
+            )}
             {/* Copy raw markdown button */}
             <button
                 onClick={handleCopy}
@@ -184,6 +264,16 @@ export function UserMessage({
                     : <Copy className="w-3 h-3" />
                 }
             </button>
+            {pendingResend && (
+                <ConfirmDialog
+                    title={t('revertConflictTitle')}
+                    description={t('forkRevertConflictDescription', { files: pendingResend.conflicts.join(', ') })}
+                    confirmLabel={t('revertAnyway')}
+                    variant="warning"
+                    onConfirm={handleForceResend}
+                    onCancel={() => setPendingResend(null)}
+                />
+            )}
         </div>
     )
 }
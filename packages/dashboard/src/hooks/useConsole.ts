@@ -19,6 +19,18 @@ import { ToolGroup } from '../components/chat/ToolGroup'
 import type { ParsedMessage, SelectedElement, ConsoleEntry, ContentSegment, PageContext } from '../types/messages'
 import { parseSSEData } from '../services/sseParser'
 import { buildInspectorContext, buildMultiElementContext } from './inspectorHelpers'
+import { useServerLogs, isServerEntryId } from './useServerLogs'
+
+/** Live tool output kept per tool call; the full output comes with the result. */
+const LIVE_OUTPUT_MAX_CHARS = 20_000
+
+// Sent by the Continue action after a run stopped at the step limit
+const CONTINUE_PROMPT = 'Continue where you left off.'
+
+/** Progress and 'aborted' notes are replaced as the next run streams; a fork's revert note stays. */
+function isTransientStatus(message: ParsedMessage): boolean {
+    return message.type === 'status' && message.text !== 'reverted'
+}
 
 export interface ElementAttachEvent {
     element: SelectedElement
@@ -33,6 +45,7 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
     const [aborted, setAborted] = useState(false)
     const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([])
     const [attachedConsoleEntries, setAttachedConsoleEntries] = useState<ConsoleEntry[]>([])
+    const { serverEntries, removeServerEntry, restoreServerEntry, clearServerEntries } = useServerLogs()
     const [imageAttachments, setImageAttachments] = useState<{ dataUrl: string; mediaType: string; name: string }[]>([])
     const messagesEndRef = useRef<HTMLDivElement>(null)
     const eventSourceRef = useRef<EventSource | null>(null)
@@ -202,20 +215,26 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
             return [...prev, entry]
         })
         // Remove from the console list so it's clear it moved
+        if (entry.origin === 'server') {
+            removeServerEntry(entry.id)
+            return
+        }
         setConsoleEntries(prev => prev.filter(e => e.id !== entry.id))
         window.parent.postMessage({ type: 'AWEL_CONSOLE_DISMISS', id: entry.id }, '*')
-    }, [])
+    }, [removeServerEntry])
 
     const removeAttachedConsoleEntry = useCallback((id: string) => {
         setAttachedConsoleEntries(prev => {
             const entry = prev.find(e => e.id === id)
             // Put it back in the console list
-            if (entry) {
+            if (entry?.origin === 'server') {
+                restoreServerEntry(entry)
+            } else if (entry) {
                 setConsoleEntries(list => [...list, entry])
             }
             return prev.filter(e => e.id !== id)
         })
-    }, [])
+    }, [restoreServerEntry])
 
     const reattachConsoleEntry = useCallback((entry: ConsoleEntry) => {
         setAttachedConsoleEntries(prev => {
@@ -225,14 +244,22 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
     }, [])
 
     const dismissConsoleEntry = useCallback((id: string) => {
+        if (isServerEntryId(id)) {
+            removeServerEntry(id)
+            return
+        }
         setConsoleEntries(prev => prev.filter(e => e.id !== id))
         window.parent.postMessage({ type: 'AWEL_CONSOLE_DISMISS', id }, '*')
-    }, [])
+    }, [removeServerEntry])
 
-    const clearConsoleEntries = useCallback(() => {
+    const clearConsoleEntries = useCallback((origin: 'browser' | 'server' = 'browser') => {
+        if (origin === 'server') {
+            clearServerEntries()
+            return
+        }
         setConsoleEntries([])
         window.parent.postMessage({ type: 'AWEL_CONSOLE_CLEAR' }, '*')
-    }, [])
+    }, [clearServerEntries])
 
     // Keep ref in sync for use inside stable callbacks
     useEffect(() => { attachedConsoleEntriesRef.current = attachedConsoleEntries }, [attachedConsoleEntries])
@@ -254,14 +281,16 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
         attachedElements?: SelectedElement[]
         contentSegments?: ContentSegment[]
     }) => {
-        // Store to server for persistence
+        // Store to server for persistence, under the same id so the message can be forked from
+        const id = crypto.randomUUID()
         fetch('/api/chat/history', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ eventType: 'user', data: JSON.stringify({ type: 'user', text }) }),
+            body: JSON.stringify({ id, eventType: 'user', data: JSON.stringify({ type: 'user', text }) }),
         }).catch(() => { /* ignore persistence errors */ })
 
         return addParsedMessage({
+            id,
             type: 'user',
             text,
             imageUrls: opts?.imageUrls,
@@ -300,10 +329,10 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
                     return
                 }
 
-                const shouldClearStatus = parsed.type && ['text', 'tool_use', 'tool_result', 'result', 'plan', 'question', 'confirm'].includes(parsed.type)
+                const shouldClearStatus = parsed.type && ['text', 'tool_use', 'tool_result', 'result', 'plan', 'question', 'confirm', 'compact_boundary', 'error', 'done'].includes(parsed.type)
 
                 setMessages(prev => {
-                    const base = shouldClearStatus ? prev.filter(m => m.type !== 'status') : prev
+                    const base = shouldClearStatus ? prev.filter(m => !isTransientStatus(m)) : prev
 
                     // Merge consecutive text events for smooth streaming
                     if (parsed.type === 'text' && parsed.text) {
@@ -329,6 +358,22 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
         }
     }, [])
 
+    // Live Bash output is appended to its tool_use message until the result arrives
+    const handleToolOutputEvent = useCallback((e: MessageEvent) => {
+        let data: { tool_use_id?: string; chunk?: string }
+        try {
+            data = JSON.parse(e.data || '')
+        } catch {
+            return
+        }
+        if (!data.tool_use_id || !data.chunk) return
+        setMessages(prev => prev.map(m => {
+            if (m.type !== 'tool_use' || m.toolUseId !== data.tool_use_id) return m
+            const liveOutput = ((m.liveOutput || '') + data.chunk).slice(-LIVE_OUTPUT_MAX_CHARS)
+            return { ...m, liveOutput }
+        }))
+    }, [])
+
     const handleErrorEvent = useCallback((e: Event) => {
         if (e instanceof MessageEvent) {
             addParsedMessage({ type: 'error', text: e.data || 'Connection error' })
@@ -351,6 +396,7 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
         for (const type of SSE_EVENT_TYPES) {
             es.addEventListener(type, handleSSEEvent(type))
         }
+        es.addEventListener('tool_output', handleToolOutputEvent)
 
         es.addEventListener('done', (e) => {
             handleSSEEvent('done')(e as MessageEvent)
@@ -372,7 +418,7 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
         })
 
         return es
-    }, [handleSSEEvent, handleErrorEvent])
+    }, [handleSSEEvent, handleToolOutputEvent, handleErrorEvent])
 
     // Ref so the mount effect can call the latest connectEventSource without re-running
     const connectEventSourceRef = useRef(connectEventSource)
@@ -463,7 +509,7 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
         setAborted(true)
         // Remove status messages and add an aborted message
         setMessages(prev => [
-            ...prev.filter(m => m.type !== 'status'),
+            ...prev.filter(m => !isTransientStatus(m)),
             {
                 id: crypto.randomUUID(),
                 type: 'status',
@@ -512,6 +558,67 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
         startStream(augmentedPrompt, entriesToSend, opts?.imageDataUrls)
     }, [addUserMessage, startStream])
 
+    // ─── Edit & Resend ───────────────────────────────────────
+
+    // Forks the conversation into a new thread just before the given user
+    // message, then sends the edited text there with the original message's
+    // images, elements and console entries. The original thread is kept.
+    // Resolves to the conflicting files when reverting later changes would
+    // overwrite other edits; `force` reverts them anyway.
+    const handleEditResend = useCallback(async (message: ParsedMessage, text: string, revertChanges: boolean, force = false): Promise<string[] | null> => {
+        let reverted: string[] = []
+        try {
+            const res = await fetch('/api/threads/fork', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ messageId: message.id, revertChanges, force }),
+            })
+            const data = await res.json()
+            if (!data.success && data.conflicts?.length > 0) {
+                return data.conflicts.map((c: { file: string }) => c.file)
+            }
+            if (!data.success) {
+                addParsedMessage({ type: 'error', text: data.error || 'Failed to fork the conversation' })
+                return null
+            }
+            reverted = data.reverted ?? []
+        } catch {
+            addParsedMessage({ type: 'error', text: 'Failed to fork the conversation' })
+            return null
+        }
+
+        setMessages(prev => {
+            const index = prev.findIndex(m => m.id === message.id)
+            return index >= 0 ? prev.slice(0, index) : prev
+        })
+        if (reverted.length > 0) {
+            addParsedMessage({ type: 'status', text: 'reverted', revertedFiles: reverted })
+            fetch('/api/chat/history', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ eventType: 'reverted', data: JSON.stringify({ files: reverted }) }),
+            }).catch(() => {})
+        }
+
+        // Inline segments hold the original text, so they only fit it unedited
+        const elements = message.attachedElements
+        const prompt = elements && elements.length > 0
+            ? buildMultiElementContext(elements) + '\n\n' + text
+            : text
+        addUserMessage(text, {
+            imageUrls: message.imageUrls,
+            consoleEntries: message.consoleEntries,
+            attachedElements: elements,
+            contentSegments: text === message.text ? message.contentSegments : undefined,
+        })
+        startStream(prompt, message.consoleEntries, message.imageUrls)
+        return null
+    }, [addParsedMessage, addUserMessage, startStream])
+
+    const handleContinue = useCallback(() => {
+        submitMessage(CONTINUE_PROMPT)
+    }, [submitMessage])
+
     // ─── Plan Handlers ───────────────────────────────────────
 
     const handlePlanApprove = useCallback(async (planId: string, autoApprove?: boolean) => {
@@ -602,7 +709,7 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
 
     // ─── Confirm Handler ─────────────────────────────────────
 
-    const handleConfirmResponse = useCallback((confirmId: string, approved: boolean, opts?: { allowAll?: boolean; category?: string }) => {
+    const handleConfirmResponse = useCallback((confirmId: string, approved: boolean, opts?: { allowAll?: boolean; alwaysAllow?: boolean; category?: string }) => {
         // Optimistically update the message state
         if (approved && opts?.allowAll) {
             // "Allow All" - approve all unresolved confirm messages of the same category
@@ -610,7 +717,9 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
             setMessages(prev => prev.map(m => {
                 if (m.type !== 'confirm' || m.confirmResolved) return m
                 // Check if this confirm belongs to the same category
-                const msgCategory = m.confirmToolName === 'Bash' ? 'bash' : 'fileWrites'
+                const msgCategory = m.confirmToolName === 'Bash' ? 'bash'
+                    : m.confirmToolName?.startsWith('mcp__') ? 'mcp'
+                    : 'fileWrites'
                 if (targetCategory && msgCategory !== targetCategory) return m
                 return { ...m, confirmResolved: true, confirmApproved: true }
             }))
@@ -630,6 +739,7 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
                 confirmId,
                 approved,
                 allowAll: opts?.allowAll || false,
+                alwaysAllow: opts?.alwaysAllow || false,
                 category: opts?.category,
             }),
         }).catch(() => {})
@@ -641,6 +751,12 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
         ))
     }, [])
 
+    const handleRedone = useCallback((msgId: string) => {
+        setMessages(prev => prev.map(m =>
+            m.id === msgId ? { ...m, undone: false } : m
+        ))
+    }, [])
+
     // ─── Render ──────────────────────────────────────────────
 
     const renderedMessages = useMemo(() => {
@@ -671,6 +787,9 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
                     i++
                 }
                 const toolUseCount = groupMessages.filter(m => m.type === 'tool_use').length
+                // Live output only matters while a tool is still running
+                const finishedIds = new Set(groupMessages.filter(m => m.type === 'tool_result' && m.toolUseId).map(m => m.toolUseId))
+                const running = groupMessages.filter(m => m.type === 'tool_use' && m.liveOutput && !finishedIds.has(m.toolUseId))
 
                 const children = groupMessages.map(m => {
                     if (m.type === 'tool_use') {
@@ -678,6 +797,7 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
                             key: m.id,
                             toolName: m.toolName || 'Tool',
                             input: m.toolInput,
+                            liveOutput: finishedIds.has(m.toolUseId) ? undefined : m.liveOutput,
                         })
                     }
                     return createElement(ToolResultMessage, {
@@ -692,6 +812,7 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
                     createElement(ToolGroup, {
                         key: `tool-group-${groupMessages[0].id}`,
                         toolCount: toolUseCount,
+                        liveOutput: running[running.length - 1]?.liveOutput,
                         children,
                     })
                 )
@@ -711,10 +832,11 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
                         contentSegments: msg.contentSegments,
                         onConsoleEntryClick: reattachConsoleEntry,
                         onImageClick: (images: string[], index: number) => onImageClickRef.current?.(images, index),
+                        onEditResend: isLoading ? undefined : (text: string, revertChanges: boolean, force?: boolean) => handleEditResend(msg, text, revertChanges, force),
                     })
                     break
                 case 'status':
-                    element = createElement(StatusMessage, { key: msg.id, text: msg.text || '' })
+                    element = createElement(StatusMessage, { key: msg.id, text: msg.text || '', revertedFiles: msg.revertedFiles })
                     break
                 case 'text':
                     element = msg.text ? createElement(AssistantMessage, { key: msg.id, text: msg.text }) : null
@@ -793,10 +915,14 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
                         cacheReadTokens: msg.cacheReadTokens,
                         cacheWriteTokens: msg.cacheWriteTokens,
                         fileStats: msg.fileStats,
+                        undoSessionId: msg.undoSessionId,
                         undone: msg.undone,
+                        verification: msg.verification,
                         isLatest: i === lastResultIndex,
                         onReviewDiffs,
                         onUndone: handleUndone,
+                        onRedone: handleRedone,
+                        onContinue: isLoading ? undefined : handleContinue,
                     })
                     break
                 case 'error':
@@ -811,7 +937,7 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
         }
 
         return elements
-    }, [messages, handlePlanApprove, handlePlanComment, handleQuestionAnswer, handleConfirmResponse, reattachConsoleEntry, onReviewDiffs, aborted])
+    }, [messages, handlePlanApprove, handlePlanComment, handleQuestionAnswer, handleConfirmResponse, reattachConsoleEntry, onReviewDiffs, aborted, isLoading, handleEditResend, handleContinue])
 
     const clearMessages = useCallback(() => {
         setMessages([])
@@ -829,6 +955,7 @@ export function useConsole(selectedModel: string, selectedModelProvider: string,
         messagesEndRef,
         renderedMessages,
         consoleEntries,
+        serverEntries,
         handleConsoleEntryClick,
         dismissConsoleEntry,
         clearConsoleEntries,
@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import type { ConsoleEntry } from '../types/messages'
+
+interface DevServerLogEntry {
+    id: number
+    level: 'error' | 'warning' | 'info'
+    kind: 'compile' | 'runtime' | 'request' | 'output'
+    message: string
+    timestamp: number
+    count: number
+}
+
+const SERVER_ID_PREFIX = 'server-'
+
+export function isServerEntryId(id: string): boolean {
+    return id.startsWith(SERVER_ID_PREFIX)
+}
+
+function toConsoleEntry(entry: DevServerLogEntry): ConsoleEntry {
+    return {
+        id: `${SERVER_ID_PREFIX}${entry.id}`,
+        level: entry.level === 'error' ? 'error' : 'warning',
+        message: entry.message,
+        timestamp: entry.timestamp,
+        count: entry.count,
+        origin: 'server',
+    }
+}
+
+/**
+ * Errors and warnings from the dev server, streamed from the Awel server.
+ * Dismissed entries stay hidden even when the server updates them.
+ */
+export function useServerLogs() {
+    const [serverEntries, setServerEntries] = useState<ConsoleEntry[]>([])
+    const dismissedRef = useRef(new Set<string>())
+
+    useEffect(() => {
+        const es = new EventSource('/api/dev-server/logs?level=warning')
+
+        es.addEventListener('snapshot', (e) => {
+            const { entries } = JSON.parse((e as MessageEvent).data) as { entries: DevServerLogEntry[] }
+            setServerEntries(entries.map(toConsoleEntry).filter(entry => !dismissedRef.current.has(entry.id)))
+        })
+
+        es.addEventListener('entry', (e) => {
+            const entry = toConsoleEntry(JSON.parse((e as MessageEvent).data) as DevServerLogEntry)
+            if (dismissedRef.current.has(entry.id)) return
+            setServerEntries(prev => {
+                const index = prev.findIndex(existing => existing.id === entry.id)
+                if (index === -1) return [...prev, entry]
+                const next = [...prev]
+                next[index] = entry
+                return next
+            })
+        })
+
+        return () => es.close()
+    }, [])
+
+    const removeServerEntry = useCallback((id: string) => {
+        dismissedRef.current.add(id)
+        setServerEntries(prev => prev.filter(e => e.id !== id))
+    }, [])
+
+    const restoreServerEntry = useCallback((entry: ConsoleEntry) => {
+        dismissedRef.current.delete(entry.id)
+        setServerEntries(prev => prev.some(e => e.id === entry.id) ? prev : [...prev, entry])
+    }, [])
+
+    const clearServerEntries = useCallback(() => {
+        setServerEntries(prev => {
+            for (const entry of prev) dismissedRef.current.add(entry.id)
+            return []
+        })
+    }, [])
+
+    return { serverEntries, removeServerEntry, restoreServerEntry, clearServerEntries }
+}
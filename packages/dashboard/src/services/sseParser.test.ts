@@ -57,6 +57,13 @@ describe('parseSSEData', () => {
         expect(result!.isError).toBeFalsy();
     });
 
+    it('keeps tool call ids for pairing live output and results', () => {
+        const use = parseSSEData('tool_use', JSON.stringify({ tool: 'Bash', input: { command: 'ls' }, id: 'call_1' }));
+        const result = parseSSEData('tool_result', JSON.stringify({ tool: 'Bash', content: 'ok', tool_use_id: 'call_1' }));
+        expect(use!.toolUseId).toBe('call_1');
+        expect(result!.toolUseId).toBe('call_1');
+    });
+
     it('parses tool_result event with object content', () => {
         const data = { tool: 'Glob', content: ['file1.ts', 'file2.ts'] };
         const result = parseSSEData('tool_result', JSON.stringify(data));
@@ -83,6 +90,20 @@ describe('parseSSEData', () => {
         expect(result!.isError).toBe(false);
     });
 
+    it('parses the verification summary of a result event', () => {
+        const data = {
+            subtype: 'success',
+            verification: { passed: false, fix_attempts: 2, checks: [{ name: 'typecheck', passed: false, duration_ms: 3100 }] },
+        };
+        const result = parseSSEData('result', JSON.stringify(data));
+        expect(result!.verification).toEqual({
+            passed: false,
+            fixAttempts: 2,
+            checks: [{ name: 'typecheck', passed: false, durationMs: 3100 }],
+        });
+        expect(parseSSEData('result', JSON.stringify({ subtype: 'success' }))!.verification).toBeUndefined();
+    });
+
     it('parses result event with error subtype', () => {
         const data = { subtype: 'error_max_turns', is_error: true, errors: ['Too many turns'] };
         const result = parseSSEData('result', JSON.stringify(data));
@@ -1,4 +1,4 @@
-import type { ParsedMessage, ResultSubtype } from '../types/messages'
+import type { ParsedMessage, ResultSubtype, VerificationSummary } from '../types/messages'
 
 /** Coerce an unknown value into a readable string. */
 function stringify(value: unknown): string {
@@ -7,6 +7,17 @@ function stringify(value: unknown): string {
     try { return JSON.stringify(value) } catch { return String(value) }
 }
 
+/** Converts the result event's `verification` field, if present. */
+function parseVerification(value: unknown): VerificationSummary | undefined {
+    if (!value || typeof value !== 'object') return undefined
+    const v = value as { passed?: boolean; fix_attempts?: number; checks?: Array<{ name: string; passed: boolean; duration_ms: number }> }
+    return {
+        passed: v.passed === true,
+        fixAttempts: v.fix_attempts ?? 0,
+        checks: (v.checks ?? []).map(c => ({ name: c.name, passed: c.passed, durationMs: c.duration_ms })),
+    }
+}
+
 /**
  * Parses raw SSE event data into a partial ParsedMessage.
  * Pure function with no React dependencies.
@@ -42,6 +53,7 @@ export function parseSSEData(eventType: string, rawData: string): Partial<Parsed
                     type: 'tool_use',
                     toolName: data.tool || data.name,
                     toolInput: data.input,
+                    toolUseId: data.id,
                 }
             }
 
@@ -53,6 +65,7 @@ export function parseSSEData(eventType: string, rawData: string): Partial<Parsed
                     type: 'tool_result',
                     toolName: data.tool,
                     toolOutput: result,
+                    toolUseId: data.tool_use_id || undefined,
                     isError: data.is_error || data.subtype?.startsWith('error'),
                 }
             }
@@ -75,6 +88,8 @@ export function parseSSEData(eventType: string, rawData: string): Partial<Parsed
                     cacheReadTokens: data.cache_read_tokens,
                     cacheWriteTokens: data.cache_write_tokens,
                     fileStats: data.file_stats,
+                    undoSessionId: data.undo_session_id,
+                    verification: parseVerification(data.verification),
                     isError: data.is_error || data.subtype !== 'success',
                 }
             }
@@ -114,6 +129,8 @@ export function parseSSEData(eventType: string, rawData: string): Partial<Parsed
                         cacheReadTokens: data.cache_read_tokens,
                         cacheWriteTokens: data.cache_write_tokens,
                         fileStats: data.file_stats,
+                        undoSessionId: data.undo_session_id,
+                        verification: parseVerification(data.verification),
                         isError: data.is_error || data.subtype !== 'success',
                     }
                 }
@@ -171,6 +188,9 @@ export function parseSSEData(eventType: string, rawData: string): Partial<Parsed
             case 'aborted':
                 return { type: 'status', text: 'aborted' }
 
+            case 'reverted':
+                return { type: 'status', text: 'reverted', revertedFiles: Array.isArray(data.files) ? data.files : [] }
+
             default:
                 return null
         }
@@ -2,6 +2,13 @@ export type MessageType = 'text' | 'tool_use' | 'tool_result' | 'error' | 'statu
 
 export type ResultSubtype = 'success' | 'waiting_for_input' | 'error_max_turns' | 'error_during_execution' | 'error_max_budget_usd' | 'error_max_structured_output_retries'
 
+/** Checks run after the agent changed files */
+export interface VerificationSummary {
+    passed: boolean
+    fixAttempts: number
+    checks: Array<{ name: string; passed: boolean; durationMs: number }>
+}
+
 export interface ParsedMessage {
     id: string
     type: MessageType
@@ -11,6 +18,9 @@ export interface ParsedMessage {
     toolName?: string
     toolInput?: Record<string, unknown>
     toolOutput?: string
+    toolUseId?: string
+    // Output streamed by a running tool (Bash), replaced by the result when it finishes
+    liveOutput?: string
     isError?: boolean
     model?: string
     tools?: string[]
@@ -27,7 +37,11 @@ export interface ParsedMessage {
     cacheReadTokens?: number
     cacheWriteTokens?: number
     fileStats?: Array<{ relativePath: string; additions: number; deletions: number; isNew: boolean }>
+    undoSessionId?: string
     undone?: boolean
+    // Files a fork rolled back ('reverted' status)
+    revertedFiles?: string[]
+    verification?: VerificationSummary
     // Compact boundary fields
     compactTrigger?: 'manual' | 'auto'
     preTokens?: number
@@ -94,6 +108,8 @@ export interface ConsoleEntry {
     stack?: string
     timestamp: number
     count: number
+    /** 'server' for dev server output; browser console otherwise */
+    origin?: 'browser' | 'server'
 }
 
 export interface PageContext {
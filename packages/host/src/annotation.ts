@@ -567,6 +567,13 @@ function finishAnnotation(): void {
 
   const finalDataUrl = finalCanvas.toDataURL('image/png');
 
+  // Keep the latest screenshot on the server for its MCP endpoint
+  fetch('/api/browser/screenshot', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ dataUrl: finalDataUrl }),
+  }).catch(() => { });
+
   // Open sidebar if not already open
   if (!isSidebarVisible()) {
     openOverlay();
@@ -27,6 +27,7 @@ export function setDashboardIframe(iframe: HTMLIFrameElement | null): void {
 
 export function setConsoleEntries(entries: ConsoleEntry[]): void {
   consoleEntries = entries;
+  syncConsoleEntries();
 }
 
 export function setConsoleHasUnviewed(value: boolean): void {
@@ -41,6 +42,21 @@ export function broadcastConsoleEntries(): void {
   if (dashboardIframe?.contentWindow) {
     dashboardIframe.contentWindow.postMessage({ type: 'AWEL_CONSOLE_ENTRIES', entries: consoleEntries }, '*');
   }
+  syncConsoleEntries();
+}
+
+// Mirror entries to the Awel server (read by its MCP endpoint).
+// Debounced so a burst of errors becomes a single request.
+let syncTimer: ReturnType<typeof setTimeout> | undefined;
+function syncConsoleEntries(): void {
+  clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => {
+    fetch('/api/browser/console', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ entries: consoleEntries }),
+    }).catch(() => { });
+  }, 500);
 }
 
 export function updateConsoleDot(): void {
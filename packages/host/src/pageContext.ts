@@ -16,43 +16,62 @@ let currentPageContext: PageContext | null = null;
 
 export function broadcastPageContext(): void {
   if (!currentPageContext) return;
+  // Mirror to the Awel server (read by its MCP endpoint)
+  fetch('/api/browser/page-context', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(currentPageContext),
+  }).catch(() => { });
   if (!dashboardIframe?.contentWindow) return;
   dashboardIframe.contentWindow.postMessage({ type: 'AWEL_PAGE_CONTEXT', context: currentPageContext }, '*');
 }
 
+// Used when the Awel server didn't say where the framework renders
+const DEFAULT_ROOT_SELECTORS = ['#__next', '#root'];
+
+function getRootSelectors(): string[] {
+  const injected = (window as unknown as Record<string, unknown>).__AWEL_ROOT_SELECTORS__;
+  return Array.isArray(injected) ? injected as string[] : DEFAULT_ROOT_SELECTORS;
+}
+
 /**
- * Walk the React fiber tree from the app root to find the first user component.
- * Reuses the same heuristic as inspector.ts: PascalCase name + _debugSource
- * pointing to a non-node_modules file.
+ * The fiber for a root element: its own fiber when React rendered it, or
+ * the root fiber when React renders into it (createRoot containers).
  */
-function findRouteComponent(): string | undefined {
-  const root = document.getElementById('__next') || document.getElementById('root');
-  if (!root) return undefined;
-
-  // Find the fiber key on the root DOM node
-  let fiberKey: string | undefined;
+function getRootFiber(root: Element): Record<string, unknown> | null {
   for (const key of Object.keys(root)) {
-    if (key.startsWith('__reactFiber') || key.startsWith('__reactInternalInstance')) {
-      fiberKey = key;
-      break;
+    if (key.startsWith('__reactFiber') || key.startsWith('__reactInternalInstance') || key.startsWith('__reactContainer')) {
+      return (root as unknown as Record<string, unknown>)[key] as Record<string, unknown> | null;
     }
   }
-  if (!fiberKey) return undefined;
-
-  let fiber = (root as Record<string, unknown>)[fiberKey] as Record<string, unknown> | null;
-  while (fiber) {
-    if (typeof fiber.type === 'function') {
-      const fn = fiber.type as { displayName?: string; name?: string };
-      const name = fn.displayName || fn.name;
-      if (name && /^[A-Z][a-zA-Z0-9]*$/.test(name)) {
-        const src = fiber._debugSource as { fileName?: string } | undefined;
-        if (src?.fileName && !/node_modules/.test(src.fileName)) {
-          return name;
+  return null;
+}
+
+/**
+ * Walk the React fiber tree from the app root to find the first user component.
+ * Reuses the same heuristic as inspector.ts: PascalCase name + _debugSource
+ * pointing to a non-node_modules file. Frameworks with several roots
+ * (Astro islands) are searched root by root.
+ */
+function findRouteComponent(): string | undefined {
+  for (const selector of getRootSelectors()) {
+    for (const root of Array.from(document.querySelectorAll(selector))) {
+      let fiber = getRootFiber(root);
+      while (fiber) {
+        if (typeof fiber.type === 'function') {
+          const fn = fiber.type as { displayName?: string; name?: string };
+          const name = fn.displayName || fn.name;
+          if (name && /^[A-Z][a-zA-Z0-9]*$/.test(name)) {
+            const src = fiber._debugSource as { fileName?: string } | undefined;
+            if (src?.fileName && !/node_modules/.test(src.fileName)) {
+              return name;
+            }
+          }
         }
+        // Walk down via child, not up via return
+        fiber = (fiber.child as Record<string, unknown> | null);
       }
     }
-    // Walk down via child, not up via return
-    fiber = (fiber.child as Record<string, unknown> | null);
   }
   return undefined;
 }
@@ -69,6 +88,7 @@ function capturePageContext(): void {
 
 export function setupPageContextTracking(): void {
   capturePageContext();
+  broadcastPageContext();
 
   let debounceTimer: ReturnType<typeof setTimeout> | undefined;
   function onNavigation() {